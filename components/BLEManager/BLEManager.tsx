@@ -1,57 +1,72 @@
 // ==============================================
 // Void top-level component to manage BLE devices
 // ==============================================
-import React, { useEffect, useState } from 'react';
-import { BleManager, Device, Subscription } from 'react-native-ble-plx';
-import { useAppDispatch, useAppSelector } from '../../hooks/hooks';
+import React, { useEffect, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import { useAppDispatch, useAppSelector, useBleTransport, useJournal } from '../../hooks/hooks';
 import {
-    disconnectDevice,
-    selectConnectedDevice,
+    checkPermissions,
+    handleDeviceDisconnected,
+    requestPermissions,
+    selectBleReadiness,
+    selectConnectedDevices,
     setAdapterState,
-    setLocationPermissionStatus,
 } from '../../store/ble/bleSlice';
-import * as Location from 'expo-location';
+import { autoConnectPreferredDevice, selectKnownDevicesLoadStatus } from '../../store/knownDevices/knownDevicesSlice';
+import { appStateChanged, restoreBackgroundSession } from '../../store/background/backgroundSlice';
+import { NetworkState } from '../../store/ble/bleSlice.contracts';
 import { useToast } from 'native-base';
 import { globalStyles } from '../../constants/globalStyles';
-import bleServices from '../../constants/bleServices';
-
-const bleManager = new BleManager();
-let device: Device;
+import { TransportSubscription } from '../../services/ble';
+import { errorMessage } from '../../utils/errors';
 
 const BLEManager = () => {
-    const [subscriptions, setSubscriptions] = useState<Array<Subscription>>([]);
-    const connectedDevice = useAppSelector(selectConnectedDevice);
+    const [subscriptions, setSubscriptions] = useState<Array<TransportSubscription>>([]);
+    // Disconnect listeners keyed by device id. A listener outlives reconnects of its device.
+    const disconnectSubscriptions = useRef(new Map<string, TransportSubscription>());
+    const bleTransport = useBleTransport();
+    const journal = useJournal();
+    const connectedDevices = useAppSelector(selectConnectedDevices);
+    const readiness = useAppSelector(selectBleReadiness);
+    const knownDevicesStatus = useAppSelector(selectKnownDevicesLoadStatus);
+    // Auto-connect runs once per launch, not every time Bluetooth is switched back on
+    const hasAutoConnected = useRef(false);
     const dispatch = useAppDispatch();
     const toast = useToast();
 
-    const disconnectCallback = () => {
-        console.log('BLEManager: disconnectCallback triggered');
-        if (connectedDevice) dispatch(disconnectDevice());
+    const disconnectCallback = async (error: Error | null, deviceId: string) => {
+        let result;
+        try {
+            result = await dispatch(handleDeviceDisconnected({ id: deviceId, error: error?.message ?? null })).unwrap();
+        } catch (handlingError: any) {
+            journal.record({ level: 'error', category: 'connection', deviceId, message: `Handling the disconnect failed: ${errorMessage(handlingError)}` });
+            return;
+        }
+        if (result === 'ignored') return;
         toast.show({
-            description: 'Disconnected from device',
+            description: result === 'reconnecting' ? 'Connection lost, reconnecting...' : 'Disconnected from device',
             ...globalStyles.toast.default,
         });
     }
 
-    const checkDevices = async () => {
-        if (connectedDevice && !device) {
-            const devices = await bleManager.connectedDevices([bleServices.sample.SAMPLE_SERVICE_UUID]);
-            device = devices[0];
-            if (device) {
-                const subscription = device.onDisconnected(disconnectCallback);
-                setSubscriptions(prevState => [...prevState, subscription]);
-            }
-            else {
-                device = await bleManager.connectToDevice(connectedDevice.id);
-                const subscription = device.onDisconnected(disconnectCallback);
-                setSubscriptions(prevState => [...prevState, subscription]);
+    const checkDevices = () => {
+        const connectedIds = connectedDevices.map(device => device.id);
+        disconnectSubscriptions.current.forEach((subscription, deviceId) => {
+            if (!connectedIds.includes(deviceId)) {
+                subscription.remove();
+                disconnectSubscriptions.current.delete(deviceId);
             }
-        }
+        });
+        connectedIds
+            .filter(deviceId => !disconnectSubscriptions.current.has(deviceId))
+            .forEach(deviceId => {
+                disconnectSubscriptions.current.set(deviceId, bleTransport.onDisconnected(deviceId, disconnectCallback));
+            });
     }
 
     // BLE Adapter State Manager
     useEffect(() => {
-        const subscription = bleManager.onStateChange((state) => {
+        const subscription = bleTransport.onStateChange((state) => {
             dispatch(setAdapterState({ adapterState: state }));
             setSubscriptions(prevState => [...prevState, subscription])
         }, true);
@@ -68,14 +83,43 @@ const BLEManager = () => {
     useEffect(() => {
         // Manage device connection changes
         checkDevices();
-    }, [connectedDevice])
+    }, [connectedDevices])
 
-    // Permissions manager
+    // Once the radio is on and the known devices are loaded, adopt the connections iOS kept while the app was not
+    // running, or connect to the preferred device when there are none
     useEffect(() => {
+        const isLoaded = knownDevicesStatus === NetworkState.SUCCESS || knownDevicesStatus === NetworkState.ERROR;
+        if (hasAutoConnected.current || !isLoaded || readiness !== 'ready') return;
+        hasAutoConnected.current = true;
         (async () => {
-            const { status } = await Location.requestForegroundPermissionsAsync();
-            dispatch(setLocationPermissionStatus({ status }));
+            const restored = await dispatch(restoreBackgroundSession());
+            if (restoreBackgroundSession.fulfilled.match(restored) && restored.payload.length > 0) {
+                toast.show({
+                    description: `Restored ${restored.payload.length} connection${restored.payload.length > 1 ? 's' : ''}`,
+                    ...globalStyles.toast.default,
+                });
+                return;
+            }
+            const result = await dispatch(autoConnectPreferredDevice());
+            if (autoConnectPreferredDevice.rejected.match(result)) {
+                toast.show({
+                    description: result.error.message ?? 'Could not connect to the preferred device',
+                    ...globalStyles.toast.default,
+                });
+            }
         })();
+    }, [readiness, knownDevicesStatus]);
+
+    // Permissions manager: ask once on launch, then re-check whenever the app comes back, e.g. from the system settings.
+    // The app state also tells background monitoring when to show its notification.
+    useEffect(() => {
+        dispatch(requestPermissions());
+        dispatch(appStateChanged({ appState: AppState.currentState }));
+        const subscription = AppState.addEventListener('change', (state) => {
+            dispatch(appStateChanged({ appState: state }));
+            if (state === 'active') dispatch(checkPermissions());
+        });
+        return () => subscription.remove();
     }, []);
 
     return null;
@@ -0,0 +1,124 @@
+import React from 'react';
+import { Switch, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { appColors, globalStyles } from '../../constants/globalStyles';
+import { useAppDispatch, useAppSelector } from '../../hooks/hooks';
+import { selectDisplaySettings } from '../../store/calibration/calibrationSlice';
+import { addAlertRule, removeAlertRule, selectAlertRules, updateAlertRule } from '../../store/alerts/alertsSlice';
+import { AlertCondition, AlertConditionType, IAlertRule } from '../../store/alerts/alertsSlice.contracts';
+import { defaultAlertConditions, describeCondition } from '../../store/alerts/alertRules';
+import { convertWeight, toGrams } from '../../utils/weightUnits';
+import { NumberInput, SettingRow } from '../calibration/CalibrationEditor';
+
+const DEFAULT_HYSTERESIS = 10;
+
+const conditionLabels: { [type in AlertConditionType]: string } = {
+    below: 'Below for',
+    above: 'Rises above',
+    rateOfChange: 'Rate of change',
+};
+
+const AddButton = (props: { label: string, onPress: () => void }) => (
+    <TouchableOpacity
+        onPress={props.onPress}
+        style={{ paddingHorizontal: 10, paddingVertical: 4, borderRadius: 5, marginRight: 6, marginTop: 4, borderWidth: 1, borderColor: appColors.primary }}
+    >
+        <Text style={{ ...globalStyles.text.p, color: appColors.primary }}>{`+ ${props.label}`}</Text>
+    </TouchableOpacity>
+);
+
+interface AlertRulesEditorProps {
+    deviceId: string;
+}
+
+// Threshold rules of one device. Weights are entered in the display unit.
+const AlertRulesEditor = (props: AlertRulesEditorProps) => {
+    const { deviceId } = props;
+    const rules = useAppSelector(selectAlertRules(deviceId));
+    const display = useAppSelector(selectDisplaySettings);
+    const dispatch = useAppDispatch();
+    const weightLabel = (label: string) => `${label} (${display.unit})`;
+    const weightInput = (grams: number, onCommit: (grams: number) => void) => (
+        <NumberInput value={convertWeight(grams, display.unit)} onCommit={value => value >= 0 && onCommit(toGrams(value, display.unit))}/>
+    );
+
+    const update = (rule: IAlertRule, changes: Partial<IAlertRule>) => {
+        dispatch(updateAlertRule({ deviceId, ruleId: rule.id, changes }));
+    };
+
+    const updateCondition = (rule: IAlertRule, condition: AlertCondition) => update(rule, { condition });
+
+    const add = (type: AlertConditionType) => {
+        const condition = defaultAlertConditions[type];
+        dispatch(addAlertRule({
+            deviceId, condition, name: describeCondition(condition, display), hysteresis: DEFAULT_HYSTERESIS, enabled: true,
+        }));
+    };
+
+    const renderCondition = (rule: IAlertRule) => {
+        const { condition } = rule;
+        switch (condition.type) {
+            case 'below':
+                return (
+                    <>
+                        <SettingRow label={weightLabel('Below')}>
+                            {weightInput(condition.threshold, threshold => updateCondition(rule, { ...condition, threshold }))}
+                        </SettingRow>
+                        <SettingRow label="For (s)">
+                            <NumberInput value={condition.durationMs / 1000}
+                                onCommit={seconds => seconds >= 0 && updateCondition(rule, { ...condition, durationMs: Math.round(seconds * 1000) })}/>
+                        </SettingRow>
+                    </>
+                );
+            case 'above':
+                return (
+                    <SettingRow label={weightLabel('Above')}>
+                        {weightInput(condition.threshold, threshold => updateCondition(rule, { ...condition, threshold }))}
+                    </SettingRow>
+                );
+            case 'rateOfChange':
+                return (
+                    <SettingRow label={weightLabel('Per minute')}>
+                        {weightInput(condition.threshold, threshold => updateCondition(rule, { ...condition, threshold }))}
+                    </SettingRow>
+                );
+        }
+    };
+
+    return (
+        <View style={{ width: '100%' }}>
+            {rules.length === 0 &&
+                <Text style={{ ...globalStyles.text.p, color: 'grey', marginTop: 4 }}>No alerts for this device</Text>
+            }
+            {rules.map(rule => (
+                <View key={rule.id} style={{ borderBottomWidth: 1, borderBottomColor: appColors.primaryInactive, paddingVertical: 4 }}>
+                    <View style={{ ...globalStyles.div.row, justifyContent: 'space-between' }}>
+                        <TextInput
+                            style={{ ...globalStyles.text.p, flex: 1, paddingVertical: 2 }}
+                            defaultValue={rule.name}
+                            onEndEditing={event => update(rule, { name: event.nativeEvent.text.trim() || describeCondition(rule.condition, display) })}
+                        />
+                        <Switch value={rule.enabled} onValueChange={enabled => update(rule, { enabled })}/>
+                        <TouchableOpacity onPress={() => dispatch(removeAlertRule({ deviceId, ruleId: rule.id }))}>
+                            <Text style={{ ...globalStyles.text.p, color: appColors.error, marginLeft: 6 }}>Remove</Text>
+                        </TouchableOpacity>
+                    </View>
+                    <Text style={{ fontSize: 12, color: 'grey' }}>{describeCondition(rule.condition, display)}</Text>
+                    {renderCondition(rule)}
+                    <SettingRow label={weightLabel('Hysteresis')}>
+                        {weightInput(rule.hysteresis, hysteresis => update(rule, { hysteresis }))}
+                    </SettingRow>
+                </View>
+            ))}
+            <View style={{ ...globalStyles.div.row, justifyContent: 'flex-start', flexWrap: 'wrap', marginTop: 4 }}>
+                {(Object.keys(conditionLabels) as Array<AlertConditionType>).map(type => (
+                    <AddButton key={type} label={conditionLabels[type]} onPress={() => add(type)}/>
+                ))}
+            </View>
+            <Text style={{ fontSize: 12, color: 'grey', marginTop: 4 }}>
+                A rule fires once, then waits for the reading to move back past its threshold by the hysteresis
+            </Text>
+        </View>
+    );
+};
+
+export default AlertRulesEditor;
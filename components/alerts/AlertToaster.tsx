@@ -0,0 +1,29 @@
+// ==============================================
+// Void top-level component showing fired alerts as toasts
+// ==============================================
+import { useEffect, useRef } from 'react';
+import { useToast } from 'native-base';
+import { useAppSelector } from '../../hooks/hooks';
+import { selectLatestAlertEvent } from '../../store/alerts/alertsSlice';
+import { globalStyles } from '../../constants/globalStyles';
+
+// Vibration and the local notification come from the alert listener, this only adds the in-app toast
+const AlertToaster = () => {
+    const latestEvent = useAppSelector(selectLatestAlertEvent);
+    // Alerts that fired before mounting are not replayed
+    const shownId = useRef(latestEvent?.id);
+    const toast = useToast();
+
+    useEffect(() => {
+        if (!latestEvent || latestEvent.id === shownId.current) return;
+        shownId.current = latestEvent.id;
+        toast.show({
+            description: latestEvent.message,
+            ...globalStyles.toast.default,
+        });
+    }, [latestEvent]);
+
+    return null;
+};
+
+export default AlertToaster;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { Text, View } from 'react-native';
+import { Icon } from 'native-base';
+import { MaterialIcons } from '@expo/vector-icons';
+import { appColors, globalStyles } from '../../constants/globalStyles';
+import { useAppSelector } from '../../hooks/hooks';
+import { selectActiveConnections } from '../../store/ble/bleSlice';
+import { selectIsBackgroundMonitoring } from '../../store/background/backgroundSlice';
+
+// Banner above the tabs while background monitoring keeps links alive. The notification covers the app in the background.
+const BackgroundIndicator = () => {
+    const isMonitoring = useAppSelector(selectIsBackgroundMonitoring);
+    const connections = useAppSelector(selectActiveConnections);
+    const recordingCount = useAppSelector(state => Object.keys(state.sessions.recordings).length);
+
+    if (!isMonitoring) return null;
+
+    const devices = `${connections.length} device${connections.length > 1 ? 's' : ''}`;
+    return (
+        <View style={{ ...globalStyles.div.row, justifyContent: 'center', paddingVertical: 3, backgroundColor: appColors.primary }}>
+            <Icon as={MaterialIcons} name="bluetooth-connected" size={4} color={'white'}/>
+            <Text style={{ color: 'white', fontSize: 12, marginLeft: 6 }}>
+                {`Monitoring ${devices} in the background${recordingCount > 0 ? `, ${recordingCount} recording` : ''}`}
+            </Text>
+        </View>
+    );
+};
+
+export default BackgroundIndicator;
@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { useToast } from 'native-base';
+import { appColors, globalStyles } from '../../constants/globalStyles';
+import { useAppDispatch, useAppSelector } from '../../hooks/hooks';
+import {
+    captureCalibrationPoint,
+    clearTare,
+    resetCalibrationProfile,
+    selectCalibrationProfile,
+    selectDisplaySettings,
+    setCalibrationProfile,
+    tareDevice,
+} from '../../store/calibration/calibrationSlice';
+import { CalibrationMode } from '../../store/calibration/calibrationSlice.contracts';
+import { selectLatestWeightSample } from '../../store/weight/weightSlice';
+import { convertWeight, formatWeight, toGrams } from '../../utils/weightUnits';
+
+const inputStyle = {
+    ...globalStyles.text.p,
+    flex: 1,
+    borderBottomWidth: 1,
+    borderBottomColor: appColors.primaryInactive,
+    paddingVertical: 4,
+    marginLeft: 10,
+};
+
+export const SettingRow = (props: { label: string, children: React.ReactNode }) => (
+    <View style={{ ...globalStyles.div.row, justifyContent: 'space-between', marginVertical: 4 }}>
+        <Text style={{ ...globalStyles.text.p, color: 'grey', width: 110 }}>{props.label}</Text>
+        {props.children}
+    </View>
+);
+
+const ChipButton = (props: { label: string, selected?: boolean, onPress: () => void }) => (
+    <TouchableOpacity
+        onPress={props.onPress}
+        style={{ paddingHorizontal: 10, paddingVertical: 4, borderRadius: 5, marginLeft: 6, backgroundColor: props.selected ? appColors.primary : 'white', borderWidth: 1, borderColor: appColors.primary }}
+    >
+        <Text style={{ ...globalStyles.text.p, color: props.selected ? 'white' : appColors.primary }}>{props.label}</Text>
+    </TouchableOpacity>
+);
+
+// Numeric text field that only commits a valid number when editing ends
+export const NumberInput = (props: { value: number | null, onCommit: (value: number) => void, placeholder?: string }) => {
+    const { value, onCommit, placeholder } = props;
+    const [text, setText] = useState('');
+
+    useEffect(() => {
+        setText(value === null ? '' : `${+value.toFixed(4)}`);
+    }, [value]);
+
+    const commit = () => {
+        const parsed = parseFloat(text.replace(',', '.'));
+        if (isNaN(parsed)) {
+            setText(value === null ? '' : `${+value.toFixed(4)}`);
+            return;
+        }
+        onCommit(parsed);
+    };
+
+    return (
+        <TextInput
+            style={inputStyle}
+            value={text}
+            onChangeText={setText}
+            onEndEditing={commit}
+            keyboardType="numeric"
+            placeholder={placeholder}
+        />
+    );
+};
+
+interface CalibrationEditorProps {
+    deviceId: string;
+}
+
+// Tare, scale factor or two-point calibration and full scale of one device. Weights are entered in the display unit.
+const CalibrationEditor = (props: CalibrationEditorProps) => {
+    const { deviceId } = props;
+    const profile = useAppSelector(selectCalibrationProfile(deviceId));
+    const display = useAppSelector(selectDisplaySettings);
+    const latestSample = useAppSelector(selectLatestWeightSample(deviceId));
+    const [knownLow, setKnownLow] = useState<number | null>(null);
+    const [knownHigh, setKnownHigh] = useState<number | null>(null);
+    const toast = useToast();
+    const dispatch = useAppDispatch();
+    const format = (grams: number | null) => formatWeight(grams, display.unit, display.precision);
+
+    const showError = (message?: string) => {
+        toast.show({
+            description: message ?? 'Unknown error',
+            ...globalStyles.toast.default,
+        });
+    };
+
+    const setProfile = (changes: object) => {
+        dispatch(setCalibrationProfile({ deviceId, profile: changes }));
+    };
+
+    const tarePressHandler = async () => {
+        const result = await dispatch(tareDevice({ deviceId }));
+        if (tareDevice.rejected.match(result)) showError(result.error.message);
+    };
+
+    const capturePressHandler = async (point: 'low' | 'high') => {
+        const known = point === 'low' ? knownLow : knownHigh;
+        if (known === null) {
+            showError('Enter the reference weight first');
+            return;
+        }
+        const result = await dispatch(captureCalibrationPoint({ deviceId, point, known: toGrams(known, display.unit) }));
+        if (captureCalibrationPoint.rejected.match(result)) showError(result.error.message);
+    };
+
+    const modes: Array<{ mode: CalibrationMode, label: string }> = [{ mode: 'linear', label: 'Linear' }, { mode: 'twoPoint', label: 'Two-point' }];
+
+    return (
+        <View style={{ width: '100%' }}>
+            <SettingRow label="Reading">
+                <Text style={{ ...globalStyles.text.p, flex: 1, marginLeft: 10 }}>
+                    {latestSample ? `${format(latestSample.weight)} (uncalibrated ${format(latestSample.uncalibrated)})` : 'No reading'}
+                </Text>
+            </SettingRow>
+            <SettingRow label="Tare">
+                <Text style={{ ...globalStyles.text.p, flex: 1, marginLeft: 10 }}>{format(profile.tareOffset)}</Text>
+                <ChipButton label="Tare" onPress={tarePressHandler}/>
+                <ChipButton label="Clear" onPress={() => dispatch(clearTare({ deviceId }))}/>
+            </SettingRow>
+            <SettingRow label="Calibration">
+                <View style={{ ...globalStyles.div.row, flex: 1 }}>
+                    {modes.map(({ mode, label }) => (
+                        <ChipButton key={mode} label={label} selected={profile.mode === mode} onPress={() => setProfile({ mode })}/>
+                    ))}
+                </View>
+            </SettingRow>
+            {profile.mode === 'linear' &&
+                <SettingRow label="Scale factor">
+                    <NumberInput value={profile.scaleFactor} onCommit={scaleFactor => setProfile({ scaleFactor })}/>
+                </SettingRow>
+            }
+            {profile.mode === 'twoPoint' &&
+                <>
+                    <SettingRow label={`Low (${display.unit})`}>
+                        <NumberInput value={knownLow ?? (profile.twoPoint ? convertWeight(profile.twoPoint.knownLow, display.unit) : null)} onCommit={setKnownLow} placeholder="0"/>
+                        <ChipButton label="Capture" onPress={() => capturePressHandler('low')}/>
+                    </SettingRow>
+                    <SettingRow label={`High (${display.unit})`}>
+                        <NumberInput value={knownHigh ?? (profile.twoPoint ? convertWeight(profile.twoPoint.knownHigh, display.unit) : null)} onCommit={setKnownHigh} placeholder="1000"/>
+                        <ChipButton label="Capture" onPress={() => capturePressHandler('high')}/>
+                    </SettingRow>
+                    <Text style={{ fontSize: 12, color: 'grey' }}>
+                        {profile.twoPoint
+                            ? `Captured ${format(profile.twoPoint.rawLow)} → ${format(profile.twoPoint.knownLow)}, ${format(profile.twoPoint.rawHigh)} → ${format(profile.twoPoint.knownHigh)}`
+                            : 'Place each reference weight on the scale and capture it'}
+                    </Text>
+                </>
+            }
+            <SettingRow label={`Full scale (${display.unit})`}>
+                <NumberInput value={convertWeight(profile.fullScale, display.unit)} onCommit={fullScale => fullScale > 0 && setProfile({ fullScale: toGrams(fullScale, display.unit) })}/>
+            </SettingRow>
+            <TouchableOpacity onPress={() => dispatch(resetCalibrationProfile({ deviceId }))}>
+                <Text style={{ ...globalStyles.text.p, color: appColors.error, marginTop: 8 }}>Reset calibration</Text>
+            </TouchableOpacity>
+        </View>
+    );
+};
+
+export default CalibrationEditor;
@@ -0,0 +1,114 @@
+import React from 'react';
+import { Text, TouchableOpacity, View } from 'react-native';
+import { appColors, globalStyles } from '../../constants/globalStyles';
+import { useAppDispatch, useAppSelector } from '../../hooks/hooks';
+import { selectDisplaySettings } from '../../store/calibration/calibrationSlice';
+import { selectWeightFilterSettings, setFilterSettings } from '../../store/weight/weightSlice';
+import { WeightFilterStage, WeightFilterType } from '../../store/weight/weightSlice.contracts';
+import { defaultFilterStages } from '../../store/weight/weightFilters';
+import { convertWeight, toGrams } from '../../utils/weightUnits';
+import { NumberInput, SettingRow } from './CalibrationEditor';
+
+const MAX_WINDOW = 100;
+
+const filterLabels: { [type in WeightFilterType]: string } = {
+    movingAverage: 'Moving average',
+    exponential: 'Exponential',
+    median: 'Median',
+    outlierRejection: 'Outlier rejection',
+};
+
+const AddButton = (props: { label: string, onPress: () => void }) => (
+    <TouchableOpacity
+        onPress={props.onPress}
+        style={{ paddingHorizontal: 10, paddingVertical: 4, borderRadius: 5, marginRight: 6, marginTop: 4, borderWidth: 1, borderColor: appColors.primary }}
+    >
+        <Text style={{ ...globalStyles.text.p, color: appColors.primary }}>{`+ ${props.label}`}</Text>
+    </TouchableOpacity>
+);
+
+const windowSize = (value: number) => Math.min(MAX_WINDOW, Math.max(1, Math.round(value)));
+
+// Filter stages in the order they run, and the stability detector. Deviations are entered in the display unit.
+const FilterEditor = () => {
+    const settings = useAppSelector(selectWeightFilterSettings);
+    const display = useAppSelector(selectDisplaySettings);
+    const dispatch = useAppDispatch();
+    const { stages, stability } = settings;
+
+    const setStages = (next: Array<WeightFilterStage>) => {
+        dispatch(setFilterSettings({ settings: { stages: next } }));
+    };
+
+    const updateStage = (index: number, stage: WeightFilterStage) => {
+        setStages(stages.map((item, position) => position === index ? stage : item));
+    };
+
+    const renderParameters = (stage: WeightFilterStage, index: number) => {
+        switch (stage.type) {
+            case 'movingAverage':
+            case 'median':
+                return (
+                    <SettingRow label="Window (samples)">
+                        <NumberInput value={stage.window} onCommit={window => updateStage(index, { ...stage, window: windowSize(window) })}/>
+                    </SettingRow>
+                );
+            case 'exponential':
+                return (
+                    <SettingRow label="Alpha (0-1)">
+                        <NumberInput value={stage.alpha} onCommit={alpha => alpha > 0 && alpha <= 1 && updateStage(index, { ...stage, alpha })}/>
+                    </SettingRow>
+                );
+            case 'outlierRejection':
+                return (
+                    <>
+                        <SettingRow label="Window (samples)">
+                            <NumberInput value={stage.window} onCommit={window => updateStage(index, { ...stage, window: windowSize(window) })}/>
+                        </SettingRow>
+                        <SettingRow label={`Max deviation (${display.unit})`}>
+                            <NumberInput value={convertWeight(stage.maxDeviation, display.unit)}
+                                onCommit={maxDeviation => maxDeviation > 0 && updateStage(index, { ...stage, maxDeviation: toGrams(maxDeviation, display.unit) })}/>
+                        </SettingRow>
+                    </>
+                );
+        }
+    };
+
+    return (
+        <View style={{ width: '100%' }}>
+            {stages.length === 0 &&
+                <Text style={{ ...globalStyles.text.p, color: 'grey', marginTop: 4 }}>No filters, readings are shown as received</Text>
+            }
+            {stages.map((stage, index) => (
+                <View key={index} style={{ borderBottomWidth: 1, borderBottomColor: appColors.primaryInactive, paddingVertical: 4 }}>
+                    <View style={{ ...globalStyles.div.row, justifyContent: 'space-between' }}>
+                        <Text style={globalStyles.text.p}>{`${index + 1}. ${filterLabels[stage.type]}`}</Text>
+                        <TouchableOpacity onPress={() => setStages(stages.filter((_, position) => position !== index))}>
+                            <Text style={{ ...globalStyles.text.p, color: appColors.error }}>Remove</Text>
+                        </TouchableOpacity>
+                    </View>
+                    {renderParameters(stage, index)}
+                </View>
+            ))}
+            <View style={{ ...globalStyles.div.row, justifyContent: 'flex-start', flexWrap: 'wrap', marginTop: 4 }}>
+                {(Object.keys(filterLabels) as Array<WeightFilterType>).map(type => (
+                    <AddButton key={type} label={filterLabels[type]} onPress={() => setStages([...stages, defaultFilterStages[type]])}/>
+                ))}
+            </View>
+            <Text style={{ ...globalStyles.text.p, fontWeight: 'bold', marginTop: 10 }}>Stability</Text>
+            <SettingRow label={`Threshold (${display.unit})`}>
+                <NumberInput value={convertWeight(stability.threshold, display.unit)}
+                    onCommit={threshold => threshold >= 0 && dispatch(setFilterSettings({ settings: { stability: { threshold: toGrams(threshold, display.unit) } } }))}/>
+            </SettingRow>
+            <SettingRow label="Duration (ms)">
+                <NumberInput value={stability.durationMs}
+                    onCommit={durationMs => durationMs > 0 && dispatch(setFilterSettings({ settings: { stability: { durationMs: Math.round(durationMs) } } }))}/>
+            </SettingRow>
+            <Text style={{ fontSize: 12, color: 'grey' }}>
+                The reading is stable when its standard deviation stays under the threshold for the whole duration
+            </Text>
+        </View>
+    );
+};
+
+export default FilterEditor;
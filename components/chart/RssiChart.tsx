@@ -0,0 +1,61 @@
+import React from 'react';
+import { Text, View } from 'react-native';
+import Svg, { Line, Path, Text as SvgText } from 'react-native-svg';
+import { appColors } from '../../constants/globalStyles';
+import { IRssiReading } from '../../store/diagnostics/diagnosticsSlice.contracts';
+
+// Fixed scale, so charts of different devices and links compare at a glance
+const RSSI_MIN = -100;
+const RSSI_MAX = -30;
+const RSSI_TICKS = [-90, -70, -50];
+const AXIS_WIDTH = 36;
+const AXIS_HEIGHT = 16;
+
+const formatAge = (ms: number) => `-${Math.round(ms / 1000)}s`;
+
+interface RssiChartProps {
+    readings: Array<IRssiReading>;
+    width: number;
+    height?: number;
+}
+
+// RSSI polls of the connected device, oldest on the left. Redrawn with every poll.
+const RssiChart = (props: RssiChartProps) => {
+    const { readings, width, height = 110 } = props;
+    const plotWidth = width - AXIS_WIDTH;
+    const plotHeight = height - AXIS_HEIGHT;
+    const toY = (rssi: number) => {
+        const clamped = Math.min(RSSI_MAX, Math.max(RSSI_MIN, rssi));
+        return plotHeight - (clamped - RSSI_MIN) / (RSSI_MAX - RSSI_MIN) * plotHeight;
+    };
+
+    if (readings.length === 0) {
+        return <Text style={{ fontSize: 12, color: 'grey', marginVertical: 4 }}>Waiting for RSSI readings</Text>;
+    }
+
+    const start = readings[0].t;
+    const spanMs = Math.max(readings[readings.length - 1].t - start, 1);
+    const toX = (t: number) => AXIS_WIDTH + (t - start) / spanMs * plotWidth;
+    const path = readings
+        .map((reading, index) => `${index === 0 ? 'M' : 'L'}${toX(reading.t).toFixed(1)},${toY(reading.rssi).toFixed(1)}`)
+        .join(' ');
+
+    return (
+        <View style={{ width, marginTop: 6 }}>
+            <Svg width={width} height={height}>
+                {RSSI_TICKS.map(tick => (
+                    <React.Fragment key={tick}>
+                        <Line x1={AXIS_WIDTH} x2={width} y1={toY(tick)} y2={toY(tick)} stroke="#eee" strokeWidth={1}/>
+                        <SvgText x={AXIS_WIDTH - 4} y={toY(tick) + 4} fontSize={10} fill="grey" textAnchor="end">{`${tick}`}</SvgText>
+                    </React.Fragment>
+                ))}
+                <Line x1={AXIS_WIDTH} x2={width} y1={plotHeight} y2={plotHeight} stroke="grey" strokeWidth={1}/>
+                <SvgText x={AXIS_WIDTH} y={height - 2} fontSize={10} fill="grey">{`${formatAge(spanMs)}  (dBm)`}</SvgText>
+                <SvgText x={width} y={height - 2} fontSize={10} fill="grey" textAnchor="end">last poll</SvgText>
+                <Path d={path} stroke={appColors.primary} strokeWidth={1.5} fill="none"/>
+            </Svg>
+        </View>
+    );
+};
+
+export default React.memo(RssiChart);
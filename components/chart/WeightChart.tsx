@@ -0,0 +1,180 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Text, TouchableOpacity, View } from 'react-native';
+import Svg, { Line, Path, Text as SvgText } from 'react-native-svg';
+import { appColors, globalStyles } from '../../constants/globalStyles';
+import { IWeightPoint, weightHistory } from '../../store/weight/weightHistory';
+import { IDisplaySettings } from '../../store/calibration/calibrationSlice.contracts';
+import { convertWeight, formatWeight } from '../../utils/weightUnits';
+
+export type ChartWindow = '10s' | '1m' | '10m';
+
+const chartWindows: { [window in ChartWindow]: number } = {
+    '10s': 10 * 1000,
+    '1m': 60 * 1000,
+    '10m': 10 * 60 * 1000,
+};
+
+// The chart polls the history instead of following every notification
+const REDRAW_INTERVAL_MS = 250;
+// Redraw at least this often without new samples so the chart keeps scrolling
+const IDLE_REDRAW_MS = 1000;
+const AXIS_WIDTH = 44;
+const AXIS_HEIGHT = 16;
+const Y_TICKS = 4;
+
+interface IChartFrame {
+    path: string;
+    min: number;
+    max: number;
+    avg: number;
+    ticks: Array<{ y: number, label: string }>;
+    toY: (weight: number) => number;
+}
+
+// 1, 2 or 5 times a power of ten, so axis labels stay readable
+const niceStep = (range: number) => {
+    const magnitude = Math.pow(10, Math.floor(Math.log10(range)));
+    const fraction = range / magnitude;
+    return (fraction <= 1 ? 1 : fraction <= 2 ? 2 : fraction <= 5 ? 5 : 10) * magnitude;
+};
+
+/**
+ * Min/max decimation: one bucket per pixel column keeps its lowest and highest sample, so spikes survive
+ * however many samples fall into the window.
+ */
+const decimate = (points: Array<IWeightPoint>, start: number, windowMs: number, buckets: number) => {
+    const result: Array<IWeightPoint> = [];
+    let bucket = -1;
+    let low: IWeightPoint | null = null;
+    let high: IWeightPoint | null = null;
+    const flush = () => {
+        if (!low || !high) return;
+        if (low === high) result.push(low);
+        else if (low.t < high.t) result.push(low, high);
+        else result.push(high, low);
+    };
+    points.forEach(point => {
+        const index = Math.floor((point.t - start) / windowMs * buckets);
+        if (index !== bucket) {
+            flush();
+            bucket = index;
+            low = high = point;
+        }
+        else {
+            if (point.weight < low!.weight) low = point;
+            if (point.weight > high!.weight) high = point;
+        }
+    });
+    flush();
+    return result;
+};
+
+// Axes are in the display unit, overlay values stay in grams
+const buildFrame = (points: Array<IWeightPoint>, now: number, windowMs: number, width: number, height: number, display: IDisplaySettings): IChartFrame | null => {
+    if (points.length === 0) return null;
+    let min = Infinity;
+    let max = -Infinity;
+    let total = 0;
+    points.forEach(({ weight }) => {
+        min = Math.min(min, weight);
+        max = Math.max(max, weight);
+        total += weight;
+    });
+    const plotWidth = width - AXIS_WIDTH;
+    const plotHeight = height - AXIS_HEIGHT;
+    const low = convertWeight(min, display.unit);
+    const high = convertWeight(max, display.unit);
+    const step = niceStep(Math.max(high - low, Math.pow(10, -display.precision)) / Y_TICKS);
+    const axisMin = Math.floor(low / step) * step;
+    const axisMax = Math.max(Math.ceil(high / step) * step, axisMin + step);
+    const toY = (weight: number) => plotHeight - (convertWeight(weight, display.unit) - axisMin) / (axisMax - axisMin) * plotHeight;
+    const start = now - windowMs;
+    const toX = (t: number) => AXIS_WIDTH + (t - start) / windowMs * plotWidth;
+
+    const path = decimate(points, start, windowMs, Math.max(1, Math.round(plotWidth)))
+        .map((point, index) => `${index === 0 ? 'M' : 'L'}${toX(point.t).toFixed(1)},${toY(point.weight).toFixed(1)}`)
+        .join(' ');
+    const ticks: Array<{ y: number, label: string }> = [];
+    for (let value = axisMin; value <= axisMax + step / 2; value += step) {
+        ticks.push({ y: plotHeight - (value - axisMin) / (axisMax - axisMin) * plotHeight, label: `${+value.toFixed(3)}` });
+    }
+    return { path, min, max, avg: total / points.length, ticks, toY };
+};
+
+interface WeightChartProps {
+    deviceId: string;
+    width: number;
+    height?: number;
+    display: IDisplaySettings;
+}
+
+// Scrolling chart of the device's weight history. Re-renders on a timer, never per sample.
+const WeightChart = (props: WeightChartProps) => {
+    const { deviceId, width, height = 160, display } = props;
+    const [chartWindow, setChartWindow] = useState<ChartWindow>('10s');
+    const [frame, setFrame] = useState<IChartFrame | null>(null);
+    const lastDraw = useRef({ version: -1, at: 0 });
+    const windowMs = chartWindows[chartWindow];
+
+    useEffect(() => {
+        lastDraw.current = { version: -1, at: 0 };
+        const draw = () => {
+            const history = weightHistory(deviceId);
+            const now = Date.now();
+            if (history.version === lastDraw.current.version && now - lastDraw.current.at < IDLE_REDRAW_MS) return;
+            lastDraw.current = { version: history.version, at: now };
+            const points = history.tailFrom(point => point.t >= now - windowMs);
+            setFrame(buildFrame(points, now, windowMs, width, height, display));
+        };
+        draw();
+        const timer = setInterval(draw, REDRAW_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [deviceId, windowMs, width, height, display]);
+
+    const plotHeight = height - AXIS_HEIGHT;
+    const overlays = frame ? [
+        { label: 'max', value: frame.max, color: 'grey' },
+        { label: 'avg', value: frame.avg, color: 'orange' },
+        { label: 'min', value: frame.min, color: 'grey' },
+    ] : [];
+
+    return (
+        <View style={{ width, alignItems: 'center', marginTop: 10 }}>
+            <Svg width={width} height={height}>
+                {frame?.ticks.map(tick => (
+                    <React.Fragment key={tick.label}>
+                        <Line x1={AXIS_WIDTH} x2={width} y1={tick.y} y2={tick.y} stroke="#eee" strokeWidth={1}/>
+                        <SvgText x={AXIS_WIDTH - 4} y={tick.y + 4} fontSize={10} fill="grey" textAnchor="end">{tick.label}</SvgText>
+                    </React.Fragment>
+                ))}
+                <Line x1={AXIS_WIDTH} x2={width} y1={plotHeight} y2={plotHeight} stroke="grey" strokeWidth={1}/>
+                <SvgText x={AXIS_WIDTH} y={height - 2} fontSize={10} fill="grey">{`-${chartWindow}  (${display.unit})`}</SvgText>
+                <SvgText x={width} y={height - 2} fontSize={10} fill="grey" textAnchor="end">now</SvgText>
+                {frame && <Path d={frame.path} stroke={appColors.primary} strokeWidth={1.5} fill="none"/>}
+                {frame && overlays.map(overlay => (
+                    <Line key={overlay.label} x1={AXIS_WIDTH} x2={width} y1={frame.toY(overlay.value)} y2={frame.toY(overlay.value)}
+                        stroke={overlay.color} strokeWidth={1} strokeDasharray="4,4"/>
+                ))}
+            </Svg>
+            {frame
+                ? <Text style={{ fontSize: 12, color: 'grey' }}>
+                    {overlays.map(overlay => `${overlay.label} ${formatWeight(overlay.value, display.unit, display.precision)}`).join('   ')}
+                </Text>
+                : <Text style={{ fontSize: 12, color: 'grey' }}>Waiting for samples</Text>
+            }
+            <View style={{ ...globalStyles.div.row, justifyContent: 'center', marginTop: 4 }}>
+                {(Object.keys(chartWindows) as Array<ChartWindow>).map(option => (
+                    <TouchableOpacity
+                        key={option}
+                        onPress={() => setChartWindow(option)}
+                        style={{ paddingHorizontal: 10, paddingVertical: 3, borderRadius: 5, marginHorizontal: 3, backgroundColor: option === chartWindow ? appColors.primary : appColors.primaryInactive }}
+                    >
+                        <Text style={{ color: 'white', fontSize: 12 }}>{option}</Text>
+                    </TouchableOpacity>
+                ))}
+            </View>
+        </View>
+    );
+};
+
+export default React.memo(WeightChart);
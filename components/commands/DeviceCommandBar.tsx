@@ -0,0 +1,65 @@
+import React from 'react';
+import { Text, TouchableOpacity, View } from 'react-native';
+import { useToast } from 'native-base';
+import { appColors, globalStyles } from '../../constants/globalStyles';
+import { useAppDispatch, useAppSelector } from '../../hooks/hooks';
+import deviceCommands, { CommandName } from '../../constants/deviceCommands';
+import { selectIsCommandPending, selectSupportsCommands, sendCommand } from '../../store/commands/commandsSlice';
+
+const sampleRates = [5, 10, 50];
+
+const CommandButton = (props: { deviceId: string, command: CommandName, label?: string, argument?: unknown, onSent: (command: CommandName, argument?: unknown) => void }) => {
+    const { deviceId, command, label, argument, onSent } = props;
+    const isPending = useAppSelector(selectIsCommandPending(deviceId, command));
+    return (
+        <TouchableOpacity
+            disabled={isPending}
+            onPress={() => onSent(command, argument)}
+            style={{ paddingHorizontal: 10, paddingVertical: 4, borderRadius: 5, marginRight: 6, marginTop: 4, borderWidth: 1, borderColor: isPending ? appColors.primaryInactive : appColors.primary }}
+        >
+            <Text style={{ ...globalStyles.text.p, color: isPending ? appColors.primaryInactive : appColors.primary }}>{label ?? deviceCommands[command].name}</Text>
+        </TouchableOpacity>
+    );
+};
+
+interface DeviceCommandBarProps {
+    deviceId: string;
+}
+
+// Commands sent to the firmware over the command characteristic. Renders nothing for devices without one.
+const DeviceCommandBar = (props: DeviceCommandBarProps) => {
+    const { deviceId } = props;
+    const isSupported = useAppSelector(selectSupportsCommands(deviceId));
+    const toast = useToast();
+    const dispatch = useAppDispatch();
+
+    const send = async (command: CommandName, argument?: unknown) => {
+        const result = await dispatch(sendCommand({ deviceId, command, argument }));
+        const name = deviceCommands[command].name;
+        toast.show({
+            description: sendCommand.fulfilled.match(result)
+                ? `${name} done`
+                : `${name} failed: ${result.error.message}${result.error.code ? ` (${result.error.code})` : ''}`,
+            ...globalStyles.toast.default,
+        });
+    };
+
+    if (!isSupported) return null;
+
+    return (
+        <View style={{ alignItems: 'center', marginTop: 8 }}>
+            <View style={{ ...globalStyles.div.row, justifyContent: 'center', flexWrap: 'wrap' }}>
+                <CommandButton deviceId={deviceId} command="tare" onSent={send}/>
+                <CommandButton deviceId={deviceId} command="reboot" onSent={send}/>
+            </View>
+            <View style={{ ...globalStyles.div.row, justifyContent: 'center', flexWrap: 'wrap' }}>
+                <Text style={{ ...globalStyles.text.p, color: 'grey', marginRight: 6, marginTop: 4 }}>Sample rate</Text>
+                {sampleRates.map(rate => (
+                    <CommandButton key={rate} deviceId={deviceId} command="setSampleRate" label={`${rate} Hz`} argument={rate} onSent={send}/>
+                ))}
+            </View>
+        </View>
+    );
+};
+
+export default DeviceCommandBar;
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Text, TouchableOpacity, View } from 'react-native';
+import { useToast } from 'native-base';
+import { appColors, globalStyles, windowWidth } from '../../constants/globalStyles';
+import { useAppDispatch, useAppSelector } from '../../hooks/hooks';
+import { connectDeviceById, disconnectDevice, selectConnection } from '../../store/ble/bleSlice';
+import { IBLEDevice, IScannedDevice, NetworkState } from '../../store/ble/bleSlice.contracts';
+import { getManufacturerCompanyId } from '../../store/ble/scanFilter';
+import { formatCompanyId } from '../../constants/companyIdentifiers';
+import { estimateDistance, formatDistance } from '../../utils/advertisement';
+import { base64ToHex } from '../../utils/payload';
+import SignalBars from './SignalBars';
+
+const DetailRow = (props: { label: string, value: string }) => (
+    <View style={{ flexDirection: 'row', marginVertical: 1 }}>
+        <Text style={{ fontSize: 12, color: 'grey', width: 90 }}>{props.label}</Text>
+        <Text style={{ fontSize: 12, flex: 1, fontFamily: 'monospace' }} selectable>{props.value || '-'}</Text>
+    </View>
+);
+
+const Badge = (props: { label: string, color: string }) => (
+    <View style={{ borderRadius: 4, borderWidth: 1, borderColor: props.color, paddingHorizontal: 4, marginLeft: 6 }}>
+        <Text style={{ fontSize: 11, color: props.color }}>{props.label}</Text>
+    </View>
+);
+
+// Every raw advertisement field, so boards with the same name can be told apart
+const AdvertisementDetails = (props: { device: IBLEDevice }) => {
+    const { device } = props;
+    const serviceData: { [uuid: string]: string } = device.serviceData ?? {};
+    return (
+        <View style={{ marginTop: 4, borderTopWidth: 1, borderTopColor: appColors.primaryInactive, paddingTop: 4 }}>
+            <DetailRow label="Id" value={device.id}/>
+            <DetailRow label="Name" value={device.name ?? ''}/>
+            <DetailRow label="Local name" value={device.localName ?? ''}/>
+            <DetailRow label="TX power" value={device.txPowerLevel !== null ? `${device.txPowerLevel} dBm` : ''}/>
+            <DetailRow label="Services" value={(device.serviceUUIDs ?? []).join('\n')}/>
+            <DetailRow label="Overflow" value={(device.overflowServiceUUIDs ?? []).join('\n')}/>
+            <DetailRow label="Solicited" value={(device.solicitedServiceUUIDs ?? []).join('\n')}/>
+            <DetailRow label="Manufacturer" value={base64ToHex(device.manufacturerData ?? null)}/>
+            {Object.keys(serviceData).length === 0
+                ? <DetailRow label="Service data" value=""/>
+                : Object.entries(serviceData).map(([uuid, value]) => (
+                    <DetailRow key={uuid} label="Service data" value={`${uuid}\n${base64ToHex(value)}`}/>
+                ))
+            }
+        </View>
+    );
+};
+
+interface DeviceItemProps {
+    device: IBLEDevice | IScannedDevice | null
+}
+
+const DeviceItem = (props: DeviceItemProps) => {
+    const { device } = props;
+    const connection = useAppSelector(selectConnection(device?.id));
+    const [isExpanded, setIsExpanded] = useState(false);
+    const dispatch = useAppDispatch();
+    const isConnected = connection?.status === NetworkState.SUCCESS;
+    const isBusy = connection?.status === NetworkState.LOADING || connection?.status === NetworkState.RECONNECTING;
+
+    const toast = useToast();
+
+    const connectHandler = async () => {
+        if (isBusy) return;
+        if (device?.id){
+            if (isConnected) {
+                dispatch(disconnectDevice({ id: device.id }));
+                return;
+            }
+            const result = await dispatch(connectDeviceById({ id: device?.id }))
+            if (result.meta.requestStatus === 'fulfilled') {
+                toast.show({
+                    description: 'Connection successful',
+                    ...globalStyles.toast.default,
+                });
+            }
+            else if (result.meta.requestStatus === 'rejected') {
+                toast.show({
+                    description: 'Connection unsuccessful',
+                    ...globalStyles.toast.default,
+                });
+            }
+        }
+        else {
+            toast.show({
+                description: 'Connection unsuccessful (No ID)',
+                ...globalStyles.toast.default,
+            });
+        }
+    }
+
+    const companyId = getManufacturerCompanyId(device?.manufacturerData);
+    const rssi = device?.rssi ?? null;
+    const textColor = isConnected ? 'white' : 'grey';
+
+    return (
+        <TouchableOpacity style={{ ...globalStyles.card.shadow, width: windowWidth*0.8, backgroundColor: isConnected ? 'green' : isBusy ? appColors.secondary : 'white' }} onPress={connectHandler}>
+            <View style={{ ...globalStyles.div.row, justifyContent: 'space-between', paddingTop: 10 }}>
+                <Text style={{ ...globalStyles.text.p, flex: 1 }} numberOfLines={1}>{device?.name ?? device?.localName ?? device?.id}</Text>
+                {device && <Badge label={device.isConnectable === false ? 'Not connectable' : 'Connectable'} color={device.isConnectable === false ? appColors.error : textColor}/>}
+            </View>
+            <View style={{ ...globalStyles.div.row, justifyContent: 'flex-start', marginTop: 2 }}>
+                <SignalBars rssi={rssi} color={isConnected ? 'white' : appColors.primary}/>
+                <Text style={{ ...globalStyles.text.p, fontSize: 12, color: textColor, marginLeft: 6 }}>
+                    {`${rssi ?? '?'} dBm · ${formatDistance(estimateDistance(rssi, device?.txPowerLevel ?? null))}`}
+                </Text>
+            </View>
+            {companyId !== null &&
+                <Text style={{ ...globalStyles.text.p, fontSize: 12, color: textColor }}>{`Manufacturer ${formatCompanyId(companyId)}`}</Text>
+            }
+            {device && 'lastSeen' in device &&
+                <Text style={{ ...globalStyles.text.p, fontSize: 12, color: textColor }}>
+                    {`${device.advertisementCount} adv · seen ${Math.max(0, Math.round((Date.now() - device.lastSeen) / 1000))}s ago`}
+                </Text>
+            }
+            {isExpanded && device && <AdvertisementDetails device={device}/>}
+            <View style={{ ...globalStyles.div.row, justifyContent: 'space-between', paddingBottom: 10 }}>
+                <Text style={{ ...globalStyles.text.p, fontSize: 12, color: textColor }}>
+                    {isConnected ? 'Tap to disconnect' : connection?.status === NetworkState.ERROR ? connection.error : ' '}
+                </Text>
+                <TouchableOpacity onPress={() => setIsExpanded(!isExpanded)}>
+                    <Text style={{ ...globalStyles.text.p, fontSize: 12, color: isConnected ? 'white' : appColors.primary }}>{isExpanded ? 'Hide details' : 'Details'}</Text>
+                </TouchableOpacity>
+            </View>
+        </TouchableOpacity>
+    )
+}
+
+export default DeviceItem;
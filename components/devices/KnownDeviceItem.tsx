@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { Icon, useToast } from 'native-base';
+import { MaterialIcons } from '@expo/vector-icons';
+import { appColors, globalStyles, windowWidth } from '../../constants/globalStyles';
+import { useAppDispatch, useAppSelector } from '../../hooks/hooks';
+import { connectDeviceById, disconnectDevice, selectConnection } from '../../store/ble/bleSlice';
+import { NetworkState } from '../../store/ble/bleSlice.contracts';
+import {
+    forgetKnownDevice,
+    knownDeviceName,
+    renameKnownDevice,
+    selectPreferredDeviceId,
+    setPreferredDevice,
+} from '../../store/knownDevices/knownDevicesSlice';
+import { IKnownDevice } from '../../store/knownDevices/knownDevicesSlice.contracts';
+
+const ActionButton = (props: { label: string, color?: string, onPress: () => void }) => (
+    <TouchableOpacity onPress={props.onPress} style={{ marginLeft: 14 }}>
+        <Text style={{ ...globalStyles.text.p, fontSize: 14, color: props.color ?? appColors.primary }}>{props.label}</Text>
+    </TouchableOpacity>
+);
+
+interface KnownDeviceItemProps {
+    device: IKnownDevice;
+}
+
+// A remembered device: connect or disconnect, make it the one connected to on launch, rename or forget it
+const KnownDeviceItem = (props: KnownDeviceItemProps) => {
+    const { device } = props;
+    const connection = useAppSelector(selectConnection(device.id));
+    const preferredId = useAppSelector(selectPreferredDeviceId);
+    const [isRenaming, setIsRenaming] = useState(false);
+    const toast = useToast();
+    const dispatch = useAppDispatch();
+    const isConnected = connection?.status === NetworkState.SUCCESS;
+    const isBusy = connection?.status === NetworkState.LOADING || connection?.status === NetworkState.RECONNECTING;
+    const isPreferred = preferredId === device.id;
+
+    const connectHandler = async () => {
+        if (isBusy) return;
+        if (isConnected) {
+            dispatch(disconnectDevice({ id: device.id }));
+            return;
+        }
+        const result = await dispatch(connectDeviceById({ id: device.id }));
+        toast.show({
+            description: connectDeviceById.fulfilled.match(result) ? 'Connection successful' : 'Connection unsuccessful',
+            ...globalStyles.toast.default,
+        });
+    };
+
+    const rename = (nickname: string) => {
+        dispatch(renameKnownDevice({ id: device.id, nickname }));
+        setIsRenaming(false);
+    };
+
+    const status = isConnected ? 'Connected' : isBusy ? 'Connecting...' : `Last connected ${new Date(device.lastConnectedAt).toLocaleString()}`;
+
+    return (
+        <View style={{ ...globalStyles.card.shadow, width: windowWidth*0.8, backgroundColor: isConnected ? 'green' : isBusy ? appColors.secondary : 'white' }}>
+            <View style={{ ...globalStyles.div.row, justifyContent: 'space-between', paddingTop: 10 }}>
+                {isRenaming
+                    ? <TextInput
+                        style={{ ...globalStyles.text.p, flex: 1, borderBottomWidth: 1, borderBottomColor: appColors.primaryInactive }}
+                        defaultValue={device.nickname ?? ''}
+                        placeholder={device.name ?? device.id}
+                        autoFocus
+                        onEndEditing={event => rename(event.nativeEvent.text)}
+                    />
+                    : <TouchableOpacity style={{ flex: 1 }} onPress={connectHandler}>
+                        <Text style={globalStyles.text.p}>{knownDeviceName(device)}</Text>
+                    </TouchableOpacity>
+                }
+                <TouchableOpacity onPress={() => dispatch(setPreferredDevice({ id: isPreferred ? null : device.id }))}>
+                    <Icon as={MaterialIcons} name={isPreferred ? 'star' : 'star-border'} color={appColors.primary} size={6}/>
+                </TouchableOpacity>
+            </View>
+            {device.nickname && <Text style={{ ...globalStyles.text.p, fontSize: 12, color: 'grey' }}>{device.name ?? device.id}</Text>}
+            <Text style={{ ...globalStyles.text.p, fontSize: 12, color: 'grey' }}>{`${status}${isPreferred ? ' · connects on launch' : ''}`}</Text>
+            <View style={{ ...globalStyles.div.row, justifyContent: 'flex-end', paddingBottom: 10 }}>
+                <ActionButton label={isConnected ? 'Disconnect' : 'Connect'} onPress={connectHandler}/>
+                <ActionButton label="Rename" onPress={() => setIsRenaming(true)}/>
+                <ActionButton label="Forget" color={appColors.error} onPress={() => dispatch(forgetKnownDevice({ id: device.id }))}/>
+            </View>
+        </View>
+    );
+};
+
+export default KnownDeviceItem;
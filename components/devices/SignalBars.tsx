@@ -0,0 +1,25 @@
+import React from 'react';
+import { View } from 'react-native';
+import { appColors } from '../../constants/globalStyles';
+import { MAX_SIGNAL_BARS, signalBars } from '../../utils/advertisement';
+
+const BAR_WIDTH = 4;
+const BAR_STEP = 4;
+
+// Phone-style signal indicator for an RSSI
+const SignalBars = (props: { rssi: number | null, color?: string }) => {
+    const { rssi, color = appColors.primary } = props;
+    const bars = signalBars(rssi);
+    return (
+        <View style={{ flexDirection: 'row', alignItems: 'flex-end', height: BAR_STEP * MAX_SIGNAL_BARS }}>
+            {Array.from({ length: MAX_SIGNAL_BARS }, (_, index) => (
+                <View
+                    key={index}
+                    style={{ width: BAR_WIDTH, height: BAR_STEP * (index + 1), marginRight: 1, borderRadius: 1, backgroundColor: index < bars ? color : appColors.primaryInactive }}
+                />
+            ))}
+        </View>
+    );
+};
+
+export default SignalBars;
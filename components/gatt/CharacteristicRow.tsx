@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { Switch, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { appColors, globalStyles } from '../../constants/globalStyles';
+import { useAppDispatch, useAppSelector } from '../../hooks/hooks';
+import {
+    readRawCharacteristic,
+    selectCharacteristicMonitor,
+    selectCharacteristicValue,
+    startCharacteristicMonitor,
+    stopCharacteristicMonitor,
+    writeRawCharacteristic,
+} from '../../store/ble/bleSlice';
+import { IGattCharacteristic } from '../../store/ble/bleSlice.contracts';
+import { encodePayload, PayloadFormat, PayloadNumberType, payloadNumberTypes } from '../../utils/payload';
+import { shortUUID } from '../../utils/uuid';
+import { IGattLogEntry } from './GattLog';
+
+export type GattLogger = (entry: Omit<IGattLogEntry, 'id' | 'time'>) => void;
+
+const Badge = (props: { label: string }) => (
+    <View style={{ backgroundColor: appColors.secondary, borderRadius: 4, paddingHorizontal: 5, marginRight: 4, marginTop: 2 }}>
+        <Text style={{ fontSize: 11 }}>{props.label}</Text>
+    </View>
+);
+
+const ActionButton = (props: { label: string, onPress: () => void, selected?: boolean }) => (
+    <TouchableOpacity
+        onPress={props.onPress}
+        style={{ paddingHorizontal: 8, paddingVertical: 3, borderRadius: 5, marginRight: 6, marginTop: 4, borderWidth: 1, borderColor: appColors.primary, backgroundColor: props.selected ? appColors.primary : 'white' }}
+    >
+        <Text style={{ fontSize: 12, color: props.selected ? 'white' : appColors.primary }}>{props.label}</Text>
+    </TouchableOpacity>
+);
+
+interface CharacteristicRowProps {
+    deviceId: string;
+    characteristic: IGattCharacteristic;
+    log: GattLogger;
+}
+
+const CharacteristicRow = (props: CharacteristicRowProps) => {
+    const { deviceId, characteristic, log } = props;
+    const params = { deviceId, serviceUUID: characteristic.serviceUUID, characteristicUUID: characteristic.uuid };
+    const [isNotifying, setIsNotifying] = useState(false);
+    const [isEditing, setIsEditing] = useState(false);
+    const [payload, setPayload] = useState('');
+    const [format, setFormat] = useState<PayloadFormat>('hex');
+    const [numberType, setNumberType] = useState<PayloadNumberType>('uint8');
+    const [withResponse, setWithResponse] = useState(characteristic.isWritableWithResponse);
+    const monitor = useAppSelector(selectCharacteristicMonitor(deviceId, characteristic.serviceUUID, characteristic.uuid));
+    const received = useAppSelector(selectCharacteristicValue(deviceId, characteristic.serviceUUID, characteristic.uuid));
+    const dispatch = useAppDispatch();
+    const isWritable = characteristic.isWritableWithResponse || characteristic.isWritableWithoutResponse;
+
+    // Log every notification while this row has notifications switched on
+    useEffect(() => {
+        if (isNotifying && received) {
+            log({ characteristicUUID: characteristic.uuid, kind: 'notify', value: received.value });
+        }
+    }, [received?.receivedAt]);
+
+    useEffect(() => {
+        if (isNotifying && monitor?.error) {
+            log({ characteristicUUID: characteristic.uuid, kind: 'error', value: null, message: monitor.error });
+        }
+    }, [monitor?.error]);
+
+    // Release the shared monitor when leaving the screen or switching device
+    useEffect(() => {
+        if (!isNotifying) return;
+        dispatch(startCharacteristicMonitor(params));
+        return () => {
+            dispatch(stopCharacteristicMonitor(params));
+        };
+    }, [isNotifying, deviceId]);
+
+    const readHandler = async () => {
+        const result = await dispatch(readRawCharacteristic(params));
+        if (readRawCharacteristic.fulfilled.match(result)) {
+            log({ characteristicUUID: characteristic.uuid, kind: 'read', value: result.payload });
+        }
+        else {
+            log({ characteristicUUID: characteristic.uuid, kind: 'error', value: null, message: `Read failed: ${result.error.message}` });
+        }
+    };
+
+    const writeHandler = async () => {
+        let value: string;
+        try {
+            value = encodePayload(payload, format, numberType);
+        } catch (error: any) {
+            log({ characteristicUUID: characteristic.uuid, kind: 'error', value: null, message: error.message });
+            return;
+        }
+        const result = await dispatch(writeRawCharacteristic({ ...params, value, withResponse }));
+        if (writeRawCharacteristic.fulfilled.match(result)) {
+            log({ characteristicUUID: characteristic.uuid, kind: 'write', value });
+        }
+        else {
+            log({ characteristicUUID: characteristic.uuid, kind: 'error', value: null, message: `Write failed: ${result.error.message}` });
+        }
+    };
+
+    return (
+        <View style={{ paddingVertical: 6, borderTopWidth: 1, borderTopColor: '#eee' }}>
+            <Text style={{ ...globalStyles.text.p, fontFamily: 'monospace', fontSize: 12 }}>{shortUUID(characteristic.uuid)}</Text>
+            <View style={{ flexDirection: 'row', flexWrap: 'wrap' }}>
+                {characteristic.isReadable && <Badge label="read"/>}
+                {characteristic.isWritableWithResponse && <Badge label="write"/>}
+                {characteristic.isWritableWithoutResponse && <Badge label="writeWithoutResponse"/>}
+                {characteristic.isNotifiable && <Badge label="notify"/>}
+                {characteristic.isIndicatable && <Badge label="indicate"/>}
+            </View>
+            {characteristic.descriptors.map(descriptor => (
+                <Text key={descriptor.uuid} style={{ fontSize: 11, color: 'grey', fontFamily: 'monospace' }}>
+                    {`descriptor ${shortUUID(descriptor.uuid)}`}
+                </Text>
+            ))}
+            <View style={{ flexDirection: 'row', flexWrap: 'wrap' }}>
+                {characteristic.isReadable && <ActionButton label="Read" onPress={readHandler}/>}
+                {isWritable && <ActionButton label="Write" onPress={() => setIsEditing(!isEditing)} selected={isEditing}/>}
+                {(characteristic.isNotifiable || characteristic.isIndicatable) &&
+                    <ActionButton label={isNotifying ? 'Notifying' : 'Notify'} onPress={() => setIsNotifying(!isNotifying)} selected={isNotifying}/>
+                }
+            </View>
+            {isEditing &&
+                <View style={{ marginTop: 6 }}>
+                    <View style={{ flexDirection: 'row', flexWrap: 'wrap' }}>
+                        {(['hex', 'utf8', 'number'] as Array<PayloadFormat>).map(option => (
+                            <ActionButton key={option} label={option} selected={format === option} onPress={() => setFormat(option)}/>
+                        ))}
+                    </View>
+                    {format === 'number' &&
+                        <View style={{ flexDirection: 'row', flexWrap: 'wrap' }}>
+                            {payloadNumberTypes.map(option => (
+                                <ActionButton key={option} label={option} selected={numberType === option} onPress={() => setNumberType(option)}/>
+                            ))}
+                        </View>
+                    }
+                    <View style={{ ...globalStyles.div.row, marginTop: 4 }}>
+                        <TextInput
+                            style={{ ...globalStyles.text.p, flex: 1, borderBottomWidth: 1, borderBottomColor: appColors.primaryInactive, paddingVertical: 2 }}
+                            value={payload}
+                            onChangeText={setPayload}
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                            placeholder={format === 'hex' ? '01 A0 FF' : format === 'utf8' ? 'text' : '0'}
+                        />
+                        <ActionButton label="Send" onPress={writeHandler}/>
+                    </View>
+                    {characteristic.isWritableWithResponse && characteristic.isWritableWithoutResponse &&
+                        <View style={{ ...globalStyles.div.row, justifyContent: 'flex-start' }}>
+                            <Text style={{ fontSize: 12, color: 'grey' }}>With response</Text>
+                            <Switch value={withResponse} onValueChange={setWithResponse}/>
+                        </View>
+                    }
+                </View>
+            }
+        </View>
+    );
+};
+
+export default CharacteristicRow;
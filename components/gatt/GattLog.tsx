@@ -0,0 +1,64 @@
+import React from 'react';
+import { FlatList, Text, TouchableOpacity, View } from 'react-native';
+import { appColors, globalStyles } from '../../constants/globalStyles';
+import { base64ToHex, base64ToUtf8 } from '../../utils/payload';
+import { shortUUID } from '../../utils/uuid';
+
+export type GattLogKind = 'read' | 'write' | 'notify' | 'error';
+
+export interface IGattLogEntry {
+    id: number;
+    time: number;
+    characteristicUUID: string;
+    kind: GattLogKind;
+    // Base64 payload, if any
+    value: string | null;
+    message?: string;
+}
+
+const kindColors: { [kind in GattLogKind]: string } = {
+    read: appColors.primary,
+    write: 'purple',
+    notify: 'green',
+    error: appColors.error,
+};
+
+// Printable characters only, so binary payloads do not garble the log
+const printable = (value: string | null) => {
+    const text = base64ToUtf8(value);
+    return /^[\x20-\x7E]*$/.test(text) ? text : '';
+};
+
+interface GattLogProps {
+    entries: Array<IGattLogEntry>;
+    onClear: () => void;
+}
+
+const GattLog = (props: GattLogProps) => {
+    const { entries, onClear } = props;
+    return (
+        <View style={{ height: 180, width: '100%', borderTopWidth: 1, borderTopColor: appColors.primaryInactive }}>
+            <View style={{ ...globalStyles.div.row, justifyContent: 'space-between', paddingHorizontal: 10, paddingVertical: 4 }}>
+                <Text style={{ ...globalStyles.text.p, fontWeight: 'bold' }}>Log</Text>
+                <TouchableOpacity onPress={onClear}>
+                    <Text style={{ ...globalStyles.text.p, color: appColors.primary }}>Clear</Text>
+                </TouchableOpacity>
+            </View>
+            <FlatList
+                data={entries}
+                keyExtractor={(item) => item.id.toString()}
+                renderItem={({ item }) => (
+                    <Text style={{ fontSize: 11, fontFamily: 'monospace', paddingHorizontal: 10 }}>
+                        <Text style={{ color: 'grey' }}>{new Date(item.time).toLocaleTimeString()} </Text>
+                        <Text style={{ color: kindColors[item.kind] }}>{item.kind.toUpperCase()} </Text>
+                        <Text>{shortUUID(item.characteristicUUID)} </Text>
+                        <Text>{item.message ?? base64ToHex(item.value)}</Text>
+                        {!item.message && printable(item.value) !== '' && <Text style={{ color: 'grey' }}> "{printable(item.value)}"</Text>}
+                    </Text>
+                )}
+            />
+        </View>
+    );
+};
+
+export default GattLog;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { Text, TouchableOpacity, View } from 'react-native';
+import { appColors, globalStyles } from '../../constants/globalStyles';
+import { useAppDispatch, useAppSelector } from '../../hooks/hooks';
+import { cancelGattOperation, selectDeviceGattOperations } from '../../store/gattQueue/gattQueueSlice';
+import { shortUUID } from '../../utils/uuid';
+
+// Running and waiting GATT operations of the device, hidden while its queue is empty
+const GattQueueStatus = (props: { deviceId: string }) => {
+    const operations = useAppSelector(selectDeviceGattOperations(props.deviceId));
+    const dispatch = useAppDispatch();
+
+    if (operations.length === 0) return null;
+
+    return (
+        <View style={{ marginTop: 6 }}>
+            <Text style={{ ...globalStyles.text.p, fontWeight: 'bold' }}>Queue ({operations.length})</Text>
+            {operations.map(operation => (
+                <View key={operation.transactionId} style={{ ...globalStyles.div.row, justifyContent: 'space-between', marginVertical: 1 }}>
+                    <Text style={{ fontSize: 11, fontFamily: 'monospace', flexShrink: 1 }}>
+                        <Text style={{ color: operation.status === 'running' ? appColors.primary : 'grey' }}>{operation.status.toUpperCase()} </Text>
+                        <Text>{operation.kind}</Text>
+                        {operation.characteristicUUID && <Text> {shortUUID(operation.characteristicUUID)}</Text>}
+                        {operation.priority !== 'normal' && <Text style={{ color: 'grey' }}> {operation.priority}</Text>}
+                        {operation.attempt > 1 && <Text style={{ color: appColors.error }}> try {operation.attempt}</Text>}
+                    </Text>
+                    <TouchableOpacity onPress={() => dispatch(cancelGattOperation({ transactionId: operation.transactionId }))}>
+                        <Text style={{ fontSize: 11, color: appColors.error }}>Cancel</Text>
+                    </TouchableOpacity>
+                </View>
+            ))}
+        </View>
+    );
+};
+
+export default GattQueueStatus;
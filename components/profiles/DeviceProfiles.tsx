@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import { Text, View } from 'react-native';
+import { Icon } from 'native-base';
+import { MaterialIcons } from '@expo/vector-icons';
+import { appColors, globalStyles } from '../../constants/globalStyles';
+import bleServices, { CharacteristicName } from '../../constants/bleServices';
+import { useAppDispatch, useMonitoredCharacteristic, useReadCharacteristic } from '../../hooks/hooks';
+import { findProfileCharacteristic, hasServiceProfile, readCharacteristic } from '../../store/ble/characteristicProfiles';
+import { IDeviceConnection } from '../../store/ble/bleSlice.contracts';
+
+interface ProfileProps {
+    connection: IDeviceConnection;
+}
+
+const batteryIcon = (level: number) =>
+    level > 80 ? 'battery-full' : level > 20 ? 'battery-std' : 'battery-alert';
+
+// Battery Service (0x180F): read once, then follow notifications when the device supports them
+export const BatteryLevel = (props: ProfileProps) => {
+    const { connection } = props;
+    const deviceId = connection.device.id;
+    const characteristic = findProfileCharacteristic(connection, 'battery', 'level');
+    const monitored = useMonitoredCharacteristic(deviceId, 'battery', 'level', !!characteristic?.isNotifiable);
+    const read = useReadCharacteristic(deviceId, 'battery', 'level');
+    const [readLevel, setReadLevel] = useState<number | null>(null);
+
+    useEffect(() => {
+        if (!characteristic?.isReadable) return;
+        let isMounted = true;
+        // A failed read is recorded in the journal below the queue
+        read()
+            .then(level => isMounted && setReadLevel(level))
+            .catch(() => undefined);
+        return () => {
+            isMounted = false;
+        };
+    }, [deviceId, !!characteristic]);
+
+    const level = monitored.value ?? readLevel;
+    if (level === null) return null;
+    return (
+        <View style={{ ...globalStyles.div.row, justifyContent: 'center' }}>
+            <Icon as={MaterialIcons} name={batteryIcon(level)} size={5} color={level > 20 ? 'grey' : appColors.error}/>
+            <Text style={{ ...globalStyles.text.p, color: 'grey' }}>{`${Math.round(level)}%`}</Text>
+        </View>
+    );
+};
+
+type DeviceInformationName = CharacteristicName<'deviceInformation'>;
+
+const deviceInformationNames = Object.keys(bleServices.deviceInformation.characteristics) as Array<DeviceInformationName>;
+
+// Device Information (0x180A): every string the device exposes, read once per connection
+export const DeviceInformation = (props: ProfileProps) => {
+    const { connection } = props;
+    const deviceId = connection.device.id;
+    const [information, setInformation] = useState<Partial<Record<DeviceInformationName, string>>>({});
+    const dispatch = useAppDispatch();
+    const isAvailable = hasServiceProfile(connection, 'deviceInformation') && connection.services.length > 0;
+
+    useEffect(() => {
+        setInformation({});
+        if (!isAvailable) return;
+        let isMounted = true;
+        // Failed reads are recorded in the journal below the queue
+        deviceInformationNames
+            .filter(name => findProfileCharacteristic(connection, 'deviceInformation', name)?.isReadable)
+            .forEach(name => dispatch(readCharacteristic({ deviceId, service: 'deviceInformation', characteristic: name }))
+                .unwrap()
+                .then(value => isMounted && setInformation(current => ({ ...current, [name]: value as string })))
+                .catch(() => undefined));
+        return () => {
+            isMounted = false;
+        };
+    }, [deviceId, isAvailable]);
+
+    // Declaration order, whatever order the reads complete in
+    const names = deviceInformationNames.filter(name => information[name] !== undefined);
+    if (names.length === 0) return null;
+    return (
+        <View style={{ marginTop: 4 }}>
+            {names.map(name => (
+                <Text key={name} style={{ fontSize: 12, color: 'grey' }}>
+                    {`${bleServices.deviceInformation.characteristics[name].name}: ${information[name]}`}
+                </Text>
+            ))}
+        </View>
+    );
+};
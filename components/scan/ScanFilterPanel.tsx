@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import { Switch, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { Icon } from 'native-base';
+import { MaterialIcons } from '@expo/vector-icons';
+import { companyIdHex, formatCompanyId } from '../../constants/companyIdentifiers';
+import { appColors, globalStyles, windowWidth } from '../../constants/globalStyles';
+import { useAppDispatch, useAppSelector } from '../../hooks/hooks';
+import {
+    resetScanFilter,
+    selectScanFilter,
+    selectScanListOptions,
+    selectScanTimeout,
+    setScanFilter,
+    setScanListOptions,
+    setScanTimeout,
+} from '../../store/ble/bleSlice';
+import { IScanFilter, ScanNameMatchMode } from '../../store/ble/bleSlice.contracts';
+import { isValidNamePattern } from '../../store/ble/scanFilter';
+
+const parseServiceUUIDs = (text: string) => text.split(/[\s,]+/).map(uuid => uuid.trim()).filter(uuid => uuid.length > 0);
+
+// Accepts decimal or 0x-prefixed hex
+const parseCompanyId = (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed) return null;
+    const value = trimmed.toLowerCase().startsWith('0x') ? parseInt(trimmed, 16) : parseInt(trimmed, 10);
+    return isNaN(value) ? null : value;
+};
+
+const parseRssi = (text: string) => {
+    const value = parseInt(text.trim(), 10);
+    return isNaN(value) ? null : value;
+};
+
+const inputStyle = {
+    ...globalStyles.text.p,
+    flex: 1,
+    borderBottomWidth: 1,
+    borderBottomColor: appColors.primaryInactive,
+    paddingVertical: 4,
+    marginLeft: 10,
+};
+
+const FilterRow = (props: { label: string, children: React.ReactNode }) => (
+    <View style={{ ...globalStyles.div.row, justifyContent: 'space-between', marginVertical: 4 }}>
+        <Text style={{ ...globalStyles.text.p, color: 'grey', width: 90 }}>{props.label}</Text>
+        {props.children}
+    </View>
+);
+
+const ModeButton = (props: { mode: ScanNameMatchMode, selected: boolean, onPress: () => void }) => (
+    <TouchableOpacity
+        onPress={props.onPress}
+        style={{ paddingHorizontal: 10, paddingVertical: 4, borderRadius: 5, marginLeft: 6, backgroundColor: props.selected ? appColors.primary : 'white', borderWidth: 1, borderColor: appColors.primary }}
+    >
+        <Text style={{ ...globalStyles.text.p, color: props.selected ? 'white' : appColors.primary }}>{props.mode}</Text>
+    </TouchableOpacity>
+);
+
+// Collapsible editor for the scan filter held in the ble slice
+const ScanFilterPanel = () => {
+    const filter = useAppSelector(selectScanFilter);
+    const scanTimeoutMs = useAppSelector(selectScanTimeout);
+    const scanListOptions = useAppSelector(selectScanListOptions);
+    const dispatch = useAppDispatch();
+    const [expanded, setExpanded] = useState(false);
+    const [serviceUUIDsText, setServiceUUIDsText] = useState('');
+    const [companyIdText, setCompanyIdText] = useState('');
+    const [minRssiText, setMinRssiText] = useState('');
+    const [durationText, setDurationText] = useState('');
+    const [ttlText, setTtlText] = useState('');
+
+    // Keep the free text fields in sync when the filter is changed elsewhere (e.g. reset)
+    useEffect(() => {
+        setServiceUUIDsText(filter.serviceUUIDs.join(', '));
+        setCompanyIdText(filter.manufacturerCompanyId === null ? '' : companyIdHex(filter.manufacturerCompanyId));
+        setMinRssiText(filter.minRssi === null ? '' : filter.minRssi.toString());
+    }, [filter.serviceUUIDs, filter.manufacturerCompanyId, filter.minRssi]);
+
+    useEffect(() => {
+        setDurationText(scanTimeoutMs > 0 ? (scanTimeoutMs / 1000).toString() : '');
+    }, [scanTimeoutMs]);
+
+    useEffect(() => {
+        setTtlText(scanListOptions.deviceTtlMs > 0 ? (scanListOptions.deviceTtlMs / 1000).toString() : '');
+    }, [scanListOptions.deviceTtlMs]);
+
+    const update = (changes: Partial<IScanFilter>) => {
+        dispatch(setScanFilter({ filter: changes }));
+    };
+
+    const summary = filter.showAllDevices
+        ? 'All devices'
+        : [
+            filter.namePattern && `${filter.nameMatchMode === 'regex' ? '/' + filter.namePattern + '/' : filter.namePattern + '*'}`,
+            filter.serviceUUIDs.length > 0 && `${filter.serviceUUIDs.length} service(s)`,
+            filter.manufacturerCompanyId !== null && formatCompanyId(filter.manufacturerCompanyId),
+            filter.minRssi !== null && `>= ${filter.minRssi} dBm`,
+        ].filter(Boolean).join(', ') || 'No filter';
+
+    return (
+        <View style={{ ...globalStyles.card.shadow, width: windowWidth * 0.9, alignItems: 'stretch', paddingVertical: 8 }}>
+            <TouchableOpacity style={{ ...globalStyles.div.row, justifyContent: 'space-between' }} onPress={() => setExpanded(!expanded)}>
+                <Icon as={MaterialIcons} name="filter-list" color={appColors.primary} size={6}/>
+                <Text style={{ ...globalStyles.text.p, flex: 1, marginLeft: 10 }} numberOfLines={1}>{summary}</Text>
+                <Icon as={MaterialIcons} name={expanded ? 'expand-less' : 'expand-more'} color={appColors.primary} size={6}/>
+            </TouchableOpacity>
+            {expanded &&
+                <View style={{ marginTop: 8 }}>
+                    <FilterRow label="Show all">
+                        <Switch value={filter.showAllDevices} onValueChange={(value) => update({ showAllDevices: value })}/>
+                    </FilterRow>
+                    <FilterRow label="Name">
+                        <TextInput
+                            style={inputStyle}
+                            value={filter.namePattern}
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                            placeholder="Any name"
+                            editable={!filter.showAllDevices}
+                            onChangeText={(text) => update({ namePattern: text })}
+                        />
+                        <ModeButton mode="prefix" selected={filter.nameMatchMode === 'prefix'} onPress={() => update({ nameMatchMode: 'prefix' })}/>
+                        <ModeButton mode="regex" selected={filter.nameMatchMode === 'regex'} onPress={() => update({ nameMatchMode: 'regex' })}/>
+                    </FilterRow>
+                    {!isValidNamePattern(filter) &&
+                        <Text style={globalStyles.text.error}>Invalid regular expression</Text>
+                    }
+                    <FilterRow label="Services">
+                        <TextInput
+                            style={inputStyle}
+                            value={serviceUUIDsText}
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                            placeholder="UUIDs, comma separated"
+                            editable={!filter.showAllDevices}
+                            onChangeText={setServiceUUIDsText}
+                            onEndEditing={() => update({ serviceUUIDs: parseServiceUUIDs(serviceUUIDsText) })}
+                        />
+                    </FilterRow>
+                    <FilterRow label="Company ID">
+                        <TextInput
+                            style={inputStyle}
+                            value={companyIdText}
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                            placeholder="e.g. 0x02E5"
+                            editable={!filter.showAllDevices}
+                            onChangeText={setCompanyIdText}
+                            onEndEditing={() => update({ manufacturerCompanyId: parseCompanyId(companyIdText) })}
+                        />
+                    </FilterRow>
+                    <FilterRow label="Min RSSI">
+                        <TextInput
+                            style={inputStyle}
+                            value={minRssiText}
+                            keyboardType="numbers-and-punctuation"
+                            placeholder="e.g. -80"
+                            editable={!filter.showAllDevices}
+                            onChangeText={setMinRssiText}
+                            onEndEditing={() => update({ minRssi: parseRssi(minRssiText) })}
+                        />
+                    </FilterRow>
+                    <FilterRow label="Scan for (s)">
+                        <TextInput
+                            style={inputStyle}
+                            value={durationText}
+                            keyboardType="numeric"
+                            placeholder="Until stopped"
+                            onChangeText={setDurationText}
+                            onEndEditing={() => dispatch(setScanTimeout({ timeoutMs: Math.max(0, (parseFloat(durationText) || 0) * 1000) }))}
+                        />
+                    </FilterRow>
+                    <FilterRow label="Forget after (s)">
+                        <TextInput
+                            style={inputStyle}
+                            value={ttlText}
+                            keyboardType="numeric"
+                            placeholder="Never"
+                            onChangeText={setTtlText}
+                            onEndEditing={() => dispatch(setScanListOptions({ options: { deviceTtlMs: Math.max(0, (parseFloat(ttlText) || 0) * 1000) } }))}
+                        />
+                    </FilterRow>
+                    <FilterRow label="Stable order">
+                        <Switch
+                            value={scanListOptions.stableOrdering}
+                            onValueChange={(value) => {
+                                dispatch(setScanListOptions({ options: { stableOrdering: value } }));
+                            }}
+                        />
+                    </FilterRow>
+                    <TouchableOpacity style={{ alignSelf: 'flex-end', marginTop: 6 }} onPress={() => dispatch(resetScanFilter())}>
+                        <Text style={{ ...globalStyles.text.p, color: appColors.primary }}>Reset</Text>
+                    </TouchableOpacity>
+                </View>
+            }
+        </View>
+    );
+};
+
+export default ScanFilterPanel;
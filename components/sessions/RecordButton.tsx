@@ -0,0 +1,53 @@
+import React from 'react';
+import { Text, TouchableOpacity, View } from 'react-native';
+import { Icon, useToast } from 'native-base';
+import { MaterialIcons } from '@expo/vector-icons';
+import { appColors, globalStyles } from '../../constants/globalStyles';
+import { useAppDispatch, useAppSelector } from '../../hooks/hooks';
+import { selectRecording, startRecording, stopRecording } from '../../store/sessions/sessionsSlice';
+import { formatDuration } from '../../store/sessions/sessionStats';
+
+interface RecordButtonProps {
+    deviceId: string;
+    deviceName: string | null;
+}
+
+// Starts and stops the recording of one device. Samples are collected in the store, not by this component.
+const RecordButton = (props: RecordButtonProps) => {
+    const { deviceId, deviceName } = props;
+    const recording = useAppSelector(selectRecording(deviceId));
+    const toast = useToast();
+    const dispatch = useAppDispatch();
+
+    const pressHandler = async () => {
+        if (!recording) {
+            dispatch(startRecording({ deviceId, deviceName, startedAt: Date.now() }));
+            return;
+        }
+        const result = await dispatch(stopRecording({ deviceId }));
+        toast.show({
+            description: stopRecording.fulfilled.match(result)
+                ? `Saved session with ${result.payload.stats.count} samples`
+                : result.error.message,
+            ...globalStyles.toast.default,
+        });
+    };
+
+    // Re-renders with every sample, which keeps the elapsed time current
+    const lastSampleAt = recording?.lastSampleAt ?? recording?.startedAt;
+
+    return (
+        <TouchableOpacity onPress={pressHandler}>
+            <View style={{ ...globalStyles.div.row, justifyContent: 'center', marginTop: 8 }}>
+                <Icon as={MaterialIcons} name={recording ? 'stop' : 'fiber-manual-record'} size={6} color={recording ? appColors.error : appColors.primary}/>
+                <Text style={{ ...globalStyles.text.p, color: recording ? appColors.error : appColors.primary }}>
+                    {recording && lastSampleAt
+                        ? `Stop (${formatDuration(lastSampleAt - recording.startedAt)}, ${recording.sampleCount} samples)`
+                        : 'Record'}
+                </Text>
+            </View>
+        </TouchableOpacity>
+    );
+};
+
+export default RecordButton;
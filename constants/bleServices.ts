@@ -1,9 +1,66 @@
+import { bytes, float32, scaled, uint32, uint8, utf8 } from '../services/ble/codecs';
+import { defineCharacteristic, defineService, IServiceProfile, ProfileValue } from '../services/ble/profiles';
+import { weightMeasurement } from '../services/ble/sigCodecs';
+import { commandFrame } from '../services/ble/commands';
+import { dfuControlFrame } from '../services/dfu/dfuProtocol';
+import { fullUUID } from '../utils/uuid';
+
+// Every GATT service the app understands. Adding a sensor means adding its profile here.
 const bleServices = {
-    // SAMPLE Service
-    sample: {
-        SAMPLE_SERVICE_UUID: "cb0f22c6-1000-4737-9f86-1c33f4ee9eea",
-        SAMPLE_LOAD_CELLS_CHARACTERISTIC_UUID: "cb0f22c6-1001-41a0-93d4-9025f8b5eafe",
-    },
+    // SAMPLE Service, the ESP32 firmware notifies the load cells in kg and takes commands (see `deviceCommands.ts`)
+    sample: defineService({
+        uuid: "cb0f22c6-1000-4737-9f86-1c33f4ee9eea",
+        name: 'Sample scale',
+        characteristics: {
+            loadCells: defineCharacteristic("cb0f22c6-1001-41a0-93d4-9025f8b5eafe", 'Load cells', scaled(float32('le'), { factor: 1000, unit: 'g' })),
+            // Older firmware does not have it
+            command: defineCharacteristic("cb0f22c6-1002-41a0-93d4-9025f8b5eafe", 'Command', commandFrame()),
+        },
+    }),
+    // Firmware update service of the same firmware, see `dfuProtocol.ts`
+    dfu: defineService({
+        uuid: "cb0f22c6-2000-4737-9f86-1c33f4ee9eea",
+        name: 'Firmware update',
+        characteristics: {
+            control: defineCharacteristic("cb0f22c6-2001-41a0-93d4-9025f8b5eafe", 'DFU control point', dfuControlFrame()),
+            data: defineCharacteristic("cb0f22c6-2002-41a0-93d4-9025f8b5eafe", 'DFU data', bytes()),
+        },
+    }),
+    // Bluetooth SIG services
+    battery: defineService({
+        uuid: fullUUID('180F'),
+        name: 'Battery',
+        characteristics: {
+            level: defineCharacteristic(fullUUID('2A19'), 'Battery level', scaled(uint8(), { unit: '%' })),
+        },
+    }),
+    deviceInformation: defineService({
+        uuid: fullUUID('180A'),
+        name: 'Device Information',
+        characteristics: {
+            manufacturerName: defineCharacteristic(fullUUID('2A29'), 'Manufacturer', utf8()),
+            modelNumber: defineCharacteristic(fullUUID('2A24'), 'Model', utf8()),
+            serialNumber: defineCharacteristic(fullUUID('2A25'), 'Serial number', utf8()),
+            hardwareRevision: defineCharacteristic(fullUUID('2A27'), 'Hardware revision', utf8()),
+            firmwareRevision: defineCharacteristic(fullUUID('2A26'), 'Firmware revision', utf8()),
+            softwareRevision: defineCharacteristic(fullUUID('2A28'), 'Software revision', utf8()),
+        },
+    }),
+    weightScale: defineService({
+        uuid: fullUUID('181D'),
+        name: 'Weight Scale',
+        characteristics: {
+            feature: defineCharacteristic(fullUUID('2A9E'), 'Weight Scale Feature', uint32('le')),
+            measurement: defineCharacteristic(fullUUID('2A9D'), 'Weight Measurement', weightMeasurement()),
+        },
+    }),
 }
 
-export default bleServices
\ No newline at end of file
+export type BleServices = typeof bleServices;
+export type ServiceName = keyof BleServices;
+export type CharacteristicName<S extends ServiceName> = keyof BleServices[S]['characteristics'] & string;
+export type CharacteristicValue<S extends ServiceName, C extends CharacteristicName<S>> = ProfileValue<BleServices[S]['characteristics'][C]>;
+
+export const serviceProfile = (service: ServiceName): IServiceProfile => bleServices[service];
+
+export default bleServices
@@ -0,0 +1,27 @@
+// A few Bluetooth SIG company identifiers seen around our boards. The full list is in the SIG's Assigned Numbers document.
+const companyIdentifiers: { [companyId: number]: string } = {
+    0x0006: 'Microsoft',
+    0x000F: 'Broadcom',
+    0x004C: 'Apple',
+    0x0059: 'Nordic Semiconductor',
+    0x0075: 'Samsung',
+    0x0087: 'Garmin',
+    0x00E0: 'Google',
+    0x0131: 'Cypress Semiconductor',
+    0x02E5: 'Espressif',
+    0x038F: 'Xiaomi',
+};
+
+export const companyName = (companyId: number) => companyIdentifiers[companyId] ?? null;
+
+// 0x02E5
+export const companyIdHex = (companyId: number) => `0x${companyId.toString(16).toUpperCase().padStart(4, '0')}`;
+
+// 0x02E5 (Espressif), or just the hex id for companies not listed above
+export const formatCompanyId = (companyId: number) => {
+    const hex = companyIdHex(companyId);
+    const name = companyName(companyId);
+    return name ? `${hex} (${name})` : hex;
+};
+
+export default companyIdentifiers;
@@ -0,0 +1,17 @@
+import { scaled, uint16 } from '../services/ble/codecs';
+import { CommandArgumentOf, defineCommand } from '../services/ble/commands';
+
+// Commands the ESP32 firmware accepts on `bleServices.sample.characteristics.command`
+const deviceCommands = {
+    // Zeroes the load cells on the board itself, unlike the app's tare which only offsets the display
+    tare: defineCommand(0x01, 'Tare on device'),
+    setSampleRate: defineCommand(0x02, 'Set sample rate', scaled(uint16('le'), { unit: 'Hz' })),
+    // Answers before restarting, the link drops right after
+    reboot: defineCommand(0x03, 'Reboot'),
+};
+
+export type DeviceCommands = typeof deviceCommands;
+export type CommandName = keyof DeviceCommands;
+export type CommandArgument<C extends CommandName> = CommandArgumentOf<DeviceCommands[C]>;
+
+export default deviceCommands;
@@ -1,6 +1,74 @@
+import { useCallback, useContext, useEffect, useMemo } from 'react';
 import { TypedUseSelectorHook, useDispatch, useSelector } from 'react-redux'
 import type { RootState, AppDispatch } from '../store/store';
+import { BleTransport, BleTransportContext } from '../services/ble';
+import { EventJournal } from '../services/journal/eventJournal';
+import { JournalContext } from '../services/journal/journalContext';
+import type { CharacteristicName, CharacteristicValue, ServiceName } from '../constants/bleServices';
+import {
+    IDecodedCharacteristic,
+    makeSelectDecodedCharacteristic,
+    monitorCharacteristic,
+    readCharacteristic,
+    unmonitorCharacteristic,
+    writeCharacteristicWithoutResponse,
+    writeCharacteristicWithResponse,
+} from '../store/ble/characteristicProfiles';
 
 // Use throughout app instead of plain `useDispatch` and `useSelector`
 export const useAppDispatch = () => useDispatch<AppDispatch>()
-export const useAppSelector: TypedUseSelectorHook<RootState> = useSelector
\ No newline at end of file
+export const useAppSelector: TypedUseSelectorHook<RootState> = useSelector
+
+// The app-wide BLE transport. Never construct a BleManager in a component.
+export const useBleTransport = (): BleTransport => {
+    const transport = useContext(BleTransportContext);
+    if (!transport) {
+        throw new Error('useBleTransport must be used inside a BleTransportContext provider');
+    }
+    return transport;
+}
+
+// The app-wide event journal, the one the transport and the store record to
+export const useJournal = (): EventJournal => {
+    const journal = useContext(JournalContext);
+    if (!journal) {
+        throw new Error('useJournal must be used inside a JournalContext provider');
+    }
+    return journal;
+}
+
+// Monitors a characteristic from `bleServices` while mounted and returns its decoded value
+export const useMonitoredCharacteristic = <S extends ServiceName, C extends CharacteristicName<S>>(
+    deviceId: string | undefined, service: S, characteristic: C, enabled: boolean = true,
+): IDecodedCharacteristic<CharacteristicValue<S, C>> => {
+    const dispatch = useAppDispatch();
+    const selectDecoded = useMemo(() => makeSelectDecodedCharacteristic({ deviceId: deviceId ?? '', service, characteristic }),
+        [deviceId, service, characteristic]);
+
+    useEffect(() => {
+        if (!deviceId || !enabled) return;
+        const params = { deviceId, service, characteristic };
+        dispatch(monitorCharacteristic(params));
+        return () => {
+            dispatch(unmonitorCharacteristic(params));
+        };
+    }, [deviceId, service, characteristic, enabled]);
+
+    return useAppSelector(selectDecoded) as IDecodedCharacteristic<CharacteristicValue<S, C>>;
+}
+
+// Returns a function reading the decoded value of a characteristic from `bleServices`
+export const useReadCharacteristic = <S extends ServiceName, C extends CharacteristicName<S>>(deviceId: string, service: S, characteristic: C) => {
+    const dispatch = useAppDispatch();
+    return useCallback(() => dispatch(readCharacteristic({ deviceId, service, characteristic })).unwrap() as Promise<CharacteristicValue<S, C>>,
+        [deviceId, service, characteristic]);
+}
+
+// Returns a function encoding and writing a value to a characteristic from `bleServices`
+export const useWriteCharacteristic = <S extends ServiceName, C extends CharacteristicName<S>>(deviceId: string, service: S, characteristic: C, withResponse: boolean = true) => {
+    const dispatch = useAppDispatch();
+    return useCallback((value: CharacteristicValue<S, C>) => {
+        const params = { deviceId, service, characteristic, value };
+        return dispatch(withResponse ? writeCharacteristicWithResponse(params) : writeCharacteristicWithoutResponse(params)).unwrap();
+    }, [deviceId, service, characteristic, withResponse]);
+}
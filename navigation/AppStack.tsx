@@ -1,3 +1,4 @@
+import { useEffect } from 'react';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { NavigationContainer } from '@react-navigation/native';
 import { SafeAreaView, Text } from 'react-native';
@@ -7,6 +8,20 @@ import { Icon } from 'native-base';
 import { MaterialIcons } from "@expo/vector-icons";
 import BLEScreen from '../screens/ble/BLEScreen';
 import BLEManager from '../components/BLEManager/BLEManager';
+import AlertToaster from '../components/alerts/AlertToaster';
+import BackgroundIndicator from '../components/background/BackgroundIndicator';
+import GattExplorerScreen from '../screens/gatt/GattExplorerScreen';
+import HistoryScreen from '../screens/history/HistoryScreen';
+import SettingsScreen from '../screens/settings/SettingsScreen';
+import FirmwareScreen from '../screens/firmware/FirmwareScreen';
+import DiagnosticsScreen from '../screens/diagnostics/DiagnosticsScreen';
+import JournalScreen from '../screens/journal/JournalScreen';
+import { useAppDispatch } from '../hooks/hooks';
+import { loadCalibration } from '../store/calibration/calibrationSlice';
+import { loadWeightFilterSettings } from '../store/weight/weightSlice';
+import { loadAlertRules } from '../store/alerts/alertsSlice';
+import { loadKnownDevices } from '../store/knownDevices/knownDevicesSlice';
+import { loadBackgroundSettings } from '../store/background/backgroundSlice';
 
 const Tab = createBottomTabNavigator();
 
@@ -28,6 +43,18 @@ const TabStack = () => {
                         }
                     }}
                 />
+                <Tab.Screen
+                    name={'history'}
+                    component={HistoryScreen}
+                    options={{
+                        tabBarIcon: ({focused, color, size}) => {
+                            return <Icon as={MaterialIcons} name="history" size={focused? 7 : 6} color={'white'}/>;
+                        },
+                        tabBarLabel: ({focused}) => {
+                            return <Text style={{ color: 'white', fontSize: focused? 14 : 12, marginLeft: 10 }}>History</Text>;
+                        }
+                    }}
+                />
                 <Tab.Screen
                     name={'ble'}
                     component={BLEScreen}
@@ -40,15 +67,88 @@ const TabStack = () => {
                         }
                     }}
                 />
+                <Tab.Screen
+                    name={'gatt'}
+                    component={GattExplorerScreen}
+                    options={{
+                        tabBarIcon: ({focused, color, size}) => {
+                            return <Icon as={MaterialIcons} name="list" size={focused? 7 : 6} color={'white'}/>;
+                        },
+                        tabBarLabel: ({focused}) => {
+                            return <Text style={{ color: 'white', fontSize: focused? 14 : 12, marginLeft: 10 }}>GATT</Text>;
+                        }
+                    }}
+                />
+                <Tab.Screen
+                    name={'diagnostics'}
+                    component={DiagnosticsScreen}
+                    options={{
+                        tabBarIcon: ({focused, color, size}) => {
+                            return <Icon as={MaterialIcons} name="network-check" size={focused? 7 : 6} color={'white'}/>;
+                        },
+                        tabBarLabel: ({focused}) => {
+                            return <Text style={{ color: 'white', fontSize: focused? 14 : 12, marginLeft: 10 }}>Link</Text>;
+                        }
+                    }}
+                />
+                <Tab.Screen
+                    name={'journal'}
+                    component={JournalScreen}
+                    options={{
+                        tabBarIcon: ({focused, color, size}) => {
+                            return <Icon as={MaterialIcons} name="receipt-long" size={focused? 7 : 6} color={'white'}/>;
+                        },
+                        tabBarLabel: ({focused}) => {
+                            return <Text style={{ color: 'white', fontSize: focused? 14 : 12, marginLeft: 10 }}>Journal</Text>;
+                        }
+                    }}
+                />
+                <Tab.Screen
+                    name={'firmware'}
+                    component={FirmwareScreen}
+                    options={{
+                        tabBarIcon: ({focused, color, size}) => {
+                            return <Icon as={MaterialIcons} name="system-update" size={focused? 7 : 6} color={'white'}/>;
+                        },
+                        tabBarLabel: ({focused}) => {
+                            return <Text style={{ color: 'white', fontSize: focused? 14 : 12, marginLeft: 10 }}>Firmware</Text>;
+                        }
+                    }}
+                />
+                <Tab.Screen
+                    name={'settings'}
+                    component={SettingsScreen}
+                    options={{
+                        tabBarIcon: ({focused, color, size}) => {
+                            return <Icon as={MaterialIcons} name="settings" size={focused? 7 : 6} color={'white'}/>;
+                        },
+                        tabBarLabel: ({focused}) => {
+                            return <Text style={{ color: 'white', fontSize: focused? 14 : 12, marginLeft: 10 }}>Settings</Text>;
+                        }
+                    }}
+                />
             </Tab.Navigator>
         </NavigationContainer>
     );
 };
 
 export const AppStack = () => {
+    const dispatch = useAppDispatch();
+
+    // Calibration and filters have to be in place before the first reading is displayed or recorded
+    useEffect(() => {
+        dispatch(loadCalibration());
+        dispatch(loadWeightFilterSettings());
+        dispatch(loadAlertRules());
+        dispatch(loadKnownDevices());
+        dispatch(loadBackgroundSettings());
+    }, []);
+
     return (
         <SafeAreaView style={globalStyles.container.base}>
             <BLEManager />
+            <AlertToaster />
+            <BackgroundIndicator />
             <TabStack />
         </SafeAreaView>
     );
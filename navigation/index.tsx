@@ -1,20 +1,38 @@
+import { useState } from 'react';
 import { NativeBaseProvider } from "native-base";
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { SafeAreaView } from 'react-native';
 import { AppStack } from './AppStack';
-import store from '../store/store';
+import { createAppStore, createAppTransport } from '../store/store';
 import { Provider } from 'react-redux';
+import { BleTransportContext, createBleTransport, resolveBleBackend } from '../services/ble';
+import { bleJournal } from '../services/journal/eventJournal';
+import { JournalContext } from '../services/journal/journalContext';
+import { deviceNotifier } from '../services/notifications';
+import { deviceStorage } from '../services/storage';
+
+// One transport and one journal for the whole app run: the store's thunks and the components reach the radio through the same queue
+const createApp = () => {
+    const journal = bleJournal;
+    const bleTransport = createAppTransport(createBleTransport(resolveBleBackend()), journal);
+    return { bleTransport, journal, store: createAppStore(bleTransport, deviceStorage, deviceNotifier, journal) };
+};
 
 export default function Providers() {
+    const [{ bleTransport, journal, store }] = useState(createApp);
     return (
         <Provider store={store}>
-            <NativeBaseProvider>
-                <SafeAreaProvider>
-                    <SafeAreaView style={{ flex: 1 }}>
-                        <AppStack />
-                    </SafeAreaView>
-                </SafeAreaProvider>
-            </NativeBaseProvider>
+            <BleTransportContext.Provider value={bleTransport}>
+                <JournalContext.Provider value={journal}>
+                    <NativeBaseProvider>
+                        <SafeAreaProvider>
+                            <SafeAreaView style={{ flex: 1 }}>
+                                <AppStack />
+                            </SafeAreaView>
+                        </SafeAreaProvider>
+                    </NativeBaseProvider>
+                </JournalContext.Provider>
+            </BleTransportContext.Provider>
         </Provider>
     )
-}
\ No newline at end of file
+}
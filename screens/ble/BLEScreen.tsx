@@ -1,85 +1,76 @@
-import React, { useEffect, useState } from 'react';
-import { FlatList, Text, TouchableOpacity, View } from 'react-native';
-import { appColors, globalStyles, windowWidth } from '../../constants/globalStyles';
+import React, { useEffect } from 'react';
+import { FlatList, Switch, Text, View } from 'react-native';
+import { appColors, globalStyles } from '../../constants/globalStyles';
 import PrimaryButton from '../../components/button/PrimaryButton';
 import { useAppDispatch, useAppSelector } from '../../hooks/hooks';
 import {
-    connectDeviceById, scanBleDevices,
+    scanBleDevices,
     selectAdapterState,
-    selectConnectedDevice,
-    selectScannedDevices, stopDeviceScan
+    selectBleReadiness,
+    selectConnectedDevices,
+    selectIsScanning,
+    selectReconnectPolicy,
+    selectScanFilter,
+    selectScannedDevices, setReconnectPolicy, stopDeviceScan
 } from '../../store/ble/bleSlice';
-import { IBLEDevice } from '../../store/ble/bleSlice.contracts';
+import { IDeviceScan, NetworkState } from '../../store/ble/bleSlice.contracts';
 import { Icon, useToast } from 'native-base';
 import { MaterialIcons } from '@expo/vector-icons';
+import ScanFilterPanel from '../../components/scan/ScanFilterPanel';
+import KnownDeviceItem from '../../components/devices/KnownDeviceItem';
+import DeviceItem from '../../components/devices/DeviceItem';
+import BlePermissionScreen from '../permissions/BlePermissionScreen';
+import { selectAutoConnect, selectKnownDevices, selectPreferredDeviceId } from '../../store/knownDevices/knownDevicesSlice';
 
-interface DeviceItemProps {
-    device: IBLEDevice | null
-}
-
-const DeviceItem = (props: DeviceItemProps) => {
-    const { device } = props;
-    const [isConnecting, setIsConnecting] = useState(false);
-    const connectedDevice = useAppSelector(selectConnectedDevice)
-    const dispatch = useAppDispatch();
-
-    const toast = useToast();
-
-    const connectHandler = async () => {
-        if (isConnecting) return;
-        if (device?.id){
-            setIsConnecting(true);
-            const result = await dispatch(connectDeviceById({ id: device?.id }))
-            if (result.meta.requestStatus === 'fulfilled') {
-                toast.show({
-                    description: 'Connection successful',
-                    ...globalStyles.toast.default,
-                });
-            }
-            else if (result.meta.requestStatus === 'rejected') {
-                toast.show({
-                    description: 'Connection unsuccessful',
-                    ...globalStyles.toast.default,
-                });
-            }
-            setIsConnecting(false);
-        }
-        else {
-            toast.show({
-                description: 'Connection unsuccessful (No ID)',
-                ...globalStyles.toast.default,
-            });
-        }
+// Status line and icon for the header card, derived from the store
+const bleStatus = (adapterState: string, connectedCount: number, deviceScan: IDeviceScan) => {
+    if (connectedCount > 0) return { stateText: `Connected (${connectedCount})`, iconName: 'bluetooth-connected' };
+    if (deviceScan.status === NetworkState.LOADING) return { stateText: 'Scanning...', iconName: 'bluetooth-searching' };
+    if (deviceScan.status === NetworkState.ERROR) return { stateText: `Scan failed: ${deviceScan.error}`, iconName: 'error-outline' };
+    switch (adapterState.toLowerCase()) {
+        case 'poweredoff':
+            return { stateText: 'Bluetooth Disabled', iconName: 'bluetooth-disabled' };
+        case 'poweredon':
+            return { stateText: 'Ready To Connect', iconName: 'bluetooth' };
+        default:
+            return { stateText: adapterState, iconName: 'bluetooth-disabled' };
     }
-
-    return (
-        <TouchableOpacity style={{ ...globalStyles.card.shadow, width: windowWidth*0.8, backgroundColor: (connectedDevice?.id === device?.id)? 'green' : 'white' }} onPress={connectHandler}>
-            <Text style={{ ...globalStyles.text.p, paddingVertical: 10 }}>{device?.name}</Text>
-        </TouchableOpacity>
-    )
 }
 
+const autoConnectText = {
+    connecting: 'Connecting to the preferred device...',
+    scanning: 'Looking for the preferred device...',
+};
+
 const BLEScreen = () => {
-    const [buttonText, setButtonText] = useState('Start Scan');
-    const [isScanning, setIsScanning] = useState(false);
-    const [iconName, setIconName] = useState('bluetooth-disabled');
-    const [stateText, setStateText] = useState('');
-    const bleDevice = useAppSelector(selectConnectedDevice);
+    const connectedDevices = useAppSelector(selectConnectedDevices);
     const adapterState = useAppSelector(selectAdapterState);
-    const scannedDevices = useAppSelector(selectScannedDevices).devices;
+    const deviceScan = useAppSelector(selectScannedDevices);
+    const knownDevices = useAppSelector(selectKnownDevices);
+    const preferredId = useAppSelector(selectPreferredDeviceId);
+    const autoConnect = useAppSelector(selectAutoConnect);
+    // Preferred device first, then the most recently connected
+    const knownList = Object.values(knownDevices).sort((a, b) =>
+        Number(b.id === preferredId) - Number(a.id === preferredId) || b.lastConnectedAt - a.lastConnectedAt);
+    // Connected devices stop advertising and age out of the scan list, so they are always listed first. Known devices have their own section.
+    const scannedDevices = [
+        ...connectedDevices,
+        ...deviceScan.devices.filter(device => !connectedDevices.some(connected => connected.id === device.id)),
+    ].filter(device => !knownDevices[device.id]);
+    const isScanning = useAppSelector(selectIsScanning);
+    const scanFilter = useAppSelector(selectScanFilter);
+    const reconnectPolicy = useAppSelector(selectReconnectPolicy);
     const toast = useToast();
     const dispatch = useAppDispatch();
+    const readiness = useAppSelector(selectBleReadiness);
+    const { stateText, iconName } = bleStatus(adapterState, connectedDevices.length, deviceScan);
 
     const scanPressHandler = () => {
         if (isScanning) {
-            dispatch(stopDeviceScan({}));
-            setIsScanning(false);
-            setButtonText('Start Scan');
+            dispatch(stopDeviceScan());
         }
         else if (adapterState.toLowerCase() === 'poweredon') {
-            dispatch(scanBleDevices());
-            setIsScanning(true);
-            setButtonText('Stop Scan');
+            dispatch(scanBleDevices({ filter: scanFilter }));
         }
         else {
             toast.show({
@@ -90,33 +81,18 @@ const BLEScreen = () => {
     }
 
     useEffect(() => {
-        if (bleDevice) {
-            setIconName('bluetooth-connected');
-            setStateText('Connected');
-            dispatch(stopDeviceScan({}));
-            setIsScanning(false);
-            setButtonText('Start Scan');
-        }
-        else if (isScanning) {
-            setStateText('Scanning...')
-        }
-        else {
-            switch (adapterState.toLowerCase()) {
-                case 'poweredoff':
-                    setIconName('bluetooth-disabled');
-                    setStateText('Bluetooth Disabled');
-                    break;
-                case 'poweredon':
-                    setIconName('bluetooth');
-                    setStateText('Ready To Connect');
-                    break;
-                default:
-                    setStateText(adapterState);
-                    setIconName('bluetooth-disabled');
-                    break;
-            }
+        if (deviceScan.status === NetworkState.ERROR) {
+            toast.show({
+                description: `Scan failed: ${deviceScan.error}`,
+                ...globalStyles.toast.default,
+            });
         }
-    }, [adapterState, bleDevice, isScanning]);
+    }, [deviceScan.status]);
+
+    // Scanning cannot work without these, so explain instead of failing silently
+    if (readiness === 'missingPermissions' || readiness === 'blocked' || readiness === 'unsupported') {
+        return <BlePermissionScreen/>;
+    }
 
     return (
         <View style={globalStyles.container.spacedBetween}>
@@ -125,19 +101,45 @@ const BLEScreen = () => {
                     <Text style={{ ...globalStyles.text.p, color: appColors.primary }}>{stateText}</Text>
                     <Icon as={MaterialIcons} name={iconName} color={appColors.primary} size={7}/>
                 </View>
+                {(autoConnect.stage === 'connecting' || autoConnect.stage === 'scanning') &&
+                    <Text style={{ ...globalStyles.text.p, fontSize: 12, color: 'grey' }}>{autoConnectText[autoConnect.stage]}</Text>
+                }
+                <View style={{ ...globalStyles.div.row, justifyContent: 'space-between' }}>
+                    <Text style={{ ...globalStyles.text.p, color: 'grey' }}>Auto-reconnect</Text>
+                    <Switch
+                        value={reconnectPolicy.enabled}
+                        onValueChange={(enabled) => {
+                            dispatch(setReconnectPolicy({ policy: { enabled } }));
+                        }}
+                    />
+                </View>
             </View>
-            {(scannedDevices?.length > 0) &&
-                <Text style={{ ...globalStyles.text.p, color: 'grey', textAlign: 'center' }}>Select a device below to connect.</Text>
-            }
+            <ScanFilterPanel />
             <FlatList
                 style={{ height: '100%' }}
                 contentContainerStyle={{ width: '100%', justifyContent: 'center' }}
                 data={scannedDevices}
+                keyExtractor={(item) => item.id}
+                ListHeaderComponent={
+                    <>
+                        {knownList.length > 0 &&
+                            <>
+                                <Text style={{ ...globalStyles.text.p, color: 'grey', textAlign: 'center' }}>Known devices</Text>
+                                {knownList.map(device => <KnownDeviceItem key={device.id} device={device}/>)}
+                            </>
+                        }
+                        {(scannedDevices?.length > 0) &&
+                            <Text style={{ ...globalStyles.text.p, color: 'grey', textAlign: 'center', marginTop: 6 }}>
+                                {knownList.length > 0 ? 'New devices, select one to connect.' : 'Select a device below to connect.'}
+                            </Text>
+                        }
+                    </>
+                }
                 renderItem={({ item }) => (
                     <DeviceItem device={item} />
                 )}
                 />
-            <PrimaryButton text={buttonText} style={{ marginBottom: 10 }} onPress={scanPressHandler} loading={isScanning} />
+            <PrimaryButton text={isScanning ? 'Stop Scan' : 'Start Scan'} style={{ marginBottom: 10 }} onPress={scanPressHandler} loading={isScanning} />
         </View>
     );
 };
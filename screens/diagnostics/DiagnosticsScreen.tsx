@@ -0,0 +1,159 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { useToast } from 'native-base';
+import { appColors, globalStyles, screenWidth } from '../../constants/globalStyles';
+import bleServices from '../../constants/bleServices';
+import { useAppDispatch, useAppSelector } from '../../hooks/hooks';
+import { requestMtu, selectActiveConnections } from '../../store/ble/bleSlice';
+import { NetworkState } from '../../store/ble/bleSlice.contracts';
+import { makeSelectNotificationTotals, selectLinkDiagnostics } from '../../store/diagnostics/diagnosticsSlice';
+import { RSSI_POLL_INTERVAL_MS } from '../../store/diagnostics/diagnosticsListeners';
+import { formatDuration } from '../../store/sessions/sessionStats';
+import RssiChart from '../../components/chart/RssiChart';
+import SignalBars from '../../components/devices/SignalBars';
+import { isSameUUID, shortUUID } from '../../utils/uuid';
+
+// 23 is the BLE default, 185 what iOS settles on, 247 fits a full data length extension packet
+const MTU_OPTIONS = [23, 185, 247, 517];
+
+const sectionStyle = {
+    backgroundColor: 'white',
+    borderRadius: 5,
+    borderWidth: 1,
+    borderColor: appColors.primaryInactive,
+    padding: 10,
+    marginVertical: 6,
+};
+
+const Chip = (props: { label: string, selected: boolean, onPress: () => void }) => (
+    <TouchableOpacity
+        onPress={props.onPress}
+        style={{ paddingHorizontal: 10, paddingVertical: 4, borderRadius: 5, marginRight: 6, marginTop: 4, backgroundColor: props.selected ? appColors.primary : appColors.primaryInactive }}
+    >
+        <Text style={{ color: 'white' }}>{props.label}</Text>
+    </TouchableOpacity>
+);
+
+const InfoRow = (props: { label: string, value: string, color?: string }) => (
+    <View style={{ ...globalStyles.div.row, justifyContent: 'space-between', marginVertical: 2 }}>
+        <Text style={{ ...globalStyles.text.p, color: 'grey' }}>{props.label}</Text>
+        <Text style={{ ...globalStyles.text.p, flexShrink: 1, textAlign: 'right', color: props.color ?? 'black' }}>{props.value}</Text>
+    </View>
+);
+
+// Profile name from `bleServices` when the characteristic has one
+const characteristicLabel = (uuid: string) => {
+    for (const [serviceName, service] of Object.entries(bleServices)) {
+        const entry = Object.entries(service.characteristics).find(([, characteristic]) => isSameUUID(characteristic.uuid, uuid));
+        if (entry) return `${serviceName}.${entry[0]}`;
+    }
+    return shortUUID(uuid);
+};
+
+const formatInterval = (ms: number | null) => (ms === null ? '-' : ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+// Link health of a connected device: MTU, RSSI over time and how regularly its notifications arrive
+const DiagnosticsScreen = (props: { navigation: any }) => {
+    const connections = useAppSelector(selectActiveConnections);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [mtu, setMtu] = useState(MTU_OPTIONS[MTU_OPTIONS.length - 1]);
+    const [now, setNow] = useState(Date.now());
+    const toast = useToast();
+    const dispatch = useAppDispatch();
+
+    const connection = connections.find(({ device }) => device.id === selectedId) ?? connections[0];
+    const deviceId = connection?.device.id ?? null;
+    const link = useAppSelector(selectLinkDiagnostics(deviceId));
+    const selectNotificationTotals = useMemo(() => makeSelectNotificationTotals(deviceId), [deviceId]);
+    const totals = useAppSelector(selectNotificationTotals);
+    const isConnected = connection?.status === NetworkState.SUCCESS;
+
+    // Keeps the uptime ticking between polls
+    useEffect(() => {
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, []);
+
+    const requestMtuPressHandler = async () => {
+        if (!deviceId) return;
+        const result = await dispatch(requestMtu({ deviceId, mtu }));
+        const description = requestMtu.fulfilled.match(result)
+            ? `MTU is now ${result.payload}`
+            : `MTU request failed: ${result.error.message}`;
+        toast.show({ description, ...globalStyles.toast.default });
+    };
+
+    if (!connection) {
+        return (
+            <View style={globalStyles.container.center}>
+                <Text style={globalStyles.text.emptyText}>No device connected</Text>
+            </View>
+        );
+    }
+
+    const latestRssi = link?.rssi[link.rssi.length - 1]?.rssi ?? connection.device.rssi;
+    const notifications = Object.entries(link?.notifications ?? {});
+
+    return (
+        <ScrollView contentContainerStyle={{ padding: 10 }}>
+            {connections.length > 1 &&
+                <View style={{ ...globalStyles.div.row, justifyContent: 'flex-start', flexWrap: 'wrap' }}>
+                    {connections.map(({ device }) => (
+                        <Chip key={device.id} label={device.name ?? device.id} selected={device.id === deviceId} onPress={() => setSelectedId(device.id)}/>
+                    ))}
+                </View>
+            }
+            <View style={sectionStyle}>
+                <Text style={{ ...globalStyles.text.p, fontWeight: 'bold' }}>Link</Text>
+                <InfoRow label="Device" value={connection.device.name ?? connection.device.id}/>
+                <InfoRow
+                    label="Status"
+                    value={isConnected ? 'Connected' : 'Reconnecting'}
+                    color={isConnected ? 'black' : appColors.error}
+                />
+                <InfoRow label="Uptime" value={isConnected && link?.connectedAt ? formatDuration(now - link.connectedAt) : '-'}/>
+                <InfoRow label="Reconnects" value={`${link?.reconnectCount ?? 0}`}/>
+                <InfoRow label="MTU" value={`${connection.mtu} (${connection.mtu - 3} byte payload)`}/>
+                <View style={{ ...globalStyles.div.row, justifyContent: 'flex-start', flexWrap: 'wrap', alignItems: 'center' }}>
+                    {MTU_OPTIONS.map(option => (
+                        <Chip key={option} label={`${option}`} selected={option === mtu} onPress={() => setMtu(option)}/>
+                    ))}
+                    <TouchableOpacity disabled={!isConnected} onPress={requestMtuPressHandler} style={{ marginTop: 4, marginLeft: 4 }}>
+                        <Text style={{ ...globalStyles.text.p, color: isConnected ? appColors.primary : appColors.primaryInactive }}>Request MTU</Text>
+                    </TouchableOpacity>
+                </View>
+            </View>
+            <View style={sectionStyle}>
+                <View style={{ ...globalStyles.div.row, justifyContent: 'space-between' }}>
+                    <Text style={{ ...globalStyles.text.p, fontWeight: 'bold' }}>Signal</Text>
+                    <SignalBars rssi={latestRssi}/>
+                </View>
+                <InfoRow label="RSSI" value={latestRssi === null ? '-' : `${latestRssi} dBm`}/>
+                {!!link?.rssiError && <InfoRow label="Last poll" value={link.rssiError} color={appColors.error}/>}
+                <RssiChart readings={link?.rssi ?? []} width={screenWidth - 42}/>
+                <Text style={{ fontSize: 12, color: 'grey' }}>{`Polled every ${RSSI_POLL_INTERVAL_MS / 1000} s while connected`}</Text>
+            </View>
+            <View style={sectionStyle}>
+                <Text style={{ ...globalStyles.text.p, fontWeight: 'bold' }}>Notifications</Text>
+                <InfoRow label="Received" value={`${totals.count}`}/>
+                <InfoRow label="Rate" value={`${totals.rate.toFixed(1)}/s`}/>
+                <InfoRow label="Gaps" value={`${totals.gapCount}`} color={totals.gapCount > 0 ? appColors.error : 'black'}/>
+                <InfoRow label="Longest gap" value={formatInterval(totals.maxIntervalMs || null)}/>
+                <InfoRow label="Dropped (estimate)" value={`${totals.droppedEstimate}`} color={totals.droppedEstimate > 0 ? appColors.error : 'black'}/>
+                {notifications.map(([uuid, stats]) => (
+                    <View key={uuid} style={{ marginTop: 6 }}>
+                        <Text style={{ fontSize: 12, fontWeight: 'bold' }}>{characteristicLabel(uuid)}</Text>
+                        <Text style={{ fontSize: 12, color: 'grey' }}>
+                            {`${stats.count} received, ${stats.rate.toFixed(1)}/s, every ${formatInterval(stats.intervalMs)}, ${stats.gapCount} gaps, ~${stats.droppedEstimate} dropped`}
+                        </Text>
+                    </View>
+                ))}
+                {link?.recording &&
+                    <Text style={{ fontSize: 12, color: 'grey', marginTop: 6 }}>Saved with the session being recorded</Text>
+                }
+            </View>
+        </ScrollView>
+    );
+};
+
+export default DiagnosticsScreen;
@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { useToast } from 'native-base';
+import { appColors, globalStyles } from '../../constants/globalStyles';
+import { useAppDispatch, useAppSelector } from '../../hooks/hooks';
+import { selectConnections } from '../../store/ble/bleSlice';
+import { NetworkState } from '../../store/ble/bleSlice.contracts';
+import {
+    abortFirmwareUpdate,
+    checkFirmwareVersion,
+    isUpdateRunning,
+    loadFirmwareImage,
+    selectFirmwareDeviceIds,
+    selectFirmwareUpdate,
+    selectSupportsDfu,
+    startFirmwareUpdate,
+} from '../../store/firmware/firmwareSlice';
+import { FirmwareUpdateStage } from '../../store/firmware/firmwareSlice.contracts';
+import { formatDuration } from '../../store/sessions/sessionStats';
+import { pickFirmwareFile } from '../../services/dfu/firmwareFiles';
+import { compareVersions } from '../../utils/firmwareVersion';
+import { formatCrc32 } from '../../utils/crc32';
+
+const sectionStyle = {
+    backgroundColor: 'white',
+    borderRadius: 5,
+    borderWidth: 1,
+    borderColor: appColors.primaryInactive,
+    padding: 10,
+    marginVertical: 6,
+};
+
+const stageLabels: { [stage in FirmwareUpdateStage]: string } = {
+    idle: 'Ready',
+    preparing: 'Preparing',
+    transferring: 'Sending image',
+    validating: 'Verifying image',
+    activating: 'Restarting device',
+    completed: 'Update completed',
+    interrupted: 'Interrupted, resumes after reconnecting',
+    failed: 'Failed',
+    aborted: 'Aborted',
+};
+
+const formatKilobytes = (bytes: number) => `${(bytes / 1024).toFixed(1)} kB`;
+
+const Chip = (props: { label: string, selected: boolean, onPress: () => void }) => (
+    <TouchableOpacity
+        onPress={props.onPress}
+        style={{ paddingHorizontal: 10, paddingVertical: 4, borderRadius: 5, marginRight: 6, marginTop: 4, backgroundColor: props.selected ? appColors.primary : appColors.primaryInactive }}
+    >
+        <Text style={{ color: 'white' }}>{props.label}</Text>
+    </TouchableOpacity>
+);
+
+const ActionButton = (props: { label: string, onPress: () => void, disabled?: boolean, color?: string }) => {
+    const color = props.disabled ? appColors.primaryInactive : props.color ?? appColors.primary;
+    return (
+        <TouchableOpacity
+            disabled={props.disabled}
+            onPress={props.onPress}
+            style={{ paddingHorizontal: 12, paddingVertical: 6, borderRadius: 5, marginRight: 8, marginTop: 6, borderWidth: 1, borderColor: color }}
+        >
+            <Text style={{ ...globalStyles.text.p, color }}>{props.label}</Text>
+        </TouchableOpacity>
+    );
+};
+
+const InfoRow = (props: { label: string, value: string }) => (
+    <View style={{ ...globalStyles.div.row, justifyContent: 'space-between', marginVertical: 2 }}>
+        <Text style={{ ...globalStyles.text.p, color: 'grey' }}>{props.label}</Text>
+        <Text style={{ ...globalStyles.text.p, flexShrink: 1, textAlign: 'right' }}>{props.value}</Text>
+    </View>
+);
+
+const versionComparison = (imageVersion: string | null, installedVersion: string | null) => {
+    if (!imageVersion || !installedVersion) return null;
+    return compareVersions(imageVersion, installedVersion);
+};
+
+const comparisonLabel = (comparison: number | null) => {
+    if (comparison === null) return 'Versions cannot be compared';
+    if (comparison > 0) return 'Newer than the installed firmware';
+    if (comparison === 0) return 'Same as the installed firmware';
+    return 'Older than the installed firmware';
+};
+
+// Flashes an ESP32 application image over the DFU service after comparing its version with the installed one
+const FirmwareScreen = (props: { navigation: any }) => {
+    const connections = useAppSelector(selectConnections);
+    const deviceIds = useAppSelector(selectFirmwareDeviceIds);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const toast = useToast();
+    const dispatch = useAppDispatch();
+
+    const deviceId = selectedId && deviceIds.includes(selectedId) ? selectedId : deviceIds[0] ?? null;
+
+    const update = useAppSelector(selectFirmwareUpdate(deviceId));
+    const isSupported = useAppSelector(selectSupportsDfu(deviceId));
+    const connection = deviceId ? connections[deviceId] : undefined;
+    const isConnected = connection?.status === NetworkState.SUCCESS;
+    const isRunning = isUpdateRunning(update);
+
+    useEffect(() => {
+        if (deviceId && isConnected && !update?.installed.version && update?.installed.status !== NetworkState.LOADING) {
+            dispatch(checkFirmwareVersion({ deviceId }));
+        }
+    }, [deviceId, isConnected]);
+
+    const showMessage = (description: string) => {
+        toast.show({ description, ...globalStyles.toast.default });
+    };
+
+    const choosePressHandler = async () => {
+        if (!deviceId) return;
+        try {
+            const file = await pickFirmwareFile();
+            if (!file) return;
+            const image = await dispatch(loadFirmwareImage({ deviceId, ...file })).unwrap();
+            showMessage(`Loaded ${image.projectName ?? file.name} ${image.version ?? ''}`.trim());
+        } catch (error: any) {
+            showMessage(`Could not load the image: ${error.message}`);
+        }
+    };
+
+    const flash = async () => {
+        if (!deviceId) return;
+        const result = await dispatch(startFirmwareUpdate({ deviceId }));
+        if (startFirmwareUpdate.fulfilled.match(result)) {
+            showMessage('Firmware updated, the device is restarting');
+        }
+        else if (result.error.code !== 'DISCONNECTED' && result.error.code !== 'ABORTED' && result.error.message) {
+            showMessage(`Firmware update failed: ${result.error.message}`);
+        }
+    };
+
+    // Reads the installed version again right before flashing and asks before anything that is not an upgrade
+    const flashPressHandler = async () => {
+        if (!deviceId || !update?.image) return;
+        const check = await dispatch(checkFirmwareVersion({ deviceId }));
+        const installed = checkFirmwareVersion.fulfilled.match(check) ? check.payload || null : null;
+        const comparison = versionComparison(update.image.version, installed);
+        if (comparison !== null && comparison > 0) {
+            flash();
+            return;
+        }
+        const reason = installed === null
+            ? 'The installed firmware version is unknown.'
+            : `${update.image.version ?? 'The image'} is not newer than the installed ${installed}.`;
+        Alert.alert('Flash firmware', `${reason} Flash it anyway?`, [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Flash', style: 'destructive', onPress: flash },
+        ]);
+    };
+
+    if (!deviceId) {
+        return (
+            <View style={{ ...globalStyles.container.center, padding: 20 }}>
+                <Text style={{ ...globalStyles.text.p, color: 'grey', textAlign: 'center' }}>Connect a device with the firmware update service</Text>
+            </View>
+        );
+    }
+
+    const image = update?.image ?? null;
+    const installedVersion = update?.installed.version ?? null;
+    const progress = image && update ? update.bytesConfirmed / image.size : 0;
+
+    return (
+        <ScrollView contentContainerStyle={{ padding: 10 }}>
+            <View style={{ ...globalStyles.div.row, justifyContent: 'flex-start', flexWrap: 'wrap' }}>
+                {deviceIds.map(id => (
+                    <Chip key={id} label={connections[id]?.device.name ?? id} selected={id === deviceId} onPress={() => setSelectedId(id)}/>
+                ))}
+            </View>
+            <View style={sectionStyle}>
+                <Text style={{ ...globalStyles.text.p, fontWeight: 'bold' }}>Installed</Text>
+                <InfoRow
+                    label="Version"
+                    value={update?.installed.status === NetworkState.LOADING ? 'Checking…' : installedVersion ?? (update?.installed.error || 'Unknown')}
+                />
+                {connection && <InfoRow label="MTU" value={`${connection.mtu}`}/>}
+                <View style={{ ...globalStyles.div.row, justifyContent: 'flex-start' }}>
+                    <ActionButton label="Check version" disabled={!isConnected} onPress={() => dispatch(checkFirmwareVersion({ deviceId }))}/>
+                </View>
+            </View>
+            <View style={sectionStyle}>
+                <Text style={{ ...globalStyles.text.p, fontWeight: 'bold' }}>Image</Text>
+                {image
+                    ? <>
+                        <InfoRow label="File" value={image.name}/>
+                        {image.projectName && <InfoRow label="Project" value={image.projectName}/>}
+                        <InfoRow label="Version" value={image.version ?? 'Unknown'}/>
+                        {image.buildDate && <InfoRow label="Built" value={image.buildDate}/>}
+                        <InfoRow label="Size" value={formatKilobytes(image.size)}/>
+                        <InfoRow label="CRC-32" value={formatCrc32(image.crc32)}/>
+                        <Text style={{ fontSize: 12, color: 'grey', marginTop: 4 }}>{comparisonLabel(versionComparison(image.version, installedVersion))}</Text>
+                        {image.isReleased && <Text style={{ fontSize: 12, color: 'grey', marginTop: 4 }}>Choose the file again to flash it</Text>}
+                    </>
+                    : <Text style={{ ...globalStyles.text.p, color: 'grey', marginTop: 4 }}>Choose an ESP32 application image (.bin)</Text>
+                }
+                <View style={{ ...globalStyles.div.row, justifyContent: 'flex-start' }}>
+                    <ActionButton label="Choose image" disabled={isRunning} onPress={choosePressHandler}/>
+                </View>
+            </View>
+            {image && update &&
+                <View style={sectionStyle}>
+                    <Text style={{ ...globalStyles.text.p, fontWeight: 'bold' }}>Update</Text>
+                    <Text style={{ ...globalStyles.text.p, color: update.stage === 'failed' ? appColors.error : 'black', marginTop: 4 }}>
+                        {stageLabels[update.stage]}{update.stage === 'failed' && update.error ? `: ${update.error}` : ''}
+                    </Text>
+                    <View style={{ height: 8, borderRadius: 4, backgroundColor: appColors.primaryInactive, marginVertical: 8, overflow: 'hidden' }}>
+                        <View style={{ height: 8, width: `${Math.round(progress * 100)}%`, backgroundColor: update.stage === 'failed' ? appColors.error : appColors.primary }}/>
+                    </View>
+                    <InfoRow label="Sent" value={`${formatKilobytes(update.bytesConfirmed)} of ${formatKilobytes(image.size)} (${Math.floor(progress * 100)}%)`}/>
+                    {update.bytesPerSecond !== null && <InfoRow label="Speed" value={`${formatKilobytes(update.bytesPerSecond)}/s`}/>}
+                    {update.etaMs !== null && update.stage === 'transferring' && <InfoRow label="Remaining" value={formatDuration(update.etaMs)}/>}
+                    {update.resumeCount > 0 && <InfoRow label="Resumed" value={`${update.resumeCount}×`}/>}
+                    <View style={{ ...globalStyles.div.row, justifyContent: 'flex-start', flexWrap: 'wrap' }}>
+                        {!isRunning && update.stage !== 'interrupted' && !image.isReleased &&
+                            <ActionButton label={update.stage === 'idle' || update.stage === 'completed' ? 'Flash' : 'Retry'} disabled={!isConnected || !isSupported} onPress={flashPressHandler}/>
+                        }
+                        {update.stage === 'interrupted' &&
+                            <ActionButton label="Resume" disabled={!isConnected} onPress={flash}/>
+                        }
+                        {(isRunning || update.stage === 'interrupted') &&
+                            <ActionButton label="Abort" color={appColors.error} onPress={() => dispatch(abortFirmwareUpdate({ deviceId }))}/>
+                        }
+                    </View>
+                </View>
+            }
+        </ScrollView>
+    );
+};
+
+export default FirmwareScreen;
@@ -0,0 +1,109 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { appColors, globalStyles } from '../../constants/globalStyles';
+import { useAppSelector } from '../../hooks/hooks';
+import { selectActiveConnections } from '../../store/ble/bleSlice';
+import { IGattService } from '../../store/ble/bleSlice.contracts';
+import CharacteristicRow, { GattLogger } from '../../components/gatt/CharacteristicRow';
+import GattLog, { IGattLogEntry } from '../../components/gatt/GattLog';
+import GattQueueStatus from '../../components/gatt/GattQueueStatus';
+import { DeviceInformation } from '../../components/profiles/DeviceProfiles';
+import bleServices from '../../constants/bleServices';
+import { isSameUUID, shortUUID } from '../../utils/uuid';
+
+// Oldest entries are dropped beyond this, fast notifications would grow the log forever
+const MAX_LOG_ENTRIES = 100;
+
+interface ServiceSectionProps {
+    deviceId: string;
+    service: IGattService;
+    log: GattLogger;
+}
+
+const ServiceSection = (props: ServiceSectionProps) => {
+    const { deviceId, service, log } = props;
+    const [isExpanded, setIsExpanded] = useState(false);
+    const profile = Object.values(bleServices).find(profile => isSameUUID(profile.uuid, service.uuid));
+
+    return (
+        <View style={{ backgroundColor: 'white', borderRadius: 5, borderWidth: 1, borderColor: appColors.primaryInactive, padding: 10, marginVertical: 4 }}>
+            <TouchableOpacity onPress={() => setIsExpanded(!isExpanded)}>
+                <View style={{ ...globalStyles.div.row, justifyContent: 'space-between' }}>
+                    <Text style={{ ...globalStyles.text.p, fontWeight: 'bold', fontFamily: 'monospace', flex: 1 }}>{profile ? `${profile.name} (${shortUUID(service.uuid)})` : shortUUID(service.uuid)}</Text>
+                    <Text style={{ ...globalStyles.text.p, color: 'grey' }}>
+                        {`${service.characteristics.length} char. ${isExpanded ? '▲' : '▼'}`}
+                    </Text>
+                </View>
+            </TouchableOpacity>
+            {isExpanded && service.characteristics.map(characteristic => (
+                <CharacteristicRow key={characteristic.uuid} deviceId={deviceId} characteristic={characteristic} log={log}/>
+            ))}
+        </View>
+    );
+};
+
+const GattExplorerScreen = (props: { navigation: any }) => {
+    const connections = useAppSelector(selectActiveConnections);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [logEntries, setLogEntries] = useState<Array<IGattLogEntry>>([]);
+    const nextLogId = useRef(0);
+    const connection = connections.find(connection => connection.device.id === selectedId) ?? connections[0];
+
+    // Fall back to the first connected device when the selected one goes away
+    useEffect(() => {
+        if (connection && connection.device.id !== selectedId) {
+            setSelectedId(connection.device.id);
+        }
+    }, [connection?.device.id]);
+
+    const log: GattLogger = useCallback((entry) => {
+        const logEntry = { ...entry, id: nextLogId.current++, time: Date.now() };
+        setLogEntries(entries => [logEntry, ...entries].slice(0, MAX_LOG_ENTRIES));
+    }, []);
+
+    if (!connection) {
+        return (
+            <View style={globalStyles.container.center}>
+                <Text style={globalStyles.text.emptyText}>No device connected</Text>
+            </View>
+        );
+    }
+
+    return (
+        <View style={{ flex: 1 }}>
+            {connections.length > 1 &&
+                <ScrollView horizontal style={{ flexGrow: 0, paddingHorizontal: 10, paddingTop: 8 }}>
+                    {connections.map(({ device }) => {
+                        const isSelected = device.id === connection.device.id;
+                        return (
+                            <TouchableOpacity
+                                key={device.id}
+                                onPress={() => setSelectedId(device.id)}
+                                style={{ paddingHorizontal: 10, paddingVertical: 4, borderRadius: 5, marginRight: 6, backgroundColor: isSelected ? appColors.primary : appColors.primaryInactive }}
+                            >
+                                <Text style={{ color: 'white' }}>{device.name ?? device.id}</Text>
+                            </TouchableOpacity>
+                        );
+                    })}
+                </ScrollView>
+            }
+            <View style={{ paddingHorizontal: 10, paddingTop: 8 }}>
+                <Text style={globalStyles.text.heading}>{connection.device.name ?? 'Unnamed device'}</Text>
+                <Text style={{ ...globalStyles.text.p, color: 'grey' }}>{connection.device.id}</Text>
+                <DeviceInformation connection={connection}/>
+                <GattQueueStatus deviceId={connection.device.id}/>
+            </View>
+            <ScrollView style={{ flex: 1 }} contentContainerStyle={{ padding: 10 }}>
+                {connection.services.length === 0 &&
+                    <Text style={globalStyles.text.emptyText}>No services discovered</Text>
+                }
+                {connection.services.map(service => (
+                    <ServiceSection key={`${connection.device.id}/${service.uuid}`} deviceId={connection.device.id} service={service} log={log}/>
+                ))}
+            </ScrollView>
+            <GattLog entries={logEntries} onClear={() => setLogEntries([])}/>
+        </View>
+    );
+};
+
+export default GattExplorerScreen;
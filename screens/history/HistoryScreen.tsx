@@ -0,0 +1,160 @@
+import React, { useEffect } from 'react';
+import { Alert, FlatList, Text, TouchableOpacity, View } from 'react-native';
+import { Icon, useToast } from 'native-base';
+import { MaterialIcons } from '@expo/vector-icons';
+import { appColors, globalStyles } from '../../constants/globalStyles';
+import { useAppDispatch, useAppSelector } from '../../hooks/hooks';
+import {
+    deleteSession,
+    importSession,
+    loadSession,
+    loadSessions,
+    selectSessions,
+    selectSessionsError,
+    selectSessionsLoadStatus,
+} from '../../store/sessions/sessionsSlice';
+import { IWeightSessionSummary } from '../../store/sessions/sessionsSlice.contracts';
+import { formatDuration } from '../../store/sessions/sessionStats';
+import { NetworkState } from '../../store/ble/bleSlice.contracts';
+import { selectDisplaySettings } from '../../store/calibration/calibrationSlice';
+import { formatWeight } from '../../utils/weightUnits';
+import { SessionExportFormat } from '../../services/export/sessionExport';
+import { pickSessionJson, shareSession } from '../../services/export/sessionFiles';
+
+const Stat = (props: { label: string, value: string }) => (
+    <View style={{ alignItems: 'center', minWidth: 50 }}>
+        <Text style={{ fontSize: 11, color: 'grey' }}>{props.label}</Text>
+        <Text style={globalStyles.text.p}>{props.value}</Text>
+    </View>
+);
+
+const SessionItem = (props: { session: IWeightSessionSummary }) => {
+    const { session } = props;
+    const display = useAppSelector(selectDisplaySettings);
+    const toast = useToast();
+    const dispatch = useAppDispatch();
+
+    const exportSession = async (format: SessionExportFormat) => {
+        try {
+            const fullSession = await dispatch(loadSession({ id: session.id })).unwrap();
+            await shareSession(fullSession, format);
+        } catch (error: any) {
+            toast.show({
+                description: `Export failed: ${error.message}`,
+                ...globalStyles.toast.default,
+            });
+        }
+    };
+
+    const sharePressHandler = () => {
+        Alert.alert('Export session', 'Choose a file format.', [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'CSV', onPress: () => exportSession('csv') },
+            { text: 'JSON', onPress: () => exportSession('json') },
+        ]);
+    };
+
+    const deletePressHandler = () => {
+        Alert.alert('Delete session', 'The recorded samples will be lost.', [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Delete', style: 'destructive', onPress: () => dispatch(deleteSession({ id: session.id })) },
+        ]);
+    };
+
+    return (
+        <View style={{ backgroundColor: 'white', borderRadius: 5, borderWidth: 1, borderColor: appColors.primaryInactive, padding: 10, marginVertical: 4 }}>
+            <View style={{ ...globalStyles.div.row, justifyContent: 'space-between' }}>
+                <View style={{ flex: 1 }}>
+                    <Text style={{ ...globalStyles.text.p, fontWeight: 'bold' }}>{new Date(session.startedAt).toLocaleString()}</Text>
+                    <Text style={{ fontSize: 12, color: 'grey' }}>{session.deviceName ?? session.deviceId}</Text>
+                </View>
+                <TouchableOpacity onPress={sharePressHandler} style={{ marginRight: 12 }}>
+                    <Icon as={MaterialIcons} name="share" size={6} color={'grey'}/>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={deletePressHandler}>
+                    <Icon as={MaterialIcons} name="delete" size={6} color={'grey'}/>
+                </TouchableOpacity>
+            </View>
+            <View style={{ ...globalStyles.div.row, justifyContent: 'space-between', marginTop: 6 }}>
+                <Stat label="Duration" value={formatDuration(session.stats.durationMs)}/>
+                <Stat label="Samples" value={session.stats.count.toString()}/>
+                <Stat label="Min" value={formatWeight(session.stats.min, display.unit, display.precision)}/>
+                <Stat label="Max" value={formatWeight(session.stats.max, display.unit, display.precision)}/>
+                <Stat label="Mean" value={formatWeight(session.stats.mean, display.unit, display.precision)}/>
+            </View>
+            {session.link &&
+                <View style={{ ...globalStyles.div.row, justifyContent: 'space-between', marginTop: 6 }}>
+                    <Stat label="Rate" value={session.link.notificationRate === null ? '-' : `${session.link.notificationRate.toFixed(1)}/s`}/>
+                    <Stat label="Gaps" value={session.link.gapCount.toString()}/>
+                    <Stat label="Dropped" value={`~${session.link.droppedEstimate}`}/>
+                    <Stat label="RSSI" value={session.link.rssiMean === null ? '-' : `${Math.round(session.link.rssiMean)} dBm`}/>
+                    <Stat label="MTU" value={session.link.mtu === null ? '-' : session.link.mtu.toString()}/>
+                </View>
+            }
+        </View>
+    );
+};
+
+const HistoryScreen = (props: { navigation: any }) => {
+    const sessions = useAppSelector(selectSessions);
+    const loadStatus = useAppSelector(selectSessionsLoadStatus);
+    const error = useAppSelector(selectSessionsError);
+    const toast = useToast();
+    const dispatch = useAppDispatch();
+
+    useEffect(() => {
+        dispatch(loadSessions());
+    }, []);
+
+    const importPressHandler = async () => {
+        try {
+            const json = await pickSessionJson();
+            if (json === null) return;
+            const summary = await dispatch(importSession({ json })).unwrap();
+            toast.show({
+                description: `Imported session with ${summary.stats.count} samples`,
+                ...globalStyles.toast.default,
+            });
+        } catch (error: any) {
+            toast.show({
+                description: `Import failed: ${error.message}`,
+                ...globalStyles.toast.default,
+            });
+        }
+    };
+
+    const importButton = (
+        <TouchableOpacity onPress={importPressHandler} style={{ ...globalStyles.div.row, justifyContent: 'flex-end', padding: 10 }}>
+            <Icon as={MaterialIcons} name="file-upload" size={5} color={appColors.primary}/>
+            <Text style={{ ...globalStyles.text.p, color: appColors.primary }}>Import JSON</Text>
+        </TouchableOpacity>
+    );
+
+    if (sessions.length === 0) {
+        return (
+            <View style={{ flex: 1 }}>
+                {importButton}
+                <View style={globalStyles.container.center}>
+                    <Text style={globalStyles.text.emptyText}>
+                        {loadStatus === NetworkState.LOADING ? 'Loading sessions...' : 'No recorded sessions'}
+                    </Text>
+                    {error !== '' && <Text style={globalStyles.text.error}>{error}</Text>}
+                </View>
+            </View>
+        );
+    }
+    return (
+        <View style={{ flex: 1 }}>
+            {importButton}
+            {error !== '' && <Text style={{ ...globalStyles.text.error, paddingHorizontal: 10 }}>{error}</Text>}
+            <FlatList
+                data={sessions}
+                keyExtractor={(session) => session.id}
+                renderItem={({ item }) => <SessionItem session={item}/>}
+                contentContainerStyle={{ padding: 10 }}
+            />
+        </View>
+    );
+};
+
+export default HistoryScreen;
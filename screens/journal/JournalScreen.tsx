@@ -0,0 +1,173 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Alert, FlatList, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { useToast } from 'native-base';
+import { appColors, globalStyles } from '../../constants/globalStyles';
+import { useAppSelector, useJournal } from '../../hooks/hooks';
+import { selectConnections } from '../../store/ble/bleSlice';
+import {
+    IJournalEntry,
+    JournalCategory,
+    journalCategories,
+    JournalLevel,
+    journalLevels,
+} from '../../services/journal/eventJournal';
+import { JournalExportFormat } from '../../services/journal/journalExport';
+import { shareJournal } from '../../services/journal/journalFiles';
+
+// The journal is polled, a notification burst would otherwise render once per entry
+const REFRESH_INTERVAL_MS = 500;
+
+const levelColors: { [level in JournalLevel]: string } = {
+    debug: 'grey',
+    info: appColors.primary,
+    warn: 'orange',
+    error: appColors.error,
+};
+
+const Chip = (props: { label: string, selected: boolean, onPress: () => void }) => (
+    <TouchableOpacity
+        onPress={props.onPress}
+        style={{ paddingHorizontal: 8, paddingVertical: 3, borderRadius: 5, marginRight: 6, marginTop: 4, backgroundColor: props.selected ? appColors.primary : appColors.primaryInactive }}
+    >
+        <Text style={{ color: 'white', fontSize: 12 }}>{props.label}</Text>
+    </TouchableOpacity>
+);
+
+const formatTime = (t: number) => {
+    const date = new Date(t);
+    return `${date.toLocaleTimeString()}.${date.getMilliseconds().toString().padStart(3, '0')}`;
+};
+
+const JournalRow = React.memo((props: { entry: IJournalEntry, deviceName: string | null }) => {
+    const { entry, deviceName } = props;
+    return (
+        <View style={{ paddingHorizontal: 10, paddingVertical: 2 }}>
+            <Text style={{ fontSize: 11, fontFamily: 'monospace' }}>
+                <Text style={{ color: 'grey' }}>{formatTime(entry.t)} </Text>
+                <Text style={{ color: levelColors[entry.level] }}>{entry.level.toUpperCase()} </Text>
+                <Text style={{ color: 'grey' }}>{entry.category}{deviceName ? ` ${deviceName}` : ''} </Text>
+                <Text>{entry.message}</Text>
+            </Text>
+            {!!entry.data && <Text style={{ fontSize: 11, fontFamily: 'monospace', color: 'grey' }}>{entry.data}</Text>}
+        </View>
+    );
+});
+
+// Event journal viewer, newest first, filtered by minimum level, category and device
+const JournalScreen = (props: { navigation: any }) => {
+    const journal = useJournal();
+    const connections = useAppSelector(selectConnections);
+    const [entries, setEntries] = useState<Array<IJournalEntry>>(() => journal.entries());
+    const [minLevel, setMinLevel] = useState<JournalLevel>('info');
+    const [categories, setCategories] = useState<Array<JournalCategory>>(journalCategories);
+    const [deviceId, setDeviceId] = useState<string | null>(null);
+    const [isPaused, setIsPaused] = useState(false);
+    const toast = useToast();
+
+    useEffect(() => {
+        if (isPaused) return;
+        let version = journal.version;
+        setEntries(journal.entries());
+        const timer = setInterval(() => {
+            if (journal.version === version) return;
+            version = journal.version;
+            setEntries(journal.entries());
+        }, REFRESH_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [journal, isPaused]);
+
+    const deviceIds = useMemo(() => Array.from(new Set(entries.map(entry => entry.deviceId).filter((id): id is string => !!id))), [entries]);
+
+    const shown = useMemo(() => {
+        const minRank = journalLevels.indexOf(minLevel);
+        return entries
+            .filter(entry => journalLevels.indexOf(entry.level) >= minRank
+                && categories.includes(entry.category)
+                && (deviceId === null || entry.deviceId === deviceId))
+            .reverse();
+    }, [entries, minLevel, categories, deviceId]);
+
+    const deviceName = (id: string | null) => (id ? connections[id]?.device.name ?? id : null);
+
+    const toggleCategory = (category: JournalCategory) => {
+        setCategories(selected => selected.includes(category)
+            ? selected.filter(item => item !== category)
+            : [...selected, category]);
+    };
+
+    const exportJournal = async (format: JournalExportFormat) => {
+        try {
+            await shareJournal(journal.entries(), format);
+        } catch (error: any) {
+            toast.show({ description: `Export failed: ${error.message}`, ...globalStyles.toast.default });
+        }
+    };
+
+    const exportPressHandler = () => {
+        Alert.alert('Export journal', 'Every entry is exported, whatever the filters show.', [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Text', onPress: () => exportJournal('txt') },
+            { text: 'JSON', onPress: () => exportJournal('json') },
+        ]);
+    };
+
+    const clearPressHandler = () => {
+        Alert.alert('Clear journal', 'Every entry will be removed.', [
+            { text: 'Cancel', style: 'cancel' },
+            {
+                text: 'Clear', style: 'destructive', onPress: () => {
+                    journal.clear();
+                    setEntries([]);
+                },
+            },
+        ]);
+    };
+
+    return (
+        <View style={{ flex: 1 }}>
+            <View style={{ paddingHorizontal: 10, paddingTop: 8 }}>
+                <View style={{ ...globalStyles.div.row, justifyContent: 'space-between' }}>
+                    <Text style={{ ...globalStyles.text.p, fontWeight: 'bold' }}>{`${shown.length} of ${entries.length} entries`}</Text>
+                    <View style={globalStyles.div.row}>
+                        <TouchableOpacity onPress={() => setIsPaused(!isPaused)} style={{ marginLeft: 12 }}>
+                            <Text style={{ ...globalStyles.text.p, color: appColors.primary }}>{isPaused ? 'Resume' : 'Pause'}</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity onPress={exportPressHandler} style={{ marginLeft: 12 }}>
+                            <Text style={{ ...globalStyles.text.p, color: appColors.primary }}>Export</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity onPress={clearPressHandler} style={{ marginLeft: 12 }}>
+                            <Text style={{ ...globalStyles.text.p, color: appColors.error }}>Clear</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+                <View style={{ ...globalStyles.div.row, justifyContent: 'flex-start', flexWrap: 'wrap' }}>
+                    {journalLevels.map(level => (
+                        <Chip key={level} label={`${level}+`} selected={level === minLevel} onPress={() => setMinLevel(level)}/>
+                    ))}
+                </View>
+                <View style={{ ...globalStyles.div.row, justifyContent: 'flex-start', flexWrap: 'wrap' }}>
+                    {journalCategories.map(category => (
+                        <Chip key={category} label={category} selected={categories.includes(category)} onPress={() => toggleCategory(category)}/>
+                    ))}
+                </View>
+                {deviceIds.length > 0 &&
+                    <ScrollView horizontal style={{ flexGrow: 0 }}>
+                        <Chip label="All devices" selected={deviceId === null} onPress={() => setDeviceId(null)}/>
+                        {deviceIds.map(id => (
+                            <Chip key={id} label={deviceName(id) ?? id} selected={id === deviceId} onPress={() => setDeviceId(id)}/>
+                        ))}
+                    </ScrollView>
+                }
+            </View>
+            <FlatList
+                style={{ flex: 1, marginTop: 6, borderTopWidth: 1, borderTopColor: appColors.primaryInactive }}
+                data={shown}
+                keyExtractor={(item) => item.id.toString()}
+                renderItem={({ item }) => <JournalRow entry={item} deviceName={deviceName(item.deviceId)}/>}
+                ListEmptyComponent={<Text style={{ ...globalStyles.text.emptyText, marginTop: 20 }}>No entries</Text>}
+            />
+        </View>
+    );
+};
+
+export default JournalScreen;
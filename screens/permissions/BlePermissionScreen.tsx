@@ -0,0 +1,46 @@
+import React from 'react';
+import { Text, View } from 'react-native';
+import { Icon } from 'native-base';
+import { MaterialIcons } from '@expo/vector-icons';
+import { appColors, globalStyles } from '../../constants/globalStyles';
+import PrimaryButton from '../../components/button/PrimaryButton';
+import { useAppDispatch, useAppSelector } from '../../hooks/hooks';
+import { readinessMessages, requestPermissions, selectBlePermissions, selectBleReadiness } from '../../store/ble/bleSlice';
+import { NetworkState } from '../../store/ble/bleSlice.contracts';
+import { BlePermission, openAppSettings } from '../../services/permissions';
+
+const permissionDescriptions: { [permission in BlePermission]: string } = {
+    bluetoothScan: 'Nearby devices (scan): finds the scale',
+    bluetoothConnect: 'Nearby devices (connect): reads the weight',
+    location: 'Location: Android needs it to report Bluetooth devices nearby, the app never reads your position',
+    bluetooth: 'Bluetooth: finds the scale and reads the weight',
+};
+
+// Shown instead of the scan list until BLE can be used, explains why and how to fix it
+const BlePermissionScreen = () => {
+    const readiness = useAppSelector(selectBleReadiness);
+    const permissions = useAppSelector(selectBlePermissions);
+    const dispatch = useAppDispatch();
+    const isRequesting = permissions.status === NetworkState.LOADING;
+
+    return (
+        <View style={{ ...globalStyles.container.center, padding: 20 }}>
+            <Icon as={MaterialIcons} name="bluetooth-disabled" color={appColors.primary} size={12}/>
+            <Text style={{ ...globalStyles.text.p, textAlign: 'center', marginVertical: 10 }}>{readinessMessages[readiness]}</Text>
+            {readiness !== 'unsupported' && permissions.required.map(permission => (
+                <View key={permission} style={{ ...globalStyles.div.row, justifyContent: 'flex-start', width: '100%', marginVertical: 2 }}>
+                    <Icon as={MaterialIcons} name={permissions.statuses[permission] === 'granted' ? 'check-circle' : 'radio-button-unchecked'} color={appColors.primary} size={5}/>
+                    <Text style={{ ...globalStyles.text.p, fontSize: 14, color: 'grey', marginLeft: 6, flex: 1 }}>{permissionDescriptions[permission]}</Text>
+                </View>
+            ))}
+            {readiness === 'missingPermissions' &&
+                <PrimaryButton text="Grant permissions" style={{ marginTop: 20 }} loading={isRequesting} disabled={isRequesting} onPress={() => dispatch(requestPermissions())}/>
+            }
+            {(readiness === 'missingPermissions' || readiness === 'blocked') &&
+                <PrimaryButton text="Open settings" style={{ marginTop: 10 }} onPress={openAppSettings}/>
+            }
+        </View>
+    );
+};
+
+export default BlePermissionScreen;
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { appColors, globalStyles } from '../../constants/globalStyles';
+import { useAppDispatch, useAppSelector } from '../../hooks/hooks';
+import { selectActiveConnections } from '../../store/ble/bleSlice';
+import { selectCalibrationProfiles, selectDisplaySettings, setDisplaySettings } from '../../store/calibration/calibrationSlice';
+import { isScale } from '../../store/weight/weightListeners';
+import { selectAllAlertRules } from '../../store/alerts/alertsSlice';
+import { selectBackgroundSettings, setBackgroundMonitoring } from '../../store/background/backgroundSlice';
+import { weightUnits } from '../../utils/weightUnits';
+import CalibrationEditor from '../../components/calibration/CalibrationEditor';
+import FilterEditor from '../../components/calibration/FilterEditor';
+import AlertRulesEditor from '../../components/alerts/AlertRulesEditor';
+
+const MAX_PRECISION = 4;
+
+const sectionStyle = {
+    backgroundColor: 'white',
+    borderRadius: 5,
+    borderWidth: 1,
+    borderColor: appColors.primaryInactive,
+    padding: 10,
+    marginVertical: 6,
+};
+
+const Chip = (props: { label: string, selected: boolean, onPress: () => void }) => (
+    <TouchableOpacity
+        onPress={props.onPress}
+        style={{ paddingHorizontal: 10, paddingVertical: 4, borderRadius: 5, marginRight: 6, marginTop: 4, backgroundColor: props.selected ? appColors.primary : appColors.primaryInactive }}
+    >
+        <Text style={{ color: 'white' }}>{props.label}</Text>
+    </TouchableOpacity>
+);
+
+const SettingsScreen = (props: { navigation: any }) => {
+    const display = useAppSelector(selectDisplaySettings);
+    const connections = useAppSelector(selectActiveConnections);
+    const profiles = useAppSelector(selectCalibrationProfiles);
+    const alertRules = useAppSelector(selectAllAlertRules);
+    const background = useAppSelector(selectBackgroundSettings);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const dispatch = useAppDispatch();
+
+    // Connected scales first, then devices calibrated or given alerts earlier
+    const scaleNames = new Map<string, string>();
+    connections.filter(isScale).forEach(({ device }) => scaleNames.set(device.id, device.name ?? device.id));
+    [...Object.keys(profiles), ...Object.keys(alertRules)].forEach(deviceId => scaleNames.has(deviceId) || scaleNames.set(deviceId, deviceId));
+    const deviceId = selectedId && scaleNames.has(selectedId) ? selectedId : scaleNames.keys().next().value ?? null;
+
+    return (
+        <ScrollView contentContainerStyle={{ padding: 10 }}>
+            <View style={sectionStyle}>
+                <Text style={{ ...globalStyles.text.p, fontWeight: 'bold' }}>Display</Text>
+                <View style={{ ...globalStyles.div.row, justifyContent: 'flex-start', flexWrap: 'wrap' }}>
+                    {weightUnits.map(unit => (
+                        <Chip key={unit} label={unit} selected={display.unit === unit} onPress={() => dispatch(setDisplaySettings({ display: { unit } }))}/>
+                    ))}
+                </View>
+                <View style={{ ...globalStyles.div.row, justifyContent: 'flex-start', marginTop: 8 }}>
+                    <Text style={{ ...globalStyles.text.p, color: 'grey', marginRight: 10 }}>Decimals</Text>
+                    <Chip label="-" selected={false} onPress={() => dispatch(setDisplaySettings({ display: { precision: Math.max(0, display.precision - 1) } }))}/>
+                    <Text style={{ ...globalStyles.text.p, marginRight: 6 }}>{display.precision}</Text>
+                    <Chip label="+" selected={false} onPress={() => dispatch(setDisplaySettings({ display: { precision: Math.min(MAX_PRECISION, display.precision + 1) } }))}/>
+                </View>
+            </View>
+            <View style={sectionStyle}>
+                <Text style={{ ...globalStyles.text.p, fontWeight: 'bold' }}>Calibration</Text>
+                {deviceId === null
+                    ? <Text style={{ ...globalStyles.text.p, color: 'grey', marginTop: 4 }}>Connect a scale to calibrate it or set up alerts</Text>
+                    : <>
+                        <View style={{ ...globalStyles.div.row, justifyContent: 'flex-start', flexWrap: 'wrap', marginBottom: 6 }}>
+                            {Array.from(scaleNames.entries()).map(([id, name]) => (
+                                <Chip key={id} label={name} selected={id === deviceId} onPress={() => setSelectedId(id)}/>
+                            ))}
+                        </View>
+                        <CalibrationEditor key={deviceId} deviceId={deviceId}/>
+                    </>
+                }
+            </View>
+            {deviceId !== null &&
+                <View style={sectionStyle}>
+                    <Text style={{ ...globalStyles.text.p, fontWeight: 'bold' }}>{`Alerts for ${scaleNames.get(deviceId)}`}</Text>
+                    <AlertRulesEditor key={deviceId} deviceId={deviceId}/>
+                </View>
+            }
+            <View style={sectionStyle}>
+                <Text style={{ ...globalStyles.text.p, fontWeight: 'bold' }}>Filtering</Text>
+                <FilterEditor/>
+            </View>
+            <View style={sectionStyle}>
+                <Text style={{ ...globalStyles.text.p, fontWeight: 'bold' }}>Background monitoring</Text>
+                <View style={{ ...globalStyles.div.row, justifyContent: 'flex-start' }}>
+                    <Chip label="Off" selected={!background.enabled} onPress={() => dispatch(setBackgroundMonitoring({ enabled: false }))}/>
+                    <Chip label="On" selected={background.enabled} onPress={() => dispatch(setBackgroundMonitoring({ enabled: true }))}/>
+                </View>
+                <Text style={{ fontSize: 12, color: 'grey', marginTop: 6 }}>
+                    Keeps connected scales and their recordings running while the app is in the background. On iOS the
+                    connections are picked up again when the system relaunches the app.
+                </Text>
+            </View>
+        </ScrollView>
+    );
+};
+
+export default SettingsScreen;
@@ -1,80 +1,155 @@
 import React, { useEffect, useState } from 'react';
-import { Text, View } from 'react-native';
+import { ScrollView, Text, TouchableOpacity, View } from 'react-native';
 import { appColors, globalStyles, screenWidth } from '../../constants/globalStyles';
-import { useAppSelector } from '../../hooks/hooks';
-import { selectConnectedDevice } from '../../store/ble/bleSlice';
-import { BleError, BleManager, Characteristic, Subscription } from 'react-native-ble-plx';
 import { useToast } from 'native-base';
-import bleServices from '../../constants/bleServices';
-import { Buffer } from 'buffer';
-
-const bleManager = new BleManager();
-let MAX_WEIGHT = 2; // Maximum expected weight in kg. Used for visuals only
-MAX_WEIGHT = MAX_WEIGHT*1000;
+import { useAppDispatch, useAppSelector } from '../../hooks/hooks';
+import { cancelReconnect, selectActiveConnections } from '../../store/ble/bleSlice';
+import { IDeviceConnection, NetworkState } from '../../store/ble/bleSlice.contracts';
+import { hasServiceProfile, monitorCharacteristic, unmonitorCharacteristic } from '../../store/ble/characteristicProfiles';
+import { lockStableWeight, selectLatestWeightSample, selectWeightLock, unlockWeight } from '../../store/weight/weightSlice';
+import { isScale, weightCharacteristics } from '../../store/weight/weightListeners';
+import { selectCalibrationProfile, selectDisplaySettings, tareDevice } from '../../store/calibration/calibrationSlice';
+import { IDisplaySettings } from '../../store/calibration/calibrationSlice.contracts';
+import { formatWeight } from '../../utils/weightUnits';
+import { BatteryLevel } from '../../components/profiles/DeviceProfiles';
+import RecordButton from '../../components/sessions/RecordButton';
+import WeightChart from '../../components/chart/WeightChart';
+import DeviceCommandBar from '../../components/commands/DeviceCommandBar';
 
 interface WeightWidgetProps {
     weight: number | null
+    // Heaviest expected load in grams, the widget is at full size there
+    fullScale: number
+    display: IDisplaySettings
+    // The link is down and `weight` is the last value received
+    stale?: boolean
+    // The reading has settled
+    stable?: boolean
+    // `weight` is a held value rather than the live reading
+    locked?: boolean
+    maxSize?: number
 }
 
 const WeightWidget = (props: WeightWidgetProps) => {
-    const { weight } = props;
+    const { weight, fullScale, display, stale = false, stable = false, locked = false, maxSize = screenWidth*0.8 } = props;
     const [renderedWeight, setRenderedWeight] = useState<string>('');
     const [ratio, setRatio] = useState(0);
-    const MAX_SIZE = screenWidth*0.8
+    const MAX_SIZE = maxSize
 
     useEffect(() => {
-        if (weight) {
-            setRatio(weight / MAX_WEIGHT);
-            setRenderedWeight(Math.round(weight).toString())
+        if (weight !== null) {
+            // A tared scale can read slightly below zero
+            setRatio(Math.max(weight, 0) / fullScale);
+            setRenderedWeight(formatWeight(weight, display.unit, display.precision))
         }
-        console.log(MAX_WEIGHT)
-    }, [weight]);
+    }, [weight, fullScale, display]);
 
     return (
         <View style={{
             alignItems: 'center', justifyContent: 'center', backgroundColor: `rgba(25,180,${ratio*255}, ${ratio})`,
             height: ratio*MAX_SIZE, width: ratio*MAX_SIZE, borderRadius: (ratio*MAX_SIZE)/2,
-            minHeight: 20, minWidth: 20
+            minHeight: 20, minWidth: 20, opacity: stale ? 0.4 : 1
         }}>
-            <View style={{ ...globalStyles.div.centered, height: 30, width: 50, backgroundColor: appColors.primary, borderRadius: 5 }}>
-                <Text style={{ ...globalStyles.text.p, color: 'white', textAlign: 'center' }}>{renderedWeight}g</Text>
+            <View style={{ ...globalStyles.div.centered, height: 30, minWidth: 50, paddingHorizontal: 4, backgroundColor: stale ? 'grey' : appColors.primary, borderRadius: 5 }}>
+                <Text style={{ ...globalStyles.text.p, color: 'white', textAlign: 'center' }}>{renderedWeight}{stale ? ' (stale)' : ''}</Text>
             </View>
+            {(locked || stable) &&
+                <Text style={{ fontSize: 12, color: locked ? appColors.primary : 'green', marginTop: 2 }}>{locked ? 'Locked' : 'Stable'}</Text>
+            }
         </View>
     )
 }
 
-const WeightScreen = (props: { navigation: any }) => {
-    const [weight, setWeight] = useState<number | null>(null)
-    const device = useAppSelector(selectConnectedDevice);
-
-    let weightMonitorSubscription: Subscription;
+interface ScaleCardProps {
+    connection: IDeviceConnection
+    size: number
+}
 
-    const weightMonitorCallbackHandler = (bleError: BleError | null, characteristic: Characteristic | null) => {
-        if (characteristic?.value){
-            const res = Buffer.from(characteristic.value, 'base64').readFloatLE();
-            setWeight(res*1000);
-        }
-    }
+// Monitors the weight characteristics of one connected scale and renders its calibrated reading
+const ScaleCard = (props: ScaleCardProps) => {
+    const { connection, size } = props;
+    const deviceId = connection.device.id;
+    const latestSample = useAppSelector(selectLatestWeightSample(deviceId));
+    const lock = useAppSelector(selectWeightLock(deviceId));
+    const calibration = useAppSelector(selectCalibrationProfile(deviceId));
+    const display = useAppSelector(selectDisplaySettings);
+    const toast = useToast();
+    const dispatch = useAppDispatch();
+    const isReconnecting = connection.status === NetworkState.RECONNECTING;
+    const sources = weightCharacteristics.filter(({ service }) => hasServiceProfile(connection, service));
 
     useEffect(() => {
-        if (device?.id) {
-            console.log('Registered notification callback')
-            weightMonitorSubscription = bleManager.monitorCharacteristicForDevice(device.id, bleServices.sample.SAMPLE_SERVICE_UUID, bleServices.sample.SAMPLE_LOAD_CELLS_CHARACTERISTIC_UUID, weightMonitorCallbackHandler)
-        }
+        const characteristics = sources.map(source => ({ deviceId, ...source }));
+        characteristics.forEach(characteristic => dispatch(monitorCharacteristic(characteristic)));
 
         // Remove characteristic monitoring subscriptions
         return function cleanupSubscriptions() {
-            if (weightMonitorSubscription) {
-                weightMonitorSubscription.remove();
-            }
+            characteristics.forEach(characteristic => dispatch(unmonitorCharacteristic(characteristic)));
         };
-    }, [props.navigation, device]);
+    }, [deviceId, sources.length]);
 
-    if (device?.id) {
-        return (
-            <View style={globalStyles.container.center}>
-                {weight && <WeightWidget weight={weight}/>}
+    const tarePressHandler = async () => {
+        const result = await dispatch(tareDevice({ deviceId }));
+        if (tareDevice.rejected.match(result)) {
+            toast.show({
+                description: `Tare failed: ${result.error.message}`,
+                ...globalStyles.toast.default,
+            });
+        }
+    };
+
+    // Last reading is kept while reconnecting and shown as stale, a locked reading wins over both
+    const weight = lock?.weight ?? latestSample?.weight ?? null;
+    const isStable = !isReconnecting && (latestSample?.isStable ?? false);
+
+    return (
+        <View style={{ ...globalStyles.div.centered, minHeight: size, marginVertical: 10 }}>
+            <Text style={{ ...globalStyles.text.p, color: 'grey' }}>{connection.device.name ?? deviceId}</Text>
+            <View style={{ marginBottom: 6 }}>
+                <BatteryLevel connection={connection}/>
+            </View>
+            {weight !== null && <WeightWidget weight={weight} fullScale={calibration.fullScale} display={display}
+                stale={isReconnecting && !lock} stable={isStable} locked={!!lock} maxSize={size}/>}
+            <WeightChart deviceId={deviceId} width={screenWidth * 0.9} display={display}/>
+            <View style={{ ...globalStyles.div.row, justifyContent: 'center' }}>
+                <TouchableOpacity onPress={tarePressHandler} style={{ marginTop: 8, marginRight: 20 }}>
+                    <Text style={{ ...globalStyles.text.p, color: appColors.primary }}>Tare</Text>
+                </TouchableOpacity>
+                {lock
+                    ? <TouchableOpacity onPress={() => dispatch(unlockWeight({ deviceId }))} style={{ marginTop: 8, marginRight: 20 }}>
+                        <Text style={{ ...globalStyles.text.p, color: appColors.primary }}>Unlock</Text>
+                    </TouchableOpacity>
+                    : <TouchableOpacity disabled={!isStable} onPress={() => dispatch(lockStableWeight({ deviceId }))} style={{ marginTop: 8, marginRight: 20 }}>
+                        <Text style={{ ...globalStyles.text.p, color: isStable ? appColors.primary : appColors.primaryInactive }}>Lock</Text>
+                    </TouchableOpacity>
+                }
+                <RecordButton deviceId={deviceId} deviceName={connection.device.name}/>
             </View>
+            {!isReconnecting && <DeviceCommandBar deviceId={deviceId}/>}
+            {isReconnecting &&
+                <View style={{ ...globalStyles.div.centered, marginTop: 10 }}>
+                    <Text style={{ ...globalStyles.text.p, color: 'grey' }}>
+                        {`Reconnecting (attempt ${connection.reconnectAttempt})...`}
+                    </Text>
+                    <TouchableOpacity onPress={() => dispatch(cancelReconnect({ id: deviceId }))}>
+                        <Text style={{ ...globalStyles.text.p, color: appColors.primary, marginTop: 6 }}>Cancel</Text>
+                    </TouchableOpacity>
+                </View>
+            }
+        </View>
+    );
+};
+
+const WeightScreen = (props: { navigation: any }) => {
+    const connections = useAppSelector(selectActiveConnections);
+    const scales = connections.filter(isScale);
+    const size = scales.length > 1 ? screenWidth * 0.5 : screenWidth * 0.8;
+
+    if (scales.length > 0) {
+        return (
+            <ScrollView contentContainerStyle={{ flexGrow: 1, alignItems: 'center', justifyContent: 'center' }}>
+                {scales.map(connection => <ScaleCard key={connection.device.id} connection={connection} size={size}/>)}
+            </ScrollView>
         )
     }
     return (
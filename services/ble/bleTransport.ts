@@ -0,0 +1,70 @@
+import { IAdapterState, IBLEDevice, IGattService } from '../../store/ble/bleSlice.contracts';
+import type { GattPriority } from './gattQueue';
+
+// Characteristic values travel through the transport base64 encoded, the same as react-native-ble-plx
+export type Base64 = string;
+
+export interface TransportSubscription {
+    remove(): void;
+}
+
+export interface TransportScanOptions {
+    allowDuplicates?: boolean;
+}
+
+/**
+ * `transactionId` is handed to the radio so `cancelTransaction` can stop the operation. Priority, timeout and
+ * retries are applied by `QueuedBleTransport`; the radio transports ignore them.
+ */
+export interface TransportOperationOptions {
+    transactionId?: string;
+    priority?: GattPriority;
+    timeoutMs?: number;
+    retries?: number;
+    // One of many writes, e.g. a firmware chunk. `JournalingBleTransport` sums them up instead of recording each one.
+    isBulk?: boolean;
+}
+
+export interface TransportConnectOptions extends TransportOperationOptions {
+    // Give up after this long instead of waiting for the device to show up
+    timeoutMs?: number;
+}
+
+export type ScanListener = (error: Error | null, device: IBLEDevice | null) => void;
+export type MonitorListener = (error: Error | null, value: Base64 | null) => void;
+export type DisconnectListener = (error: Error | null, deviceId: string) => void;
+
+/**
+ * Everything the app needs from the BLE radio. Thunks receive the transport through the store's
+ * thunk `extra` argument and components through `useBleTransport()`, so a single instance owns the
+ * connections for the whole app. `PlxBleTransport` talks to the real radio, `MemoryBleTransport`
+ * keeps everything in memory for running without hardware.
+ */
+export interface BleTransport {
+    onStateChange(listener: (state: IAdapterState) => void, emitCurrentState?: boolean): TransportSubscription;
+
+    startScan(serviceUUIDs: Array<string> | null, options: TransportScanOptions | null, listener: ScanListener): void;
+    stopScan(): void;
+
+    connect(deviceId: string, options?: TransportConnectOptions): Promise<IBLEDevice>;
+    disconnect(deviceId: string): Promise<void>;
+    isConnected(deviceId: string): Promise<boolean>;
+    connectedDevices(serviceUUIDs: Array<string>): Promise<Array<IBLEDevice>>;
+    onDisconnected(deviceId: string, listener: DisconnectListener): TransportSubscription;
+    // Devices the OS kept connected while the app was not running (iOS state restoration), empty everywhere else
+    restoredDevices(): Promise<Array<IBLEDevice>>;
+    // Resolves with the MTU both sides agreed on, which can be lower than requested
+    requestMTU(deviceId: string, mtu: number, options?: TransportOperationOptions): Promise<number>;
+    // Resolves with the connected device, its `rssi` and `mtu` as they are now
+    readRSSI(deviceId: string, options?: TransportOperationOptions): Promise<IBLEDevice>;
+
+    discover(deviceId: string, options?: TransportOperationOptions): Promise<Array<IGattService>>;
+    read(deviceId: string, serviceUUID: string, characteristicUUID: string, options?: TransportOperationOptions): Promise<Base64 | null>;
+    write(deviceId: string, serviceUUID: string, characteristicUUID: string, value: Base64, withResponse: boolean, options?: TransportOperationOptions): Promise<void>;
+    // Returns right away, a failed setup reaches the listener like any later error
+    monitor(deviceId: string, serviceUUID: string, characteristicUUID: string, listener: MonitorListener, options?: TransportOperationOptions): TransportSubscription;
+    // Resolves once the peripheral has notifications on, so a write that triggers one cannot beat it. Rejects when the setup fails.
+    startMonitor(deviceId: string, serviceUUID: string, characteristicUUID: string, listener: MonitorListener, options?: TransportOperationOptions): Promise<TransportSubscription>;
+    // The operation rejects; unknown or finished transactions are ignored
+    cancelTransaction(transactionId: string): void;
+}
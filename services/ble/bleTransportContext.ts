@@ -0,0 +1,5 @@
+import { createContext } from 'react';
+import { BleTransport } from './bleTransport';
+
+// Provided once in navigation/index.tsx with the same transport the store's thunks use
+export const BleTransportContext = createContext<BleTransport | null>(null);
@@ -0,0 +1,168 @@
+import { Buffer } from 'buffer';
+import { Base64 } from './bleTransport';
+
+export type Endianness = 'le' | 'be';
+
+/**
+ * Converts between the bytes of a characteristic and a typed value. `size` is the number of bytes the
+ * codec consumes, or null when it takes the rest of the payload (only allowed as the last struct field).
+ */
+export interface Codec<T> {
+    // Shown in the UI, e.g. `uint16le` or `struct`
+    name: string;
+    size: number | null;
+    unit?: string;
+    decode(bytes: Buffer, offset: number): T;
+    encode(value: T): Buffer;
+}
+
+export type CodecValue<C> = C extends Codec<infer T> ? T : never;
+
+export class CodecError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CodecError';
+    }
+}
+
+const requireBytes = (codec: { name: string, size: number | null }, bytes: Buffer, offset: number) => {
+    if (codec.size !== null && bytes.length < offset + codec.size) {
+        throw new CodecError(`${codec.name} needs ${codec.size} bytes at offset ${offset}, payload has ${bytes.length}`);
+    }
+};
+
+const numeric = (
+    name: string,
+    size: number,
+    read: (bytes: Buffer, offset: number) => number,
+    write: (bytes: Buffer, value: number) => void,
+): Codec<number> => {
+    const codec: Codec<number> = {
+        name,
+        size,
+        decode: (bytes, offset) => {
+            requireBytes(codec, bytes, offset);
+            return read(bytes, offset);
+        },
+        encode: value => {
+            const bytes = Buffer.alloc(size);
+            write(bytes, value);
+            return bytes;
+        },
+    };
+    return codec;
+};
+
+export const uint8 = () => numeric('uint8', 1, (b, o) => b.readUInt8(o), (b, v) => b.writeUInt8(v));
+export const int8 = () => numeric('int8', 1, (b, o) => b.readInt8(o), (b, v) => b.writeInt8(v));
+
+export const uint16 = (endianness: Endianness = 'le') => endianness === 'le'
+    ? numeric('uint16le', 2, (b, o) => b.readUInt16LE(o), (b, v) => b.writeUInt16LE(v))
+    : numeric('uint16be', 2, (b, o) => b.readUInt16BE(o), (b, v) => b.writeUInt16BE(v));
+
+export const int16 = (endianness: Endianness = 'le') => endianness === 'le'
+    ? numeric('int16le', 2, (b, o) => b.readInt16LE(o), (b, v) => b.writeInt16LE(v))
+    : numeric('int16be', 2, (b, o) => b.readInt16BE(o), (b, v) => b.writeInt16BE(v));
+
+export const uint32 = (endianness: Endianness = 'le') => endianness === 'le'
+    ? numeric('uint32le', 4, (b, o) => b.readUInt32LE(o), (b, v) => b.writeUInt32LE(v))
+    : numeric('uint32be', 4, (b, o) => b.readUInt32BE(o), (b, v) => b.writeUInt32BE(v));
+
+export const int32 = (endianness: Endianness = 'le') => endianness === 'le'
+    ? numeric('int32le', 4, (b, o) => b.readInt32LE(o), (b, v) => b.writeInt32LE(v))
+    : numeric('int32be', 4, (b, o) => b.readInt32BE(o), (b, v) => b.writeInt32BE(v));
+
+export const float32 = (endianness: Endianness = 'le') => endianness === 'le'
+    ? numeric('float32le', 4, (b, o) => b.readFloatLE(o), (b, v) => b.writeFloatLE(v))
+    : numeric('float32be', 4, (b, o) => b.readFloatBE(o), (b, v) => b.writeFloatBE(v));
+
+export const float64 = (endianness: Endianness = 'le') => endianness === 'le'
+    ? numeric('float64le', 8, (b, o) => b.readDoubleLE(o), (b, v) => b.writeDoubleLE(v))
+    : numeric('float64be', 8, (b, o) => b.readDoubleBE(o), (b, v) => b.writeDoubleBE(v));
+
+// Takes every remaining byte, trailing NUL padding is dropped
+export const utf8 = (): Codec<string> => ({
+    name: 'utf8',
+    size: null,
+    decode: (bytes, offset) => bytes.toString('utf8', offset).replace(/\0+$/, ''),
+    encode: value => Buffer.from(value, 'utf8'),
+});
+
+// Raw bytes, e.g. chunks of a firmware image
+export const bytes = (): Codec<Array<number>> => ({
+    name: 'bytes',
+    size: null,
+    decode: (payload, offset) => Array.from(payload.subarray(offset)),
+    encode: value => Buffer.from(value),
+});
+
+export interface ScaleOptions {
+    // value = raw * factor + offset
+    factor?: number;
+    offset?: number;
+    unit?: string;
+}
+
+// Fixed point and unit conversion on top of a numeric codec, e.g. a uint16 in 0.005 kg steps
+export const scaled = (codec: Codec<number>, options: ScaleOptions): Codec<number> => {
+    const { factor = 1, offset = 0, unit = codec.unit } = options;
+    const isInteger = !codec.name.startsWith('float');
+    return {
+        name: codec.name,
+        size: codec.size,
+        unit,
+        decode: (bytes, at) => codec.decode(bytes, at) * factor + offset,
+        encode: value => {
+            const raw = (value - offset) / factor;
+            return codec.encode(isInteger ? Math.round(raw) : raw);
+        },
+    };
+};
+
+export const withUnit = <T>(codec: Codec<T>, unit: string): Codec<T> => ({ ...codec, unit });
+
+export type StructFields = { [field: string]: Codec<any> };
+export type StructValue<F extends StructFields> = { [K in keyof F]: CodecValue<F[K]> };
+
+export interface StructCodec<F extends StructFields> extends Codec<StructValue<F>> {
+    fields: F;
+}
+
+// Fields are laid out back to back in declaration order
+export const struct = <F extends StructFields>(fields: F): StructCodec<F> => {
+    const entries = Object.entries(fields);
+    entries.forEach(([field, codec], index) => {
+        if (codec.size === null && index !== entries.length - 1) {
+            throw new CodecError(`Variable length field "${field}" must be the last field of a struct`);
+        }
+    });
+    const sizes = entries.map(([, codec]) => codec.size);
+    const size = sizes.includes(null) ? null : (sizes as Array<number>).reduce((total, fieldSize) => total + fieldSize, 0);
+    return {
+        name: 'struct',
+        size,
+        fields,
+        decode: (bytes, offset) => {
+            let position = offset;
+            const value: { [field: string]: any } = {};
+            entries.forEach(([field, codec]) => {
+                value[field] = codec.decode(bytes, position);
+                position += codec.size ?? 0;
+            });
+            return value as StructValue<F>;
+        },
+        encode: value => Buffer.concat(entries.map(([field, codec]) => codec.encode(value[field]))),
+    };
+};
+
+export const decodeBase64 = <T>(codec: Codec<T>, value: Base64): T => {
+    const bytes = Buffer.from(value, 'base64');
+    try {
+        return codec.decode(bytes, 0);
+    } catch (error: any) {
+        if (error instanceof CodecError) throw error;
+        throw new CodecError(`Could not decode ${codec.name}: ${error.message}`);
+    }
+};
+
+export const encodeBase64 = <T>(codec: Codec<T>, value: T): Base64 => codec.encode(value).toString('base64');
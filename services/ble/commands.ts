@@ -0,0 +1,88 @@
+import { Buffer } from 'buffer';
+import { Codec, CodecError } from './codecs';
+
+/**
+ * Frames on the command characteristic. The app writes requests, the firmware answers on the same
+ * characteristic with a notification:
+ *
+ *   request:  [opcode] [correlation id] [argument...]
+ *   response: [opcode | 0x80] [correlation id] [status] [payload...]
+ *
+ * The correlation id is echoed back so concurrent commands resolve independently. Status 0 is success,
+ * anything else maps to a `CommandErrorCode`.
+ */
+export interface ICommandFrame {
+    opcode: number;
+    correlationId: number;
+    isResponse: boolean;
+    // Always 0 in requests
+    status: number;
+    payload: Array<number>;
+}
+
+const RESPONSE_FLAG = 0x80;
+
+export const COMMAND_STATUS_OK = 0;
+
+export type CommandErrorCode = 'UNKNOWN_COMMAND' | 'INVALID_ARGUMENT' | 'BUSY' | 'FAILED' | 'TIMEOUT' | 'DISCONNECTED' | 'UNSUPPORTED';
+
+// Status bytes sent by the firmware
+export const commandStatusCodes: { [status: number]: CommandErrorCode } = {
+    1: 'UNKNOWN_COMMAND',
+    2: 'INVALID_ARGUMENT',
+    3: 'BUSY',
+    4: 'FAILED',
+};
+
+// `code` survives the thunk's error serialization, so rejected actions carry it in `error.code`
+export class CommandError extends Error {
+    readonly code: CommandErrorCode;
+
+    constructor(code: CommandErrorCode, message: string) {
+        super(message);
+        this.name = 'CommandError';
+        this.code = code;
+    }
+}
+
+export const commandFrame = (): Codec<ICommandFrame> => ({
+    name: 'commandFrame',
+    size: null,
+    decode: (bytes, offset) => {
+        const first = bytes.readUInt8(offset);
+        const isResponse = (first & RESPONSE_FLAG) !== 0;
+        const headerSize = isResponse ? 3 : 2;
+        if (bytes.length < offset + headerSize) {
+            throw new CodecError(`Command ${isResponse ? 'response' : 'request'} needs at least ${headerSize} bytes, payload has ${bytes.length - offset}`);
+        }
+        return {
+            opcode: first & ~RESPONSE_FLAG,
+            correlationId: bytes.readUInt8(offset + 1),
+            isResponse,
+            status: isResponse ? bytes.readUInt8(offset + 2) : COMMAND_STATUS_OK,
+            payload: Array.from(bytes.subarray(offset + headerSize)),
+        };
+    },
+    encode: frame => Buffer.from([
+        frame.opcode | (frame.isResponse ? RESPONSE_FLAG : 0),
+        frame.correlationId,
+        ...(frame.isResponse ? [frame.status] : []),
+        ...frame.payload,
+    ]),
+});
+
+export interface IDeviceCommand<A> {
+    opcode: number;
+    name: string;
+    // Encodes the argument after the header, null for commands without one
+    argument: Codec<A> | null;
+    // How long to wait for the response
+    timeoutMs: number;
+}
+
+const DEFAULT_COMMAND_TIMEOUT_MS = 3000;
+
+export const defineCommand = <A = void>(opcode: number, name: string, argument: Codec<A> | null = null, timeoutMs = DEFAULT_COMMAND_TIMEOUT_MS): IDeviceCommand<A> =>
+    ({ opcode, name, argument, timeoutMs });
+
+export type CommandArgumentOf<D> = D extends IDeviceCommand<infer A> ? A : never;
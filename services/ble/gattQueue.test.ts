@@ -0,0 +1,119 @@
+import { GattOperationQueue } from './gattQueue';
+
+const DEVICE_ID = 'AA:BB:CC:DD:EE:01';
+
+// A radio call the test settles by hand
+const deferred = <T>() => {
+    let resolve!: (value: T) => void;
+    let reject!: (error: Error) => void;
+    const promise = new Promise<T>((res, rej) => {
+        resolve = res;
+        reject = rej;
+    });
+    return { promise, resolve, reject };
+};
+
+it('runs the highest priority first and in order within a priority', async () => {
+    const queue = new GattOperationQueue();
+    const blocker = deferred<void>();
+    const order: Array<string> = [];
+    const operation = (name: string) => () => {
+        order.push(name);
+        return Promise.resolve();
+    };
+
+    const running = queue.enqueue({ deviceId: DEVICE_ID, kind: 'read', execute: () => blocker.promise });
+    const queued = [
+        queue.enqueue({ deviceId: DEVICE_ID, kind: 'write', priority: 'low', execute: operation('chunk') }),
+        queue.enqueue({ deviceId: DEVICE_ID, kind: 'read', execute: operation('first read') }),
+        queue.enqueue({ deviceId: DEVICE_ID, kind: 'write', priority: 'high', execute: operation('command') }),
+        queue.enqueue({ deviceId: DEVICE_ID, kind: 'read', execute: operation('second read') }),
+    ];
+    blocker.resolve();
+    await Promise.all([running, ...queued]);
+
+    expect(order).toEqual(['command', 'first read', 'second read', 'chunk']);
+});
+
+it('retries a timed out attempt with a fresh transaction id and ignores the late first result', async () => {
+    const queue = new GattOperationQueue();
+    const attempts: Array<{ transactionId: string, call: ReturnType<typeof deferred> }> = [];
+    const aborted: Array<string> = [];
+
+    const read = queue.enqueue({
+        deviceId: DEVICE_ID,
+        kind: 'read',
+        transactionId: 'read-1',
+        timeoutMs: 50,
+        retries: 1,
+        execute: transactionId => {
+            const call = deferred();
+            attempts.push({ transactionId, call });
+            return call.promise;
+        },
+        abort: transactionId => aborted.push(transactionId),
+    });
+    await new Promise(resolve => setTimeout(resolve, 300));
+    expect(attempts.map(({ transactionId }) => transactionId)).toEqual(['read-1', 'read-1-2']);
+    expect(aborted).toEqual(['read-1']);
+
+    // Neither may settle the retry or switch off its timeout
+    attempts[0].call.resolve('stale');
+    attempts[0].call.reject(new Error('Stale failure'));
+    await new Promise(resolve => setTimeout(resolve, 80));
+
+    await expect(read).rejects.toMatchObject({ code: 'TIMEOUT' });
+    expect(aborted).toEqual(['read-1', 'read-1-2']);
+});
+
+it('takes the result of the retry', async () => {
+    const queue = new GattOperationQueue();
+    const first = deferred<string>();
+    let calls = 0;
+
+    const read = queue.enqueue({
+        deviceId: DEVICE_ID,
+        kind: 'read',
+        timeoutMs: 50,
+        retries: 1,
+        execute: () => {
+            calls += 1;
+            return calls === 1 ? first.promise : Promise.resolve('fresh');
+        },
+    });
+    await new Promise(resolve => setTimeout(resolve, 300));
+    first.resolve('stale');
+
+    await expect(read).resolves.toBe('fresh');
+});
+
+describe('cancel', () => {
+    it('rejects a waiting operation without running it', async () => {
+        const queue = new GattOperationQueue();
+        const blocker = deferred<void>();
+        const execute = jest.fn(() => Promise.resolve());
+
+        const running = queue.enqueue({ deviceId: DEVICE_ID, kind: 'read', execute: () => blocker.promise });
+        const waiting = queue.enqueue({ deviceId: DEVICE_ID, kind: 'read', transactionId: 'waiting', execute });
+
+        expect(queue.cancel('waiting')).toBe(true);
+        await expect(waiting).rejects.toMatchObject({ code: 'CANCELED' });
+        blocker.resolve();
+        await running;
+        expect(execute).not.toHaveBeenCalled();
+    });
+
+    it('aborts a running operation and does not retry it', async () => {
+        const queue = new GattOperationQueue();
+        const aborted: Array<string> = [];
+        const execute = jest.fn(() => deferred<void>().promise);
+
+        const read = queue.enqueue({ deviceId: DEVICE_ID, kind: 'read', transactionId: 'running', retries: 2, execute, abort: transactionId => aborted.push(transactionId) });
+        await Promise.resolve();
+
+        expect(queue.cancel('running')).toBe(true);
+        await expect(read).rejects.toMatchObject({ code: 'CANCELED' });
+        expect(aborted).toEqual(['running']);
+        expect(execute).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,259 @@
+import { TransportSubscription } from './bleTransport';
+
+export type GattOperationKind = 'connect' | 'discover' | 'read' | 'write' | 'mtu' | 'rssi' | 'monitor';
+export type GattPriority = 'high' | 'normal' | 'low';
+
+// Serializable view of a queued or running operation, published to the store
+export interface IGattOperation {
+    transactionId: string;
+    deviceId: string;
+    kind: GattOperationKind;
+    priority: GattPriority;
+    status: 'queued' | 'running';
+    // Read, written or monitored characteristic
+    characteristicUUID: string | null;
+    // 1 for the first try, increased by every retry
+    attempt: number;
+    enqueuedAt: number;
+    startedAt: number | null;
+    timeoutMs: number;
+}
+
+export type GattOperationErrorCode = 'TIMEOUT' | 'CANCELED' | 'DISCONNECTED';
+
+// `code` survives the thunk's error serialization, so rejected actions carry it in `error.code`
+export class GattOperationError extends Error {
+    readonly code: GattOperationErrorCode;
+
+    constructor(code: GattOperationErrorCode, message: string) {
+        super(message);
+        this.name = 'GattOperationError';
+        this.code = code;
+    }
+}
+
+export interface GattOperationRequest<T> {
+    deviceId: string;
+    kind: GattOperationKind;
+    characteristicUUID?: string | null;
+    priority?: GattPriority;
+    timeoutMs?: number;
+    // Extra attempts after a failure or timeout, never after a cancel or disconnect
+    retries?: number;
+    // Generated when omitted, see `createTransactionId`
+    transactionId?: string;
+    execute: (transactionId: string) => Promise<T>;
+    // Stops the native work behind a running operation that timed out or was canceled
+    abort?: (transactionId: string) => void;
+}
+
+interface QueueEntry {
+    operation: IGattOperation;
+    request: GattOperationRequest<any>;
+    retries: number;
+    resolve: (value: any) => void;
+    reject: (error: Error) => void;
+    // Aborts and rejects the attempt in flight, so a hung operation does not hold the device
+    interrupt: ((error: Error) => void) | null;
+    // Set by a cancel or disconnect, which also ends retries
+    stoppedBy: GattOperationError | null;
+}
+
+const defaultTimeouts: { [kind in GattOperationKind]: number } = {
+    connect: 30000,
+    discover: 15000,
+    read: 5000,
+    write: 5000,
+    mtu: 5000,
+    rssi: 5000,
+    monitor: 5000,
+};
+
+// Only operations without side effects on the peripheral are retried unless asked for
+const defaultRetries: { [kind in GattOperationKind]: number } = {
+    connect: 0,
+    discover: 1,
+    read: 1,
+    write: 0,
+    mtu: 1,
+    // Polled anyway, the next poll is the retry
+    rssi: 0,
+    monitor: 0,
+};
+
+const priorityRanks: { [priority in GattPriority]: number } = { high: 0, normal: 1, low: 2 };
+
+const RETRY_DELAY_MS = 200;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs GATT operations one at a time per device, highest priority first and in order within a priority.
+ * Devices do not wait for each other. Every attempt is bounded by a timeout, so a hung radio call fails
+ * instead of blocking the device's queue forever.
+ */
+export class GattOperationQueue {
+    private waiting = new Map<string, Array<QueueEntry>>();
+    private running = new Map<string, QueueEntry>();
+    private listeners = new Set<() => void>();
+    private lastTransactionId = 0;
+
+    createTransactionId() {
+        this.lastTransactionId += 1;
+        return `gatt-${this.lastTransactionId}`;
+    }
+
+    enqueue<T>(request: GattOperationRequest<T>): Promise<T> {
+        const priority = request.priority ?? 'normal';
+        return new Promise<T>((resolve, reject) => {
+            const entry: QueueEntry = {
+                operation: {
+                    transactionId: request.transactionId ?? this.createTransactionId(),
+                    deviceId: request.deviceId,
+                    kind: request.kind,
+                    priority,
+                    status: 'queued',
+                    characteristicUUID: request.characteristicUUID ?? null,
+                    attempt: 1,
+                    enqueuedAt: Date.now(),
+                    startedAt: null,
+                    timeoutMs: request.timeoutMs ?? defaultTimeouts[request.kind],
+                },
+                request,
+                retries: request.retries ?? defaultRetries[request.kind],
+                resolve,
+                reject,
+                interrupt: null,
+                stoppedBy: null,
+            };
+            const queue = this.waiting.get(request.deviceId) ?? [];
+            // After every entry of the same or a higher priority
+            const index = queue.findIndex(queued => priorityRanks[queued.operation.priority] > priorityRanks[priority]);
+            queue.splice(index === -1 ? queue.length : index, 0, entry);
+            this.waiting.set(request.deviceId, queue);
+            this.notify();
+            this.pump(request.deviceId);
+        });
+    }
+
+    // Rejects the operation with CANCELED whether it is waiting or running. False when the id is unknown.
+    cancel(transactionId: string) {
+        const running = Array.from(this.running.values()).find(entry => entry.operation.transactionId === transactionId);
+        if (running) {
+            this.interrupt(running, new GattOperationError('CANCELED', `Operation ${transactionId} was canceled`));
+            return true;
+        }
+        for (const [deviceId, queue] of this.waiting) {
+            const index = queue.findIndex(entry => entry.operation.transactionId === transactionId);
+            if (index === -1) continue;
+            const [entry] = queue.splice(index, 1);
+            if (queue.length === 0) this.waiting.delete(deviceId);
+            entry.reject(new GattOperationError('CANCELED', `Operation ${transactionId} was canceled`));
+            this.notify();
+            return true;
+        }
+        return false;
+    }
+
+    // Fails every waiting and running operation of the device that `matches`, e.g. after its link dropped
+    rejectAll(deviceId: string, error: GattOperationError, matches: (operation: IGattOperation) => boolean = () => true) {
+        const queue = this.waiting.get(deviceId) ?? [];
+        const rejected = queue.filter(entry => matches(entry.operation));
+        const kept = queue.filter(entry => !matches(entry.operation));
+        if (kept.length > 0) this.waiting.set(deviceId, kept);
+        else this.waiting.delete(deviceId);
+        rejected.forEach(entry => entry.reject(error));
+        const running = this.running.get(deviceId);
+        if (running && matches(running.operation)) this.interrupt(running, error);
+        if (rejected.length > 0) this.notify();
+    }
+
+    operations(): Array<IGattOperation> {
+        const waiting = Array.from(this.waiting.values()).flat();
+        return [...Array.from(this.running.values()), ...waiting].map(entry => ({ ...entry.operation }));
+    }
+
+    onChange(listener: () => void): TransportSubscription {
+        this.listeners.add(listener);
+        return { remove: () => this.listeners.delete(listener) };
+    }
+
+    private pump(deviceId: string) {
+        if (this.running.has(deviceId)) return;
+        const queue = this.waiting.get(deviceId);
+        const entry = queue?.shift();
+        if (!entry) return;
+        if (queue!.length === 0) this.waiting.delete(deviceId);
+        this.running.set(deviceId, entry);
+        this.run(entry).finally(() => {
+            this.running.delete(deviceId);
+            this.notify();
+            this.pump(deviceId);
+        });
+    }
+
+    private async run(entry: QueueEntry) {
+        const { operation } = entry;
+        for (;;) {
+            if (entry.stoppedBy) {
+                entry.reject(entry.stoppedBy);
+                return;
+            }
+            operation.status = 'running';
+            operation.startedAt = Date.now();
+            this.notify();
+            try {
+                entry.resolve(await this.attempt(entry));
+                return;
+            } catch (error: any) {
+                const isFinal = error instanceof GattOperationError && error.code !== 'TIMEOUT';
+                if (isFinal || operation.attempt > entry.retries) {
+                    entry.reject(error);
+                    return;
+                }
+                // Shows up in the published operations, the failed attempt itself is journaled below the queue
+                operation.attempt += 1;
+                await sleep(RETRY_DELAY_MS);
+            }
+        }
+    }
+
+    private attempt(entry: QueueEntry) {
+        const { operation, request } = entry;
+        // Retries get a fresh id, the radio may still be winding down the attempt that was aborted
+        const transactionId = operation.attempt === 1 ? operation.transactionId : `${operation.transactionId}-${operation.attempt}`;
+        return new Promise((resolve, reject) => {
+            let isSettled = false;
+            // Only the first outcome counts, an aborted attempt that settles late cannot touch the next one
+            const settle = (settleAttempt: () => void) => {
+                if (isSettled) return;
+                isSettled = true;
+                clearTimeout(timer);
+                if (entry.interrupt === interrupt) entry.interrupt = null;
+                settleAttempt();
+            };
+            const interrupt = (error: Error) => {
+                request.abort?.(transactionId);
+                settle(() => reject(error));
+            };
+            const timer = setTimeout(() => {
+                this.interrupt(entry, new GattOperationError('TIMEOUT', `${operation.kind} timed out after ${operation.timeoutMs} ms`));
+            }, operation.timeoutMs);
+            entry.interrupt = interrupt;
+            request.execute(transactionId).then(
+                value => settle(() => resolve(value)),
+                error => settle(() => reject(error)),
+            );
+        });
+    }
+
+    // A timeout only ends the attempt in flight, anything else the whole operation
+    private interrupt(entry: QueueEntry, error: GattOperationError) {
+        if (error.code !== 'TIMEOUT') entry.stoppedBy = entry.stoppedBy ?? error;
+        entry.interrupt?.(error);
+    }
+
+    private notify() {
+        this.listeners.forEach(listener => listener());
+    }
+}
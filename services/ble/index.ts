@@ -0,0 +1,28 @@
+import Constants from 'expo-constants';
+import { BleTransport } from './bleTransport';
+
+export * from './bleTransport';
+export { MemoryBleTransport } from './memoryBleTransport';
+export { BleTransportContext } from './bleTransportContext';
+export * from './codecs';
+export * from './profiles';
+export * from './commands';
+
+export type BleBackend = 'plx' | 'simulated';
+
+// `BLE_BACKEND` wins over `expo.extra.bleBackend` in app.json
+export const resolveBleBackend = (): BleBackend => {
+    const backend = process.env.BLE_BACKEND ?? Constants.manifest?.extra?.bleBackend;
+    return backend === 'simulated' ? 'simulated' : 'plx';
+};
+
+// Called once at startup, see `createAppTransport`. Every PLX transport owns a native BleManager.
+export const createBleTransport = (backend: BleBackend): BleTransport => {
+    // Required lazily so the simulated backend never loads the native module
+    if (backend === 'simulated') {
+        const { createSimulatedTransport } = require('./simulator');
+        return createSimulatedTransport();
+    }
+    const { PlxBleTransport } = require('./plxBleTransport');
+    return new PlxBleTransport();
+};
@@ -0,0 +1,48 @@
+import bleServices from '../../constants/bleServices';
+import { toBLEDeviceVM } from '../../store/ble/bleSlice.contracts';
+import { EventJournal } from '../journal/eventJournal';
+import { JournalingBleTransport } from './journalingBleTransport';
+import { MemoryBleTransport } from './memoryBleTransport';
+
+const DEVICE_ID = 'AA:BB:CC:DD:EE:01';
+const { sample } = bleServices;
+const command = { serviceUUID: sample.uuid, characteristicUUID: sample.characteristics.command.uuid };
+
+const setup = async () => {
+    const radio = new MemoryBleTransport();
+    radio.addPeripheral(toBLEDeviceVM({ id: DEVICE_ID, name: 'BLE_SERVER', mtu: 23 }));
+    await radio.connect(DEVICE_ID);
+    const journal = new EventJournal();
+    return { radio, journal, journaled: new JournalingBleTransport(radio, journal) };
+};
+
+const writeChunks = async (transport: JournalingBleTransport, count: number) => {
+    for (let index = 0; index < count; index++) {
+        await transport.write(DEVICE_ID, command.serviceUUID, command.characteristicUUID, 'AQID', false, { isBulk: true });
+    }
+};
+
+it('sums up bulk writes', async () => {
+    const { journal, journaled } = await setup();
+
+    await writeChunks(journaled, 250);
+    await journaled.read(DEVICE_ID, command.serviceUUID, command.characteristicUUID);
+
+    const messages = journal.entries().map(({ message }) => message);
+    expect(messages.filter(message => message.startsWith('Wrote 100 bulk writes, 300 bytes'))).toHaveLength(2);
+    expect(messages.filter(message => message.startsWith('Wrote 50 bulk writes, 150 bytes'))).toHaveLength(1);
+    expect(journal.entries()).toHaveLength(4);
+});
+
+it('records a failed bulk write right away', async () => {
+    const { radio, journal, journaled } = await setup();
+    await writeChunks(journaled, 10);
+    radio.injectError(DEVICE_ID, 'write', new Error('Link lost'));
+
+    await expect(writeChunks(journaled, 1)).rejects.toThrow('Link lost');
+
+    const [summary, failure] = journal.entries();
+    expect(summary.message).toMatch(/^Wrote 10 bulk writes/);
+    expect(failure.level).toBe('error');
+    expect(failure.message).toMatch(/Link lost$/);
+});
@@ -0,0 +1,271 @@
+import { Buffer } from 'buffer';
+import { IAdapterState, IBLEDevice, IGattService } from '../../store/ble/bleSlice.contracts';
+import { base64ToHex } from '../../utils/payload';
+import { shortUUID } from '../../utils/uuid';
+import { EventJournal, JournalCategory, JournalLevel } from '../journal/eventJournal';
+import {
+    Base64,
+    BleTransport,
+    DisconnectListener,
+    MonitorListener,
+    ScanListener,
+    TransportConnectOptions,
+    TransportOperationOptions,
+    TransportScanOptions,
+    TransportSubscription,
+} from './bleTransport';
+import { errorMessage } from '../../utils/errors';
+
+// Successful bulk writes summed up in one entry
+const BULK_SUMMARY_SIZE = 100;
+
+interface JournaledOperation<T> {
+    deviceId: string;
+    category: JournalCategory;
+    // Level of the success entry, failures are always errors
+    level: JournalLevel;
+    label: string;
+    run: () => Promise<T>;
+    describe?: (result: T) => { message?: string, data?: string | null };
+}
+
+/**
+ * Records every call on the wrapped transport in the journal: what was asked, how long the radio took,
+ * payloads in hex and the errors. Sits below the GATT queue, so the durations are radio time only.
+ * Adapter state and dropped links are recorded by `journalMiddleware.ts` from the store's actions.
+ */
+export class JournalingBleTransport implements BleTransport {
+    private readonly transport: BleTransport;
+    private readonly journal: EventJournal;
+    // Successful bulk writes not recorded yet, per device
+    private bulkWrites = new Map<string, { characteristicUUID: string, count: number, bytes: number, startedAt: number }>();
+
+    constructor(transport: BleTransport, journal: EventJournal) {
+        this.transport = transport;
+        this.journal = journal;
+    }
+
+    onStateChange(listener: (state: IAdapterState) => void, emitCurrentState?: boolean): TransportSubscription {
+        return this.transport.onStateChange(listener, emitCurrentState);
+    }
+
+    startScan(serviceUUIDs: Array<string> | null, options: TransportScanOptions | null, listener: ScanListener) {
+        const services = serviceUUIDs?.length ? serviceUUIDs.map(shortUUID).join(', ') : 'any service';
+        this.journal.record({ level: 'info', category: 'scan', message: `Scan started for ${services}` });
+        this.transport.startScan(serviceUUIDs, options, (error, device) => {
+            if (error) {
+                this.journal.record({ level: 'error', category: 'scan', message: `Scan failed: ${errorMessage(error)}` });
+            } else if (device) {
+                this.journal.record({
+                    level: 'debug',
+                    category: 'scan',
+                    deviceId: device.id,
+                    message: `Advertisement from ${device.name ?? device.localName ?? 'unnamed device'}, ${device.rssi ?? '?'} dBm`,
+                    data: device.manufacturerData ? base64ToHex(device.manufacturerData) : null,
+                });
+            }
+            listener(error, device);
+        });
+    }
+
+    stopScan() {
+        this.journal.record({ level: 'info', category: 'scan', message: 'Scan stopped' });
+        this.transport.stopScan();
+    }
+
+    connect(deviceId: string, options?: TransportConnectOptions): Promise<IBLEDevice> {
+        this.journal.record({ level: 'info', category: 'connection', deviceId, message: 'Connecting' });
+        return this.journaled({
+            deviceId,
+            category: 'connection',
+            level: 'info',
+            label: 'Connect',
+            run: () => this.transport.connect(deviceId, options),
+            describe: device => ({ message: `Connected to ${device.name ?? deviceId}, MTU ${device.mtu}` }),
+        });
+    }
+
+    disconnect(deviceId: string) {
+        return this.journaled({
+            deviceId,
+            category: 'connection',
+            level: 'info',
+            label: 'Disconnect',
+            run: () => this.transport.disconnect(deviceId),
+        });
+    }
+
+    isConnected(deviceId: string): Promise<boolean> {
+        return this.transport.isConnected(deviceId);
+    }
+
+    connectedDevices(serviceUUIDs: Array<string>): Promise<Array<IBLEDevice>> {
+        return this.transport.connectedDevices(serviceUUIDs);
+    }
+
+    onDisconnected(deviceId: string, listener: DisconnectListener): TransportSubscription {
+        return this.transport.onDisconnected(deviceId, listener);
+    }
+
+    async restoredDevices(): Promise<Array<IBLEDevice>> {
+        const devices = await this.transport.restoredDevices();
+        devices.forEach(device => this.journal.record({
+            level: 'info',
+            category: 'connection',
+            deviceId: device.id,
+            message: `Connection to ${device.name ?? device.id} restored by the OS`,
+        }));
+        return devices;
+    }
+
+    requestMTU(deviceId: string, mtu: number, options?: TransportOperationOptions): Promise<number> {
+        return this.journaled({
+            deviceId,
+            category: 'gatt',
+            level: 'info',
+            label: `Request MTU ${mtu}`,
+            run: () => this.transport.requestMTU(deviceId, mtu, options),
+            describe: negotiated => ({ message: `MTU ${negotiated}` }),
+        });
+    }
+
+    readRSSI(deviceId: string, options?: TransportOperationOptions): Promise<IBLEDevice> {
+        return this.journaled({
+            deviceId,
+            category: 'gatt',
+            level: 'debug',
+            label: 'Read RSSI',
+            run: () => this.transport.readRSSI(deviceId, options),
+            describe: device => ({ message: `RSSI ${device.rssi ?? '?'} dBm` }),
+        });
+    }
+
+    discover(deviceId: string, options?: TransportOperationOptions): Promise<Array<IGattService>> {
+        return this.journaled({
+            deviceId,
+            category: 'gatt',
+            level: 'info',
+            label: 'Discover',
+            run: () => this.transport.discover(deviceId, options),
+            describe: services => ({
+                message: `Discovered ${services.length} services, ${services.reduce((count, service) => count + service.characteristics.length, 0)} characteristics`,
+            }),
+        });
+    }
+
+    read(deviceId: string, serviceUUID: string, characteristicUUID: string, options?: TransportOperationOptions): Promise<Base64 | null> {
+        return this.journaled({
+            deviceId,
+            category: 'gatt',
+            level: 'debug',
+            label: `Read ${shortUUID(characteristicUUID)}`,
+            run: () => this.transport.read(deviceId, serviceUUID, characteristicUUID, options),
+            describe: value => ({ data: base64ToHex(value) }),
+        });
+    }
+
+    write(deviceId: string, serviceUUID: string, characteristicUUID: string, value: Base64, withResponse: boolean, options?: TransportOperationOptions): Promise<void> {
+        if (options?.isBulk) return this.bulkWrite(deviceId, serviceUUID, characteristicUUID, value, withResponse, options);
+        return this.journaled({
+            deviceId,
+            category: 'gatt',
+            level: 'debug',
+            label: `Write ${withResponse ? 'with' : 'without'} response ${shortUUID(characteristicUUID)}`,
+            run: () => this.transport.write(deviceId, serviceUUID, characteristicUUID, value, withResponse, options),
+            describe: () => ({ data: base64ToHex(value) }),
+        });
+    }
+
+    monitor(deviceId: string, serviceUUID: string, characteristicUUID: string, listener: MonitorListener, options?: TransportOperationOptions): TransportSubscription {
+        const name = shortUUID(characteristicUUID);
+        this.journal.record({ level: 'info', category: 'notification', deviceId, message: `Monitoring ${name}` });
+        const subscription = this.transport.monitor(deviceId, serviceUUID, characteristicUUID, this.journaledListener(deviceId, name, listener), options);
+        return this.journaledSubscription(deviceId, name, subscription);
+    }
+
+    async startMonitor(deviceId: string, serviceUUID: string, characteristicUUID: string, listener: MonitorListener, options?: TransportOperationOptions): Promise<TransportSubscription> {
+        const name = shortUUID(characteristicUUID);
+        const subscription = await this.journaled({
+            deviceId,
+            category: 'notification',
+            level: 'info',
+            label: `Enable notifications on ${name}`,
+            run: () => this.transport.startMonitor(deviceId, serviceUUID, characteristicUUID, this.journaledListener(deviceId, name, listener), options),
+            describe: () => ({ message: `Monitoring ${name}` }),
+        });
+        return this.journaledSubscription(deviceId, name, subscription);
+    }
+
+    cancelTransaction(transactionId: string) {
+        this.journal.record({ level: 'warn', category: 'gatt', message: `Canceling transaction ${transactionId}` });
+        this.transport.cancelTransaction(transactionId);
+    }
+
+    // Failures are recorded one by one, successful writes once per `BULK_SUMMARY_SIZE` or before the device's next other operation
+    private async bulkWrite(deviceId: string, serviceUUID: string, characteristicUUID: string, value: Base64, withResponse: boolean, options: TransportOperationOptions) {
+        const startedAt = Date.now();
+        try {
+            await this.transport.write(deviceId, serviceUUID, characteristicUUID, value, withResponse, options);
+        } catch (error: any) {
+            this.flushBulkWrites(deviceId);
+            this.journal.record({ level: 'error', category: 'gatt', deviceId, message: `Bulk write ${shortUUID(characteristicUUID)} failed after ${Date.now() - startedAt} ms: ${errorMessage(error)}` });
+            throw error;
+        }
+        const bulk = this.bulkWrites.get(deviceId);
+        if (bulk && bulk.characteristicUUID === characteristicUUID) {
+            bulk.count += 1;
+            bulk.bytes += Buffer.from(value, 'base64').length;
+        } else {
+            this.flushBulkWrites(deviceId);
+            this.bulkWrites.set(deviceId, { characteristicUUID, count: 1, bytes: Buffer.from(value, 'base64').length, startedAt });
+        }
+        if (this.bulkWrites.get(deviceId)!.count >= BULK_SUMMARY_SIZE) this.flushBulkWrites(deviceId);
+    }
+
+    private flushBulkWrites(deviceId: string) {
+        const bulk = this.bulkWrites.get(deviceId);
+        if (!bulk) return;
+        this.bulkWrites.delete(deviceId);
+        this.journal.record({
+            level: 'debug',
+            category: 'gatt',
+            deviceId,
+            message: `Wrote ${bulk.count} bulk writes, ${bulk.bytes} bytes, to ${shortUUID(bulk.characteristicUUID)} (${Date.now() - bulk.startedAt} ms)`,
+        });
+    }
+
+    private journaledListener(deviceId: string, name: string, listener: MonitorListener): MonitorListener {
+        return (error, value) => {
+            if (error) {
+                this.journal.record({ level: 'error', category: 'notification', deviceId, message: `Monitor of ${name} failed: ${errorMessage(error)}` });
+            } else {
+                this.journal.record({ level: 'debug', category: 'notification', deviceId, message: `Notification ${name}`, data: base64ToHex(value) });
+            }
+            listener(error, value);
+        };
+    }
+
+    private journaledSubscription(deviceId: string, name: string, subscription: TransportSubscription): TransportSubscription {
+        return {
+            remove: () => {
+                this.journal.record({ level: 'info', category: 'notification', deviceId, message: `Stopped monitoring ${name}` });
+                subscription.remove();
+            },
+        };
+    }
+
+    private async journaled<T>(operation: JournaledOperation<T>): Promise<T> {
+        const { deviceId, category, level, label, run, describe } = operation;
+        if (deviceId) this.flushBulkWrites(deviceId);
+        const startedAt = Date.now();
+        try {
+            const result = await run();
+            const { message, data } = describe?.(result) ?? {};
+            this.journal.record({ level, category, deviceId, message: `${message ?? label} (${Date.now() - startedAt} ms)`, data });
+            return result;
+        } catch (error: any) {
+            this.journal.record({ level: 'error', category, deviceId, message: `${label} failed after ${Date.now() - startedAt} ms: ${errorMessage(error)}` });
+            throw error;
+        }
+    }
+}
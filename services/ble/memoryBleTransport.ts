@@ -0,0 +1,308 @@
+import { IAdapterState, IBLEDevice, IGattService } from '../../store/ble/bleSlice.contracts';
+import {
+    Base64,
+    BleTransport,
+    DisconnectListener,
+    MonitorListener,
+    ScanListener,
+    TransportScanOptions,
+    TransportSubscription,
+} from './bleTransport';
+
+export type MemoryTransportOperation = 'connect' | 'discover' | 'read' | 'write' | 'monitor' | 'mtu' | 'rssi';
+
+export interface MemoryBleTransportOptions {
+    // Delay applied to every asynchronous GATT operation, to mimic radio round trips
+    latencyMs?: number;
+    // Largest MTU the peripherals accept, 517 is the most BLE allows
+    maxMtu?: number;
+}
+
+interface InjectedError {
+    error: Error;
+    persistent: boolean;
+}
+
+interface MemoryPeripheral {
+    device: IBLEDevice;
+    services: Array<IGattService>;
+    values: { [characteristicKey: string]: Base64 | null };
+}
+
+interface MonitorRegistration {
+    deviceId: string;
+    key: string;
+    listener: MonitorListener;
+}
+
+const characteristicKey = (serviceUUID: string, characteristicUUID: string) =>
+    `${serviceUUID.toLowerCase()}/${characteristicUUID.toLowerCase()}`;
+
+// Builds a listener set whose subscriptions remove themselves
+const subscribe = <T>(listeners: Set<T>, listener: T): TransportSubscription => {
+    listeners.add(listener);
+    return { remove: () => listeners.delete(listener) };
+};
+
+/**
+ * In-memory transport with no native dependencies. Peripherals are registered up front and everything
+ * the radio would do (advertising, connecting, notifying, dropping the link) is driven from code, so the
+ * thunks and screens can run on a machine without Bluetooth.
+ */
+export class MemoryBleTransport implements BleTransport {
+    private readonly latencyMs: number;
+    private readonly maxMtu: number;
+    private adapterState: IAdapterState = 'PoweredOn';
+    private peripherals = new Map<string, MemoryPeripheral>();
+    private connected = new Set<string>();
+    private scanListener: ScanListener | null = null;
+    private scanServiceUUIDs: Array<string> | null = null;
+    private stateListeners = new Set<(state: IAdapterState) => void>();
+    private disconnectListeners = new Set<{ deviceId: string, listener: DisconnectListener }>();
+    private monitors = new Set<MonitorRegistration>();
+    private injectedErrors = new Map<string, InjectedError>();
+    // Called after every write with the written value, so a peripheral can react to commands
+    private writeListeners = new Set<(deviceId: string, serviceUUID: string, characteristicUUID: string, value: Base64) => void>();
+
+    constructor(options: MemoryBleTransportOptions = {}) {
+        this.latencyMs = options.latencyMs ?? 0;
+        this.maxMtu = options.maxMtu ?? 517;
+    }
+
+    // ===== Test / simulation controls =====
+
+    setAdapterState(state: IAdapterState) {
+        this.adapterState = state;
+        this.stateListeners.forEach(listener => listener(state));
+        if (state !== 'PoweredOn') {
+            this.connected.forEach(deviceId => this.dropConnection(deviceId, new Error(`Adapter ${state}`)));
+        }
+    }
+
+    addPeripheral(device: IBLEDevice, services: Array<IGattService> = []) {
+        this.peripherals.set(device.id, { device, services, values: {} });
+        this.advertise(device.id);
+    }
+
+    removePeripheral(deviceId: string) {
+        this.dropConnection(deviceId, null);
+        this.peripherals.delete(deviceId);
+    }
+
+    // Emit an advertisement for the peripheral to the active scan, if any
+    advertise(deviceId: string, advertisement: Partial<IBLEDevice> = {}) {
+        const peripheral = this.peripherals.get(deviceId);
+        if (!peripheral) return;
+        peripheral.device = { ...peripheral.device, ...advertisement };
+        if (this.scanListener && this.matchesScan(peripheral.device)) {
+            this.scanListener(null, peripheral.device);
+        }
+    }
+
+    // Update a characteristic value and notify every monitor registered on it
+    setCharacteristicValue(deviceId: string, serviceUUID: string, characteristicUUID: string, value: Base64 | null) {
+        const peripheral = this.requirePeripheral(deviceId);
+        const key = characteristicKey(serviceUUID, characteristicUUID);
+        peripheral.values[key] = value;
+        if (!this.connected.has(deviceId)) return;
+        this.monitors.forEach(monitor => {
+            if (monitor.deviceId === deviceId && monitor.key === key) monitor.listener(null, value);
+        });
+    }
+
+    // Drop the link as if the peripheral went out of range
+    dropConnection(deviceId: string, error: Error | null) {
+        if (!this.connected.delete(deviceId)) return;
+        // Every new link starts at the default MTU again
+        const peripheral = this.peripherals.get(deviceId);
+        if (peripheral) peripheral.device = { ...peripheral.device, mtu: 23 };
+        this.monitors.forEach(monitor => {
+            if (monitor.deviceId === deviceId) {
+                monitor.listener(new Error('Device disconnected'), null);
+                this.monitors.delete(monitor);
+            }
+        });
+        this.disconnectListeners.forEach(registration => {
+            if (registration.deviceId === deviceId) registration.listener(error, deviceId);
+        });
+    }
+
+    // Make the next `operation` on the device fail, or every one until cleared when `persistent`
+    injectError(deviceId: string, operation: MemoryTransportOperation, error: Error, persistent = false) {
+        this.injectedErrors.set(`${deviceId}/${operation}`, { error, persistent });
+    }
+
+    clearInjectedErrors(deviceId: string) {
+        Array.from(this.injectedErrors.keys())
+            .filter(key => key.startsWith(`${deviceId}/`))
+            .forEach(key => this.injectedErrors.delete(key));
+    }
+
+    onWrite(listener: (deviceId: string, serviceUUID: string, characteristicUUID: string, value: Base64) => void): TransportSubscription {
+        return subscribe(this.writeListeners, listener);
+    }
+
+    // ===== BleTransport =====
+
+    onStateChange(listener: (state: IAdapterState) => void, emitCurrentState?: boolean): TransportSubscription {
+        if (emitCurrentState) listener(this.adapterState);
+        return subscribe(this.stateListeners, listener);
+    }
+
+    startScan(serviceUUIDs: Array<string> | null, options: TransportScanOptions | null, listener: ScanListener) {
+        if (this.adapterState !== 'PoweredOn') {
+            listener(new Error(`Bluetooth is ${this.adapterState}`), null);
+            return;
+        }
+        this.scanListener = listener;
+        this.scanServiceUUIDs = serviceUUIDs;
+        // Advertise everything in range on the next tick, as a real scan would report asynchronously
+        setTimeout(() => this.peripherals.forEach(peripheral => this.advertise(peripheral.device.id)), 0);
+    }
+
+    stopScan() {
+        this.scanListener = null;
+        this.scanServiceUUIDs = null;
+    }
+
+    async connect(deviceId: string): Promise<IBLEDevice> {
+        await this.simulateLatency();
+        this.requirePoweredOn();
+        const peripheral = this.requirePeripheral(deviceId);
+        this.throwInjectedError(deviceId, 'connect');
+        this.connected.add(deviceId);
+        return peripheral.device;
+    }
+
+    async disconnect(deviceId: string) {
+        this.dropConnection(deviceId, null);
+    }
+
+    // Operations settle after `latencyMs` anyway, a queue waiting on one simply stops waiting
+    cancelTransaction(transactionId: string) {
+    }
+
+    async isConnected(deviceId: string): Promise<boolean> {
+        return this.connected.has(deviceId);
+    }
+
+    async connectedDevices(serviceUUIDs: Array<string>): Promise<Array<IBLEDevice>> {
+        const wanted = serviceUUIDs.map(uuid => uuid.toLowerCase());
+        return Array.from(this.connected)
+            .map(deviceId => this.requirePeripheral(deviceId))
+            .filter(peripheral => peripheral.services.some(service => wanted.includes(service.uuid.toLowerCase())))
+            .map(peripheral => peripheral.device);
+    }
+
+    // Whatever is connected stands in for what the OS kept connected, connect first to simulate a restored launch
+    async restoredDevices(): Promise<Array<IBLEDevice>> {
+        return Array.from(this.connected).map(deviceId => this.requirePeripheral(deviceId).device);
+    }
+
+    onDisconnected(deviceId: string, listener: DisconnectListener): TransportSubscription {
+        return subscribe(this.disconnectListeners, { deviceId, listener });
+    }
+
+    async requestMTU(deviceId: string, mtu: number): Promise<number> {
+        await this.simulateLatency();
+        const peripheral = this.requireConnected(deviceId);
+        this.throwInjectedError(deviceId, 'mtu');
+        peripheral.device = { ...peripheral.device, mtu: Math.max(23, Math.min(mtu, this.maxMtu)) };
+        return peripheral.device.mtu;
+    }
+
+    // The RSSI is the one of the last advertisement, see `VirtualPeripheral.setRssi`
+    async readRSSI(deviceId: string): Promise<IBLEDevice> {
+        await this.simulateLatency();
+        const peripheral = this.requireConnected(deviceId);
+        this.throwInjectedError(deviceId, 'rssi');
+        return peripheral.device;
+    }
+
+    async discover(deviceId: string): Promise<Array<IGattService>> {
+        await this.simulateLatency();
+        const peripheral = this.requireConnected(deviceId);
+        this.throwInjectedError(deviceId, 'discover');
+        return peripheral.services;
+    }
+
+    async read(deviceId: string, serviceUUID: string, characteristicUUID: string): Promise<Base64 | null> {
+        await this.simulateLatency();
+        const peripheral = this.requireConnected(deviceId);
+        this.throwInjectedError(deviceId, 'read');
+        return peripheral.values[characteristicKey(serviceUUID, characteristicUUID)] ?? null;
+    }
+
+    async write(deviceId: string, serviceUUID: string, characteristicUUID: string, value: Base64, withResponse: boolean) {
+        await this.simulateLatency();
+        const peripheral = this.requireConnected(deviceId);
+        this.throwInjectedError(deviceId, 'write');
+        peripheral.values[characteristicKey(serviceUUID, characteristicUUID)] = value;
+        this.writeListeners.forEach(listener => listener(deviceId, serviceUUID, characteristicUUID, value));
+    }
+
+    monitor(deviceId: string, serviceUUID: string, characteristicUUID: string, listener: MonitorListener): TransportSubscription {
+        const registration = { deviceId, key: characteristicKey(serviceUUID, characteristicUUID), listener };
+        const injected = this.takeInjectedError(deviceId, 'monitor');
+        if (!this.connected.has(deviceId) || injected) {
+            listener(injected ?? new Error(`Device ${deviceId} is not connected`), null);
+            return { remove: () => undefined };
+        }
+        return subscribe(this.monitors, registration);
+    }
+
+    async startMonitor(deviceId: string, serviceUUID: string, characteristicUUID: string, listener: MonitorListener): Promise<TransportSubscription> {
+        await this.simulateLatency();
+        this.requireConnected(deviceId);
+        this.throwInjectedError(deviceId, 'monitor');
+        return subscribe(this.monitors, { deviceId, key: characteristicKey(serviceUUID, characteristicUUID), listener });
+    }
+
+    // ===== Helpers =====
+
+    private matchesScan(device: IBLEDevice) {
+        if (!this.scanServiceUUIDs || this.scanServiceUUIDs.length === 0) return true;
+        const advertised = (device.serviceUUIDs ?? []).map(uuid => uuid.toLowerCase());
+        return this.scanServiceUUIDs.some(uuid => advertised.includes(uuid.toLowerCase()));
+    }
+
+    private simulateLatency() {
+        if (this.latencyMs <= 0) return Promise.resolve();
+        return new Promise(resolve => setTimeout(resolve, this.latencyMs));
+    }
+
+    private takeInjectedError(deviceId: string, operation: MemoryTransportOperation) {
+        const key = `${deviceId}/${operation}`;
+        const injected = this.injectedErrors.get(key);
+        if (!injected) return null;
+        if (!injected.persistent) this.injectedErrors.delete(key);
+        return injected.error;
+    }
+
+    private throwInjectedError(deviceId: string, operation: MemoryTransportOperation) {
+        const error = this.takeInjectedError(deviceId, operation);
+        if (error) throw error;
+    }
+
+    private requirePoweredOn() {
+        if (this.adapterState !== 'PoweredOn') {
+            throw new Error(`Bluetooth is ${this.adapterState}`);
+        }
+    }
+
+    private requirePeripheral(deviceId: string) {
+        const peripheral = this.peripherals.get(deviceId);
+        if (!peripheral) {
+            throw new Error(`Device ${deviceId} not found`);
+        }
+        return peripheral;
+    }
+
+    private requireConnected(deviceId: string) {
+        const peripheral = this.requirePeripheral(deviceId);
+        if (!this.connected.has(deviceId)) {
+            throw new Error(`Device ${deviceId} is not connected`);
+        }
+        return peripheral;
+    }
+}
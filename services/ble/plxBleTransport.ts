@@ -0,0 +1,186 @@
+import { Platform } from 'react-native';
+import { BleManager, BleRestoredState } from 'react-native-ble-plx';
+import { IAdapterState, IBLEDevice, IGattService, toBLEDeviceVM } from '../../store/ble/bleSlice.contracts';
+import {
+    Base64,
+    BleTransport,
+    DisconnectListener,
+    MonitorListener,
+    ScanListener,
+    TransportConnectOptions,
+    TransportOperationOptions,
+    TransportScanOptions,
+    TransportSubscription,
+} from './bleTransport';
+import { isSameUUID } from '../../utils/uuid';
+
+// CoreBluetooth hands connections kept for this identifier back to the app when iOS relaunches it
+export const BLE_RESTORE_STATE_IDENTIFIER = 'com.octoco.blereactnative.central';
+
+// iOS reports the restored state right after the manager is created, null when it kept nothing
+const RESTORE_STATE_TIMEOUT_MS = 5000;
+
+// How often and how long `startMonitor` checks for the characteristic to start notifying
+const NOTIFY_POLL_INTERVAL_MS = 50;
+const NOTIFY_ENABLE_TIMEOUT_MS = 5000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// react-native-ble-plx adapter. The only place in the app that talks to the native BleManager.
+export class PlxBleTransport implements BleTransport {
+    private readonly bleManager: BleManager;
+    private readonly restoredState: Promise<Array<IBLEDevice>>;
+
+    // State restoration is only set up for the manager created here, an injected one restores nothing
+    constructor(bleManager?: BleManager) {
+        if (bleManager || Platform.OS !== 'ios') {
+            this.bleManager = bleManager ?? new BleManager();
+            this.restoredState = Promise.resolve([]);
+            return;
+        }
+        let resolveRestored: (devices: Array<IBLEDevice>) => void = () => undefined;
+        this.restoredState = new Promise(resolve => {
+            resolveRestored = resolve;
+            setTimeout(() => resolve([]), RESTORE_STATE_TIMEOUT_MS);
+        });
+        this.bleManager = new BleManager({
+            restoreStateIdentifier: BLE_RESTORE_STATE_IDENTIFIER,
+            restoreStateFunction: (restoredState: BleRestoredState | null) => {
+                resolveRestored((restoredState?.connectedPeripherals ?? []).map(toBLEDeviceVM));
+            },
+        });
+    }
+
+    onStateChange(listener: (state: IAdapterState) => void, emitCurrentState?: boolean): TransportSubscription {
+        return this.bleManager.onStateChange(state => listener(state), emitCurrentState);
+    }
+
+    startScan(serviceUUIDs: Array<string> | null, options: TransportScanOptions | null, listener: ScanListener) {
+        this.bleManager.startDeviceScan(serviceUUIDs, options, (error, scannedDevice) => {
+            listener(error, scannedDevice ? toBLEDeviceVM(scannedDevice) : null);
+        });
+    }
+
+    stopScan() {
+        this.bleManager.stopDeviceScan();
+    }
+
+    async connect(deviceId: string, options?: TransportConnectOptions): Promise<IBLEDevice> {
+        const device = await this.bleManager.connectToDevice(deviceId, options?.timeoutMs ? { timeout: options.timeoutMs } : undefined);
+        return toBLEDeviceVM(device);
+    }
+
+    async disconnect(deviceId: string) {
+        await this.bleManager.cancelDeviceConnection(deviceId);
+    }
+
+    isConnected(deviceId: string): Promise<boolean> {
+        return this.bleManager.isDeviceConnected(deviceId);
+    }
+
+    async connectedDevices(serviceUUIDs: Array<string>): Promise<Array<IBLEDevice>> {
+        const devices = await this.bleManager.connectedDevices(serviceUUIDs);
+        return devices.map(toBLEDeviceVM);
+    }
+
+    restoredDevices(): Promise<Array<IBLEDevice>> {
+        return this.restoredState;
+    }
+
+    onDisconnected(deviceId: string, listener: DisconnectListener): TransportSubscription {
+        return this.bleManager.onDeviceDisconnected(deviceId, (error, device) => listener(error, device?.id ?? deviceId));
+    }
+
+    // Android only; iOS negotiates the MTU by itself and this returns what it settled on
+    async requestMTU(deviceId: string, mtu: number, options?: TransportOperationOptions): Promise<number> {
+        const device = await this.bleManager.requestMTUForDevice(deviceId, mtu, options?.transactionId);
+        return device.mtu;
+    }
+
+    async readRSSI(deviceId: string, options?: TransportOperationOptions): Promise<IBLEDevice> {
+        const device = await this.bleManager.readRSSIForDevice(deviceId, options?.transactionId);
+        return toBLEDeviceVM(device);
+    }
+
+    async discover(deviceId: string, options?: TransportOperationOptions): Promise<Array<IGattService>> {
+        const device = await this.bleManager.discoverAllServicesAndCharacteristicsForDevice(deviceId, options?.transactionId);
+        const services = await device.services();
+        return Promise.all(services.map(async service => {
+            const characteristics = await service.characteristics();
+            return {
+                uuid: service.uuid,
+                characteristics: await Promise.all(characteristics.map(async characteristic => ({
+                    uuid: characteristic.uuid,
+                    serviceUUID: characteristic.serviceUUID,
+                    isReadable: characteristic.isReadable,
+                    isWritableWithResponse: characteristic.isWritableWithResponse,
+                    isWritableWithoutResponse: characteristic.isWritableWithoutResponse,
+                    isNotifiable: characteristic.isNotifiable,
+                    isIndicatable: characteristic.isIndicatable,
+                    descriptors: (await characteristic.descriptors()).map(descriptor => ({ uuid: descriptor.uuid })),
+                }))),
+            };
+        }));
+    }
+
+    async read(deviceId: string, serviceUUID: string, characteristicUUID: string, options?: TransportOperationOptions): Promise<Base64 | null> {
+        const characteristic = await this.bleManager.readCharacteristicForDevice(deviceId, serviceUUID, characteristicUUID, options?.transactionId);
+        return characteristic.value;
+    }
+
+    async write(deviceId: string, serviceUUID: string, characteristicUUID: string, value: Base64, withResponse: boolean, options?: TransportOperationOptions) {
+        if (withResponse) {
+            await this.bleManager.writeCharacteristicWithResponseForDevice(deviceId, serviceUUID, characteristicUUID, value, options?.transactionId);
+        }
+        else {
+            await this.bleManager.writeCharacteristicWithoutResponseForDevice(deviceId, serviceUUID, characteristicUUID, value, options?.transactionId);
+        }
+    }
+
+    monitor(deviceId: string, serviceUUID: string, characteristicUUID: string, listener: MonitorListener, options?: TransportOperationOptions): TransportSubscription {
+        return this.bleManager.monitorCharacteristicForDevice(deviceId, serviceUUID, characteristicUUID, (error, characteristic) => {
+            listener(error, characteristic?.value ?? null);
+        }, options?.transactionId);
+    }
+
+    // react-native-ble-plx reports nothing once the descriptor is written, so this waits for `isNotifying` or a first value
+    startMonitor(deviceId: string, serviceUUID: string, characteristicUUID: string, listener: MonitorListener, options?: TransportOperationOptions): Promise<TransportSubscription> {
+        return new Promise((resolve, reject) => {
+            let isSettled = false;
+            const settle = (error: Error | null) => {
+                if (isSettled) return;
+                isSettled = true;
+                if (error) {
+                    subscription.remove();
+                    reject(error);
+                } else {
+                    resolve(subscription);
+                }
+            };
+            // The listener is called from native events, never before `monitor` returns
+            const subscription = this.monitor(deviceId, serviceUUID, characteristicUUID, (error, value) => {
+                if (!isSettled) {
+                    settle(error);
+                    if (error) return;
+                }
+                listener(error, value);
+            }, options);
+            this.waitUntilNotifying(deviceId, serviceUUID, characteristicUUID, () => isSettled)
+                .then(() => settle(null), error => settle(error));
+        });
+    }
+
+    cancelTransaction(transactionId: string) {
+        this.bleManager.cancelTransaction(transactionId);
+    }
+
+    private async waitUntilNotifying(deviceId: string, serviceUUID: string, characteristicUUID: string, isSettled: () => boolean) {
+        const giveUpAt = Date.now() + NOTIFY_ENABLE_TIMEOUT_MS;
+        while (!isSettled()) {
+            const characteristics = await this.bleManager.characteristicsForDevice(deviceId, serviceUUID);
+            if (characteristics.find(characteristic => isSameUUID(characteristic.uuid, characteristicUUID))?.isNotifying) return;
+            if (Date.now() > giveUpAt) throw new Error(`Notifications were not enabled within ${NOTIFY_ENABLE_TIMEOUT_MS} ms`);
+            await sleep(NOTIFY_POLL_INTERVAL_MS);
+        }
+    }
+}
@@ -0,0 +1,23 @@
+import { Codec } from './codecs';
+
+// A characteristic and how its value is laid out on the wire
+export interface ICharacteristicProfile<T> {
+    uuid: string;
+    name: string;
+    codec: Codec<T>;
+}
+
+export type CharacteristicProfiles = { [key: string]: ICharacteristicProfile<any> };
+
+export interface IServiceProfile<C extends CharacteristicProfiles = CharacteristicProfiles> {
+    uuid: string;
+    name: string;
+    characteristics: C;
+}
+
+export type ProfileValue<P> = P extends ICharacteristicProfile<infer T> ? T : never;
+
+// Identity helpers that keep the codec types of every characteristic for inference
+export const defineService = <C extends CharacteristicProfiles>(profile: IServiceProfile<C>) => profile;
+
+export const defineCharacteristic = <T>(uuid: string, name: string, codec: Codec<T>): ICharacteristicProfile<T> => ({ uuid, name, codec });
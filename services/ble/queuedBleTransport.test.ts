@@ -0,0 +1,49 @@
+import bleServices from '../../constants/bleServices';
+import { toBLEDeviceVM } from '../../store/ble/bleSlice.contracts';
+import { MemoryBleTransport } from './memoryBleTransport';
+import { QueuedBleTransport } from './queuedBleTransport';
+
+const DEVICE_ID = 'AA:BB:CC:DD:EE:01';
+const { sample } = bleServices;
+const command = { serviceUUID: sample.uuid, characteristicUUID: sample.characteristics.command.uuid };
+
+// Every radio call takes a while, so operations are still running when the test interferes
+const setup = () => {
+    const radio = new MemoryBleTransport({ latencyMs: 20 });
+    radio.addPeripheral(toBLEDeviceVM({ id: DEVICE_ID, name: 'BLE_SERVER', mtu: 23 }));
+    return { radio, queued: new QueuedBleTransport(radio) };
+};
+
+it('starts the notifications before a write queued behind them', async () => {
+    const { radio, queued } = setup();
+    await radio.connect(DEVICE_ID);
+    // Answers every write on the characteristic it was written to, like the command characteristic does
+    radio.onWrite((deviceId, serviceUUID, characteristicUUID, value) => radio.setCharacteristicValue(deviceId, serviceUUID, characteristicUUID, value));
+    const received: Array<string | null> = [];
+
+    queued.monitor(DEVICE_ID, command.serviceUUID, command.characteristicUUID, (error, value) => received.push(value));
+    await queued.write(DEVICE_ID, command.serviceUUID, command.characteristicUUID, 'AQID', true, { priority: 'high' });
+
+    expect(received).toEqual(['AQID']);
+});
+
+it('fails waiting operations when a link it did not open drops', async () => {
+    const { radio, queued } = setup();
+    await radio.connect(DEVICE_ID);
+
+    const read = queued.read(DEVICE_ID, command.serviceUUID, command.characteristicUUID);
+    radio.dropConnection(DEVICE_ID, new Error('Out of range'));
+
+    await expect(read).rejects.toMatchObject({ code: 'DISCONNECTED' });
+});
+
+it('disconnects once while a connect is running', async () => {
+    const { radio, queued } = setup();
+    const disconnect = jest.spyOn(radio, 'disconnect');
+
+    const connecting = queued.connect(DEVICE_ID);
+    await queued.disconnect(DEVICE_ID);
+
+    await expect(connecting).rejects.toMatchObject({ code: 'DISCONNECTED' });
+    expect(disconnect).toHaveBeenCalledTimes(1);
+});
@@ -0,0 +1,219 @@
+import { IAdapterState, IBLEDevice, IGattService } from '../../store/ble/bleSlice.contracts';
+import {
+    Base64,
+    BleTransport,
+    DisconnectListener,
+    MonitorListener,
+    ScanListener,
+    TransportConnectOptions,
+    TransportOperationOptions,
+    TransportScanOptions,
+    TransportSubscription,
+} from './bleTransport';
+import { GattOperationError, GattOperationQueue, GattOperationRequest, IGattOperation } from './gattQueue';
+
+// Queue snapshots are published at most this often, a firmware update queues hundreds of writes per second
+const PUBLISH_INTERVAL_MS = 100;
+
+const queueOptions = (options?: TransportOperationOptions) => ({
+    transactionId: options?.transactionId,
+    priority: options?.priority,
+    timeoutMs: options?.timeoutMs,
+    retries: options?.retries,
+});
+
+/**
+ * Puts every GATT operation of the wrapped transport through a `GattOperationQueue`, so reads, writes,
+ * discovery and monitor setup from different thunks never overlap on a device. Scanning and adapter state
+ * pass straight through. Waiting operations of a device are rejected with DISCONNECTED when its link drops.
+ */
+export class QueuedBleTransport implements BleTransport {
+    readonly queue = new GattOperationQueue();
+    private readonly transport: BleTransport;
+    private disconnectSubscriptions = new Map<string, TransportSubscription>();
+    // Devices `disconnect` is closing the link of
+    private disconnecting = new Set<string>();
+    private operationListeners = new Set<(operations: Array<IGattOperation>) => void>();
+    private publishTimer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(transport: BleTransport) {
+        this.transport = transport;
+        this.queue.onChange(() => this.schedulePublish());
+    }
+
+    // Snapshots of the waiting and running operations, throttled
+    onOperationsChanged(listener: (operations: Array<IGattOperation>) => void): TransportSubscription {
+        this.operationListeners.add(listener);
+        return { remove: () => this.operationListeners.delete(listener) };
+    }
+
+    onStateChange(listener: (state: IAdapterState) => void, emitCurrentState?: boolean): TransportSubscription {
+        return this.transport.onStateChange(listener, emitCurrentState);
+    }
+
+    startScan(serviceUUIDs: Array<string> | null, options: TransportScanOptions | null, listener: ScanListener) {
+        this.transport.startScan(serviceUUIDs, options, listener);
+    }
+
+    stopScan() {
+        this.transport.stopScan();
+    }
+
+    connect(deviceId: string, options?: TransportConnectOptions): Promise<IBLEDevice> {
+        return this.enqueue({
+            deviceId,
+            kind: 'connect',
+            ...queueOptions(options),
+            execute: transactionId => this.transport.connect(deviceId, { ...options, transactionId }),
+            // Cancels the pending connection, react-native-ble-plx has no transaction for connecting. `disconnect` does that itself.
+            abort: () => {
+                if (!this.disconnecting.has(deviceId)) this.transport.disconnect(deviceId).catch(() => undefined);
+            },
+        });
+    }
+
+    // Not queued: it has to get through while an operation hangs. Everything the device was waiting for fails.
+    async disconnect(deviceId: string) {
+        this.disconnecting.add(deviceId);
+        try {
+            this.queue.rejectAll(deviceId, new GattOperationError('DISCONNECTED', `Disconnected from ${deviceId}`));
+            await this.transport.disconnect(deviceId);
+        } finally {
+            this.disconnecting.delete(deviceId);
+        }
+    }
+
+    isConnected(deviceId: string): Promise<boolean> {
+        return this.transport.isConnected(deviceId);
+    }
+
+    connectedDevices(serviceUUIDs: Array<string>): Promise<Array<IBLEDevice>> {
+        return this.transport.connectedDevices(serviceUUIDs);
+    }
+
+    onDisconnected(deviceId: string, listener: DisconnectListener): TransportSubscription {
+        return this.transport.onDisconnected(deviceId, listener);
+    }
+
+    restoredDevices(): Promise<Array<IBLEDevice>> {
+        return this.transport.restoredDevices();
+    }
+
+    requestMTU(deviceId: string, mtu: number, options?: TransportOperationOptions): Promise<number> {
+        return this.enqueue({
+            deviceId,
+            kind: 'mtu',
+            ...queueOptions(options),
+            execute: transactionId => this.transport.requestMTU(deviceId, mtu, { transactionId }),
+        });
+    }
+
+    readRSSI(deviceId: string, options?: TransportOperationOptions): Promise<IBLEDevice> {
+        return this.enqueue({
+            deviceId,
+            kind: 'rssi',
+            ...queueOptions(options),
+            execute: transactionId => this.transport.readRSSI(deviceId, { transactionId }),
+        });
+    }
+
+    discover(deviceId: string, options?: TransportOperationOptions): Promise<Array<IGattService>> {
+        return this.enqueue({
+            deviceId,
+            kind: 'discover',
+            ...queueOptions(options),
+            execute: transactionId => this.transport.discover(deviceId, { transactionId }),
+        });
+    }
+
+    read(deviceId: string, serviceUUID: string, characteristicUUID: string, options?: TransportOperationOptions): Promise<Base64 | null> {
+        return this.enqueue({
+            deviceId,
+            kind: 'read',
+            characteristicUUID,
+            ...queueOptions(options),
+            execute: transactionId => this.transport.read(deviceId, serviceUUID, characteristicUUID, { transactionId }),
+        });
+    }
+
+    write(deviceId: string, serviceUUID: string, characteristicUUID: string, value: Base64, withResponse: boolean, options?: TransportOperationOptions): Promise<void> {
+        return this.enqueue({
+            deviceId,
+            kind: 'write',
+            characteristicUUID,
+            ...queueOptions(options),
+            execute: transactionId => this.transport.write(deviceId, serviceUUID, characteristicUUID, value, withResponse, { transactionId, isBulk: options?.isBulk }),
+        });
+    }
+
+    // Returns right away; the notifications start once the setup had its turn. Removing it earlier cancels the setup.
+    monitor(deviceId: string, serviceUUID: string, characteristicUUID: string, listener: MonitorListener, options?: TransportOperationOptions): TransportSubscription {
+        const transactionId = options?.transactionId ?? this.queue.createTransactionId();
+        let subscription: TransportSubscription | null = null;
+        let isRemoved = false;
+        this.startMonitor(deviceId, serviceUUID, characteristicUUID, listener, { ...options, transactionId }).then(started => {
+            if (isRemoved) started.remove();
+            else subscription = started;
+        }, error => {
+            if (!isRemoved) listener(error, null);
+        });
+        return {
+            remove: () => {
+                isRemoved = true;
+                if (subscription) subscription.remove();
+                else this.queue.cancel(transactionId);
+            },
+        };
+    }
+
+    // The operation holds the device until notifications are on, so operations queued behind it can rely on them
+    startMonitor(deviceId: string, serviceUUID: string, characteristicUUID: string, listener: MonitorListener, options?: TransportOperationOptions): Promise<TransportSubscription> {
+        return this.enqueue({
+            deviceId,
+            kind: 'monitor',
+            characteristicUUID,
+            ...queueOptions(options),
+            execute: transactionId => this.transport.startMonitor(deviceId, serviceUUID, characteristicUUID, listener, { transactionId }),
+        });
+    }
+
+    cancelTransaction(transactionId: string) {
+        if (!this.queue.cancel(transactionId)) this.transport.cancelTransaction(transactionId);
+    }
+
+    // Stops publishing and watching for dropped links. The app's transport lives as long as the app, tests dispose theirs.
+    dispose() {
+        if (this.publishTimer) clearTimeout(this.publishTimer);
+        this.publishTimer = null;
+        this.operationListeners.clear();
+        this.disconnectSubscriptions.forEach(subscription => subscription.remove());
+        this.disconnectSubscriptions.clear();
+    }
+
+    // Running operations are stopped through the wrapped transport's transaction unless the request aborts differently
+    private enqueue<T>(request: GattOperationRequest<T>) {
+        this.watchDisconnects(request.deviceId);
+        return this.queue.enqueue({
+            abort: transactionId => this.transport.cancelTransaction(transactionId),
+            ...request,
+        });
+    }
+
+    // One listener per device for the transport's lifetime, from its first operation on. It only drains the queue.
+    private watchDisconnects(deviceId: string) {
+        if (this.disconnectSubscriptions.has(deviceId)) return;
+        this.disconnectSubscriptions.set(deviceId, this.transport.onDisconnected(deviceId, () => {
+            // A connect waiting behind the dropped link is for the next one
+            this.queue.rejectAll(deviceId, new GattOperationError('DISCONNECTED', `${deviceId} disconnected`), operation => operation.kind !== 'connect');
+        }));
+    }
+
+    private schedulePublish() {
+        if (this.publishTimer) return;
+        this.publishTimer = setTimeout(() => {
+            this.publishTimer = null;
+            const operations = this.queue.operations();
+            this.operationListeners.forEach(listener => listener(operations));
+        }, PUBLISH_INTERVAL_MS);
+    }
+}
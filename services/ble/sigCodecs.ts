@@ -0,0 +1,113 @@
+import { Buffer } from 'buffer';
+import { Codec, CodecError } from './codecs';
+
+export type MeasurementUnit = 'kg' | 'lb';
+
+export const GRAMS_PER_POUND = 453.59237;
+
+// Weight Measurement (0x2A9D) as defined by the Weight Scale Service 1.0
+export interface IWeightMeasurement {
+    // Null when the scale reports "measurement unsuccessful"
+    weight: number | null;
+    unit: MeasurementUnit;
+    // Epoch ms in the phone's time zone, when the scale sends a time stamp
+    timestamp: number | null;
+    userId: number | null;
+    bmi: number | null;
+    // Metres for kg readings, inches for lb readings
+    height: number | null;
+}
+
+const FLAG_IMPERIAL = 0x01;
+const FLAG_TIMESTAMP = 0x02;
+const FLAG_USER_ID = 0x04;
+const FLAG_BMI_HEIGHT = 0x08;
+
+const MEASUREMENT_UNSUCCESSFUL = 0xFFFF;
+const UNKNOWN_USER = 0xFF;
+const TIMESTAMP_SIZE = 7;
+
+// Date Time (0x2A08): uint16 year, then month, day, hours, minutes and seconds. Year or month 0 mean unknown.
+const decodeDateTime = (bytes: Buffer, offset: number) => {
+    const year = bytes.readUInt16LE(offset);
+    const month = bytes.readUInt8(offset + 2);
+    if (year === 0 || month === 0) return null;
+    return new Date(year, month - 1, bytes.readUInt8(offset + 3), bytes.readUInt8(offset + 4),
+        bytes.readUInt8(offset + 5), bytes.readUInt8(offset + 6)).getTime();
+};
+
+const encodeDateTime = (timestamp: number) => {
+    const date = new Date(timestamp);
+    const bytes = Buffer.alloc(TIMESTAMP_SIZE);
+    bytes.writeUInt16LE(date.getFullYear(), 0);
+    [date.getMonth() + 1, date.getDate(), date.getHours(), date.getMinutes(), date.getSeconds()]
+        .forEach((value, index) => bytes.writeUInt8(value, 2 + index));
+    return bytes;
+};
+
+// Flags select the unit and which optional fields follow the weight
+export const weightMeasurement = (): Codec<IWeightMeasurement> => ({
+    name: 'weightMeasurement',
+    size: null,
+    decode: (bytes, offset) => {
+        if (bytes.length < offset + 3) {
+            throw new CodecError(`Weight Measurement needs at least 3 bytes, payload has ${bytes.length - offset}`);
+        }
+        const flags = bytes.readUInt8(offset);
+        const isImperial = (flags & FLAG_IMPERIAL) !== 0;
+        const rawWeight = bytes.readUInt16LE(offset + 1);
+        let position = offset + 3;
+        const measurement: IWeightMeasurement = {
+            weight: rawWeight === MEASUREMENT_UNSUCCESSFUL ? null : rawWeight * (isImperial ? 0.01 : 0.005),
+            unit: isImperial ? 'lb' : 'kg',
+            timestamp: null,
+            userId: null,
+            bmi: null,
+            height: null,
+        };
+        if (flags & FLAG_TIMESTAMP) {
+            measurement.timestamp = decodeDateTime(bytes, position);
+            position += TIMESTAMP_SIZE;
+        }
+        if (flags & FLAG_USER_ID) {
+            const userId = bytes.readUInt8(position);
+            measurement.userId = userId === UNKNOWN_USER ? null : userId;
+            position += 1;
+        }
+        if (flags & FLAG_BMI_HEIGHT) {
+            measurement.bmi = bytes.readUInt16LE(position) * 0.1;
+            measurement.height = bytes.readUInt16LE(position + 2) * (isImperial ? 0.1 : 0.001);
+        }
+        return measurement;
+    },
+    encode: measurement => {
+        const isImperial = measurement.unit === 'lb';
+        let flags = isImperial ? FLAG_IMPERIAL : 0;
+        const weight = Buffer.alloc(2);
+        weight.writeUInt16LE(measurement.weight === null
+            ? MEASUREMENT_UNSUCCESSFUL
+            : Math.round(measurement.weight / (isImperial ? 0.01 : 0.005)));
+        const parts = [weight];
+        if (measurement.timestamp !== null) {
+            flags |= FLAG_TIMESTAMP;
+            parts.push(encodeDateTime(measurement.timestamp));
+        }
+        if (measurement.userId !== null) {
+            flags |= FLAG_USER_ID;
+            parts.push(Buffer.from([measurement.userId]));
+        }
+        if (measurement.bmi !== null && measurement.height !== null) {
+            flags |= FLAG_BMI_HEIGHT;
+            const bmiHeight = Buffer.alloc(4);
+            bmiHeight.writeUInt16LE(Math.round(measurement.bmi / 0.1), 0);
+            bmiHeight.writeUInt16LE(Math.round(measurement.height / (isImperial ? 0.1 : 0.001)), 2);
+            parts.push(bmiHeight);
+        }
+        return Buffer.concat([Buffer.from([flags]), ...parts]);
+    },
+});
+
+export const weightMeasurementToGrams = (measurement: IWeightMeasurement) => {
+    if (measurement.weight === null) return null;
+    return measurement.unit === 'lb' ? measurement.weight * GRAMS_PER_POUND : measurement.weight * 1000;
+};
@@ -0,0 +1,179 @@
+import { Buffer } from 'buffer';
+import bleServices from '../../../constants/bleServices';
+import deviceCommands from '../../../constants/deviceCommands';
+import { decodeBase64, encodeBase64 } from '../codecs';
+import { COMMAND_STATUS_OK, ICommandFrame } from '../commands';
+import { MemoryBleTransport } from '../memoryBleTransport';
+import { TransportSubscription } from '../bleTransport';
+import { isSameUUID } from '../../../utils/uuid';
+import { describeFirmwareImage } from '../../dfu/firmwareImage';
+import { VirtualPeripheral } from './VirtualPeripheral';
+import { SimulatedDfuTarget } from './SimulatedDfuTarget';
+
+export interface SampleScaleOptions {
+    id?: string;
+    name?: string;
+    rssi?: number;
+    // Interval between load cell notifications
+    notifyIntervalMs?: number;
+    // Weight in kg for the n-th notification. Defaults to a slow sine wave around 1 kg with some noise.
+    weight?: (tick: number) => number;
+    // Reported in Device Information until a firmware update replaces it
+    firmwareVersion?: string;
+}
+
+const defaultWeight = (tick: number) => 1 + 0.5 * Math.sin(tick / 20) + (Math.random() - 0.5) * 0.01;
+
+// Status bytes, see `commandStatusCodes`
+const STATUS_UNKNOWN_COMMAND = 1;
+const STATUS_INVALID_ARGUMENT = 2;
+const MAX_SAMPLE_RATE_HZ = 100;
+const REBOOT_DELAY_MS = 200;
+
+export const encodeFloat32LE = (value: number) => {
+    const buffer = Buffer.alloc(4);
+    buffer.writeFloatLE(value);
+    return buffer.toString('base64');
+};
+
+// Virtual copy of the ESP32 firmware from the guide: advertises as BLE_SERVER, notifies the load cell reading in kg, answers commands and takes firmware updates
+export class SampleScale extends VirtualPeripheral {
+    private notifyIntervalMs: number;
+    private readonly weight: (tick: number) => number;
+    private tareOffset = 0;
+    private lastWeight = 0;
+    private stopLoadCells: (() => void) | null = null;
+    private commandSubscription: TransportSubscription | null = null;
+    private readonly dfuTarget: SimulatedDfuTarget;
+
+    constructor(options: SampleScaleOptions = {}) {
+        const weight = options.weight ?? defaultWeight;
+        const { sample, dfu, deviceInformation } = bleServices;
+        super({
+            id: options.id ?? 'SIM:00:00:00:00:01',
+            name: options.name ?? 'BLE_SERVER (simulated)',
+            rssi: options.rssi ?? -55,
+            rssiJitter: 4,
+            advertiseIntervalMs: 1000,
+            services: [{
+                uuid: sample.uuid,
+                characteristics: [{
+                    uuid: sample.characteristics.loadCells.uuid,
+                    read: true,
+                    notify: true,
+                    initialValue: encodeFloat32LE(weight(0)),
+                    // Client Characteristic Configuration, as the BLE2902 added by the firmware
+                    descriptorUUIDs: ['00002902-0000-1000-8000-00805f9b34fb'],
+                }, {
+                    uuid: sample.characteristics.command.uuid,
+                    write: true,
+                    notify: true,
+                    descriptorUUIDs: ['00002902-0000-1000-8000-00805f9b34fb'],
+                }],
+            }, {
+                uuid: dfu.uuid,
+                characteristics: [{
+                    uuid: dfu.characteristics.control.uuid,
+                    write: true,
+                    notify: true,
+                    descriptorUUIDs: ['00002902-0000-1000-8000-00805f9b34fb'],
+                }, {
+                    uuid: dfu.characteristics.data.uuid,
+                    writeWithoutResponse: true,
+                }],
+            }, {
+                uuid: deviceInformation.uuid,
+                characteristics: [{
+                    uuid: deviceInformation.characteristics.manufacturerName.uuid,
+                    read: true,
+                    initialValue: encodeBase64(deviceInformation.characteristics.manufacturerName.codec, 'Espressif'),
+                }, {
+                    uuid: deviceInformation.characteristics.firmwareRevision.uuid,
+                    read: true,
+                    initialValue: encodeBase64(deviceInformation.characteristics.firmwareRevision.codec, options.firmwareVersion ?? '1.0.0'),
+                }],
+            }],
+            advertisedServiceUUIDs: [sample.uuid],
+        });
+        this.notifyIntervalMs = options.notifyIntervalMs ?? 200;
+        this.weight = weight;
+        this.dfuTarget = new SimulatedDfuTarget(
+            frame => this.later(0, () => this.setValue(dfu.uuid, dfu.characteristics.control.uuid, encodeBase64(dfu.characteristics.control.codec, frame))),
+            image => this.activateFirmware(image),
+        );
+    }
+
+    attach(transport: MemoryBleTransport) {
+        super.attach(transport);
+        this.startLoadCells();
+        const { sample, dfu } = bleServices;
+        this.commandSubscription = this.onWrite((serviceUUID, characteristicUUID, value) => {
+            if (isSameUUID(serviceUUID, sample.uuid) && isSameUUID(characteristicUUID, sample.characteristics.command.uuid)) {
+                this.handleCommand(decodeBase64(sample.characteristics.command.codec, value));
+            }
+            else if (isSameUUID(serviceUUID, dfu.uuid) && isSameUUID(characteristicUUID, dfu.characteristics.control.uuid)) {
+                this.dfuTarget.handleControl(decodeBase64(dfu.characteristics.control.codec, value));
+            }
+            else if (isSameUUID(serviceUUID, dfu.uuid) && isSameUUID(characteristicUUID, dfu.characteristics.data.uuid)) {
+                this.dfuTarget.handleData(Buffer.from(value, 'base64'));
+            }
+        });
+    }
+
+    detach() {
+        this.commandSubscription?.remove();
+        this.commandSubscription = null;
+        super.detach();
+    }
+
+    private startLoadCells() {
+        this.stopLoadCells?.();
+        this.stopLoadCells = this.startNotifications(bleServices.sample.uuid, bleServices.sample.characteristics.loadCells.uuid,
+            this.notifyIntervalMs, tick => {
+                this.lastWeight = this.weight(tick);
+                return encodeFloat32LE(this.lastWeight - this.tareOffset);
+            });
+    }
+
+    // Boots into the new image: reports its version and reboots like esp_ota_set_boot_partition followed by esp_restart
+    private activateFirmware(image: Buffer) {
+        const { deviceInformation } = bleServices;
+        const { firmwareRevision } = deviceInformation.characteristics;
+        const version = describeFirmwareImage(image).version;
+        this.later(REBOOT_DELAY_MS, () => {
+            if (version) this.setValue(deviceInformation.uuid, firmwareRevision.uuid, encodeBase64(firmwareRevision.codec, version));
+            this.injectDisconnect(new Error('Peripheral rebooted'));
+        });
+    }
+
+    private handleCommand(request: ICommandFrame) {
+        if (request.isResponse) return;
+        let status = COMMAND_STATUS_OK;
+        switch (request.opcode) {
+            case deviceCommands.tare.opcode:
+                this.tareOffset = this.lastWeight;
+                break;
+            case deviceCommands.setSampleRate.opcode: {
+                const rate = request.payload.length === 2 ? Buffer.from(request.payload).readUInt16LE(0) : 0;
+                if (rate < 1 || rate > MAX_SAMPLE_RATE_HZ) {
+                    status = STATUS_INVALID_ARGUMENT;
+                    break;
+                }
+                this.notifyIntervalMs = Math.round(1000 / rate);
+                this.startLoadCells();
+                break;
+            }
+            case deviceCommands.reboot.opcode:
+                this.later(REBOOT_DELAY_MS, () => this.injectDisconnect(new Error('Peripheral rebooted')));
+                break;
+            default:
+                status = STATUS_UNKNOWN_COMMAND;
+        }
+        // Answer after the write has completed, like the firmware's notify from its loop
+        this.later(0, () => {
+            const { command } = bleServices.sample.characteristics;
+            this.setValue(bleServices.sample.uuid, command.uuid,
+                encodeBase64(command.codec, { ...request, isResponse: true, status, payload: [] }));
+        });
+    }
+}
@@ -0,0 +1,78 @@
+import { Buffer } from 'buffer';
+import bleServices from '../../../constants/bleServices';
+import { encodeBase64 } from '../codecs';
+import { IWeightMeasurement, MeasurementUnit, weightMeasurement } from '../sigCodecs';
+import { MemoryBleTransport } from '../memoryBleTransport';
+import { VirtualPeripheral } from './VirtualPeripheral';
+
+export interface SigWeightScaleOptions {
+    id?: string;
+    name?: string;
+    unit?: MeasurementUnit;
+    measurementIntervalMs?: number;
+    // Weight in `unit` for the n-th measurement. Defaults to someone stepping on and off the scale.
+    weight?: (tick: number) => number | null;
+    batteryLevel?: number;
+}
+
+const defaultWeight = (tick: number) => tick % 30 < 20 ? 72.4 + (Math.random() - 0.5) * 0.1 : null;
+
+const { weightScale, battery, deviceInformation } = bleServices;
+const measurementCodec = weightMeasurement();
+const CCCD_UUID = '00002902-0000-1000-8000-00805f9b34fb';
+
+const text = (value: string) => Buffer.from(value, 'utf8').toString('base64');
+
+// Off-the-shelf style scale: Weight Scale, Battery and Device Information services from the Bluetooth SIG
+export class SigWeightScale extends VirtualPeripheral {
+    private readonly options: SigWeightScaleOptions;
+
+    constructor(options: SigWeightScaleOptions = {}) {
+        super({
+            id: options.id ?? 'SIM:00:00:00:00:02',
+            name: options.name ?? 'WS (simulated)',
+            rssi: -70,
+            rssiJitter: 6,
+            advertiseIntervalMs: 1000,
+            advertisedServiceUUIDs: [weightScale.uuid],
+            services: [
+                {
+                    uuid: weightScale.uuid,
+                    characteristics: [
+                        { uuid: weightScale.characteristics.feature.uuid, read: true, initialValue: 'AAAAAA==' },
+                        { uuid: weightScale.characteristics.measurement.uuid, indicate: true, descriptorUUIDs: [CCCD_UUID] },
+                    ],
+                },
+                {
+                    uuid: battery.uuid,
+                    characteristics: [{
+                        uuid: battery.characteristics.level.uuid, read: true, notify: true,
+                        initialValue: Buffer.from([options.batteryLevel ?? 87]).toString('base64'),
+                        descriptorUUIDs: [CCCD_UUID],
+                    }],
+                },
+                {
+                    uuid: deviceInformation.uuid,
+                    characteristics: [
+                        { uuid: deviceInformation.characteristics.manufacturerName.uuid, read: true, initialValue: text('Simulated Scales Inc.') },
+                        { uuid: deviceInformation.characteristics.modelNumber.uuid, read: true, initialValue: text('WS-1') },
+                        { uuid: deviceInformation.characteristics.serialNumber.uuid, read: true, initialValue: text('0001') },
+                        { uuid: deviceInformation.characteristics.firmwareRevision.uuid, read: true, initialValue: text('1.0.0') },
+                    ],
+                },
+            ],
+        });
+        this.options = options;
+    }
+
+    attach(transport: MemoryBleTransport) {
+        super.attach(transport);
+        const weight = this.options.weight ?? defaultWeight;
+        this.startNotifications(weightScale.uuid, weightScale.characteristics.measurement.uuid, this.options.measurementIntervalMs ?? 500, tick => {
+            const measurement: IWeightMeasurement = {
+                weight: weight(tick), unit: this.options.unit ?? 'kg', timestamp: Date.now(), userId: null, bmi: null, height: null,
+            };
+            return encodeBase64(measurementCodec, measurement);
+        });
+    }
+}
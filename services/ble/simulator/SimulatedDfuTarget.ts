@@ -0,0 +1,107 @@
+import { Buffer } from 'buffer';
+import { crc32 } from '../../../utils/crc32';
+import { DFU_STATUS_OK, DfuControlFrame, DfuRequestOpcode } from '../../dfu/dfuProtocol';
+
+// Status bytes, see `dfuStatusCodes`
+const STATUS_INVALID_IMAGE = 1;
+const STATUS_NO_SPACE = 2;
+const STATUS_CHECKSUM = 3;
+
+// Size of the app partitions in the default two OTA slot partition table
+const DEFAULT_PARTITION_SIZE = 0x1E0000;
+
+interface ExpectedImage {
+    size: number;
+    crc32: number;
+    receiptInterval: number;
+}
+
+/**
+ * The firmware side of the DFU protocol: receives the image into a buffer standing in for the inactive OTA
+ * partition, sends receipts and keeps a partial image across disconnects so transfers can resume.
+ */
+export class SimulatedDfuTarget {
+    private readonly send: (frame: DfuControlFrame) => void;
+    private readonly onActivate: (image: Buffer) => void;
+    private readonly partitionSize: number;
+    private expected: ExpectedImage | null = null;
+    private partition = Buffer.alloc(0);
+    private offset = 0;
+    private crc = 0;
+    private chunksSinceReceipt = 0;
+    private isValidated = false;
+
+    constructor(send: (frame: DfuControlFrame) => void, onActivate: (image: Buffer) => void, partitionSize = DEFAULT_PARTITION_SIZE) {
+        this.send = send;
+        this.onActivate = onActivate;
+        this.partitionSize = partitionSize;
+    }
+
+    handleControl(frame: DfuControlFrame) {
+        switch (frame.type) {
+            case 'start': {
+                if (frame.imageSize > this.partitionSize) {
+                    this.respond('start', STATUS_NO_SPACE);
+                    return;
+                }
+                const expected = this.expected;
+                if (!expected || expected.size !== frame.imageSize || expected.crc32 !== frame.imageCrc32) {
+                    this.reset();
+                    this.partition = Buffer.alloc(frame.imageSize);
+                }
+                this.expected = { size: frame.imageSize, crc32: frame.imageCrc32, receiptInterval: Math.max(1, frame.receiptInterval) };
+                this.chunksSinceReceipt = 0;
+                const resume = Buffer.alloc(8);
+                resume.writeUInt32LE(this.offset, 0);
+                resume.writeUInt32LE(this.crc, 4);
+                this.respond('start', DFU_STATUS_OK, Array.from(resume));
+                return;
+            }
+            case 'validate':
+                this.isValidated = !!this.expected && this.offset === this.expected.size && crc32(this.partition) === this.expected.crc32;
+                this.respond('validate', this.isValidated ? DFU_STATUS_OK : STATUS_CHECKSUM);
+                return;
+            case 'activate': {
+                if (!this.isValidated) {
+                    this.respond('activate', STATUS_INVALID_IMAGE);
+                    return;
+                }
+                const image = this.partition;
+                this.reset();
+                this.respond('activate', DFU_STATUS_OK);
+                this.onActivate(image);
+                return;
+            }
+            case 'abort':
+                this.reset();
+                this.respond('abort', DFU_STATUS_OK);
+                return;
+        }
+    }
+
+    handleData(chunk: Buffer) {
+        if (!this.expected || this.isValidated) return;
+        const length = Math.min(chunk.length, this.expected.size - this.offset);
+        chunk.copy(this.partition, this.offset, 0, length);
+        this.crc = crc32(chunk, 0, length, this.crc);
+        this.offset += length;
+        this.chunksSinceReceipt += 1;
+        if (this.chunksSinceReceipt >= this.expected.receiptInterval || this.offset >= this.expected.size) {
+            this.chunksSinceReceipt = 0;
+            this.send({ type: 'receipt', offset: this.offset, crc32: this.crc });
+        }
+    }
+
+    private reset() {
+        this.expected = null;
+        this.partition = Buffer.alloc(0);
+        this.offset = 0;
+        this.crc = 0;
+        this.chunksSinceReceipt = 0;
+        this.isValidated = false;
+    }
+
+    private respond(request: DfuRequestOpcode, status: number, payload: Array<number> = []) {
+        this.send({ type: 'response', request, status, payload });
+    }
+}
@@ -0,0 +1,182 @@
+import { IBLEDevice, IGattService } from '../../../store/ble/bleSlice.contracts';
+import { Base64, TransportSubscription } from '../bleTransport';
+import { MemoryBleTransport, MemoryTransportOperation } from '../memoryBleTransport';
+
+export interface VirtualCharacteristicConfig {
+    uuid: string;
+    read?: boolean;
+    write?: boolean;
+    writeWithoutResponse?: boolean;
+    notify?: boolean;
+    indicate?: boolean;
+    initialValue?: Base64;
+    descriptorUUIDs?: Array<string>;
+}
+
+export interface VirtualServiceConfig {
+    uuid: string;
+    characteristics: Array<VirtualCharacteristicConfig>;
+}
+
+export interface VirtualPeripheralConfig {
+    id: string;
+    name: string;
+    rssi?: number;
+    // Random +/- dBm applied to every advertisement
+    rssiJitter?: number;
+    // Service UUIDs in the advertisement. Defaults to every GATT service.
+    advertisedServiceUUIDs?: Array<string>;
+    manufacturerData?: Base64 | null;
+    txPowerLevel?: number | null;
+    isConnectable?: boolean;
+    advertiseIntervalMs?: number;
+    services: Array<VirtualServiceConfig>;
+}
+
+// Produces the value for the n-th scheduled notification
+export type NotificationProducer = (tick: number) => Base64;
+
+/**
+ * A scriptable peripheral hosted by a `MemoryBleTransport`. It advertises on an interval, exposes GATT
+ * services with initial values, pushes notifications on a schedule and can drop its connection or fail
+ * operations on demand.
+ */
+export class VirtualPeripheral {
+    readonly config: VirtualPeripheralConfig;
+    private transport: MemoryBleTransport | null = null;
+    private timers: Array<ReturnType<typeof setInterval>> = [];
+    private timeouts = new Set<ReturnType<typeof setTimeout>>();
+    private rssi: number;
+
+    constructor(config: VirtualPeripheralConfig) {
+        this.config = config;
+        this.rssi = config.rssi ?? -60;
+    }
+
+    get id() {
+        return this.config.id;
+    }
+
+    // Make the peripheral visible on the transport and start advertising
+    attach(transport: MemoryBleTransport) {
+        this.detach();
+        this.transport = transport;
+        transport.addPeripheral(this.toAdvertisement(), this.toGattServices());
+        this.config.services.forEach(service => service.characteristics.forEach(characteristic => {
+            if (characteristic.initialValue !== undefined) {
+                transport.setCharacteristicValue(this.id, service.uuid, characteristic.uuid, characteristic.initialValue);
+            }
+        }));
+        if (this.config.advertiseIntervalMs) {
+            this.every(this.config.advertiseIntervalMs, () => transport.advertise(this.id, { rssi: this.jitteredRssi() }));
+        }
+    }
+
+    // Power the peripheral off: stop every schedule and pending reaction and remove it from the transport
+    detach() {
+        this.timers.forEach(timer => clearInterval(timer));
+        this.timers = [];
+        this.timeouts.forEach(timeout => clearTimeout(timeout));
+        this.timeouts.clear();
+        this.transport?.removePeripheral(this.id);
+        this.transport = null;
+    }
+
+    setRssi(rssi: number) {
+        this.rssi = rssi;
+    }
+
+    setValue(serviceUUID: string, characteristicUUID: string, value: Base64) {
+        this.requireTransport().setCharacteristicValue(this.id, serviceUUID, characteristicUUID, value);
+    }
+
+    // Push a new value from `producer` every `intervalMs` while attached. Returns a function stopping the schedule.
+    startNotifications(serviceUUID: string, characteristicUUID: string, intervalMs: number, producer: NotificationProducer) {
+        let tick = 0;
+        const timer = this.every(intervalMs, () => this.setValue(serviceUUID, characteristicUUID, producer(tick++)));
+        return () => {
+            clearInterval(timer);
+            this.timers = this.timers.filter(item => item !== timer);
+        };
+    }
+
+    // React to values the app writes to the peripheral
+    onWrite(listener: (serviceUUID: string, characteristicUUID: string, value: Base64) => void): TransportSubscription {
+        return this.requireTransport().onWrite((deviceId, serviceUUID, characteristicUUID, value) => {
+            if (deviceId === this.id) listener(serviceUUID, characteristicUUID, value);
+        });
+    }
+
+    injectDisconnect(error: Error | null = new Error('Connection lost')) {
+        this.requireTransport().dropConnection(this.id, error);
+    }
+
+    injectError(operation: MemoryTransportOperation, error: Error, persistent = false) {
+        this.requireTransport().injectError(this.id, operation, error, persistent);
+    }
+
+    clearErrors() {
+        this.requireTransport().clearInjectedErrors(this.id);
+    }
+
+    private every(intervalMs: number, callback: () => void) {
+        const timer = setInterval(callback, intervalMs);
+        this.timers.push(timer);
+        return timer;
+    }
+
+    // Runs `callback` once after `delayMs` unless the peripheral is detached first
+    protected later(delayMs: number, callback: () => void) {
+        const timeout = setTimeout(() => {
+            this.timeouts.delete(timeout);
+            callback();
+        }, delayMs);
+        this.timeouts.add(timeout);
+    }
+
+    private jitteredRssi() {
+        const jitter = this.config.rssiJitter ?? 0;
+        return Math.round(this.rssi + (Math.random() * 2 - 1) * jitter);
+    }
+
+    private requireTransport() {
+        if (!this.transport) {
+            throw new Error(`Virtual peripheral ${this.id} is not attached to a transport`);
+        }
+        return this.transport;
+    }
+
+    private toAdvertisement(): IBLEDevice {
+        const { id, name, services } = this.config;
+        return {
+            id,
+            name,
+            localName: name,
+            rssi: this.jitteredRssi(),
+            mtu: 23,
+            isConnectable: this.config.isConnectable ?? true,
+            txPowerLevel: this.config.txPowerLevel ?? null,
+            manufacturerData: this.config.manufacturerData ?? null,
+            serviceData: null,
+            serviceUUIDs: this.config.advertisedServiceUUIDs ?? services.map(service => service.uuid),
+            overflowServiceUUIDs: [],
+            solicitedServiceUUIDs: [],
+        };
+    }
+
+    private toGattServices(): Array<IGattService> {
+        return this.config.services.map(service => ({
+            uuid: service.uuid,
+            characteristics: service.characteristics.map(characteristic => ({
+                uuid: characteristic.uuid,
+                serviceUUID: service.uuid,
+                isReadable: !!characteristic.read,
+                isWritableWithResponse: !!characteristic.write,
+                isWritableWithoutResponse: !!characteristic.writeWithoutResponse,
+                isNotifiable: !!characteristic.notify,
+                isIndicatable: !!characteristic.indicate,
+                descriptors: (characteristic.descriptorUUIDs ?? []).map(uuid => ({ uuid })),
+            })),
+        }));
+    }
+}
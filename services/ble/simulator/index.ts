@@ -0,0 +1,18 @@
+import { MemoryBleTransport, MemoryBleTransportOptions } from '../memoryBleTransport';
+import { SampleScale } from './SampleScale';
+import { SigWeightScale } from './SigWeightScale';
+import { VirtualPeripheral } from './VirtualPeripheral';
+
+export * from './VirtualPeripheral';
+export * from './SampleScale';
+export * from './SigWeightScale';
+
+// Memory transport with the given peripherals attached. Defaults to a sample scale and a Bluetooth SIG weight scale.
+export const createSimulatedTransport = (
+    peripherals: Array<VirtualPeripheral> = [new SampleScale(), new SigWeightScale()],
+    options: MemoryBleTransportOptions = { latencyMs: 50 },
+) => {
+    const transport = new MemoryBleTransport(options);
+    peripherals.forEach(peripheral => peripheral.attach(transport));
+    return transport;
+};
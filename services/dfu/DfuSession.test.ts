@@ -0,0 +1,83 @@
+import { Buffer } from 'buffer';
+import bleServices from '../../constants/bleServices';
+import { toBLEDeviceVM } from '../../store/ble/bleSlice.contracts';
+import { decodeBase64, encodeBase64 } from '../ble/codecs';
+import { MemoryBleTransport } from '../ble/memoryBleTransport';
+import { SimulatedDfuTarget } from '../ble/simulator/SimulatedDfuTarget';
+import { DfuSession } from './DfuSession';
+import { DfuControlFrame } from './dfuProtocol';
+
+const DEVICE_ID = 'AA:BB:CC:DD:EE:01';
+const CHUNK_SIZE = 20;
+const { dfu } = bleServices;
+
+const image = Buffer.from(Array.from({ length: 1000 }, (_, index) => (index * 7) % 256));
+
+// A device running `SimulatedDfuTarget`. `tamper` may change or drop what the target notifies.
+const setup = async (tamper: (frame: DfuControlFrame, radio: MemoryBleTransport) => DfuControlFrame | null = frame => frame) => {
+    const radio = new MemoryBleTransport();
+    radio.addPeripheral(toBLEDeviceVM({ id: DEVICE_ID, name: 'BLE_SERVER', mtu: 23 }));
+    await radio.connect(DEVICE_ID);
+    const activated: Array<Buffer> = [];
+    const target = new SimulatedDfuTarget(frame => {
+        const sent = tamper(frame, radio);
+        if (sent) setTimeout(() => radio.setCharacteristicValue(DEVICE_ID, dfu.uuid, dfu.characteristics.control.uuid, encodeBase64(dfu.characteristics.control.codec, sent)), 0);
+    }, received => activated.push(received));
+    let dataWrites = 0;
+    radio.onWrite((deviceId, serviceUUID, characteristicUUID, value) => {
+        if (characteristicUUID === dfu.characteristics.control.uuid) {
+            target.handleControl(decodeBase64(dfu.characteristics.control.codec, value));
+        } else if (characteristicUUID === dfu.characteristics.data.uuid) {
+            dataWrites += 1;
+            target.handleData(Buffer.from(value, 'base64'));
+        }
+    });
+    const session = (onProgress?: (offset: number) => void) =>
+        new DfuSession(radio, DEVICE_ID, image, { chunkSize: CHUNK_SIZE, receiptInterval: 4, onProgress });
+    return { radio, session, activated, dataWrites: () => dataWrites };
+};
+
+it('transfers, validates and activates the image', async () => {
+    const { session, activated } = await setup();
+
+    await session().run();
+
+    expect(activated).toHaveLength(1);
+    expect(activated[0].equals(image)).toBe(true);
+});
+
+it('fails with CHECKSUM when a receipt does not match the image', async () => {
+    const { session, activated } = await setup(frame =>
+        frame.type === 'receipt' && frame.offset > 200 ? { ...frame, crc32: frame.crc32 ^ 1 } : frame);
+
+    await expect(session().run()).rejects.toMatchObject({ code: 'CHECKSUM' });
+    expect(activated).toHaveLength(0);
+});
+
+it('resumes where the device got to after the link dropped', async () => {
+    let hasDropped = false;
+    // The link goes down instead of the receipt for the third window
+    const { radio, session, activated, dataWrites } = await setup((frame, link) => {
+        if (hasDropped || frame.type !== 'receipt' || frame.offset !== 240) return frame;
+        hasDropped = true;
+        link.dropConnection(DEVICE_ID, new Error('Out of range'));
+        return null;
+    });
+    await expect(session().run()).rejects.toMatchObject({ code: 'DISCONNECTED' });
+    expect(dataWrites()).toBe(12);
+
+    await radio.connect(DEVICE_ID);
+    const progress: Array<number> = [];
+    await session(offset => progress.push(offset)).run();
+
+    expect(progress[0]).toBeGreaterThan(0);
+    expect(dataWrites()).toBeLessThan(12 + image.length / CHUNK_SIZE);
+    expect(activated[0].equals(image)).toBe(true);
+});
+
+it('gives up when the device stops confirming new data', async () => {
+    // Every receipt repeats the resume point, as if the chunks never arrived
+    const { session } = await setup(frame => frame.type === 'receipt' ? { type: 'receipt', offset: 0, crc32: 0 } : frame);
+
+    await expect(session().run()).rejects.toMatchObject({ code: 'FAILED', message: 'Device stopped taking data at offset 0' });
+});
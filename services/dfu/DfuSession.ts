@@ -0,0 +1,242 @@
+import { Buffer } from 'buffer';
+import bleServices from '../../constants/bleServices';
+import { crc32 } from '../../utils/crc32';
+import { BleTransport, TransportOperationOptions, TransportSubscription } from '../ble/bleTransport';
+import { decodeBase64, encodeBase64 } from '../ble/codecs';
+import { DFU_STATUS_OK, DfuControlFrame, DfuError, DfuRequestOpcode, dfuStatusCodes, resumePoint } from './dfuProtocol';
+import { errorMessage } from '../../utils/errors';
+import { EventJournal } from '../journal/eventJournal';
+
+export type DfuSessionStage = 'preparing' | 'transferring' | 'validating' | 'activating';
+
+export interface DfuSessionOptions {
+    // Payload bytes per data write, the negotiated MTU minus the 3 byte ATT header
+    chunkSize: number;
+    // Chunks written before waiting for the device's receipt
+    receiptInterval?: number;
+    // Sent with start so the firmware can log what it is receiving
+    version?: string | null;
+    onStage?: (stage: DfuSessionStage) => void;
+    // Bytes the device holds, called whenever a receipt confirmed them
+    onProgress?: (offset: number) => void;
+    // Records restarts and dropped notifications
+    journal?: EventJournal;
+}
+
+type ResponseFrame = Extract<DfuControlFrame, { type: 'response' }>;
+type ReceiptFrame = Extract<DfuControlFrame, { type: 'receipt' }>;
+
+interface FrameWaiter {
+    match: (frame: DfuControlFrame) => boolean;
+    resolve: (frame: DfuControlFrame) => void;
+    reject: (error: DfuError) => void;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+const DEFAULT_RECEIPT_INTERVAL = 8;
+const RESPONSE_TIMEOUT_MS = 5000;
+const RECEIPT_TIMEOUT_MS = 5000;
+// The firmware hashes the whole partition before answering
+const VALIDATE_TIMEOUT_MS = 30000;
+// Windows in a row the device confirms nothing new of before the transfer is given up
+const MAX_STALLED_WINDOWS = 3;
+
+const { dfu } = bleServices;
+
+/**
+ * One firmware transfer to one device, talking to the transport directly so thousands of chunk writes do
+ * not go through the store. `run` starts (or resumes, the device reports how much it already has), streams
+ * the image in windows of `receiptInterval` chunks, checks every receipt's checksum against the image, then
+ * validates and activates it. It rejects with a `DfuError`; DISCONNECTED leaves the device's partial image
+ * in place for the next run to resume.
+ */
+export class DfuSession {
+    private readonly transport: BleTransport;
+    private readonly deviceId: string;
+    private readonly image: Buffer;
+    private readonly options: DfuSessionOptions;
+    private subscription: TransportSubscription | null = null;
+    // Notifications nobody was waiting for yet
+    private frames: Array<DfuControlFrame> = [];
+    private waiter: FrameWaiter | null = null;
+    private failure: DfuError | null = null;
+
+    constructor(transport: BleTransport, deviceId: string, image: Buffer, options: DfuSessionOptions) {
+        this.transport = transport;
+        this.deviceId = deviceId;
+        this.image = image;
+        this.options = options;
+    }
+
+    async run() {
+        try {
+            this.options.onStage?.('preparing');
+            // The device answers the start request on the control point, notifications have to be on before it is written
+            this.subscription = await this.transport.startMonitor(this.deviceId, dfu.uuid, dfu.characteristics.control.uuid, (error, value) => {
+                if (error) this.fail(new DfuError('DISCONNECTED', errorMessage(error)));
+                else if (value) this.handleNotification(value);
+            }).catch(error => {
+                throw new DfuError('DISCONNECTED', errorMessage(error));
+            });
+            let { offset, crc } = await this.start();
+            this.options.onProgress?.(offset);
+
+            this.options.onStage?.('transferring');
+            let stalledWindows = 0;
+            while (offset < this.image.length) {
+                const sent = await this.sendWindow(offset);
+                const receipt = await this.expect<ReceiptFrame>(frame => frame.type === 'receipt', RECEIPT_TIMEOUT_MS);
+                if (receipt.offset < offset || receipt.offset > sent) {
+                    throw new DfuError('CHECKSUM', `Device confirmed offset ${receipt.offset}, expected ${offset} to ${sent}`);
+                }
+                // Continue the running checksum instead of hashing the whole prefix again
+                crc = crc32(this.image, offset, receipt.offset, crc);
+                if (crc !== receipt.crc32) {
+                    throw new DfuError('CHECKSUM', `Checksum mismatch at offset ${receipt.offset}`);
+                }
+                stalledWindows = receipt.offset === offset ? stalledWindows + 1 : 0;
+                if (stalledWindows >= MAX_STALLED_WINDOWS) {
+                    throw new DfuError('FAILED', `Device stopped taking data at offset ${offset}`);
+                }
+                // Anything the device dropped after `receipt.offset` is sent again with the next window
+                offset = receipt.offset;
+                this.options.onProgress?.(offset);
+            }
+
+            this.options.onStage?.('validating');
+            await this.request('validate', { type: 'validate' }, VALIDATE_TIMEOUT_MS);
+
+            this.options.onStage?.('activating');
+            try {
+                await this.request('activate', { type: 'activate' }, RESPONSE_TIMEOUT_MS);
+            } catch (error: any) {
+                // The firmware may reboot into the new image before its response goes out
+                if (!(error instanceof DfuError && error.code === 'DISCONNECTED')) throw error;
+            }
+        } catch (error: any) {
+            if (error instanceof DfuError && error.code !== 'DISCONNECTED') {
+                // Best effort, the device discards the partial image
+                await this.writeControl({ type: 'abort' }).catch(() => undefined);
+            }
+            throw error;
+        } finally {
+            this.subscription?.remove();
+            this.subscription = null;
+            this.fail(new DfuError('ABORTED', 'Session ended'));
+        }
+    }
+
+    // Stops the transfer, `run` rejects with ABORTED and tells the device to discard the partial image
+    abort() {
+        this.fail(new DfuError('ABORTED', 'Firmware update aborted'));
+    }
+
+    // Returns where to continue. Restarts from 0 when the device holds bytes that are not from this image.
+    private async start() {
+        const startFrame: DfuControlFrame = {
+            type: 'start',
+            imageSize: this.image.length,
+            imageCrc32: crc32(this.image),
+            receiptInterval: this.options.receiptInterval ?? DEFAULT_RECEIPT_INTERVAL,
+            version: this.options.version ?? '',
+        };
+        const resume = resumePoint((await this.request('start', startFrame, RESPONSE_TIMEOUT_MS)).payload);
+        if (resume.offset <= this.image.length) {
+            const crc = crc32(this.image, 0, resume.offset);
+            if (crc === resume.crc32) return { offset: resume.offset, crc };
+        }
+        this.options.journal?.record({ level: 'warn', category: 'gatt', deviceId: this.deviceId, message: 'Device holds a different partial image, starting over' });
+        await this.request('abort', { type: 'abort' }, RESPONSE_TIMEOUT_MS);
+        const restart = resumePoint((await this.request('start', startFrame, RESPONSE_TIMEOUT_MS)).payload);
+        if (restart.offset !== 0) {
+            throw new DfuError('FAILED', `Device resumed at ${restart.offset} after an abort`);
+        }
+        return { offset: 0, crc: 0 };
+    }
+
+    // Writes up to `receiptInterval` chunks from `offset` and returns the offset after the last one
+    private async sendWindow(offset: number) {
+        const { chunkSize, receiptInterval = DEFAULT_RECEIPT_INTERVAL } = this.options;
+        let sent = offset;
+        for (let chunk = 0; chunk < receiptInterval && sent < this.image.length; chunk++) {
+            this.throwIfFailed();
+            const end = Math.min(sent + chunkSize, this.image.length);
+            // Low priority so reads and commands for the device are not stuck behind the whole image
+            await this.write(dfu.characteristics.data.uuid, this.image.subarray(sent, end).toString('base64'), false, { priority: 'low', isBulk: true });
+            sent = end;
+        }
+        return sent;
+    }
+
+    private async request(request: DfuRequestOpcode, frame: DfuControlFrame, timeoutMs: number) {
+        await this.writeControl(frame);
+        const response = await this.expect<ResponseFrame>(received => received.type === 'response' && received.request === request, timeoutMs);
+        if (response.status !== DFU_STATUS_OK) {
+            throw new DfuError(dfuStatusCodes[response.status] ?? 'FAILED', `Device rejected ${request} with status ${response.status}`);
+        }
+        return response;
+    }
+
+    private writeControl(frame: DfuControlFrame) {
+        return this.write(dfu.characteristics.control.uuid, encodeBase64(dfu.characteristics.control.codec, frame), true);
+    }
+
+    private async write(characteristicUUID: string, value: string, withResponse: boolean, options?: TransportOperationOptions) {
+        try {
+            await this.transport.write(this.deviceId, dfu.uuid, characteristicUUID, value, withResponse, options);
+        } catch (error: any) {
+            this.throwIfFailed();
+            const isConnected = await this.transport.isConnected(this.deviceId).catch(() => false);
+            throw new DfuError(isConnected ? 'FAILED' : 'DISCONNECTED', errorMessage(error));
+        }
+    }
+
+    // Resolves with the first matching notification, including ones that arrived before the call
+    private expect<F extends DfuControlFrame>(match: (frame: DfuControlFrame) => boolean, timeoutMs: number): Promise<F> {
+        this.throwIfFailed();
+        const index = this.frames.findIndex(match);
+        if (index !== -1) {
+            const [frame] = this.frames.splice(0, index + 1).slice(-1);
+            return Promise.resolve(frame as F);
+        }
+        return new Promise<F>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.waiter = null;
+                reject(new DfuError('TIMEOUT', 'The device stopped responding'));
+            }, timeoutMs);
+            this.waiter = { match, resolve: frame => resolve(frame as F), reject, timer };
+        });
+    }
+
+    private handleNotification(value: string) {
+        let frame: DfuControlFrame;
+        try {
+            frame = decodeBase64(dfu.characteristics.control.codec, value);
+        } catch (error: any) {
+            this.options.journal?.record({ level: 'warn', category: 'gatt', deviceId: this.deviceId, message: `Dropping DFU notification: ${error.message}` });
+            return;
+        }
+        const waiter = this.waiter;
+        if (waiter?.match(frame)) {
+            clearTimeout(waiter.timer);
+            this.waiter = null;
+            waiter.resolve(frame);
+        } else {
+            this.frames.push(frame);
+        }
+    }
+
+    // The first failure wins, later ones (e.g. the disconnect following an abort) are ignored
+    private fail(error: DfuError) {
+        this.failure = this.failure ?? error;
+        const waiter = this.waiter;
+        if (!waiter) return;
+        clearTimeout(waiter.timer);
+        this.waiter = null;
+        waiter.reject(this.failure);
+    }
+
+    private throwIfFailed() {
+        if (this.failure) throw this.failure;
+    }
+}
@@ -0,0 +1,29 @@
+import { Buffer } from 'buffer';
+import { DfuControlFrame, dfuControlFrame, resumePoint } from './dfuProtocol';
+
+const codec = dfuControlFrame();
+
+it.each<[string, DfuControlFrame]>([
+    ['start', { type: 'start', imageSize: 0x12345, imageCrc32: 0xDEADBEEF, receiptInterval: 8, version: '1.2.0' }],
+    ['validate', { type: 'validate' }],
+    ['activate', { type: 'activate' }],
+    ['abort', { type: 'abort' }],
+    ['response', { type: 'response', request: 'start', status: 0, payload: [1, 2, 3, 4, 5, 6, 7, 8] }],
+    ['receipt', { type: 'receipt', offset: 4096, crc32: 0xCAFEBABE }],
+])('round trips %s', (name, frame) => {
+    expect(codec.decode(codec.encode(frame), 0)).toEqual(frame);
+});
+
+it('lays out start as documented', () => {
+    const bytes = codec.encode({ type: 'start', imageSize: 0x0100, imageCrc32: 0x04030201, receiptInterval: 0x0010, version: 'v1' });
+
+    expect(Array.from(bytes)).toEqual([0x01, 0x00, 0x01, 0x00, 0x00, 0x01, 0x02, 0x03, 0x04, 0x10, 0x00, 0x76, 0x31]);
+});
+
+it('rejects a truncated receipt', () => {
+    expect(() => codec.decode(Buffer.from([0x10, 0x00, 0x10]), 0)).toThrow('DFU receipt needs 9 bytes, payload has 3');
+});
+
+it('resumes from 0 without a resume point', () => {
+    expect(resumePoint([])).toEqual({ offset: 0, crc32: 0 });
+});
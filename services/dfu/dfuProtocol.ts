@@ -0,0 +1,126 @@
+import { Buffer } from 'buffer';
+import { Codec, CodecError } from '../ble/codecs';
+
+/**
+ * Frames on the DFU control point. The app writes requests, the firmware notifies responses and packet
+ * receipts on the same characteristic. Image bytes go to the data characteristic as plain chunks of at
+ * most MTU - 3 bytes, written without response and appended at the device's current offset.
+ *
+ *   start:    [0x01] [image size u32] [image crc32 u32] [receipt interval u16] [version utf8...]
+ *   validate: [0x02]
+ *   activate: [0x03]
+ *   abort:    [0x04]
+ *   response: [opcode | 0x80] [status] [payload...]
+ *             start answers with the offset to resume from and the crc32 of the bytes before it (u32, u32)
+ *   receipt:  [0x10] [offset u32] [crc32 of the bytes before offset u32]
+ *
+ * The firmware keeps a partially received image as long as a start with the same size and crc follows,
+ * which is how a transfer resumes after the link dropped. It sends a receipt after every `receipt interval`
+ * chunks and once the last byte arrived; the app stops writing until then, which is the flow control.
+ * All integers are little endian.
+ */
+export type DfuRequestOpcode = 'start' | 'validate' | 'activate' | 'abort';
+
+export type DfuControlFrame =
+    | { type: 'start', imageSize: number, imageCrc32: number, receiptInterval: number, version: string }
+    | { type: 'validate' }
+    | { type: 'activate' }
+    | { type: 'abort' }
+    | { type: 'response', request: DfuRequestOpcode, status: number, payload: Array<number> }
+    | { type: 'receipt', offset: number, crc32: number };
+
+const requestOpcodes: { [request in DfuRequestOpcode]: number } = {
+    start: 0x01,
+    validate: 0x02,
+    activate: 0x03,
+    abort: 0x04,
+};
+
+const RESPONSE_FLAG = 0x80;
+const RECEIPT_OPCODE = 0x10;
+const START_HEADER_SIZE = 11;
+
+export const DFU_STATUS_OK = 0;
+
+export type DfuErrorCode = 'UNSUPPORTED' | 'INVALID_IMAGE' | 'NO_SPACE' | 'CHECKSUM' | 'BUSY' | 'FAILED' | 'TIMEOUT' | 'DISCONNECTED' | 'ABORTED';
+
+// Status bytes sent by the firmware
+export const dfuStatusCodes: { [status: number]: DfuErrorCode } = {
+    1: 'INVALID_IMAGE',
+    2: 'NO_SPACE',
+    3: 'CHECKSUM',
+    4: 'BUSY',
+    5: 'FAILED',
+};
+
+// `code` survives the thunk's error serialization, so rejected actions carry it in `error.code`
+export class DfuError extends Error {
+    readonly code: DfuErrorCode;
+
+    constructor(code: DfuErrorCode, message: string) {
+        super(message);
+        this.name = 'DfuError';
+        this.code = code;
+    }
+}
+
+const requestName = (opcode: number) =>
+    (Object.keys(requestOpcodes) as Array<DfuRequestOpcode>).find(request => requestOpcodes[request] === opcode);
+
+export const dfuControlFrame = (): Codec<DfuControlFrame> => ({
+    name: 'dfuControl',
+    size: null,
+    decode: (bytes, offset) => {
+        const opcode = bytes.readUInt8(offset);
+        const length = bytes.length - offset;
+        if (opcode === RECEIPT_OPCODE) {
+            if (length < 9) throw new CodecError(`DFU receipt needs 9 bytes, payload has ${length}`);
+            return { type: 'receipt', offset: bytes.readUInt32LE(offset + 1), crc32: bytes.readUInt32LE(offset + 5) };
+        }
+        const request = requestName(opcode & ~RESPONSE_FLAG);
+        if (!request) throw new CodecError(`Unknown DFU opcode ${opcode}`);
+        if (opcode & RESPONSE_FLAG) {
+            if (length < 2) throw new CodecError(`DFU response needs at least 2 bytes, payload has ${length}`);
+            return { type: 'response', request, status: bytes.readUInt8(offset + 1), payload: Array.from(bytes.subarray(offset + 2)) };
+        }
+        if (request !== 'start') return { type: request };
+        if (length < START_HEADER_SIZE) throw new CodecError(`DFU start needs at least ${START_HEADER_SIZE} bytes, payload has ${length}`);
+        return {
+            type: 'start',
+            imageSize: bytes.readUInt32LE(offset + 1),
+            imageCrc32: bytes.readUInt32LE(offset + 5),
+            receiptInterval: bytes.readUInt16LE(offset + 9),
+            version: bytes.toString('utf8', offset + START_HEADER_SIZE),
+        };
+    },
+    encode: frame => {
+        switch (frame.type) {
+            case 'start': {
+                const header = Buffer.alloc(START_HEADER_SIZE);
+                header.writeUInt8(requestOpcodes.start, 0);
+                header.writeUInt32LE(frame.imageSize, 1);
+                header.writeUInt32LE(frame.imageCrc32, 5);
+                header.writeUInt16LE(frame.receiptInterval, 9);
+                return Buffer.concat([header, Buffer.from(frame.version, 'utf8')]);
+            }
+            case 'response':
+                return Buffer.from([requestOpcodes[frame.request] | RESPONSE_FLAG, frame.status, ...frame.payload]);
+            case 'receipt': {
+                const bytes = Buffer.alloc(9);
+                bytes.writeUInt8(RECEIPT_OPCODE, 0);
+                bytes.writeUInt32LE(frame.offset, 1);
+                bytes.writeUInt32LE(frame.crc32, 5);
+                return bytes;
+            }
+            default:
+                return Buffer.from([requestOpcodes[frame.type]]);
+        }
+    },
+});
+
+// Where the device continues, from the payload of its response to start
+export const resumePoint = (payload: Array<number>) => {
+    if (payload.length < 8) return { offset: 0, crc32: 0 };
+    const bytes = Buffer.from(payload);
+    return { offset: bytes.readUInt32LE(0), crc32: bytes.readUInt32LE(4) };
+};
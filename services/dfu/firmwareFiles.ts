@@ -0,0 +1,19 @@
+import { Buffer } from 'buffer';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+
+export interface IPickedFirmwareFile {
+    uri: string;
+    name: string;
+}
+
+// Lets the user pick a firmware binary. Null when the picker was dismissed.
+export const pickFirmwareFile = async (): Promise<IPickedFirmwareFile | null> => {
+    // .bin files have no reliable MIME type
+    const result = await DocumentPicker.getDocumentAsync({ type: '*/*', copyToCacheDirectory: true });
+    if (result.type !== 'success') return null;
+    return { uri: result.uri, name: result.name };
+};
+
+export const readFirmwareFile = async (uri: string) =>
+    Buffer.from(await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 }), 'base64');
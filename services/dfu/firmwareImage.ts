@@ -0,0 +1,48 @@
+import { Buffer } from 'buffer';
+import { crc32 } from '../../utils/crc32';
+
+/**
+ * ESP32 application image layout (esp_image_format.h, esp_app_format.h): a 24 byte image header starting with
+ * 0xE9, the first segment's 8 byte header, then `esp_app_desc_t` with the version and project name set at build time.
+ */
+const IMAGE_MAGIC = 0xE9;
+const APP_DESC_OFFSET = 32;
+const APP_DESC_MAGIC = 0xABCD5432;
+const VERSION_OFFSET = APP_DESC_OFFSET + 16;
+const PROJECT_NAME_OFFSET = APP_DESC_OFFSET + 48;
+const BUILD_TIME_OFFSET = APP_DESC_OFFSET + 80;
+const BUILD_DATE_OFFSET = APP_DESC_OFFSET + 96;
+const APP_DESC_END = APP_DESC_OFFSET + 112;
+
+export interface IFirmwareImageDescription {
+    size: number;
+    crc32: number;
+    // From the app descriptor, null for images built without one
+    version: string | null;
+    projectName: string | null;
+    buildDate: string | null;
+}
+
+const cString = (bytes: Buffer, offset: number, length: number) => {
+    const value = bytes.toString('utf8', offset, offset + length);
+    const end = value.indexOf('\0');
+    return (end === -1 ? value : value.substring(0, end)).trim() || null;
+};
+
+// Throws when `bytes` is not an ESP32 application image
+export const describeFirmwareImage = (bytes: Buffer): IFirmwareImageDescription => {
+    if (bytes.length < APP_DESC_OFFSET || bytes.readUInt8(0) !== IMAGE_MAGIC) {
+        throw new Error('Not an ESP32 application image');
+    }
+    const hasDescriptor = bytes.length >= APP_DESC_END && bytes.readUInt32LE(APP_DESC_OFFSET) === APP_DESC_MAGIC;
+    const buildDate = hasDescriptor
+        ? [cString(bytes, BUILD_DATE_OFFSET, 16), cString(bytes, BUILD_TIME_OFFSET, 16)].filter(part => part).join(' ') || null
+        : null;
+    return {
+        size: bytes.length,
+        crc32: crc32(bytes),
+        version: hasDescriptor ? cString(bytes, VERSION_OFFSET, 32) : null,
+        projectName: hasDescriptor ? cString(bytes, PROJECT_NAME_OFFSET, 32) : null,
+        buildDate,
+    };
+};
@@ -0,0 +1,46 @@
+import { IWeightSession } from '../../store/sessions/sessionsSlice.contracts';
+import { sessionStats } from '../../store/sessions/sessionStats';
+import { sessionFromJson, sessionToJson } from './sessionExport';
+
+const samples = [{ t: 1709286000200, weight: 1203.4, raw: 1.2034 }, { t: 1709286000400, weight: 1205, raw: null }];
+
+const session: IWeightSession = {
+    id: '1709286000000-AA:BB:CC:DD:EE:FF',
+    deviceId: 'AA:BB:CC:DD:EE:FF',
+    deviceName: 'BLE_SERVER',
+    startedAt: 1709286000000,
+    endedAt: 1709286300000,
+    stats: sessionStats(samples, 1709286000000, 1709286300000),
+    link: {
+        notificationCount: 1500, notificationRate: 5, gapCount: 1, maxIntervalMs: 900,
+        droppedEstimate: 3, rssiMin: -71, rssiMax: -58, rssiMean: -63.5, mtu: null,
+    },
+    samples,
+};
+
+const withSession = (json: string, changes: object) => {
+    const document = JSON.parse(json);
+    return JSON.stringify({ ...document, session: { ...document.session, ...changes } });
+};
+
+it('reads back what it exported, link statistics included', () => {
+    expect(sessionFromJson(sessionToJson(session))).toEqual(session);
+});
+
+it('reads a session without link statistics', () => {
+    const { link, ...withoutLink } = session;
+
+    expect(sessionFromJson(sessionToJson(withoutLink))).toEqual(withoutLink);
+});
+
+it('reads version 1 files, which have no link statistics', () => {
+    const json = JSON.stringify({ ...JSON.parse(withSession(sessionToJson(session), { link: undefined })), version: 1 });
+
+    expect(sessionFromJson(json).link).toBeUndefined();
+});
+
+it('rejects invalid link statistics', () => {
+    const json = withSession(sessionToJson(session), { link: { ...session.link, gapCount: 'many' } });
+
+    expect(() => sessionFromJson(json)).toThrow('The session has invalid link statistics');
+});
@@ -0,0 +1,159 @@
+import type { ILinkStats } from '../../store/diagnostics/diagnosticsSlice.contracts';
+import { IWeightSession } from '../../store/sessions/sessionsSlice.contracts';
+import { sessionStats } from '../../store/sessions/sessionStats';
+
+export type SessionExportFormat = 'csv' | 'json';
+
+export const SESSION_EXPORT_SCHEMA = 'weight-session';
+export const SESSION_EXPORT_VERSION = 2;
+// Version 1 files have no `link`, they are still read
+
+/**
+ * JSON export of one recorded session, version 2. Readers must reject other `schema` values and
+ * versions they do not know. Timestamps are ISO 8601 in UTC.
+ *
+ * {
+ *   "schema": "weight-session",
+ *   "version": 2,
+ *   "exportedAt": "2024-03-01T10:00:00.000Z",
+ *   "session": {
+ *     "id": "1709286000000-AA:BB:CC:DD:EE:FF",
+ *     "deviceId": "AA:BB:CC:DD:EE:FF",
+ *     "deviceName": "BLE_SERVER",          // or null
+ *     "startedAt": "2024-03-01T09:40:00.000Z",
+ *     "endedAt": "2024-03-01T09:45:00.000Z",
+ *     "samples": [
+ *       { "timestamp": "2024-03-01T09:40:00.200Z", "raw": 1.2034, "grams": 1203.4 }
+ *     ],
+ *     "link": {                            // or null
+ *       "notificationCount": 1500, "notificationRate": 5, "gapCount": 1, "maxIntervalMs": 900,
+ *       "droppedEstimate": 3, "rssiMin": -71, "rssiMax": -58, "rssiMean": -63.5, "mtu": 185
+ *     }
+ *   }
+ * }
+ *
+ * `raw` is the reading as the device sent it (kg for the sample firmware, kg or lb for Weight Scale
+ * devices) and may be null. `grams` is the value the app displayed. `link` is the link quality while
+ * recording, see `ILinkStats`; `notificationRate`, the rssi fields and `mtu` may be null. Version 1
+ * is the same without `link`.
+ */
+export interface ISessionExport {
+    schema: typeof SESSION_EXPORT_SCHEMA;
+    version: typeof SESSION_EXPORT_VERSION;
+    exportedAt: string;
+    session: {
+        id: string;
+        deviceId: string;
+        deviceName: string | null;
+        startedAt: string;
+        endedAt: string;
+        samples: Array<{ timestamp: string, raw: number | null, grams: number }>;
+        link: ILinkStats | null;
+    };
+}
+
+export const CSV_HEADER = ['timestamp', 'raw', 'grams', 'device_id', 'device_name'];
+
+const csvField = (value: string | number | null) => {
+    const text = value === null ? '' : value.toString();
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per sample, device columns repeated so rows from several files can be concatenated
+export const sessionToCsv = (session: IWeightSession) => {
+    const rows = session.samples.map(sample => [
+        new Date(sample.t).toISOString(), sample.raw ?? null, sample.weight, session.deviceId, session.deviceName,
+    ].map(csvField).join(','));
+    return [CSV_HEADER.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+export const sessionToJson = (session: IWeightSession) => {
+    const document: ISessionExport = {
+        schema: SESSION_EXPORT_SCHEMA,
+        version: SESSION_EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        session: {
+            id: session.id,
+            deviceId: session.deviceId,
+            deviceName: session.deviceName,
+            startedAt: new Date(session.startedAt).toISOString(),
+            endedAt: new Date(session.endedAt).toISOString(),
+            samples: session.samples.map(sample => ({ timestamp: new Date(sample.t).toISOString(), raw: sample.raw ?? null, grams: sample.weight })),
+            link: session.link ?? null,
+        },
+    };
+    return JSON.stringify(document, null, 2);
+};
+
+const parseTime = (value: unknown, field: string) => {
+    const time = typeof value === 'string' ? Date.parse(value) : NaN;
+    if (isNaN(time)) {
+        throw new Error(`${field} is not an ISO 8601 date`);
+    }
+    return time;
+};
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+const LINK_COUNTS: Array<keyof ILinkStats> = ['notificationCount', 'gapCount', 'maxIntervalMs', 'droppedEstimate'];
+const LINK_OPTIONAL_NUMBERS: Array<keyof ILinkStats> = ['notificationRate', 'rssiMin', 'rssiMax', 'rssiMean', 'mtu'];
+
+const parseLink = (link: any): ILinkStats | undefined => {
+    if (link === null || link === undefined) return undefined;
+    const isValid = typeof link === 'object'
+        && LINK_COUNTS.every(field => isNumber(link[field]))
+        && LINK_OPTIONAL_NUMBERS.every(field => link[field] === null || isNumber(link[field]));
+    if (!isValid) {
+        throw new Error('The session has invalid link statistics');
+    }
+    return {
+        notificationCount: link.notificationCount,
+        notificationRate: link.notificationRate,
+        gapCount: link.gapCount,
+        maxIntervalMs: link.maxIntervalMs,
+        droppedEstimate: link.droppedEstimate,
+        rssiMin: link.rssiMin,
+        rssiMax: link.rssiMax,
+        rssiMean: link.rssiMean,
+        mtu: link.mtu,
+    };
+};
+
+// Reads a JSON export back into a session. Throws with a readable message when the file does not follow the schema.
+export const sessionFromJson = (json: string): IWeightSession => {
+    let document: any;
+    try {
+        document = JSON.parse(json);
+    } catch (error) {
+        throw new Error('The file is not valid JSON');
+    }
+    if (document?.schema !== SESSION_EXPORT_SCHEMA) {
+        throw new Error('The file is not a weight session export');
+    }
+    if (document.version !== SESSION_EXPORT_VERSION && document.version !== 1) {
+        throw new Error(`Unsupported export version ${document.version}`);
+    }
+    const { session } = document;
+    if (typeof session?.deviceId !== 'string' || !Array.isArray(session.samples)) {
+        throw new Error('The session is missing its device or samples');
+    }
+    const startedAt = parseTime(session.startedAt, 'startedAt');
+    const endedAt = parseTime(session.endedAt, 'endedAt');
+    const samples = session.samples.map((sample: any, index: number) => {
+        if (!isNumber(sample?.grams) || !(sample.raw === null || sample.raw === undefined || isNumber(sample.raw))) {
+            throw new Error(`Sample ${index + 1} has no valid weight`);
+        }
+        return { t: parseTime(sample.timestamp, `Sample ${index + 1} timestamp`), weight: sample.grams, raw: sample.raw ?? null };
+    });
+    const link = document.version === 1 ? undefined : parseLink(session.link);
+    return {
+        id: typeof session.id === 'string' && session.id !== '' ? session.id : `${startedAt}-${session.deviceId}`,
+        deviceId: session.deviceId,
+        deviceName: typeof session.deviceName === 'string' ? session.deviceName : null,
+        startedAt,
+        endedAt,
+        stats: sessionStats(samples, startedAt, endedAt),
+        ...(link ? { link } : {}),
+        samples,
+    };
+};
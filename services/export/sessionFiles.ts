@@ -0,0 +1,38 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { IWeightSession } from '../../store/sessions/sessionsSlice.contracts';
+import { SessionExportFormat, sessionToCsv, sessionToJson } from './sessionExport';
+
+const mimeTypes: { [format in SessionExportFormat]: string } = {
+    csv: 'text/csv',
+    json: 'application/json',
+};
+
+const utis: { [format in SessionExportFormat]: string } = {
+    csv: 'public.comma-separated-values-text',
+    json: 'public.json',
+};
+
+const fileName = (session: IWeightSession, format: SessionExportFormat) => {
+    const device = (session.deviceName ?? session.deviceId).replace(/[^a-z0-9_-]+/gi, '_');
+    const started = new Date(session.startedAt).toISOString().replace(/[:.]/g, '-');
+    return `weight-${device}-${started}.${format}`;
+};
+
+// Writes the export to the cache directory and opens the platform share sheet
+export const shareSession = async (session: IWeightSession, format: SessionExportFormat) => {
+    if (!(await Sharing.isAvailableAsync())) {
+        throw new Error('Sharing is not available on this device');
+    }
+    const uri = `${FileSystem.cacheDirectory}${fileName(session, format)}`;
+    await FileSystem.writeAsStringAsync(uri, format === 'csv' ? sessionToCsv(session) : sessionToJson(session));
+    await Sharing.shareAsync(uri, { mimeType: mimeTypes[format], UTI: utis[format], dialogTitle: 'Export session' });
+};
+
+// Lets the user pick a JSON export. Returns its contents, or null when the picker was dismissed.
+export const pickSessionJson = async (): Promise<string | null> => {
+    const result = await DocumentPicker.getDocumentAsync({ type: ['application/json', 'text/plain'], copyToCacheDirectory: true });
+    if (result.type !== 'success') return null;
+    return FileSystem.readAsStringAsync(result.uri);
+};
@@ -0,0 +1,58 @@
+import { RingBuffer } from '../../utils/ringBuffer';
+
+export type JournalLevel = 'debug' | 'info' | 'warn' | 'error';
+export type JournalCategory = 'adapter' | 'scan' | 'connection' | 'gatt' | 'notification' | 'app';
+
+export const journalLevels: Array<JournalLevel> = ['debug', 'info', 'warn', 'error'];
+export const journalCategories: Array<JournalCategory> = ['adapter', 'scan', 'connection', 'gatt', 'notification', 'app'];
+
+export interface IJournalEntry {
+    // Increases with every entry, also across `clear`
+    id: number;
+    // Epoch ms
+    t: number;
+    level: JournalLevel;
+    category: JournalCategory;
+    deviceId: string | null;
+    message: string;
+    // Payload as spaced hex, e.g. "01 0A FF"
+    data: string | null;
+}
+
+export type JournalRecord = Omit<IJournalEntry, 'id' | 't' | 'deviceId' | 'data'> & { deviceId?: string | null, data?: string | null };
+
+// Notifications and chunk writes dominate; this keeps a few minutes of a 20 Hz scale with room for everything else
+export const JOURNAL_CAPACITY = 5000;
+
+/**
+ * Bounded log of what happened on the radio and in the store, oldest entries overwritten first. Lives outside
+ * Redux like the weight history, so recording a notification does not cost a render. Readers poll `version`.
+ */
+export class EventJournal {
+    private readonly buffer: RingBuffer<IJournalEntry>;
+    private lastId = 0;
+
+    constructor(capacity = JOURNAL_CAPACITY) {
+        this.buffer = new RingBuffer<IJournalEntry>(capacity);
+    }
+
+    get version() {
+        return this.buffer.version;
+    }
+
+    record(entry: JournalRecord) {
+        this.lastId += 1;
+        this.buffer.push({ id: this.lastId, t: Date.now(), ...entry, deviceId: entry.deviceId ?? null, data: entry.data ?? null });
+    }
+
+    // Oldest first
+    entries(): Array<IJournalEntry> {
+        return this.buffer.toArray();
+    }
+
+    clear() {
+        this.buffer.clear();
+    }
+}
+
+export const bleJournal = new EventJournal();
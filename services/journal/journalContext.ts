@@ -0,0 +1,5 @@
+import { createContext } from 'react';
+import { EventJournal } from './eventJournal';
+
+// Provided once in navigation/index.tsx with the same journal the transport and the store record to
+export const JournalContext = createContext<EventJournal | null>(null);
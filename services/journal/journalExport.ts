@@ -0,0 +1,50 @@
+import { IJournalEntry } from './eventJournal';
+
+export type JournalExportFormat = 'txt' | 'json';
+
+export const JOURNAL_EXPORT_SCHEMA = 'ble-journal';
+export const JOURNAL_EXPORT_VERSION = 1;
+
+/**
+ * JSON export of the journal, version 1, for attaching to bug reports:
+ *
+ * {
+ *   "schema": "ble-journal",
+ *   "version": 1,
+ *   "exportedAt": "2024-03-01T10:00:00.000Z",
+ *   "app": { "platform": "ios", "platformVersion": "17.2" },
+ *   "entries": [
+ *     { "id": 12, "timestamp": "2024-03-01T09:59:58.120Z", "level": "debug", "category": "gatt",
+ *       "deviceId": "AA:BB:CC:DD:EE:FF", "message": "Write with response 2A9D (48 ms)", "data": "01 0A" }
+ *   ]
+ * }
+ */
+export interface IJournalExport {
+    schema: typeof JOURNAL_EXPORT_SCHEMA;
+    version: typeof JOURNAL_EXPORT_VERSION;
+    exportedAt: string;
+    app: { platform: string, platformVersion: string };
+    entries: Array<Omit<IJournalEntry, 't'> & { timestamp: string }>;
+}
+
+export const journalToJson = (entries: Array<IJournalEntry>, platform: string, platformVersion: string) => {
+    const document: IJournalExport = {
+        schema: JOURNAL_EXPORT_SCHEMA,
+        version: JOURNAL_EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        app: { platform, platformVersion },
+        entries: entries.map(({ t, ...entry }) => ({ ...entry, timestamp: new Date(t).toISOString() })),
+    };
+    return JSON.stringify(document, null, 2);
+};
+
+// One line per entry, readable in any text viewer
+export const journalToText = (entries: Array<IJournalEntry>) => entries
+    .map(entry => [
+        new Date(entry.t).toISOString(),
+        entry.level.toUpperCase().padEnd(5),
+        entry.category.padEnd(12),
+        entry.deviceId ?? '-',
+        entry.message + (entry.data ? ` [${entry.data}]` : ''),
+    ].join(' '))
+    .join('\n') + '\n';
@@ -0,0 +1,26 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { IJournalEntry } from './eventJournal';
+import { JournalExportFormat, journalToJson, journalToText } from './journalExport';
+
+const mimeTypes: { [format in JournalExportFormat]: string } = {
+    txt: 'text/plain',
+    json: 'application/json',
+};
+
+const utis: { [format in JournalExportFormat]: string } = {
+    txt: 'public.plain-text',
+    json: 'public.json',
+};
+
+// Writes the entries to the cache directory and opens the platform share sheet
+export const shareJournal = async (entries: Array<IJournalEntry>, format: JournalExportFormat) => {
+    if (!(await Sharing.isAvailableAsync())) {
+        throw new Error('Sharing is not available on this device');
+    }
+    const uri = `${FileSystem.cacheDirectory}ble-journal-${new Date().toISOString().replace(/[:.]/g, '-')}.${format}`;
+    const contents = format === 'txt' ? journalToText(entries) : journalToJson(entries, Platform.OS, String(Platform.Version));
+    await FileSystem.writeAsStringAsync(uri, contents);
+    await Sharing.shareAsync(uri, { mimeType: mimeTypes[format], UTI: utis[format], dialogTitle: 'Export journal' });
+};
@@ -0,0 +1,57 @@
+import { Vibration } from 'react-native';
+import * as Notifications from 'expo-notifications';
+
+// How alert rules reach the user outside the app's own UI, so listeners can be given a silent notifier instead
+export interface AlertNotifier {
+    vibrate(): void;
+    notify(title: string, body: string): Promise<void>;
+    // Shown until dismissed, showing it again with the same id replaces it. Sticky on Android.
+    showOngoing(id: string, title: string, body: string): Promise<void>;
+    dismiss(id: string): Promise<void>;
+}
+
+const VIBRATION_PATTERN = [0, 400, 200, 400];
+
+// Local notifications are shown while the app is open too, the in-app toast does not replace them
+Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+        shouldShowAlert: true,
+        shouldPlaySound: true,
+        shouldSetBadge: false,
+    }),
+});
+
+let permission: Promise<boolean> | null = null;
+
+// Asks once, the answer is kept for the rest of the run
+const notificationsAllowed = () => {
+    if (!permission) {
+        permission = Notifications.getPermissionsAsync()
+            .then(current => current.granted || !current.canAskAgain ? current : Notifications.requestPermissionsAsync())
+            .then(result => result.granted)
+            .catch(() => false);
+    }
+    return permission;
+};
+
+export const deviceNotifier: AlertNotifier = {
+    vibrate: () => Vibration.vibrate(VIBRATION_PATTERN),
+    notify: async (title, body) => {
+        if (!await notificationsAllowed()) return;
+        await Notifications.scheduleNotificationAsync({
+            content: { title, body },
+            trigger: null,
+        });
+    },
+    showOngoing: async (id, title, body) => {
+        if (!await notificationsAllowed()) return;
+        await Notifications.scheduleNotificationAsync({
+            identifier: id,
+            content: { title, body, sticky: true, sound: false, autoDismiss: false },
+            trigger: null,
+        });
+    },
+    dismiss: async (id) => {
+        await Notifications.dismissNotificationAsync(id);
+    },
+};
@@ -0,0 +1,61 @@
+import { Linking, Permission, PermissionsAndroid, Platform } from 'react-native';
+
+/**
+ * Runtime permissions BLE needs on this platform:
+ * - Android 12+ (API 31): BLUETOOTH_SCAN and BLUETOOTH_CONNECT, location is no longer required for scanning
+ * - Android 11 and older: fine location, which the OS requires for BLE scan results
+ * - iOS: CoreBluetooth authorization. iOS asks by itself when the BLE manager starts and reports a refusal as
+ *   the `Unauthorized` adapter state, so it is never requested here.
+ */
+export type BlePermission = 'bluetoothScan' | 'bluetoothConnect' | 'location' | 'bluetooth';
+
+// `blocked` can only be changed in the system settings
+export type BlePermissionStatus = 'granted' | 'denied' | 'blocked' | 'undetermined';
+
+export type BlePermissionStatuses = { [permission in BlePermission]?: BlePermissionStatus };
+
+const ANDROID_12_API_LEVEL = 31;
+
+// The typings only list the permissions up to Android 11, `PERMISSIONS` has the Bluetooth ones at runtime
+const androidPermissions: { [permission in BlePermission]?: Permission } = {
+    bluetoothScan: PermissionsAndroid.PERMISSIONS.BLUETOOTH_SCAN,
+    bluetoothConnect: PermissionsAndroid.PERMISSIONS.BLUETOOTH_CONNECT,
+    location: PermissionsAndroid.PERMISSIONS.ACCESS_FINE_LOCATION,
+};
+
+export const requiredBlePermissions = (): Array<BlePermission> => {
+    if (Platform.OS === 'ios') return ['bluetooth'];
+    return Platform.Version >= ANDROID_12_API_LEVEL ? ['bluetoothScan', 'bluetoothConnect'] : ['location'];
+};
+
+const toAndroidPermission = (permission: BlePermission): Permission => {
+    const androidPermission = androidPermissions[permission];
+    if (!androidPermission) throw new Error(`${permission} is not an Android permission`);
+    return androidPermission;
+};
+
+// Current statuses without prompting. Android cannot tell "never asked" from "denied" here, both are `undetermined`.
+export const checkBlePermissions = async (): Promise<BlePermissionStatuses> => {
+    if (Platform.OS !== 'android') return {};
+    const statuses: BlePermissionStatuses = {};
+    for (const permission of requiredBlePermissions()) {
+        statuses[permission] = await PermissionsAndroid.check(toAndroidPermission(permission)) ? 'granted' : 'undetermined';
+    }
+    return statuses;
+};
+
+// Prompts for every missing permission in one system dialog
+export const requestBlePermissions = async (): Promise<BlePermissionStatuses> => {
+    if (Platform.OS !== 'android') return {};
+    const required = requiredBlePermissions();
+    const results = await PermissionsAndroid.requestMultiple(required.map(toAndroidPermission));
+    const statuses: BlePermissionStatuses = {};
+    required.forEach(permission => {
+        const result = results[toAndroidPermission(permission)];
+        statuses[permission] = result === PermissionsAndroid.RESULTS.GRANTED ? 'granted'
+            : result === PermissionsAndroid.RESULTS.NEVER_ASK_AGAIN ? 'blocked' : 'denied';
+    });
+    return statuses;
+};
+
+export const openAppSettings = () => Linking.openSettings();
@@ -0,0 +1,27 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { EventJournal } from '../journal/eventJournal';
+import { errorMessage } from '../../utils/errors';
+
+// The subset of AsyncStorage the app relies on, so thunks can be given an in-memory store instead
+export interface KeyValueStorage {
+    getItem(key: string): Promise<string | null>;
+    setItem(key: string, value: string): Promise<void>;
+    removeItem(key: string): Promise<void>;
+}
+
+export const deviceStorage: KeyValueStorage = AsyncStorage;
+
+// An unreadable value counts as missing, `journal` records that it was dropped
+export const readJson = async <T>(storage: KeyValueStorage, key: string, fallback: T, journal: EventJournal): Promise<T> => {
+    const stored = await storage.getItem(key);
+    if (stored === null) return fallback;
+    try {
+        return JSON.parse(stored) as T;
+    } catch (error) {
+        journal.record({ level: 'warn', category: 'app', message: `Ignoring unreadable ${key}: ${errorMessage(error)}` });
+        return fallback;
+    }
+};
+
+export const writeJson = (storage: KeyValueStorage, key: string, value: unknown) =>
+    storage.setItem(key, JSON.stringify(value));
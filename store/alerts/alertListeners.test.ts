@@ -0,0 +1,83 @@
+import bleServices from '../../constants/bleServices';
+import { MemoryBleTransport } from '../../services/ble';
+import { encodeFloat32LE } from '../../services/ble/simulator';
+import { AlertNotifier } from '../../services/notifications';
+import { deviceStorage } from '../../services/storage';
+import { AppStore, createAppStore, createAppTransport } from '../store';
+import { connectDeviceById, selectCharacteristicMonitor } from '../ble/bleSlice';
+import { IGattService, toBLEDeviceVM } from '../ble/bleSlice.contracts';
+import { addAlertRule, updateAlertRule } from './alertsSlice';
+
+const SCALE_ID = 'AA:BB:CC:DD:EE:01';
+const { sample } = bleServices;
+
+const scaleServices: Array<IGattService> = [{
+    uuid: sample.uuid,
+    characteristics: [{
+        uuid: sample.characteristics.loadCells.uuid,
+        serviceUUID: sample.uuid,
+        isReadable: true,
+        isWritableWithResponse: false,
+        isWritableWithoutResponse: false,
+        isNotifiable: true,
+        isIndicatable: false,
+        descriptors: [],
+    }],
+}];
+
+const notifier: AlertNotifier = {
+    vibrate: () => undefined,
+    notify: async () => undefined,
+    showOngoing: async () => undefined,
+    dismiss: async () => undefined,
+};
+
+let stores: Array<AppStore> = [];
+
+// Cancels the RSSI polls and the queue's timers, so nothing runs after the test
+afterEach(() => {
+    stores.forEach(store => store.dispose());
+    stores = [];
+});
+
+// No screen is mounted, nothing else monitors the load cells
+const setup = async () => {
+    const radio = new MemoryBleTransport();
+    radio.addPeripheral(toBLEDeviceVM({ id: SCALE_ID, name: 'BLE_SERVER', mtu: 23, rssi: -50, serviceUUIDs: [sample.uuid] }), scaleServices);
+    const store = createAppStore(createAppTransport(radio), deviceStorage, notifier);
+    stores.push(store);
+    await store.dispatch(connectDeviceById({ id: SCALE_ID })).unwrap();
+    const monitor = () => selectCharacteristicMonitor(SCALE_ID, sample.uuid, sample.characteristics.loadCells.uuid)(store.getState());
+    const sendKilograms = (kilograms: number) =>
+        radio.setCharacteristicValue(SCALE_ID, sample.uuid, sample.characteristics.loadCells.uuid, encodeFloat32LE(kilograms));
+    return { store, monitor, sendKilograms };
+};
+
+const waitFor = async (condition: () => boolean, timeoutMs = 2000) => {
+    const giveUpAt = Date.now() + timeoutMs;
+    while (!condition()) {
+        if (Date.now() > giveUpAt) throw new Error('Condition not met in time');
+        await new Promise(resolve => setTimeout(resolve, 5));
+    }
+};
+
+it('monitors the weight of a connected scale with rules and fires them', async () => {
+    const { store, monitor, sendKilograms } = await setup();
+    store.dispatch(addAlertRule({ deviceId: SCALE_ID, name: 'Full', condition: { type: 'above', threshold: 400 }, hysteresis: 10, enabled: true }));
+
+    await waitFor(() => monitor()?.isActive === true);
+    sendKilograms(0.5);
+
+    await waitFor(() => store.getState().alerts.events.length === 1);
+});
+
+it('lets go of the monitor once no rule is enabled', async () => {
+    const { store, monitor } = await setup();
+    store.dispatch(addAlertRule({ deviceId: SCALE_ID, name: 'Full', condition: { type: 'above', threshold: 400 }, hysteresis: 10, enabled: true }));
+    await waitFor(() => monitor()?.isActive === true);
+
+    const [rule] = store.getState().alerts.rules[SCALE_ID];
+    store.dispatch(updateAlertRule({ deviceId: SCALE_ID, ruleId: rule.id, changes: { enabled: false } }));
+
+    await waitFor(() => monitor() === undefined);
+});
@@ -0,0 +1,132 @@
+import { nanoid } from '@reduxjs/toolkit';
+import { BleTransport } from '../../services/ble';
+import { writeJson } from '../../services/storage';
+import { removeConnection, startCharacteristicMonitor, stopCharacteristicMonitor } from '../ble/bleSlice';
+import { IDeviceConnection, NetworkState } from '../ble/bleSlice.contracts';
+import { hasServiceProfile, toCharacteristicParams } from '../ble/characteristicProfiles';
+import type { AppStartListening } from '../listenerMiddleware';
+import type { RootState } from '../store';
+import { weightSampleReceived } from '../weight/weightSlice';
+import { isScale, weightCharacteristics } from '../weight/weightListeners';
+import { ALERT_RULES_STORAGE_KEY, alertFired, removeAlertRule } from './alertsSlice';
+import { IAlertEvent } from './alertsSlice.contracts';
+import { describeCondition, evaluateRule, forgetAlertRule, resetAlertRules } from './alertRules';
+
+const isLoaded = (state: RootState) =>
+    state.alerts.loadStatus === NetworkState.SUCCESS || state.alerts.loadStatus === NetworkState.ERROR;
+
+// Devices whose weight monitors the rules hold, per transport like `bleSubscriptions.ts`
+const heldDevices = new WeakMap<BleTransport, Set<string>>();
+
+const heldAlertDevices = (transport: BleTransport) => {
+    let devices = heldDevices.get(transport);
+    if (!devices) {
+        devices = new Set();
+        heldDevices.set(transport, devices);
+    }
+    return devices;
+};
+
+const isActive = (connection: IDeviceConnection) =>
+    connection.status === NetworkState.SUCCESS || connection.status === NetworkState.RECONNECTING;
+
+const hasEnabledRules = (state: RootState, deviceId: string) =>
+    !!state.alerts.rules[deviceId]?.some(rule => rule.enabled);
+
+const weightMonitors = (connection: IDeviceConnection) => weightCharacteristics
+    .filter(({ service }) => hasServiceProfile(connection, service))
+    .map(({ service, characteristic }) => toCharacteristicParams({ deviceId: connection.device.id, service, characteristic }));
+
+// Changes when a scale with enabled rules connects, reconnects or closes, or its last rule is disabled
+const alertMonitorsKey = (state: RootState) => Object.values(state.ble.connections)
+    .filter(connection => isActive(connection) && hasEnabledRules(state, connection.device.id))
+    .map(connection => `${connection.device.id}:${connection.status}`)
+    .sort()
+    .join(',');
+
+// Evaluates every device's rules against its weight samples, whichever screen is open, and saves the rules when they change
+// once loading them has finished or failed
+export const startAlertListeners = (startListening: AppStartListening) => {
+    // Samples only flow while someone monitors the weight, so a scale with rules gets a subscriber of its own
+    startListening({
+        predicate: (action, currentState, previousState) =>
+            (currentState.ble.connections !== previousState.ble.connections || currentState.alerts.rules !== previousState.alerts.rules)
+            && alertMonitorsKey(currentState) !== alertMonitorsKey(previousState),
+        effect: (action, listenerApi) => {
+            const state = listenerApi.getState();
+            const held = heldAlertDevices(listenerApi.extra.bleTransport);
+            held.forEach(deviceId => {
+                const connection = state.ble.connections[deviceId];
+                if (connection && isActive(connection) && hasEnabledRules(state, deviceId)) return;
+                held.delete(deviceId);
+                // A closed connection has already dropped its monitors
+                if (connection && isActive(connection)) {
+                    weightMonitors(connection).forEach(params => listenerApi.dispatch(stopCharacteristicMonitor(params)));
+                }
+            });
+            Object.values(state.ble.connections)
+                .filter(connection => connection.status === NetworkState.SUCCESS && isScale(connection)
+                    && hasEnabledRules(state, connection.device.id) && !held.has(connection.device.id))
+                .forEach(connection => {
+                    held.add(connection.device.id);
+                    weightMonitors(connection).forEach(params => listenerApi.dispatch(startCharacteristicMonitor(params)));
+                });
+        },
+    });
+
+    startListening({
+        actionCreator: weightSampleReceived,
+        effect: (action, listenerApi) => {
+            const { deviceId, weight, receivedAt } = action.payload.sample;
+            const state = listenerApi.getState();
+            const rules = state.alerts.rules[deviceId];
+            if (!rules) return;
+            const deviceName = state.ble.connections[deviceId]?.device.name ?? deviceId;
+            rules
+                .filter(rule => rule.enabled && evaluateRule(rule, receivedAt, weight))
+                .forEach(rule => {
+                    const event: IAlertEvent = {
+                        id: nanoid(),
+                        ruleId: rule.id,
+                        deviceId,
+                        message: `${deviceName}: ${describeCondition(rule.condition, state.calibration.display)}`,
+                        weight,
+                        firedAt: receivedAt,
+                    };
+                    listenerApi.dispatch(alertFired({ event }));
+                    const { notifier, journal } = listenerApi.extra;
+                    notifier.vibrate();
+                    notifier.notify(rule.name, event.message)
+                        .catch(error => journal.record({ level: 'error', category: 'app', deviceId, message: `Alert notification failed: ${error.message}` }));
+                });
+        },
+    });
+
+    // A reconnected device starts from armed rules
+    startListening({
+        actionCreator: removeConnection,
+        effect: (action) => {
+            resetAlertRules(action.payload.id);
+        },
+    });
+
+    startListening({
+        actionCreator: removeAlertRule,
+        effect: (action) => {
+            forgetAlertRule(action.payload.ruleId);
+        },
+    });
+
+    startListening({
+        predicate: (action, currentState, previousState) =>
+            isLoaded(currentState) && isLoaded(previousState)
+            && currentState.alerts.rules !== previousState.alerts.rules,
+        effect: async (action, listenerApi) => {
+            try {
+                await writeJson(listenerApi.extra.storage, ALERT_RULES_STORAGE_KEY, listenerApi.getState().alerts.rules);
+            } catch (error: any) {
+                listenerApi.extra.journal.record({ level: 'error', category: 'app', message: `Alert rules could not be saved: ${error.message}` });
+            }
+        },
+    });
+};
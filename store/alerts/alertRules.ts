@@ -0,0 +1,98 @@
+import { IDisplaySettings } from '../calibration/calibrationSlice.contracts';
+import { formatWeight } from '../../utils/weightUnits';
+import { AlertCondition, AlertConditionType, IAlertRule } from './alertsSlice.contracts';
+
+// Rate of change rules compare against the oldest sample of this window
+const RATE_WINDOW_MS = 60 * 1000;
+
+interface IRuleState {
+    rule: IAlertRule;
+    // Fired and waiting for the reading to clear the hysteresis band
+    triggered: boolean;
+    belowSince: number | null;
+    window: Array<{ t: number, weight: number }>;
+}
+
+// Evaluation state per rule id, outside Redux like the filter pipelines. Reset whenever the rule is edited.
+const ruleStates = new Map<string, IRuleState>();
+
+const ruleState = (rule: IAlertRule) => {
+    let state = ruleStates.get(rule.id);
+    if (!state || state.rule !== rule) {
+        state = { rule, triggered: false, belowSince: null, window: [] };
+        ruleStates.set(rule.id, state);
+    }
+    return state;
+};
+
+// Feeds one sample to the rule and returns true when the rule fires on it
+export const evaluateRule = (rule: IAlertRule, t: number, weight: number) => {
+    const state = ruleState(rule);
+    const { condition, hysteresis } = rule;
+    switch (condition.type) {
+        case 'below': {
+            if (weight < condition.threshold) {
+                state.belowSince = state.belowSince ?? t;
+                if (!state.triggered && t - state.belowSince >= condition.durationMs) {
+                    state.triggered = true;
+                    return true;
+                }
+                return false;
+            }
+            state.belowSince = null;
+            if (weight >= condition.threshold + hysteresis) state.triggered = false;
+            return false;
+        }
+        case 'above': {
+            if (weight > condition.threshold) {
+                if (state.triggered) return false;
+                state.triggered = true;
+                return true;
+            }
+            if (weight <= condition.threshold - hysteresis) state.triggered = false;
+            return false;
+        }
+        case 'rateOfChange': {
+            state.window.push({ t, weight });
+            while (state.window.length > 1 && state.window[1].t <= t - RATE_WINDOW_MS) {
+                state.window.shift();
+            }
+            const change = Math.abs(weight - state.window[0].weight);
+            if (change > condition.threshold) {
+                if (state.triggered) return false;
+                state.triggered = true;
+                return true;
+            }
+            if (change < condition.threshold - hysteresis) state.triggered = false;
+            return false;
+        }
+    }
+};
+
+export const resetAlertRules = (deviceId: string) => {
+    Array.from(ruleStates.entries())
+        .filter(([, state]) => state.rule.deviceId === deviceId)
+        .forEach(([id]) => ruleStates.delete(id));
+};
+
+export const forgetAlertRule = (ruleId: string) => {
+    ruleStates.delete(ruleId);
+};
+
+export const defaultAlertConditions: { [type in AlertConditionType]: AlertCondition } = {
+    below: { type: 'below', threshold: 100, durationMs: 10 * 1000 },
+    above: { type: 'above', threshold: 1000 },
+    rateOfChange: { type: 'rateOfChange', threshold: 100 },
+};
+
+export const describeCondition = (condition: AlertCondition, display: IDisplaySettings) => {
+    const format = (grams: number) => formatWeight(grams, display.unit, display.precision);
+    switch (condition.type) {
+        case 'below':
+            return `Below ${format(condition.threshold)} for ${Math.round(condition.durationMs / 1000)} s`;
+        case 'above':
+            return `Rises above ${format(condition.threshold)}`;
+        case 'rateOfChange':
+            return `Changes by more than ${format(condition.threshold)} per minute`;
+    }
+};
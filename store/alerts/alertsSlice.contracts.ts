@@ -0,0 +1,44 @@
+import { NetworkState } from '../ble/bleSlice.contracts';
+
+// Weights and changes are in grams
+export type AlertCondition =
+    // Fires once the weight has stayed below `threshold` for `durationMs`
+    | { type: 'below', threshold: number, durationMs: number }
+    // Fires as soon as the weight goes above `threshold`
+    | { type: 'above', threshold: number }
+    // Fires when the weight changed by more than `threshold` during the last minute, in either direction
+    | { type: 'rateOfChange', threshold: number };
+
+export type AlertConditionType = AlertCondition['type'];
+
+export interface IAlertRule {
+    id: string;
+    deviceId: string;
+    name: string;
+    condition: AlertCondition;
+    // Grams the reading has to move back past the threshold before the rule can fire again
+    hysteresis: number;
+    enabled: boolean;
+}
+
+export interface IAlertEvent {
+    id: string;
+    ruleId: string;
+    deviceId: string;
+    message: string;
+    weight: number;
+    firedAt: number;
+}
+
+export interface alertsSliceInterface {
+    // Rules per device, in the order they were added
+    rules: { [deviceId: string]: Array<IAlertRule> };
+    loadStatus: NetworkState;
+    // Most recent first, capped at MAX_ALERT_EVENTS
+    events: Array<IAlertEvent>;
+}
+
+export interface alertRuleParams {
+    deviceId: string;
+    ruleId: string;
+}
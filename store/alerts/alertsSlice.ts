@@ -0,0 +1,83 @@
+import { createAsyncThunk, createSlice, nanoid } from '@reduxjs/toolkit';
+import { AppThunkConfig, RootState } from '../store';
+import { NetworkState } from '../ble/bleSlice.contracts';
+import { readJson } from '../../services/storage';
+import { alertsSliceInterface, IAlertEvent, IAlertRule } from './alertsSlice.contracts';
+
+export const ALERT_RULES_STORAGE_KEY = '@alertRules';
+
+const MAX_ALERT_EVENTS = 50;
+
+export type StoredAlertRules = alertsSliceInterface['rules'];
+
+export const loadAlertRules = createAsyncThunk<StoredAlertRules | null, void, AppThunkConfig>('alerts/loadAlertRules', async (_, thunkAPI) => {
+    return readJson<StoredAlertRules | null>(thunkAPI.extra.storage, ALERT_RULES_STORAGE_KEY, null, thunkAPI.extra.journal);
+});
+
+const initialState: alertsSliceInterface = {
+    rules: {},
+    loadStatus: NetworkState.PENDING,
+    events: [],
+};
+
+const findRule = (state: alertsSliceInterface, deviceId: string, ruleId: string) =>
+    state.rules[deviceId]?.find(rule => rule.id === ruleId);
+
+const alertsSlice = createSlice({
+    name: 'alerts',
+    initialState,
+    reducers: {
+        addAlertRule: {
+            reducer(state, action: { payload: IAlertRule }) {
+                const rule = action.payload;
+                state.rules[rule.deviceId] = [...(state.rules[rule.deviceId] ?? []), rule];
+            },
+            prepare(rule: Omit<IAlertRule, 'id'>) {
+                return { payload: { ...rule, id: nanoid() } };
+            },
+        },
+        updateAlertRule(state, action) {
+            const { deviceId, ruleId, changes } = action.payload;
+            const rule = findRule(state, deviceId, ruleId);
+            if (rule) Object.assign(rule, changes);
+        },
+        removeAlertRule(state, action) {
+            const { deviceId, ruleId } = action.payload;
+            state.rules[deviceId] = (state.rules[deviceId] ?? []).filter(rule => rule.id !== ruleId);
+            if (state.rules[deviceId].length === 0) delete state.rules[deviceId];
+        },
+        // Dispatched by the alert listener, see `alertListeners.ts`
+        alertFired(state, action) {
+            const { event } = action.payload;
+            state.events = [event, ...state.events].slice(0, MAX_ALERT_EVENTS);
+        },
+        clearAlertEvents(state) {
+            state.events = [];
+        },
+    },
+    extraReducers(builder) {
+        builder
+            .addCase(loadAlertRules.pending, (state) => {
+                state.loadStatus = NetworkState.LOADING;
+            })
+            .addCase(loadAlertRules.fulfilled, (state, action) => {
+                state.loadStatus = NetworkState.SUCCESS;
+                if (action.payload) state.rules = action.payload;
+            })
+            .addCase(loadAlertRules.rejected, (state) => {
+                state.loadStatus = NetworkState.ERROR;
+            });
+    },
+});
+
+export default alertsSlice.reducer;
+
+export const { addAlertRule, updateAlertRule, removeAlertRule, alertFired, clearAlertEvents } = alertsSlice.actions;
+
+const noRules: Array<IAlertRule> = [];
+
+export const selectAllAlertRules = (state: RootState) => state.alerts.rules;
+export const selectAlertRules = (deviceId?: string) => (state: RootState) =>
+    (deviceId && state.alerts.rules[deviceId]) || noRules;
+export const selectAlertEvents = (state: RootState): Array<IAlertEvent> => state.alerts.events;
+export const selectLatestAlertEvent = (state: RootState): IAlertEvent | undefined => state.alerts.events[0];
@@ -0,0 +1,148 @@
+import { writeJson } from '../../services/storage';
+import { IDeviceConnection, NetworkState } from '../ble/bleSlice.contracts';
+import { hasServiceProfile, toCharacteristicParams } from '../ble/characteristicProfiles';
+import { isScale, weightCharacteristics } from '../weight/weightListeners';
+import type { AppStartListening } from '../listenerMiddleware';
+import type { RootState } from '../store';
+import { BACKGROUND_SETTINGS_STORAGE_KEY, BACKGROUND_SNAPSHOT_STORAGE_KEY } from './backgroundSlice';
+import { IBackgroundSnapshot } from './backgroundSlice.contracts';
+import { forgetMonitors, heldMonitorDeviceIds, holdMonitor, releaseMonitors } from './backgroundMonitors';
+
+const ONGOING_NOTIFICATION_ID = 'background-monitoring';
+
+const isLoaded = (state: RootState) =>
+    state.background.loadStatus === NetworkState.SUCCESS || state.background.loadStatus === NetworkState.ERROR;
+
+const isActive = (connection: IDeviceConnection) =>
+    connection.status === NetworkState.SUCCESS || connection.status === NetworkState.RECONNECTING;
+
+// Held monitors change when a link comes up or closes. Reconnecting links keep theirs.
+const heldMonitorsKey = (state: RootState) => {
+    if (!state.background.settings.enabled) return 'disabled';
+    return Object.values(state.ble.connections)
+        .filter(isActive)
+        .map(connection => `${connection.device.id}:${connection.status}`)
+        .sort()
+        .join(',');
+};
+
+// Changes when what a relaunch would restore changes. Null until the previous snapshot has been restored.
+const snapshotKey = (state: RootState) => {
+    const { restore, settings } = state.background;
+    if (!isLoaded(state) || restore.status === NetworkState.PENDING || restore.status === NetworkState.LOADING) return null;
+    if (!settings.enabled) return 'disabled';
+    return Object.values(state.ble.connections)
+        .filter(connection => connection.status === NetworkState.SUCCESS)
+        .map(connection => `${connection.device.id}:${Object.keys(connection.monitors).sort().join(',')}:${!!state.sessions.recordings[connection.device.id]}`)
+        .sort()
+        .join('|');
+};
+
+const toSnapshot = (state: RootState): IBackgroundSnapshot => ({
+    devices: Object.values(state.ble.connections)
+        .filter(connection => connection.status === NetworkState.SUCCESS)
+        .map(connection => ({
+            deviceId: connection.device.id,
+            name: connection.device.name ?? null,
+            monitors: Object.values(connection.monitors).map(({ deviceId, serviceUUID, characteristicUUID }) => ({ deviceId, serviceUUID, characteristicUUID })),
+            isRecording: !!state.sessions.recordings[connection.device.id],
+        })),
+    savedAt: Date.now(),
+});
+
+// Null while nothing has to be shown
+const ongoingMessage = (state: RootState) => {
+    if (state.background.appState !== 'background' || !state.background.settings.enabled) return null;
+    const connections = Object.values(state.ble.connections).filter(isActive);
+    if (connections.length === 0) return null;
+    const names = connections.map(connection => connection.device.name ?? connection.device.id).join(', ');
+    const recordingCount = connections.filter(connection => state.sessions.recordings[connection.device.id]).length;
+    return recordingCount > 0 ? `Recording from ${names}` : `Connected to ${names}`;
+};
+
+/**
+ * Background monitoring: holds the weight monitors of connected scales so recordings keep receiving samples
+ * without a screen subscribed, keeps a snapshot of connections, monitors and recordings for
+ * `restoreBackgroundSession` and shows an ongoing notification while the app is in the background.
+ */
+export const startBackgroundListeners = (startListening: AppStartListening) => {
+    startListening({
+        predicate: (action, currentState, previousState) =>
+            isLoaded(currentState) && isLoaded(previousState)
+            && currentState.background.settings !== previousState.background.settings,
+        effect: async (action, listenerApi) => {
+            try {
+                await writeJson(listenerApi.extra.storage, BACKGROUND_SETTINGS_STORAGE_KEY, listenerApi.getState().background.settings);
+            } catch (error: any) {
+                listenerApi.extra.journal.record({ level: 'error', category: 'app', message: `Background settings could not be saved: ${error.message}` });
+            }
+        },
+    });
+
+    startListening({
+        predicate: (action, currentState, previousState) =>
+            (currentState.ble.connections !== previousState.ble.connections
+                || currentState.background.settings !== previousState.background.settings)
+            && heldMonitorsKey(currentState) !== heldMonitorsKey(previousState),
+        effect: (action, listenerApi) => {
+            const { background, ble } = listenerApi.getState();
+            const { bleTransport } = listenerApi.extra;
+            if (!background.settings.enabled) {
+                releaseMonitors(bleTransport, listenerApi.dispatch);
+                return;
+            }
+            heldMonitorDeviceIds(bleTransport).forEach(deviceId => {
+                const connection = ble.connections[deviceId];
+                if (!connection || !isActive(connection)) forgetMonitors(bleTransport, deviceId);
+            });
+            Object.values(ble.connections)
+                .filter(connection => connection.status === NetworkState.SUCCESS && isScale(connection))
+                .forEach(connection => weightCharacteristics
+                    .filter(({ service }) => hasServiceProfile(connection, service))
+                    .forEach(({ service, characteristic }) =>
+                        holdMonitor(bleTransport, toCharacteristicParams({ deviceId: connection.device.id, service, characteristic }), listenerApi.dispatch)));
+        },
+    });
+
+    startListening({
+        predicate: (action, currentState, previousState) =>
+            (currentState.ble.connections !== previousState.ble.connections
+                || currentState.sessions.recordings !== previousState.sessions.recordings
+                || currentState.background !== previousState.background)
+            && snapshotKey(currentState) !== snapshotKey(previousState),
+        effect: async (action, listenerApi) => {
+            const state = listenerApi.getState();
+            const { storage } = listenerApi.extra;
+            try {
+                if (state.background.settings.enabled) {
+                    await writeJson(storage, BACKGROUND_SNAPSHOT_STORAGE_KEY, toSnapshot(state));
+                } else {
+                    await storage.removeItem(BACKGROUND_SNAPSHOT_STORAGE_KEY);
+                }
+            } catch (error: any) {
+                listenerApi.extra.journal.record({ level: 'error', category: 'app', message: `Background snapshot could not be saved: ${error.message}` });
+            }
+        },
+    });
+
+    startListening({
+        predicate: (action, currentState, previousState) =>
+            (currentState.ble.connections !== previousState.ble.connections
+                || currentState.sessions.recordings !== previousState.sessions.recordings
+                || currentState.background !== previousState.background)
+            && ongoingMessage(currentState) !== ongoingMessage(previousState),
+        effect: async (action, listenerApi) => {
+            const message = ongoingMessage(listenerApi.getState());
+            const { notifier } = listenerApi.extra;
+            try {
+                if (message) {
+                    await notifier.showOngoing(ONGOING_NOTIFICATION_ID, 'Monitoring in the background', message);
+                } else {
+                    await notifier.dismiss(ONGOING_NOTIFICATION_ID);
+                }
+            } catch (error: any) {
+                listenerApi.extra.journal.record({ level: 'error', category: 'app', message: `Background notification could not be updated: ${error.message}` });
+            }
+        },
+    });
+};
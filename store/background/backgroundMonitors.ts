@@ -0,0 +1,47 @@
+import type { AppDispatch } from '../store';
+import { BleTransport } from '../../services/ble';
+import { startCharacteristicMonitor, stopCharacteristicMonitor } from '../ble/bleSlice';
+import { characteristicParams, monitorKey } from '../ble/bleSlice.contracts';
+
+// Monitors background monitoring subscribed to, per transport and keyed by monitor key. Each holds one subscriber
+// on the shared monitor, so it keeps running when the screens that started it unmount.
+const heldMonitors = new WeakMap<BleTransport, Map<string, characteristicParams>>();
+
+const transportHeldMonitors = (transport: BleTransport) => {
+    let monitors = heldMonitors.get(transport);
+    if (!monitors) {
+        monitors = new Map();
+        heldMonitors.set(transport, monitors);
+    }
+    return monitors;
+};
+
+export const holdMonitor = (transport: BleTransport, params: characteristicParams, dispatch: AppDispatch) => {
+    const monitors = transportHeldMonitors(transport);
+    const key = monitorKey(params.deviceId, params.serviceUUID, params.characteristicUUID);
+    if (monitors.has(key)) return;
+    const { deviceId, serviceUUID, characteristicUUID } = params;
+    monitors.set(key, { deviceId, serviceUUID, characteristicUUID });
+    dispatch(startCharacteristicMonitor({ deviceId, serviceUUID, characteristicUUID }));
+};
+
+// Gives up the subscribers, of one device or all of them
+export const releaseMonitors = (transport: BleTransport, dispatch: AppDispatch, deviceId?: string) => {
+    const monitors = transportHeldMonitors(transport);
+    monitors.forEach((params, key) => {
+        if (deviceId !== undefined && params.deviceId !== deviceId) return;
+        monitors.delete(key);
+        dispatch(stopCharacteristicMonitor(params));
+    });
+};
+
+// For a closed connection, whose monitors are already gone from the store
+export const forgetMonitors = (transport: BleTransport, deviceId: string) => {
+    const monitors = transportHeldMonitors(transport);
+    monitors.forEach((params, key) => {
+        if (params.deviceId === deviceId) monitors.delete(key);
+    });
+};
+
+export const heldMonitorDeviceIds = (transport: BleTransport) =>
+    new Set(Array.from(transportHeldMonitors(transport).values()).map(({ deviceId }) => deviceId));
@@ -0,0 +1,38 @@
+import type { AppStateStatus } from 'react-native';
+import { NetworkState, characteristicParams } from '../ble/bleSlice.contracts';
+
+export interface IBackgroundSettings {
+    // Keep connections, weight monitors and recordings running while the app is in the background
+    enabled: boolean;
+}
+
+// What was running the last time it changed, so a relaunch can pick up the connections the OS restored
+export interface IBackgroundSnapshotDevice {
+    deviceId: string;
+    name: string | null;
+    monitors: Array<characteristicParams>;
+    isRecording: boolean;
+}
+
+export interface IBackgroundSnapshot {
+    devices: Array<IBackgroundSnapshotDevice>;
+    savedAt: number;
+}
+
+export interface IBackgroundRestore {
+    // PENDING until the first launch check, SUCCESS even when nothing was restored
+    status: NetworkState;
+    deviceIds: Array<string>;
+    error: string | null;
+}
+
+export interface backgroundSliceInterface {
+    settings: IBackgroundSettings;
+    loadStatus: NetworkState;
+    appState: AppStateStatus;
+    restore: IBackgroundRestore;
+}
+
+export interface setBackgroundMonitoringParams {
+    enabled: boolean;
+}
@@ -0,0 +1,117 @@
+import { createAsyncThunk, createSelector, createSlice } from '@reduxjs/toolkit';
+import { AppThunkConfig, RootState } from '../store';
+import { NetworkState } from '../ble/bleSlice.contracts';
+import { connectDeviceById, selectActiveConnections } from '../ble/bleSlice';
+import { startRecording } from '../sessions/sessionsSlice';
+import { readJson } from '../../services/storage';
+import { backgroundSliceInterface, IBackgroundSettings, IBackgroundSnapshot } from './backgroundSlice.contracts';
+import { holdMonitor } from './backgroundMonitors';
+import { errorMessage } from '../../utils/errors';
+
+export const BACKGROUND_SETTINGS_STORAGE_KEY = '@background/settings';
+export const BACKGROUND_SNAPSHOT_STORAGE_KEY = '@background/snapshot';
+
+export const loadBackgroundSettings = createAsyncThunk<IBackgroundSettings | null, void, AppThunkConfig>('background/loadBackgroundSettings', async (_, thunkAPI) => {
+    return readJson<IBackgroundSettings | null>(thunkAPI.extra.storage, BACKGROUND_SETTINGS_STORAGE_KEY, null, thunkAPI.extra.journal);
+});
+
+/**
+ * Adopts the connections iOS kept alive while the app was not running. Every restored device is connected
+ * in the store again; the ones in the last snapshot get their monitors back and a new recording when one
+ * was running, samples recorded before the app was killed are lost. Resolves with the restored device ids.
+ */
+export const restoreBackgroundSession = createAsyncThunk<Array<string>, void, AppThunkConfig>('background/restoreBackgroundSession', async (_, thunkAPI) => {
+    const { bleTransport, storage, journal } = thunkAPI.extra;
+    try {
+        const devices = await bleTransport.restoredDevices();
+        if (devices.length === 0) return [];
+        const snapshot = await readJson<IBackgroundSnapshot | null>(storage, BACKGROUND_SNAPSHOT_STORAGE_KEY, null, journal);
+        const restored: Array<string> = [];
+        for (const device of devices) {
+            try {
+                await thunkAPI.dispatch(connectDeviceById({ id: device.id })).unwrap();
+            } catch (error: any) {
+                journal.record({ level: 'warn', category: 'connection', deviceId: device.id, message: `Restored device could not be adopted: ${errorMessage(error)}` });
+                continue;
+            }
+            restored.push(device.id);
+            const saved = snapshot?.devices.find(({ deviceId }) => deviceId === device.id);
+            if (!saved) continue;
+            saved.monitors.forEach(monitor => holdMonitor(thunkAPI.extra.bleTransport, monitor, thunkAPI.dispatch));
+            if (saved.isRecording) {
+                thunkAPI.dispatch(startRecording({ deviceId: device.id, deviceName: saved.name ?? device.name, startedAt: Date.now() }));
+            }
+        }
+        return restored;
+    } catch (error: any) {
+        throw new Error(errorMessage(error));
+    }
+}, {
+    condition: (_, { getState }) => getState().background.restore.status === NetworkState.PENDING,
+});
+
+const initialState: backgroundSliceInterface = {
+    settings: {
+        enabled: false,
+    },
+    loadStatus: NetworkState.PENDING,
+    appState: 'active',
+    restore: {
+        status: NetworkState.PENDING,
+        deviceIds: [],
+        error: null,
+    },
+};
+
+const backgroundSlice = createSlice({
+    name: 'background',
+    initialState,
+    reducers: {
+        setBackgroundMonitoring(state, action) {
+            const { enabled } = action.payload;
+            state.settings.enabled = enabled;
+        },
+        appStateChanged(state, action) {
+            const { appState } = action.payload;
+            state.appState = appState;
+        },
+    },
+    extraReducers(builder) {
+        builder
+            .addCase(loadBackgroundSettings.pending, (state) => {
+                state.loadStatus = NetworkState.LOADING;
+            })
+            .addCase(loadBackgroundSettings.fulfilled, (state, action) => {
+                state.loadStatus = NetworkState.SUCCESS;
+                if (!action.payload) return;
+                state.settings = { ...state.settings, ...action.payload };
+            })
+            .addCase(loadBackgroundSettings.rejected, (state) => {
+                state.loadStatus = NetworkState.ERROR;
+            })
+            .addCase(restoreBackgroundSession.pending, (state) => {
+                state.restore.status = NetworkState.LOADING;
+            })
+            .addCase(restoreBackgroundSession.fulfilled, (state, action) => {
+                state.restore = { status: NetworkState.SUCCESS, deviceIds: action.payload, error: null };
+            })
+            .addCase(restoreBackgroundSession.rejected, (state, action) => {
+                state.restore = { status: NetworkState.ERROR, deviceIds: [], error: action.error.message ?? null };
+            });
+    },
+});
+
+export default backgroundSlice.reducer;
+
+export const { setBackgroundMonitoring, appStateChanged } = backgroundSlice.actions;
+
+export const selectBackgroundSettings = (state: RootState) => state.background.settings;
+export const selectAppState = (state: RootState) => state.background.appState;
+export const selectBackgroundRestore = (state: RootState) => state.background.restore;
+
+// Monitoring is on and there is a link to keep alive
+export const selectIsBackgroundMonitoring = createSelector(
+    selectBackgroundSettings,
+    selectActiveConnections,
+    (settings, connections) => settings.enabled && connections.length > 0,
+);
@@ -1,23 +1,26 @@
-import * as Location from 'expo-location';
+import type { ServiceName } from '../../constants/bleServices';
+import type { BlePermission, BlePermissionStatuses } from '../../services/permissions';
+import type { GattPriority } from '../../services/ble/gattQueue';
 
 export enum NetworkState {
     PENDING="PENDING",
     LOADING="LOADING",
     SUCCESS="SUCCESS",
     ERROR="ERROR",
-    CANCELED="CANCELED"
+    CANCELED="CANCELED",
+    RECONNECTING="RECONNECTING"
 }
 
 export interface IBLEDevice {
     serviceUUIDs: Array<string>;
     isConnectable: boolean;
     overflowServiceUUIDs: Array<string>;
-    txPowerLevel: string;
+    txPowerLevel: number | null;
     serviceData?: any;
     manufacturerData?: any;
     name: string;
     mtu: number;
-    rssi: string;
+    rssi: number | null;
     solicitedServiceUUIDs: Array<string>;
     localName: string;
     id: string;
@@ -29,12 +32,12 @@ export const toBLEDeviceVM = (device: any) => {
         serviceUUIDs: device.serviceUUIDs,
         isConnectable: device.isConnectable,
         overflowServiceUUIDs: device.overflowServiceUUIDs,
-        txPowerLevel: device.txPowerLevel,
+        txPowerLevel: device.txPowerLevel ?? null,
         serviceData: device.serviceData,
         manufacturerData: device.manufacturerData,
         name: device.name,
         mtu: device.mtu,
-        rssi: device.rssi,
+        rssi: device.rssi ?? null,
         solicitedServiceUUIDs: device.solicitedServiceUUIDs,
         localName: device.localName,
         id: device.id,
@@ -42,19 +45,156 @@ export const toBLEDeviceVM = (device: any) => {
     return result;
 };
 
-export interface IDeviceConnectionState {
+export interface IGattDescriptor {
+    uuid: string;
+}
+
+export interface IGattCharacteristic {
+    uuid: string;
+    serviceUUID: string;
+    isReadable: boolean;
+    isWritableWithResponse: boolean;
+    isWritableWithoutResponse: boolean;
+    isNotifiable: boolean;
+    isIndicatable: boolean;
+    descriptors: Array<IGattDescriptor>;
+}
+
+export interface IGattService {
+    uuid: string;
+    characteristics: Array<IGattCharacteristic>;
+}
+
+export interface IDeviceConnection {
+    device: IBLEDevice;
+    // LOADING while connecting, SUCCESS when connected, RECONNECTING while the reconnect policy retries
+    // a dropped link, CANCELED after a disconnect and ERROR when connecting failed
     status: NetworkState;
     error: string;
+    mtu: number;
+    services: Array<IGattService>;
+    monitors: { [monitorKey: string]: ICharacteristicMonitor };
+    reconnectAttempt: number;
+    nextReconnectAt: number | null;
+}
+
+export interface IReconnectPolicy {
+    enabled: boolean;
+    initialDelayMs: number;
+    maxDelayMs: number;
+    // Delay grows by this factor after every failed attempt
+    multiplier: number;
+    maxAttempts: number;
+}
+
+export interface ICharacteristicMonitor {
+    deviceId: string;
+    serviceUUID: string;
+    characteristicUUID: string;
+    // False while the link is down; the monitor is re-attached after reconnecting
+    isActive: boolean;
+    error: string;
+    // Screens sharing the monitor. The transport subscription is removed when the last one stops.
+    subscriberCount: number;
+}
+
+// Last notified value of a monitor, kept apart from the connections so a notification leaves them untouched
+export interface ICharacteristicValue {
+    // Base64 encoded
+    value: string | null;
+    receivedAt: number;
+}
+
+export const monitorKey = (deviceId: string, serviceUUID: string, characteristicUUID: string) =>
+    `${deviceId}/${serviceUUID.toLowerCase()}/${characteristicUUID.toLowerCase()}`;
+
+export interface characteristicParams {
+    deviceId: string;
+    serviceUUID: string;
+    characteristicUUID: string;
+    // Lets `cancelGattOperation` stop the read or write, generated by the queue when omitted
+    transactionId?: string;
+    priority?: GattPriority;
+}
+
+// A characteristic addressed by its profile name in `bleServices`, so thunk arguments stay serializable
+export interface profileCharacteristicParams {
+    deviceId: string;
+    service: ServiceName;
+    characteristic: string;
+    transactionId?: string;
+    priority?: GattPriority;
+}
+
+// Encoded with the characteristic's codec before writing
+export interface profileWriteParams extends profileCharacteristicParams {
+    value: unknown;
+}
+
+export interface IScannedDevice extends IBLEDevice {
+    firstSeen: number;
+    lastSeen: number;
+    advertisementCount: number;
 }
 
 export interface IDeviceScan {
-    devices: Array<IBLEDevice | null>;
+    devices: Array<IScannedDevice>;
     status: NetworkState;
     error: string;
 }
 
+export type ScanNameMatchMode = 'prefix' | 'regex';
+
+export interface IScanFilter {
+    // Ignore every other criterion and report every advertisement
+    showAllDevices: boolean;
+    nameMatchMode: ScanNameMatchMode;
+    // Empty pattern matches any name
+    namePattern: string;
+    // Device must advertise at least one of these. Empty matches any.
+    serviceUUIDs: Array<string>;
+    // Bluetooth SIG company identifier from the first two bytes of the manufacturer data
+    manufacturerCompanyId: number | null;
+    minRssi: number | null;
+}
+
+export interface IScanListOptions {
+    // Drop devices not heard from for this long while scanning. 0 keeps them forever.
+    deviceTtlMs: number;
+    // Sort by RSSI bucket and first-seen time so rows do not swap on every advertisement
+    stableOrdering: boolean;
+}
+
+export interface scanBleDevicesParams {
+    filter?: IScanFilter;
+    // Stop scanning after this long. 0 scans until stopped.
+    timeoutMs?: number;
+}
+
 export interface connectDeviceByIdParams {
     id: string
+    // Gives up after the GATT queue's connect timeout (30 s) when omitted
+    timeoutMs?: number
+}
+
+export interface writeCharacteristicParams extends characteristicParams {
+    // Base64 encoded payload
+    value: string;
+    withResponse: boolean;
+}
+
+export interface requestMtuParams {
+    deviceId: string;
+    // Up to 517, the peripheral may settle on less
+    mtu: number;
+}
+
+export interface readRssiParams {
+    deviceId: string;
+}
+
+export interface deviceIdParams {
+    id: string
 }
 
 export type IAdapterState =
@@ -83,10 +223,33 @@ export type IAdapterState =
      */
     | 'PoweredOn';
 
+export interface IBlePermissions {
+    // What this platform and OS version needs, see `requiredBlePermissions`
+    required: Array<BlePermission>;
+    statuses: BlePermissionStatuses;
+    // Last check or request
+    status: NetworkState;
+}
+
+/**
+ * Whether BLE can be used at all, combining permissions and the adapter state:
+ * - missingPermissions: can be requested from the app
+ * - blocked: denied for good, only the system settings can change it
+ */
+export type BleReadiness = 'unknown' | 'ready' | 'missingPermissions' | 'blocked' | 'bluetoothOff' | 'unsupported';
+
 export interface bleSliceInterface {
     adapterState: IAdapterState;
-    deviceConnectionState: IDeviceConnectionState;
     deviceScan: IDeviceScan;
-    locationPermission: Location.LocationPermissionResponse['status'] | null;
-    connectedDevice: IBLEDevice | null;
+    scanFilter: IScanFilter;
+    scanTimeoutMs: number;
+    scanListOptions: IScanListOptions;
+    reconnectPolicy: IReconnectPolicy;
+    permissions: IBlePermissions;
+    // Kept in sync with `adapterState` and `permissions`
+    readiness: BleReadiness;
+    // Keyed by device id
+    connections: { [deviceId: string]: IDeviceConnection };
+    // Keyed by monitor key, removed with the monitor
+    monitorValues: { [monitorKey: string]: ICharacteristicValue };
 }
@@ -0,0 +1,270 @@
+import bleServices from '../../constants/bleServices';
+import { MemoryBleTransport } from '../../services/ble';
+import { encodeFloat32LE } from '../../services/ble/simulator';
+import { AppStore, createAppStore, createAppTransport } from '../store';
+import {
+    cancelReconnect,
+    connectDeviceById,
+    disconnectDevice,
+    handleDeviceDisconnected,
+    scanBleDevices,
+    selectCharacteristicMonitor,
+    selectCharacteristicValue,
+    setAdapterState,
+    setReconnectPolicy,
+    startCharacteristicMonitor,
+    stopCharacteristicMonitor,
+} from './bleSlice';
+import { IGattService, NetworkState, toBLEDeviceVM } from './bleSlice.contracts';
+
+const SCALE_ID = 'AA:BB:CC:DD:EE:01';
+const { sample } = bleServices;
+
+const loadCells = {
+    deviceId: SCALE_ID,
+    serviceUUID: sample.uuid,
+    characteristicUUID: sample.characteristics.loadCells.uuid,
+};
+
+const scaleServices: Array<IGattService> = [{
+    uuid: sample.uuid,
+    characteristics: [{
+        uuid: sample.characteristics.loadCells.uuid,
+        serviceUUID: sample.uuid,
+        isReadable: true,
+        isWritableWithResponse: false,
+        isWritableWithoutResponse: false,
+        isNotifiable: true,
+        isIndicatable: false,
+        descriptors: [],
+    }],
+}];
+
+// Polls instead of sleeping a fixed time, the queue and the listeners settle on their own schedule
+const waitFor = async (condition: () => boolean, timeoutMs = 2000) => {
+    const giveUpAt = Date.now() + timeoutMs;
+    while (!condition()) {
+        if (Date.now() > giveUpAt) throw new Error('Condition not met in time');
+        await new Promise(resolve => setTimeout(resolve, 5));
+    }
+};
+
+// A store on an in-memory radio with one scale in range. Dropped links reach the store the way BLEManager passes them on.
+const createTestStore = () => {
+    const radio = new MemoryBleTransport();
+    radio.addPeripheral(toBLEDeviceVM({ id: SCALE_ID, name: 'BLE_SERVER', mtu: 23, rssi: -50, serviceUUIDs: [sample.uuid] }), scaleServices);
+    const store = createAppStore(createAppTransport(radio));
+    radio.onDisconnected(SCALE_ID, (error, deviceId) => {
+        store.dispatch(handleDeviceDisconnected({ id: deviceId, error: error?.message ?? null }));
+    });
+    const connection = () => store.getState().ble.connections[SCALE_ID];
+    const monitor = () => selectCharacteristicMonitor(loadCells.deviceId, loadCells.serviceUUID, loadCells.characteristicUUID)(store.getState());
+    const received = () => selectCharacteristicValue(loadCells.deviceId, loadCells.serviceUUID, loadCells.characteristicUUID)(store.getState());
+    return { radio, store, connection, monitor, received };
+};
+
+let tests: Array<{ radio: MemoryBleTransport, store: AppStore }> = [];
+
+const setup = () => {
+    const test = createTestStore();
+    tests.push(test);
+    return test;
+};
+
+// Closes every link so the reconnect loops of a test stop, and cancels the RSSI polls and the queue's timers
+afterEach(() => {
+    tests.forEach(({ radio, store }) => {
+        radio.setAdapterState('PoweredOff');
+        store.dispose();
+    });
+    tests = [];
+});
+
+describe('scanning', () => {
+    it('cleans up when the adapter refuses to start the scan', async () => {
+        const { store, radio } = setup();
+        store.dispatch(setAdapterState({ adapterState: 'PoweredOn' }));
+        jest.spyOn(radio, 'startScan').mockImplementation(() => {
+            throw new Error('Scan already in progress');
+        });
+        const stopScan = jest.spyOn(radio, 'stopScan');
+
+        await expect(store.dispatch(scanBleDevices({ timeoutMs: 0 })).unwrap()).rejects.toMatchObject({ message: 'Scan already in progress' });
+        expect(store.getState().ble.deviceScan.status).toBe(NetworkState.ERROR);
+        expect(stopScan).toHaveBeenCalled();
+    });
+});
+
+describe('connecting', () => {
+    it('connects and discovers the services', async () => {
+        const { store, connection } = setup();
+        await store.dispatch(connectDeviceById({ id: SCALE_ID })).unwrap();
+
+        expect(connection().status).toBe(NetworkState.SUCCESS);
+        expect(connection().services.map(service => service.uuid)).toEqual([sample.uuid]);
+        expect(connection().device.serviceUUIDs).toEqual([sample.uuid]);
+    });
+
+    it('keeps the error when connecting fails', async () => {
+        const { store, radio, connection } = setup();
+        radio.injectError(SCALE_ID, 'connect', new Error('Peripheral busy'));
+
+        await expect(store.dispatch(connectDeviceById({ id: SCALE_ID })).unwrap()).rejects.toMatchObject({ message: 'Peripheral busy' });
+        expect(connection().status).toBe(NetworkState.ERROR);
+        expect(connection().error).toBe('Peripheral busy');
+    });
+
+    it('does not connect twice while a link is up', async () => {
+        const { store } = setup();
+        await store.dispatch(connectDeviceById({ id: SCALE_ID })).unwrap();
+
+        const second = await store.dispatch(connectDeviceById({ id: SCALE_ID }));
+        expect(connectDeviceById.rejected.match(second) && second.meta.condition).toBe(true);
+    });
+});
+
+describe('disconnecting', () => {
+    it('closes the connection and its monitors', async () => {
+        const { store, radio, connection } = setup();
+        await store.dispatch(connectDeviceById({ id: SCALE_ID })).unwrap();
+        await store.dispatch(startCharacteristicMonitor(loadCells));
+
+        await store.dispatch(disconnectDevice({ id: SCALE_ID })).unwrap();
+
+        expect(connection().status).toBe(NetworkState.CANCELED);
+        expect(connection().monitors).toEqual({});
+        expect(await radio.isConnected(SCALE_ID)).toBe(false);
+    });
+
+    it('clears the connection when the link drops and reconnecting is off', async () => {
+        const { store, radio, connection } = setup();
+        await store.dispatch(connectDeviceById({ id: SCALE_ID })).unwrap();
+
+        radio.dropConnection(SCALE_ID, new Error('Out of range'));
+
+        await waitFor(() => connection().status === NetworkState.CANCELED);
+        expect(connection().error).toBe('Out of range');
+    });
+});
+
+describe('reconnecting', () => {
+    const fastPolicy = { enabled: true, initialDelayMs: 10, maxDelayMs: 10, multiplier: 1, maxAttempts: 3 };
+
+    it('reconnects and restores the monitors', async () => {
+        const { store, radio, connection, monitor, received } = setup();
+        store.dispatch(setReconnectPolicy({ policy: fastPolicy }));
+        await store.dispatch(connectDeviceById({ id: SCALE_ID })).unwrap();
+        await store.dispatch(startCharacteristicMonitor(loadCells));
+
+        radio.dropConnection(SCALE_ID, new Error('Out of range'));
+        await waitFor(() => connection().status === NetworkState.RECONNECTING);
+        expect(monitor()?.isActive).toBe(false);
+
+        await waitFor(() => connection().status === NetworkState.SUCCESS);
+        radio.setCharacteristicValue(SCALE_ID, loadCells.serviceUUID, loadCells.characteristicUUID, encodeFloat32LE(1.5));
+        expect(received()?.value).toBe(encodeFloat32LE(1.5));
+        expect(monitor()?.isActive).toBe(true);
+    });
+
+    it('disconnects while reconnecting', async () => {
+        const { store, radio, connection } = setup();
+        store.dispatch(setReconnectPolicy({ policy: { ...fastPolicy, initialDelayMs: 200, maxDelayMs: 200 } }));
+        await store.dispatch(connectDeviceById({ id: SCALE_ID })).unwrap();
+
+        radio.dropConnection(SCALE_ID, new Error('Out of range'));
+        await waitFor(() => connection().status === NetworkState.RECONNECTING);
+        await store.dispatch(disconnectDevice({ id: SCALE_ID })).unwrap();
+
+        await new Promise(resolve => setTimeout(resolve, 300));
+        expect(connection().status).toBe(NetworkState.CANCELED);
+        expect(connection().error).toBe('');
+        expect(await radio.isConnected(SCALE_ID)).toBe(false);
+    });
+
+    it('gives up after the last attempt', async () => {
+        const { store, radio, connection } = setup();
+        store.dispatch(setReconnectPolicy({ policy: fastPolicy }));
+        await store.dispatch(connectDeviceById({ id: SCALE_ID })).unwrap();
+
+        radio.injectError(SCALE_ID, 'connect', new Error('Not found'), true);
+        radio.dropConnection(SCALE_ID, new Error('Out of range'));
+
+        await waitFor(() => connection().status === NetworkState.ERROR);
+        expect(connection().error).toBe('Gave up after 3 attempts: Not found');
+    });
+
+    it('stops when the reconnect is canceled', async () => {
+        const { store, radio, connection } = setup();
+        store.dispatch(setReconnectPolicy({ policy: { ...fastPolicy, initialDelayMs: 200, maxDelayMs: 200 } }));
+        await store.dispatch(connectDeviceById({ id: SCALE_ID })).unwrap();
+
+        radio.dropConnection(SCALE_ID, new Error('Out of range'));
+        await waitFor(() => connection().status === NetworkState.RECONNECTING);
+        store.dispatch(cancelReconnect({ id: SCALE_ID }));
+
+        await new Promise(resolve => setTimeout(resolve, 300));
+        expect(connection().status).toBe(NetworkState.CANCELED);
+        expect(await radio.isConnected(SCALE_ID)).toBe(false);
+    });
+});
+
+describe('monitors', () => {
+    it('routes notifications into the store', async () => {
+        const { store, radio, received } = setup();
+        await store.dispatch(connectDeviceById({ id: SCALE_ID })).unwrap();
+        await store.dispatch(startCharacteristicMonitor(loadCells));
+
+        radio.setCharacteristicValue(SCALE_ID, loadCells.serviceUUID, loadCells.characteristicUUID, encodeFloat32LE(0.25));
+
+        expect(received()?.value).toBe(encodeFloat32LE(0.25));
+        expect(received()?.receivedAt).not.toBeNull();
+    });
+
+    it('leaves the connections alone once values arrive', async () => {
+        const { store, radio } = setup();
+        await store.dispatch(connectDeviceById({ id: SCALE_ID })).unwrap();
+        await store.dispatch(startCharacteristicMonitor(loadCells));
+        radio.setCharacteristicValue(SCALE_ID, loadCells.serviceUUID, loadCells.characteristicUUID, encodeFloat32LE(1));
+        const connections = store.getState().ble.connections;
+
+        radio.setCharacteristicValue(SCALE_ID, loadCells.serviceUUID, loadCells.characteristicUUID, encodeFloat32LE(2));
+
+        expect(store.getState().ble.connections).toBe(connections);
+    });
+
+    it('is shared until the last subscriber stops', async () => {
+        const { store, radio, monitor, received } = setup();
+        await store.dispatch(connectDeviceById({ id: SCALE_ID })).unwrap();
+        await store.dispatch(startCharacteristicMonitor(loadCells));
+        await store.dispatch(startCharacteristicMonitor(loadCells));
+        expect(monitor()?.subscriberCount).toBe(2);
+
+        await store.dispatch(stopCharacteristicMonitor(loadCells));
+        radio.setCharacteristicValue(SCALE_ID, loadCells.serviceUUID, loadCells.characteristicUUID, encodeFloat32LE(2));
+        expect(monitor()?.subscriberCount).toBe(1);
+        expect(received()?.value).toBe(encodeFloat32LE(2));
+
+        await store.dispatch(stopCharacteristicMonitor(loadCells));
+        expect(monitor()).toBeUndefined();
+        expect(received()).toBeUndefined();
+    });
+
+    it('reports a failed monitor', async () => {
+        const { store, radio, monitor } = setup();
+        await store.dispatch(connectDeviceById({ id: SCALE_ID })).unwrap();
+        radio.injectError(SCALE_ID, 'monitor', new Error('Notifications not supported'));
+
+        await store.dispatch(startCharacteristicMonitor(loadCells));
+
+        await waitFor(() => monitor()?.isActive === false);
+        expect(monitor()?.error).toBe('Notifications not supported');
+    });
+
+    it('is not started without a connection', async () => {
+        const { store, monitor } = setup();
+        const result = await store.dispatch(startCharacteristicMonitor(loadCells));
+
+        expect(startCharacteristicMonitor.rejected.match(result) && result.meta.condition).toBe(true);
+        expect(monitor()).toBeUndefined();
+    });
+});
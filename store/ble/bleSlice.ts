@@ -1,73 +1,396 @@
-import { createAsyncThunk, createSlice } from '@reduxjs/toolkit';
-import { BleManager, Device } from 'react-native-ble-plx';
-import { RootState } from '../store';
-import { bleSliceInterface, connectDeviceByIdParams, NetworkState, toBLEDeviceVM } from './bleSlice.contracts';
+import { createAsyncThunk, createSelector, createSlice } from '@reduxjs/toolkit';
+import { AppDispatch, AppThunkConfig, RootState, ThunkExtra } from '../store';
+import { BleTransport, TransportSubscription } from '../../services/ble';
+import { BlePermission, BlePermissionStatuses, checkBlePermissions, requestBlePermissions, requiredBlePermissions } from '../../services/permissions';
+import {
+    BleReadiness,
+    bleSliceInterface,
+    characteristicParams,
+    connectDeviceByIdParams,
+    deviceIdParams,
+    IBLEDevice,
+    IDeviceConnection,
+    IGattService,
+    IReconnectPolicy,
+    monitorKey,
+    NetworkState,
+    readRssiParams,
+    requestMtuParams,
+    scanBleDevicesParams,
+    toBLEDeviceVM,
+    writeCharacteristicParams,
+} from './bleSlice.contracts';
+import { defaultScanFilter, matchesScanFilter, nativeScanServiceUUIDs } from './scanFilter';
+import { removeTransportSubscription, transportSubscriptions } from './bleSubscriptions';
+import { compareScannedDevices, defaultScanListOptions, isStale, toScannedDevice } from './scannedDevices';
+import { errorMessage } from '../../utils/errors';
 
-const bleManager = new BleManager();
-let device: Device;
+// Finishes the scan currently running on a transport, so `stopDeviceScan` can settle `scanBleDevices`
+const activeScans = new Map<BleTransport, () => void>();
 
-const stopScan = () => {
-    console.log('Stopping scan');
-    bleManager.stopDeviceScan();
+const DEVICE_AGEING_INTERVAL_MS = 1000;
+const RECONNECT_CANCEL_POLL_MS = 250;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const readinessMessages: { [readiness in BleReadiness]: string } = {
+    unknown: 'Waiting for Bluetooth',
+    ready: 'Ready',
+    missingPermissions: 'Bluetooth permissions are needed to find and connect to the scale',
+    blocked: 'Bluetooth access was denied. Allow it in the system settings to find and connect to the scale',
+    bluetoothOff: 'Bluetooth is turned off',
+    unsupported: 'This device does not support Bluetooth Low Energy',
+};
+
+// Reads the permission statuses without prompting
+export const checkPermissions = createAsyncThunk<BlePermissionStatuses, void, AppThunkConfig>('ble/checkPermissions', async () => {
+    try {
+        return await checkBlePermissions();
+    } catch (error: any) {
+        throw new Error(errorMessage(error));
+    }
+});
+
+// Prompts for the missing permissions, denied ones resolve as `denied` or `blocked` rather than rejecting
+export const requestPermissions = createAsyncThunk<BlePermissionStatuses, void, AppThunkConfig>('ble/requestPermissions', async () => {
+    try {
+        return await requestBlePermissions();
+    } catch (error: any) {
+        throw new Error(errorMessage(error));
+    }
+});
+
+/**
+ * Scans until `stopDeviceScan` is dispatched or `timeoutMs` (default `state.ble.scanTimeoutMs`, 0 for no
+ * timeout) elapses. Resolves when the scan stops and rejects with the adapter's message if the scan fails.
+ */
+export const scanBleDevices = createAsyncThunk<void, scanBleDevicesParams | undefined, AppThunkConfig>('ble/scanBleDevices', async (params, thunkAPI) => {
+    const { readiness } = thunkAPI.getState().ble;
+    if (readiness !== 'ready') {
+        throw new Error(readinessMessages[readiness]);
+    }
+    const { bleTransport } = thunkAPI.extra;
+    const filter = params?.filter ?? thunkAPI.getState().ble.scanFilter;
+    const timeoutMs = params?.timeoutMs ?? thunkAPI.getState().ble.scanTimeoutMs;
+
+    return new Promise<void>((resolve, reject) => {
+        let timeout: ReturnType<typeof setTimeout> | null = null;
+        // Devices that stop advertising are only noticed while scanning, so age the list on an interval
+        const ageing = setInterval(() => thunkAPI.dispatch(evictStaleDevices({ now: Date.now() })), DEVICE_AGEING_INTERVAL_MS);
+        const settle = (error?: Error) => {
+            clearInterval(ageing);
+            if (timeout) clearTimeout(timeout);
+            activeScans.delete(bleTransport);
+            bleTransport.stopScan();
+            if (error) reject(error);
+            else resolve();
+        };
+
+        activeScans.set(bleTransport, () => settle());
+        if (timeoutMs > 0) {
+            timeout = setTimeout(() => settle(), timeoutMs);
+        }
+        try {
+            bleTransport.startScan(nativeScanServiceUUIDs(filter), null, (error, scannedDevice) => {
+                if (error) {
+                    settle(new Error(errorMessage(error)));
+                    return;
+                }
+                if (scannedDevice && matchesScanFilter(scannedDevice, filter)) {
+                    thunkAPI.dispatch(addScannedDevice({ device: scannedDevice, seenAt: Date.now() }));
+                }
+            });
+        } catch (error: any) {
+            // Some adapters throw right away instead of reporting through the listener
+            settle(new Error(errorMessage(error)));
+        }
+    });
+}, {
+    // Only one scan at a time: a second start is dropped instead of racing the first one's status
+    condition: (_, { getState }) => getState().ble.deviceScan.status !== NetworkState.LOADING,
+});
+
+export const stopDeviceScan = createAsyncThunk<void, void, AppThunkConfig>('ble/stopDeviceScan', async (_, thunkAPI) => {
+    const { bleTransport } = thunkAPI.extra;
+    const finishScan = activeScans.get(bleTransport);
+    if (finishScan) finishScan();
+    else bleTransport.stopScan();
+});
+
+// Connect and discover every service and characteristic of the device
+const connectAndDiscover = async (bleTransport: BleTransport, id: string, timeoutMs?: number) => {
+    const device = await bleTransport.connect(id, { timeoutMs });
+    const services = await bleTransport.discover(id);
+    return { device: { ...device, serviceUUIDs: services.map(service => service.uuid) }, services };
+};
+
+export const connectDeviceById = createAsyncThunk<{ device: IBLEDevice, services: Array<IGattService> }, connectDeviceByIdParams, AppThunkConfig>('ble/connectDeviceById', async (params, thunkAPI) => {
+    const { id, timeoutMs } = params;
+    const { bleTransport } = thunkAPI.extra;
+
+    try {
+        thunkAPI.dispatch(stopDeviceScan());
+        return await connectAndDiscover(bleTransport, id, timeoutMs);
+    } catch (error: any) {
+        throw new Error(errorMessage(error));
+    }
+}, {
+    condition: ({ id }, { getState }) => !isLinkUp(getState().ble.connections[id]),
+});
+
+export const disconnectDevice = createAsyncThunk<{ isSuccess: boolean }, deviceIdParams, AppThunkConfig>('ble/disconnectDevice', async (params, thunkAPI) => {
+    const { bleTransport } = thunkAPI.extra;
+    const connection = thunkAPI.getState().ble.connections[params.id];
+    if (connection) {
+        removeDeviceMonitorSubscriptions(bleTransport, connection);
+        const isDeviceConnected = await bleTransport.isConnected(params.id);
+        if (isDeviceConnected) {
+            await bleTransport.disconnect(params.id);
+        }
+        // A link that is already down, e.g. while reconnecting, only has its connection closed. Leaving RECONNECTING
+        // stops the reconnect loop, which drops a link it re-established in the meantime.
+        return { isSuccess: true }
+    }
+    else {
+        throw new Error('Device is undefined.')
+    }
+});
+
+const removeDeviceMonitorSubscriptions = (bleTransport: BleTransport, connection: IDeviceConnection) => {
+    Object.keys(connection.monitors).forEach(key => removeTransportSubscription(bleTransport, key));
 };
 
-export const scanBleDevices = createAsyncThunk('ble/scanBleDevices', async (_, thunkAPI) => {
+// Attach the transport monitor for a characteristic and route its notifications into the store. Resolves once
+// notifications are on; a failed setup is marked on the monitor and rethrown.
+const attachMonitor = async (params: characteristicParams, thunkAPI: { dispatch: AppDispatch, extra: ThunkExtra }) => {
+    const { deviceId, serviceUUID, characteristicUUID } = params;
+    const { bleTransport } = thunkAPI.extra;
+    const key = monitorKey(deviceId, serviceUUID, characteristicUUID);
+    removeTransportSubscription(bleTransport, key);
+    let subscription: TransportSubscription | null = null;
+    let isRemoved = false;
+    // Stands in for the transport subscription while the notifications are being turned on
+    transportSubscriptions(bleTransport).set(key, {
+        remove: () => {
+            isRemoved = true;
+            subscription?.remove();
+        },
+    });
     try {
-        bleManager.startDeviceScan(null, null, async (error, scannedDevice) => {
+        subscription = await bleTransport.startMonitor(deviceId, serviceUUID, characteristicUUID, (error, value) => {
             if (error) {
-                console.log('startDeviceScan error: ', error);
-                throw new Error(error.toString());
+                removeTransportSubscription(bleTransport, key);
+                thunkAPI.dispatch(characteristicMonitorFailed({ ...params, error: errorMessage(error) }));
             }
-            if (scannedDevice && scannedDevice.name?.includes('BLE_SERVER')) {
-                thunkAPI.dispatch(addScannedDevice({ device: toBLEDeviceVM(scannedDevice) }));
+            else {
+                thunkAPI.dispatch(characteristicValueReceived({ ...params, value, receivedAt: Date.now() }));
             }
         });
+        if (isRemoved) subscription.remove();
     } catch (error: any) {
-        throw new Error(error.toString);
+        if (isRemoved) return;
+        removeTransportSubscription(bleTransport, key);
+        thunkAPI.dispatch(characteristicMonitorFailed({ ...params, error: errorMessage(error) }));
+        throw error;
     }
+};
+
+// Monitors are shared: only the first subscriber attaches the transport monitor and waits for the notifications to start
+export const startCharacteristicMonitor = createAsyncThunk<void, characteristicParams, AppThunkConfig>('ble/startCharacteristicMonitor', async (params, thunkAPI) => {
+    const { deviceId, serviceUUID, characteristicUUID } = params;
+    const key = monitorKey(deviceId, serviceUUID, characteristicUUID);
+    if (transportSubscriptions(thunkAPI.extra.bleTransport).has(key)) return;
+    try {
+        await attachMonitor(params, thunkAPI);
+    } catch (error: any) {
+        throw new Error(errorMessage(error));
+    }
+}, {
+    condition: ({ deviceId }, { getState }) => !!getState().ble.connections[deviceId],
 });
 
-export const connectDeviceById = createAsyncThunk('ble/connectDeviceById', async (params: connectDeviceByIdParams, thunkAPI) => {
-    const { id } = params;
+// Detaches the transport monitor once the last subscriber has stopped
+export const stopCharacteristicMonitor = createAsyncThunk<void, characteristicParams, AppThunkConfig>('ble/stopCharacteristicMonitor', async (params, thunkAPI) => {
+    const { deviceId, serviceUUID, characteristicUUID } = params;
+    if (!selectCharacteristicMonitor(deviceId, serviceUUID, characteristicUUID)(thunkAPI.getState())) {
+        removeTransportSubscription(thunkAPI.extra.bleTransport, monitorKey(deviceId, serviceUUID, characteristicUUID));
+    }
+});
 
+// Returns the base64 encoded value. Use `readCharacteristic` for characteristics with a profile in `bleServices`.
+export const readRawCharacteristic = createAsyncThunk<string | null, characteristicParams, AppThunkConfig>('ble/readRawCharacteristic', async (params, thunkAPI) => {
+    const { deviceId, serviceUUID, characteristicUUID, transactionId, priority } = params;
     try {
-        stopScan();
-        device = await bleManager.connectToDevice(id);
-        const deviceChars = await bleManager.discoverAllServicesAndCharacteristicsForDevice(id);
-        const services = await deviceChars.services();
-        const serviceUUIDs = services.map(service => service.uuid);
-        return toBLEDeviceVM({ ...device, serviceUUIDs });
+        return await thunkAPI.extra.bleTransport.read(deviceId, serviceUUID, characteristicUUID, { transactionId, priority });
     } catch (error: any) {
-        throw new Error(error.toString);
+        throw new Error(errorMessage(error));
     }
 });
 
-export const disconnectDevice = createAsyncThunk('ble/disconnectDevice', async (_, thunkAPI) => {
-    console.log('Disconnecting')
-    if (device) {
-        const isDeviceConnected = await device.isConnected();
-        if (isDeviceConnected) {
-            console.log('Disconnecting device');
-            await device.cancelConnection();
-            return { isSuccess: true }
+// Writes a base64 encoded value. Use `writeCharacteristicWithResponse` or `writeCharacteristicWithoutResponse` for characteristics with a profile in `bleServices`.
+export const writeRawCharacteristic = createAsyncThunk<void, writeCharacteristicParams, AppThunkConfig>('ble/writeRawCharacteristic', async (params, thunkAPI) => {
+    const { deviceId, serviceUUID, characteristicUUID, value, withResponse, transactionId, priority } = params;
+    try {
+        await thunkAPI.extra.bleTransport.write(deviceId, serviceUUID, characteristicUUID, value, withResponse, { transactionId, priority });
+    } catch (error: any) {
+        throw new Error(errorMessage(error));
+    }
+});
+
+// Resolves with the device and its current RSSI in dBm. Also refreshes the connection's MTU, which the central may renegotiate on its own.
+export const readRssi = createAsyncThunk<IBLEDevice, readRssiParams, AppThunkConfig>('ble/readRssi', async (params, thunkAPI) => {
+    try {
+        // Polled in the background, so it goes after everything else
+        return await thunkAPI.extra.bleTransport.readRSSI(params.deviceId, { priority: 'low' });
+    } catch (error: any) {
+        throw new Error(errorMessage(error));
+    }
+});
+
+// Resolves with the negotiated MTU, which is also stored on the connection
+export const requestMtu = createAsyncThunk<number, requestMtuParams, AppThunkConfig>('ble/requestMtu', async (params, thunkAPI) => {
+    const { deviceId, mtu } = params;
+    try {
+        return await thunkAPI.extra.bleTransport.requestMTU(deviceId, mtu);
+    } catch (error: any) {
+        throw new Error(errorMessage(error));
+    }
+});
+
+// Re-attach every monitor registered for the device, e.g. after the link was re-established
+export const restoreCharacteristicMonitors = createAsyncThunk<void, { deviceId: string }, AppThunkConfig>('ble/restoreCharacteristicMonitors', async (params, thunkAPI) => {
+    const connection = thunkAPI.getState().ble.connections[params.deviceId];
+    if (!connection) return;
+    // A monitor that fails is marked on its own, the others still come back
+    await Promise.all(Object.values(connection.monitors).map(monitor => attachMonitor(monitor, thunkAPI).catch(() => undefined)));
+});
+
+const reconnectDelay = (policy: IReconnectPolicy, attempt: number) =>
+    Math.min(policy.maxDelayMs, policy.initialDelayMs * Math.pow(policy.multiplier, attempt - 1));
+
+/**
+ * Retries the connection with exponential backoff until it succeeds, `maxAttempts` is reached or
+ * `cancelReconnect` moves the device out of RECONNECTING. Restores the device's monitors before it succeeds.
+ */
+export const reconnectDevice = createAsyncThunk<{ device: IBLEDevice, services: Array<IGattService> }, deviceIdParams, AppThunkConfig>('ble/reconnectDevice', async (params, thunkAPI) => {
+    const { id } = params;
+    const { bleTransport } = thunkAPI.extra;
+    const policy = thunkAPI.getState().ble.reconnectPolicy;
+    const isCanceled = () => thunkAPI.getState().ble.connections[id]?.status !== NetworkState.RECONNECTING;
+    let lastError = '';
+
+    for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+        const delay = reconnectDelay(policy, attempt);
+        thunkAPI.dispatch(reconnectAttemptScheduled({ id, attempt, nextReconnectAt: Date.now() + delay }));
+        // Sleep in short steps so a cancel takes effect without waiting out the whole backoff
+        const wakeAt = Date.now() + delay;
+        while (Date.now() < wakeAt && !isCanceled()) {
+            await sleep(Math.min(RECONNECT_CANCEL_POLL_MS, wakeAt - Date.now()));
         }
-        else {
-            throw new Error('No device connected');
+        if (isCanceled()) throw new Error(NetworkState.CANCELED);
+
+        try {
+            const result = await connectAndDiscover(bleTransport, id);
+            if (isCanceled()) {
+                await bleTransport.disconnect(id);
+                throw new Error(NetworkState.CANCELED);
+            }
+            await thunkAPI.dispatch(restoreCharacteristicMonitors({ deviceId: id }));
+            return result;
+        } catch (error: any) {
+            if (error?.message === NetworkState.CANCELED) throw error;
+            lastError = errorMessage(error);
         }
     }
-    else {
-        throw new Error('Device is undefined.')
+    throw new Error(`Gave up after ${policy.maxAttempts} attempts: ${lastError}`);
+});
+
+/**
+ * Called when the transport reports a dropped link. Ignored for user initiated disconnects; otherwise
+ * starts reconnecting when the policy is enabled, or clears the connection. Returns the action taken.
+ */
+export const handleDeviceDisconnected = createAsyncThunk<'ignored' | 'reconnecting' | 'disconnected', { id: string, error: string | null }, AppThunkConfig>('ble/handleDeviceDisconnected', async (params, thunkAPI) => {
+    const { ble } = thunkAPI.getState();
+    const connection = ble.connections[params.id];
+    if (connection?.status !== NetworkState.SUCCESS) {
+        return 'ignored';
     }
+    removeDeviceMonitorSubscriptions(thunkAPI.extra.bleTransport, connection);
+    if (ble.reconnectPolicy.enabled) {
+        thunkAPI.dispatch(connectionLost({ id: params.id, error: params.error }));
+        thunkAPI.dispatch(reconnectDevice({ id: params.id }));
+        return 'reconnecting';
+    }
+    thunkAPI.dispatch(deviceDisconnected({ id: params.id, error: params.error }));
+    return 'disconnected';
 });
 
 const initialState: bleSliceInterface = {
     adapterState: 'Unknown',
-    deviceConnectionState: { status: NetworkState.PENDING, error: '' },
     deviceScan: { devices: [], status: NetworkState.PENDING, error: '' },
-    locationPermission: null,
-    connectedDevice: null,
+    scanFilter: defaultScanFilter,
+    scanTimeoutMs: 15000,
+    scanListOptions: defaultScanListOptions,
+    reconnectPolicy: { enabled: false, initialDelayMs: 1000, maxDelayMs: 30000, multiplier: 2, maxAttempts: 8 },
+    permissions: { required: requiredBlePermissions(), statuses: {}, status: NetworkState.PENDING },
+    readiness: 'unknown',
+    connections: {},
+    monitorValues: {},
+};
+
+// iOS reports its Bluetooth authorization through the adapter state, there is nothing to check up front
+const bleReadiness = (state: bleSliceInterface): BleReadiness => {
+    const { adapterState, permissions } = state;
+    const statuses = permissions.required.map(permission =>
+        permission === 'bluetooth' ? (adapterState === 'Unauthorized' ? 'blocked' : 'granted') : permissions.statuses[permission]);
+    if (statuses.includes('blocked')) return 'blocked';
+    if (statuses.some(status => status !== 'granted')) return 'missingPermissions';
+    switch (adapterState) {
+        case 'PoweredOn': return 'ready';
+        case 'PoweredOff': return 'bluetoothOff';
+        case 'Unsupported': return 'unsupported';
+        case 'Unauthorized': return 'blocked';
+        default: return 'unknown';
+    }
 };
 
+// Connected, or expected to be again shortly
+const isLinkUp = (connection?: IDeviceConnection) =>
+    connection?.status === NetworkState.SUCCESS || connection?.status === NetworkState.RECONNECTING || connection?.status === NetworkState.LOADING;
+
+const newConnection = (device: IBLEDevice): IDeviceConnection => ({
+    device,
+    status: NetworkState.LOADING,
+    error: '',
+    mtu: device.mtu,
+    services: [],
+    monitors: {},
+    reconnectAttempt: 0,
+    nextReconnectAt: null,
+});
+
+// A link that went down for good keeps its status and error but none of its monitors
+const closeConnection = (state: bleSliceInterface, id: string, status: NetworkState, error: string) => {
+    const connection = state.connections[id];
+    if (!connection) return;
+    Object.keys(connection.monitors).forEach(key => delete state.monitorValues[key]);
+    connection.status = status;
+    connection.error = error;
+    connection.monitors = {};
+    connection.reconnectAttempt = 0;
+    connection.nextReconnectAt = null;
+};
+
+const setDeviceMonitorsInactive = (connection?: IDeviceConnection) => {
+    if (!connection) return;
+    Object.values(connection.monitors).forEach(monitor => {
+        monitor.isActive = false;
+    });
+};
+
+const findMonitor = (state: bleSliceInterface, params: characteristicParams) =>
+    state.connections[params.deviceId]?.monitors[monitorKey(params.deviceId, params.serviceUUID, params.characteristicUUID)];
+
 const bleSlice = createSlice({
     name: 'ble',
     initialState,
@@ -75,70 +398,234 @@ const bleSlice = createSlice({
         setAdapterState(state, action) {
             const { adapterState } = action.payload;
             state.adapterState = adapterState;
+            state.readiness = bleReadiness(state);
         },
-        setLocationPermissionStatus(state, action) {
-            const { status } = action.payload;
-            state.locationPermission = status;
+        addScannedDevice(state, action) {
+            const { device, seenAt } = action.payload;
+            const previous = state.deviceScan.devices.find(existingDevice => device.id === existingDevice.id);
+            const existingDevices = state.deviceScan.devices.filter(existingDevice =>
+                device.id !== existingDevice.id && !isStale(existingDevice, seenAt, state.scanListOptions));
+            const updatedDevices = [toScannedDevice(device, seenAt, previous), ...existingDevices];
+            state.deviceScan.devices = updatedDevices.sort(compareScannedDevices(state.scanListOptions));
         },
-        setConnectedDevice(state, action) {
-            const { device } = action.payload;
-            state.connectedDevice = device;
+        evictStaleDevices(state, action) {
+            const { now } = action.payload;
+            if (state.deviceScan.devices.some(device => isStale(device, now, state.scanListOptions))) {
+                state.deviceScan.devices = state.deviceScan.devices.filter(device => !isStale(device, now, state.scanListOptions));
+            }
         },
-        addScannedDevice(state, action) {
-            const { device } = action.payload;
-            const existingDevices = state.deviceScan.devices.filter(existingDevice => device.id !== existingDevice?.id);
-            const updatedDevices = [device, ...existingDevices];
-            const sorted = updatedDevices.sort((a, b) => {
-                a.rssi = a.rssi || -100;
-                b.rssi = b.rssi || -100;
-                return a.rssi > b.rssi ? -1 : b.rssi > a.rssi ? 1 : 0;
-            });
-            state.deviceScan.devices = sorted;
+        setScanListOptions(state, action) {
+            const { options } = action.payload;
+            state.scanListOptions = { ...state.scanListOptions, ...options };
+            state.deviceScan.devices.sort(compareScannedDevices(state.scanListOptions));
         },
         clearScannedDevices(state, action) {
-            state.deviceScan = { devices: [], status: NetworkState.PENDING, error: '' };
+            // Keeps the status so clearing the list does not end a running scan
+            state.deviceScan.devices = [];
+            state.deviceScan.error = '';
+        },
+        setScanFilter(state, action) {
+            const { filter } = action.payload;
+            state.scanFilter = { ...state.scanFilter, ...filter };
+        },
+        resetScanFilter(state) {
+            state.scanFilter = defaultScanFilter;
+        },
+        setScanTimeout(state, action) {
+            const { timeoutMs } = action.payload;
+            state.scanTimeoutMs = timeoutMs;
+        },
+        setReconnectPolicy(state, action) {
+            const { policy } = action.payload;
+            state.reconnectPolicy = { ...state.reconnectPolicy, ...policy };
+        },
+        connectionLost(state, action) {
+            const { id, error } = action.payload;
+            const connection = state.connections[id];
+            if (!connection) return;
+            connection.status = NetworkState.RECONNECTING;
+            connection.error = error ?? '';
+            setDeviceMonitorsInactive(connection);
+        },
+        reconnectAttemptScheduled(state, action) {
+            const { id, attempt, nextReconnectAt } = action.payload;
+            const connection = state.connections[id];
+            if (!connection) return;
+            connection.reconnectAttempt = attempt;
+            connection.nextReconnectAt = nextReconnectAt;
+        },
+        cancelReconnect(state, action) {
+            const { id } = action.payload;
+            if (state.connections[id]?.status !== NetworkState.RECONNECTING) return;
+            closeConnection(state, id, NetworkState.CANCELED, '');
         },
-        stopDeviceScan(state, action) {
-            bleManager.stopDeviceScan();
+        deviceDisconnected(state, action) {
+            const { id, error } = action.payload;
+            closeConnection(state, id, NetworkState.CANCELED, error ?? '');
+        },
+        // Drop a closed connection from the map
+        removeConnection(state, action) {
+            const { id } = action.payload;
+            if (!isLinkUp(state.connections[id])) delete state.connections[id];
+        },
+        characteristicValueReceived(state, action) {
+            const { deviceId, serviceUUID, characteristicUUID, value, receivedAt } = action.payload;
+            const monitor = findMonitor(state, action.payload);
+            if (!monitor) return;
+            state.monitorValues[monitorKey(deviceId, serviceUUID, characteristicUUID)] = { value, receivedAt };
+            // Only the first value after a (re)start touches the connection
+            if (!monitor.isActive || monitor.error) {
+                monitor.isActive = true;
+                monitor.error = '';
+            }
+        },
+        characteristicMonitorFailed(state, action) {
+            const { error } = action.payload;
+            const monitor = findMonitor(state, action.payload);
+            if (!monitor) return;
+            monitor.isActive = false;
+            monitor.error = error;
         },
     },
     extraReducers(builder) {
         builder
+            .addCase(checkPermissions.pending, (state) => {
+                state.permissions.status = NetworkState.LOADING;
+            })
+            .addCase(requestPermissions.pending, (state) => {
+                state.permissions.status = NetworkState.LOADING;
+            })
+            .addCase(checkPermissions.fulfilled, (state, action) => {
+                state.permissions.status = NetworkState.SUCCESS;
+                Object.entries(action.payload).forEach(([key, status]) => {
+                    const permission = key as BlePermission;
+                    const previous = state.permissions.statuses[permission];
+                    // A check cannot tell a denial from never asking, so it keeps what an earlier request found out
+                    if (status === 'undetermined' && (previous === 'denied' || previous === 'blocked')) return;
+                    state.permissions.statuses[permission] = status;
+                });
+                state.readiness = bleReadiness(state);
+            })
+            .addCase(requestPermissions.fulfilled, (state, action) => {
+                state.permissions.status = NetworkState.SUCCESS;
+                state.permissions.statuses = { ...state.permissions.statuses, ...action.payload };
+                state.readiness = bleReadiness(state);
+            })
+            .addCase(checkPermissions.rejected, (state) => {
+                state.permissions.status = NetworkState.ERROR;
+            })
+            .addCase(requestPermissions.rejected, (state) => {
+                state.permissions.status = NetworkState.ERROR;
+            })
+            .addCase(startCharacteristicMonitor.pending, (state, action) => {
+                const { deviceId, serviceUUID, characteristicUUID } = action.meta.arg;
+                const connection = state.connections[deviceId];
+                if (!connection) return;
+                const key = monitorKey(deviceId, serviceUUID, characteristicUUID);
+                const existing = connection.monitors[key];
+                if (existing) {
+                    existing.subscriberCount += 1;
+                    return;
+                }
+                connection.monitors[key] = {
+                    deviceId, serviceUUID, characteristicUUID,
+                    isActive: true,
+                    error: '',
+                    subscriberCount: 1,
+                };
+            })
+            .addCase(stopCharacteristicMonitor.pending, (state, action) => {
+                const { deviceId, serviceUUID, characteristicUUID } = action.meta.arg;
+                const key = monitorKey(deviceId, serviceUUID, characteristicUUID);
+                const monitor = state.connections[deviceId]?.monitors[key];
+                if (!monitor) return;
+                monitor.subscriberCount -= 1;
+                if (monitor.subscriberCount > 0) return;
+                delete state.connections[deviceId].monitors[key];
+                delete state.monitorValues[key];
+            })
+            .addCase(scanBleDevices.pending, (state, action) => {
+                state.deviceScan.status = NetworkState.LOADING;
+                state.deviceScan.error = '';
+            })
+            .addCase(scanBleDevices.fulfilled, (state, action) => {
+                state.deviceScan.status = NetworkState.SUCCESS;
+            })
+            .addCase(scanBleDevices.rejected, (state, action) => {
+                state.deviceScan.status = NetworkState.ERROR;
+                state.deviceScan.error = action.error.message ?? '';
+            })
             .addCase(connectDeviceById.pending, (state, action) => {
-                state.deviceConnectionState.status = NetworkState.LOADING;
-                state.deviceConnectionState.error = '';
+                const { id } = action.meta.arg;
+                const scanned = state.deviceScan.devices.find(device => device.id === id);
+                const known = state.connections[id]?.device;
+                state.connections[id] = newConnection(known ?? scanned ?? toBLEDeviceVM({ id, name: id }));
             })
-            .addCase(connectDeviceById.fulfilled, (state, action: any) => {
-                state.deviceConnectionState.status = NetworkState.SUCCESS;
-                const device = action.payload;
-                state.connectedDevice = device;
+            .addCase(connectDeviceById.fulfilled, (state, action) => {
+                const { device, services } = action.payload;
+                const connection = state.connections[device.id];
+                if (!connection) return;
+                connection.status = NetworkState.SUCCESS;
+                connection.device = device;
+                connection.mtu = device.mtu;
+                connection.services = services;
             })
             .addCase(connectDeviceById.rejected, (state, action) => {
+                const { id } = action.meta.arg;
                 if (action.error.message === NetworkState.CANCELED) {
-                    state.deviceConnectionState.status = NetworkState.CANCELED;
-                    state.deviceConnectionState.error = action.error.message;
+                    closeConnection(state, id, NetworkState.CANCELED, action.error.message);
                 } else {
-                    state.deviceConnectionState.status = NetworkState.ERROR;
-                    state.deviceConnectionState.error = action.error.message ?? '';
+                    closeConnection(state, id, NetworkState.ERROR, action.error.message ?? '');
+                }
+            })
+            .addCase(reconnectDevice.fulfilled, (state, action) => {
+                const { device, services } = action.payload;
+                const connection = state.connections[device.id];
+                if (!connection) return;
+                connection.status = NetworkState.SUCCESS;
+                connection.error = '';
+                connection.device = device;
+                connection.mtu = device.mtu;
+                connection.services = services;
+                connection.reconnectAttempt = 0;
+                connection.nextReconnectAt = null;
+            })
+            .addCase(reconnectDevice.rejected, (state, action) => {
+                if (action.error.message === NetworkState.CANCELED) return;
+                closeConnection(state, action.meta.arg.id, NetworkState.ERROR, action.error.message ?? '');
+            })
+            .addCase(requestMtu.fulfilled, (state, action) => {
+                const connection = state.connections[action.meta.arg.deviceId];
+                if (!connection) return;
+                connection.mtu = action.payload;
+                connection.device.mtu = action.payload;
+            })
+            .addCase(readRssi.fulfilled, (state, action) => {
+                const connection = state.connections[action.meta.arg.deviceId];
+                if (!connection) return;
+                const { rssi, mtu } = action.payload;
+                connection.device.rssi = rssi;
+                if (mtu) {
+                    connection.mtu = mtu;
+                    connection.device.mtu = mtu;
                 }
             })
             .addCase(disconnectDevice.pending, (state, action) => {
-                state.deviceConnectionState.status = NetworkState.LOADING;
-                state.deviceConnectionState.error = '';
+                const connection = state.connections[action.meta.arg.id];
+                if (!connection) return;
+                connection.status = NetworkState.LOADING;
+                connection.error = '';
             })
-            .addCase(disconnectDevice.fulfilled, (state, action: any) => {
-                state.deviceConnectionState.status = NetworkState.CANCELED;
-                state.connectedDevice = null;
+            .addCase(disconnectDevice.fulfilled, (state, action) => {
+                closeConnection(state, action.meta.arg.id, NetworkState.CANCELED, '');
             })
             .addCase(disconnectDevice.rejected, (state, action) => {
+                const { id } = action.meta.arg;
                 if (action.error.message === NetworkState.CANCELED) {
-                    state.deviceConnectionState.status = NetworkState.CANCELED;
-                    state.deviceConnectionState.error = action.error.message;
+                    closeConnection(state, id, NetworkState.CANCELED, action.error.message);
                 } else {
-                    state.deviceConnectionState.status = NetworkState.ERROR;
-                    state.deviceConnectionState.error = action.error.message ?? '';
+                    closeConnection(state, id, NetworkState.ERROR, action.error.message ?? '');
                 }
-                state.connectedDevice = null;
             })
         ;
     },
@@ -146,8 +633,43 @@ const bleSlice = createSlice({
 
 export default bleSlice.reducer;
 
-export const { setAdapterState, setLocationPermissionStatus, setConnectedDevice, addScannedDevice, clearScannedDevices, stopDeviceScan } = bleSlice.actions;
+export const {
+    setAdapterState, addScannedDevice, evictStaleDevices, setScanListOptions, clearScannedDevices,
+    setScanFilter, resetScanFilter, setScanTimeout, setReconnectPolicy, connectionLost, reconnectAttemptScheduled, cancelReconnect,
+    deviceDisconnected, removeConnection, characteristicValueReceived, characteristicMonitorFailed,
+} = bleSlice.actions;
 
 export const selectAdapterState = (state: RootState) => state.ble.adapterState;
-export const selectConnectedDevice = (state: RootState) => state.ble.connectedDevice;
 export const selectScannedDevices = (state: RootState) => state.ble.deviceScan;
+export const selectScanFilter = (state: RootState) => state.ble.scanFilter;
+export const selectScanTimeout = (state: RootState) => state.ble.scanTimeoutMs;
+export const selectScanListOptions = (state: RootState) => state.ble.scanListOptions;
+export const selectBleReadiness = (state: RootState) => state.ble.readiness;
+export const selectBlePermissions = (state: RootState) => state.ble.permissions;
+export const selectIsScanning = (state: RootState) => state.ble.deviceScan.status === NetworkState.LOADING;
+export const selectReconnectPolicy = (state: RootState) => state.ble.reconnectPolicy;
+
+// ===== Connections =====
+export const selectConnections = (state: RootState) => state.ble.connections;
+export const selectConnection = (id?: string | null) => (state: RootState) => id ? state.ble.connections[id] : undefined;
+export const selectConnectionStatus = (id?: string | null) => (state: RootState) => id ? state.ble.connections[id]?.status : undefined;
+// Connections that are up, or reconnecting and showing their last values
+export const selectActiveConnections = createSelector(selectConnections, connections =>
+    Object.values(connections).filter(connection =>
+        connection.status === NetworkState.SUCCESS || connection.status === NetworkState.RECONNECTING));
+export const selectConnectedDevices = createSelector(selectActiveConnections, connections =>
+    connections.map(connection => connection.device));
+// First active device, for screens that only deal with one device at a time
+export const selectConnectedDevice = (state: RootState) => selectConnectedDevices(state)[0] ?? null;
+export const selectConnectionSummary = createSelector(selectConnections, connections => {
+    const statuses = Object.values(connections).map(connection => connection.status);
+    return {
+        connected: statuses.filter(status => status === NetworkState.SUCCESS).length,
+        connecting: statuses.filter(status => status === NetworkState.LOADING).length,
+        reconnecting: statuses.filter(status => status === NetworkState.RECONNECTING).length,
+    };
+});
+export const selectCharacteristicMonitor = (deviceId: string | undefined, serviceUUID: string, characteristicUUID: string) => (state: RootState) =>
+    deviceId ? state.ble.connections[deviceId]?.monitors[monitorKey(deviceId, serviceUUID, characteristicUUID)] : undefined;
+export const selectCharacteristicValue = (deviceId: string | undefined, serviceUUID: string, characteristicUUID: string) => (state: RootState) =>
+    deviceId ? state.ble.monitorValues[monitorKey(deviceId, serviceUUID, characteristicUUID)] : undefined;
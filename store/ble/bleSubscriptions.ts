@@ -0,0 +1,20 @@
+import { BleTransport, TransportSubscription } from '../../services/ble';
+
+// Live transport subscriptions cannot live in Redux state. They are grouped per transport so two
+// stores (e.g. in tests) never share them.
+const registries = new WeakMap<BleTransport, Map<string, TransportSubscription>>();
+
+export const transportSubscriptions = (transport: BleTransport) => {
+    let registry = registries.get(transport);
+    if (!registry) {
+        registry = new Map();
+        registries.set(transport, registry);
+    }
+    return registry;
+};
+
+export const removeTransportSubscription = (transport: BleTransport, key: string) => {
+    const registry = transportSubscriptions(transport);
+    registry.get(key)?.remove();
+    registry.delete(key);
+};
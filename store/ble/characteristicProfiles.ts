@@ -0,0 +1,103 @@
+import { createAsyncThunk, createSelector } from '@reduxjs/toolkit';
+import { AppThunkConfig, RootState } from '../store';
+import bleServices, { ServiceName, serviceProfile } from '../../constants/bleServices';
+import { decodeBase64, encodeBase64 } from '../../services/ble/codecs';
+import { ICharacteristicProfile } from '../../services/ble/profiles';
+import { isSameUUID } from '../../utils/uuid';
+import { characteristicParams, IDeviceConnection, IGattCharacteristic, profileCharacteristicParams, profileWriteParams } from './bleSlice.contracts';
+import { readRawCharacteristic, selectCharacteristicMonitor, selectCharacteristicValue, startCharacteristicMonitor, stopCharacteristicMonitor, writeRawCharacteristic } from './bleSlice';
+
+export interface IDecodedCharacteristic<T> {
+    value: T | null;
+    unit: string | undefined;
+    receivedAt: number | null;
+    isActive: boolean;
+    // Monitor or decoding failure
+    error: string | null;
+}
+
+export const resolveCharacteristic = (params: profileCharacteristicParams): ICharacteristicProfile<unknown> => {
+    const profile = serviceProfile(params.service)?.characteristics[params.characteristic];
+    if (!profile) {
+        throw new Error(`Unknown characteristic ${params.service}.${params.characteristic}`);
+    }
+    return profile;
+};
+
+// A profile applies when the device advertises its service or the service was discovered after connecting
+export const hasServiceProfile = (connection: IDeviceConnection | undefined, service: ServiceName) => {
+    const { uuid } = serviceProfile(service);
+    return !!connection && (connection.device.serviceUUIDs?.some(serviceUUID => isSameUUID(serviceUUID, uuid))
+        || connection.services.some(discovered => isSameUUID(discovered.uuid, uuid)));
+};
+
+export const deviceServiceProfiles = (connection: IDeviceConnection | undefined) =>
+    (Object.keys(bleServices) as Array<ServiceName>).filter(service => hasServiceProfile(connection, service));
+
+// The discovered characteristic behind a profile, optional characteristics are often missing
+export const findProfileCharacteristic = (connection: IDeviceConnection | undefined, service: ServiceName, characteristic: string): IGattCharacteristic | undefined => {
+    const profile = resolveCharacteristic({ deviceId: '', service, characteristic });
+    return connection?.services
+        .find(discovered => isSameUUID(discovered.uuid, serviceProfile(service).uuid))
+        ?.characteristics.find(discovered => isSameUUID(discovered.uuid, profile.uuid));
+};
+
+export const toCharacteristicParams = (params: profileCharacteristicParams): characteristicParams => ({
+    deviceId: params.deviceId,
+    serviceUUID: serviceProfile(params.service).uuid,
+    characteristicUUID: resolveCharacteristic(params).uuid,
+    transactionId: params.transactionId,
+    priority: params.priority,
+});
+
+// Reads and decodes with the codec declared in `bleServices`. Prefer `useReadCharacteristic` for a typed result.
+export const readCharacteristic = createAsyncThunk<unknown, profileCharacteristicParams, AppThunkConfig>('ble/readCharacteristic', async (params, thunkAPI) => {
+    const { codec } = resolveCharacteristic(params);
+    const value = await thunkAPI.dispatch(readRawCharacteristic(toCharacteristicParams(params))).unwrap();
+    if (value === null) {
+        throw new Error(`${params.service}.${params.characteristic} has no value`);
+    }
+    return decodeBase64(codec, value);
+});
+
+const encodeWrite = (params: profileWriteParams, withResponse: boolean) => {
+    const { codec } = resolveCharacteristic(params);
+    return writeRawCharacteristic({ ...toCharacteristicParams(params), value: encodeBase64(codec, params.value), withResponse });
+};
+
+// Encodes with the codec declared in `bleServices`. Prefer `useWriteCharacteristic` for a typed value.
+export const writeCharacteristicWithResponse = createAsyncThunk<void, profileWriteParams, AppThunkConfig>('ble/writeCharacteristicWithResponse', async (params, thunkAPI) => {
+    await thunkAPI.dispatch(encodeWrite(params, true)).unwrap();
+});
+
+// Resolves once the value is queued, the peripheral does not acknowledge it
+export const writeCharacteristicWithoutResponse = createAsyncThunk<void, profileWriteParams, AppThunkConfig>('ble/writeCharacteristicWithoutResponse', async (params, thunkAPI) => {
+    await thunkAPI.dispatch(encodeWrite(params, false)).unwrap();
+});
+
+export const monitorCharacteristic = createAsyncThunk<void, profileCharacteristicParams, AppThunkConfig>('ble/monitorCharacteristic', async (params, thunkAPI) => {
+    await thunkAPI.dispatch(startCharacteristicMonitor(toCharacteristicParams(params)));
+});
+
+export const unmonitorCharacteristic = createAsyncThunk<void, profileCharacteristicParams, AppThunkConfig>('ble/unmonitorCharacteristic', async (params, thunkAPI) => {
+    await thunkAPI.dispatch(stopCharacteristicMonitor(toCharacteristicParams(params)));
+});
+
+// Decodes the monitored value. Memoized per instance, create one per component (see `useMonitoredCharacteristic`).
+export const makeSelectDecodedCharacteristic = (params: profileCharacteristicParams) => {
+    const profile = resolveCharacteristic(params);
+    const { deviceId, serviceUUID, characteristicUUID } = toCharacteristicParams(params);
+    return createSelector(
+        (state: RootState) => selectCharacteristicMonitor(deviceId, serviceUUID, characteristicUUID)(state),
+        (state: RootState) => selectCharacteristicValue(deviceId, serviceUUID, characteristicUUID)(state),
+        (monitor, received): IDecodedCharacteristic<unknown> => {
+            const decoded = { value: null, unit: profile.codec.unit, receivedAt: received?.receivedAt ?? null, isActive: !!monitor?.isActive, error: monitor?.error ?? null };
+            if (!received?.value) return decoded;
+            try {
+                return { ...decoded, value: decodeBase64(profile.codec, received.value) };
+            } catch (error: any) {
+                return { ...decoded, error: error.message };
+            }
+        },
+    );
+};
@@ -0,0 +1,56 @@
+import { Buffer } from 'buffer';
+import { IBLEDevice, IScanFilter } from './bleSlice.contracts';
+
+export const defaultScanFilter: IScanFilter = {
+    showAllDevices: false,
+    nameMatchMode: 'prefix',
+    namePattern: 'BLE_SERVER',
+    serviceUUIDs: [],
+    manufacturerCompanyId: null,
+    minRssi: null,
+};
+
+// Company identifier is the first two bytes (little endian) of the manufacturer specific data
+export const getManufacturerCompanyId = (manufacturerData?: string | null): number | null => {
+    if (!manufacturerData) return null;
+    const bytes = Buffer.from(manufacturerData, 'base64');
+    return bytes.length >= 2 ? bytes.readUInt16LE(0) : null;
+};
+
+export const isValidNamePattern = (filter: IScanFilter) => {
+    if (filter.nameMatchMode !== 'regex') return true;
+    try {
+        new RegExp(filter.namePattern);
+        return true;
+    } catch (error) {
+        return false;
+    }
+};
+
+const matchesName = (device: IBLEDevice, filter: IScanFilter) => {
+    if (!filter.namePattern) return true;
+    const name = device.name ?? device.localName;
+    if (!name) return false;
+    if (filter.nameMatchMode === 'regex') {
+        return isValidNamePattern(filter) && new RegExp(filter.namePattern).test(name);
+    }
+    return name.startsWith(filter.namePattern);
+};
+
+const matchesServices = (device: IBLEDevice, filter: IScanFilter) => {
+    if (filter.serviceUUIDs.length === 0) return true;
+    const advertised = (device.serviceUUIDs ?? []).map(uuid => uuid.toLowerCase());
+    return filter.serviceUUIDs.some(uuid => advertised.includes(uuid.toLowerCase()));
+};
+
+export const matchesScanFilter = (device: IBLEDevice, filter: IScanFilter) => {
+    if (filter.showAllDevices) return true;
+    if (filter.minRssi !== null && (device.rssi ?? -127) < filter.minRssi) return false;
+    if (filter.manufacturerCompanyId !== null
+        && getManufacturerCompanyId(device.manufacturerData) !== filter.manufacturerCompanyId) return false;
+    return matchesName(device, filter) && matchesServices(device, filter);
+};
+
+// Service UUIDs handed to the native scan so the OS can filter before waking the app
+export const nativeScanServiceUUIDs = (filter: IScanFilter) =>
+    (!filter.showAllDevices && filter.serviceUUIDs.length > 0) ? filter.serviceUUIDs : null;
@@ -0,0 +1,30 @@
+import { IBLEDevice, IScanListOptions, IScannedDevice } from './bleSlice.contracts';
+
+// Width of an RSSI bucket in dBm when ordering is stable
+const RSSI_BUCKET_SIZE = 10;
+const UNKNOWN_RSSI = -127;
+
+export const defaultScanListOptions: IScanListOptions = {
+    deviceTtlMs: 10000,
+    stableOrdering: false,
+};
+
+export const toScannedDevice = (device: IBLEDevice, seenAt: number, previous?: IScannedDevice): IScannedDevice => ({
+    ...previous,
+    ...device,
+    firstSeen: previous?.firstSeen ?? seenAt,
+    lastSeen: seenAt,
+    advertisementCount: (previous?.advertisementCount ?? 0) + 1,
+});
+
+export const isStale = (device: IScannedDevice, now: number, options: IScanListOptions) =>
+    options.deviceTtlMs > 0 && now - device.lastSeen > options.deviceTtlMs;
+
+const rssiBucket = (device: IScannedDevice) => Math.floor((device.rssi ?? UNKNOWN_RSSI) / RSSI_BUCKET_SIZE);
+
+export const compareScannedDevices = (options: IScanListOptions) => (a: IScannedDevice, b: IScannedDevice) => {
+    if (options.stableOrdering) {
+        return (rssiBucket(b) - rssiBucket(a)) || (a.firstSeen - b.firstSeen);
+    }
+    return (b.rssi ?? UNKNOWN_RSSI) - (a.rssi ?? UNKNOWN_RSSI);
+};
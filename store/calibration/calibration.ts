@@ -0,0 +1,23 @@
+import { ICalibrationProfile } from './calibrationSlice.contracts';
+
+export const defaultCalibrationProfile: ICalibrationProfile = {
+    mode: 'linear',
+    scaleFactor: 1,
+    twoPoint: null,
+    tareOffset: 0,
+    fullScale: 2000,
+};
+
+// Scale factor or two-point line, before the tare is subtracted
+export const scaleReading = (profile: ICalibrationProfile, grams: number) => {
+    const { twoPoint } = profile;
+    if (profile.mode === 'twoPoint' && twoPoint && twoPoint.rawHigh !== twoPoint.rawLow) {
+        const slope = (twoPoint.knownHigh - twoPoint.knownLow) / (twoPoint.rawHigh - twoPoint.rawLow);
+        return twoPoint.knownLow + (grams - twoPoint.rawLow) * slope;
+    }
+    return grams * profile.scaleFactor;
+};
+
+// Decoded grams to the value that is displayed and recorded
+export const applyCalibration = (profile: ICalibrationProfile | undefined, grams: number) =>
+    profile ? scaleReading(profile, grams) - profile.tareOffset : grams;
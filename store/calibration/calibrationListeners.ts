@@ -0,0 +1,27 @@
+import { writeJson } from '../../services/storage';
+import { NetworkState } from '../ble/bleSlice.contracts';
+import type { AppStartListening } from '../listenerMiddleware';
+import type { RootState } from '../store';
+import { CALIBRATION_STORAGE_KEY, StoredCalibration } from './calibrationSlice';
+
+const isLoaded = (state: RootState) =>
+    state.calibration.loadStatus === NetworkState.SUCCESS || state.calibration.loadStatus === NetworkState.ERROR;
+
+// Saves profiles and display settings whenever they change, once loading the stored ones has finished, even if it failed
+export const startCalibrationListeners = (startListening: AppStartListening) => {
+    startListening({
+        predicate: (action, currentState, previousState) =>
+            isLoaded(currentState) && isLoaded(previousState)
+            && (currentState.calibration.profiles !== previousState.calibration.profiles
+                || currentState.calibration.display !== previousState.calibration.display),
+        effect: async (action, listenerApi) => {
+            const { profiles, display } = listenerApi.getState().calibration;
+            const stored: StoredCalibration = { profiles, display };
+            try {
+                await writeJson(listenerApi.extra.storage, CALIBRATION_STORAGE_KEY, stored);
+            } catch (error: any) {
+                listenerApi.extra.journal.record({ level: 'error', category: 'app', message: `Calibration could not be saved: ${error.message}` });
+            }
+        },
+    });
+};
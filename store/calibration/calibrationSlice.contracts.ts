@@ -0,0 +1,35 @@
+import { WeightUnit } from '../../utils/weightUnits';
+import { NetworkState } from '../ble/bleSlice.contracts';
+
+export type CalibrationMode = 'linear' | 'twoPoint';
+
+// Two readings (before calibration) of known reference weights, all in grams
+export interface ITwoPointCalibration {
+    rawLow: number;
+    knownLow: number;
+    rawHigh: number;
+    knownHigh: number;
+}
+
+export interface ICalibrationProfile {
+    mode: CalibrationMode;
+    // Multiplies the decoded grams in linear mode
+    scaleFactor: number;
+    twoPoint: ITwoPointCalibration | null;
+    // Subtracted after scaling, in grams
+    tareOffset: number;
+    // Heaviest expected load in grams, sizes the weight widget
+    fullScale: number;
+}
+
+export interface IDisplaySettings {
+    unit: WeightUnit;
+    // Decimals shown in `unit`
+    precision: number;
+}
+
+export interface calibrationSliceInterface {
+    profiles: { [deviceId: string]: ICalibrationProfile };
+    display: IDisplaySettings;
+    loadStatus: NetworkState;
+}
@@ -0,0 +1,110 @@
+import { createAsyncThunk, createSlice } from '@reduxjs/toolkit';
+import { AppThunkConfig, RootState } from '../store';
+import { NetworkState } from '../ble/bleSlice.contracts';
+import { readJson } from '../../services/storage';
+import { calibrationSliceInterface, ICalibrationProfile, IDisplaySettings } from './calibrationSlice.contracts';
+import { defaultCalibrationProfile, scaleReading } from './calibration';
+
+export const CALIBRATION_STORAGE_KEY = '@calibration';
+
+export type StoredCalibration = Pick<calibrationSliceInterface, 'profiles' | 'display'>;
+
+export const loadCalibration = createAsyncThunk<StoredCalibration | null, void, AppThunkConfig>('calibration/loadCalibration', async (_, thunkAPI) => {
+    return readJson<StoredCalibration | null>(thunkAPI.extra.storage, CALIBRATION_STORAGE_KEY, null, thunkAPI.extra.journal);
+});
+
+const latestSample = (state: RootState, deviceId: string) => {
+    const sample = state.weight.latestSamples[deviceId];
+    if (!sample) {
+        throw new Error('No reading from the device yet');
+    }
+    return sample;
+};
+
+// Zeroes the current reading: the scaled value of the latest sample becomes the tare offset
+export const tareDevice = createAsyncThunk<number, { deviceId: string }, AppThunkConfig>('calibration/tareDevice', async (params, thunkAPI) => {
+    const state = thunkAPI.getState();
+    const profile = state.calibration.profiles[params.deviceId] ?? defaultCalibrationProfile;
+    return scaleReading(profile, latestSample(state, params.deviceId).uncalibrated);
+});
+
+// Stores the current reading (before calibration) against a known reference weight in grams
+export const captureCalibrationPoint = createAsyncThunk<number, { deviceId: string, point: 'low' | 'high', known: number }, AppThunkConfig>('calibration/captureCalibrationPoint', async (params, thunkAPI) => {
+    return latestSample(thunkAPI.getState(), params.deviceId).uncalibrated;
+});
+
+const initialState: calibrationSliceInterface = {
+    profiles: {},
+    display: {
+        unit: 'g',
+        precision: 0,
+    },
+    loadStatus: NetworkState.PENDING,
+};
+
+const profileFor = (state: calibrationSliceInterface, deviceId: string) => {
+    if (!state.profiles[deviceId]) {
+        state.profiles[deviceId] = { ...defaultCalibrationProfile };
+    }
+    return state.profiles[deviceId];
+};
+
+const calibrationSlice = createSlice({
+    name: 'calibration',
+    initialState,
+    reducers: {
+        setCalibrationProfile(state, action) {
+            const { deviceId, profile } = action.payload;
+            Object.assign(profileFor(state, deviceId), profile);
+        },
+        resetCalibrationProfile(state, action) {
+            delete state.profiles[action.payload.deviceId];
+        },
+        clearTare(state, action) {
+            profileFor(state, action.payload.deviceId).tareOffset = 0;
+        },
+        setDisplaySettings(state, action) {
+            const { display } = action.payload;
+            state.display = { ...state.display, ...display };
+        },
+    },
+    extraReducers(builder) {
+        builder
+            .addCase(loadCalibration.pending, (state) => {
+                state.loadStatus = NetworkState.LOADING;
+            })
+            .addCase(loadCalibration.fulfilled, (state, action) => {
+                state.loadStatus = NetworkState.SUCCESS;
+                if (!action.payload) return;
+                state.profiles = action.payload.profiles ?? {};
+                state.display = { ...state.display, ...action.payload.display };
+            })
+            .addCase(loadCalibration.rejected, (state) => {
+                // Start from defaults rather than blocking the scale
+                state.loadStatus = NetworkState.ERROR;
+            })
+            .addCase(tareDevice.fulfilled, (state, action) => {
+                profileFor(state, action.meta.arg.deviceId).tareOffset = action.payload;
+            })
+            .addCase(captureCalibrationPoint.fulfilled, (state, action) => {
+                const { deviceId, point, known } = action.meta.arg;
+                const profile = profileFor(state, deviceId);
+                const twoPoint = profile.twoPoint ?? { rawLow: 0, knownLow: 0, rawHigh: 0, knownHigh: 0 };
+                if (point === 'low') {
+                    profile.twoPoint = { ...twoPoint, rawLow: action.payload, knownLow: known };
+                }
+                else {
+                    profile.twoPoint = { ...twoPoint, rawHigh: action.payload, knownHigh: known };
+                }
+            });
+    },
+});
+
+export default calibrationSlice.reducer;
+
+export const { setCalibrationProfile, resetCalibrationProfile, clearTare, setDisplaySettings } = calibrationSlice.actions;
+
+export const selectCalibrationProfiles = (state: RootState) => state.calibration.profiles;
+export const selectCalibrationProfile = (deviceId?: string) => (state: RootState): ICalibrationProfile =>
+    (deviceId && state.calibration.profiles[deviceId]) || defaultCalibrationProfile;
+export const selectDisplaySettings = (state: RootState): IDisplaySettings => state.calibration.display;
@@ -0,0 +1,89 @@
+import { BleTransport } from '../../services/ble';
+import { CommandError, ICommandFrame } from '../../services/ble/commands';
+
+interface IResponseWaiter {
+    resolve: (frame: ICommandFrame) => void;
+    reject: (error: Error) => void;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+interface ICommandChannel {
+    // Requests waiting for their response, per device and correlation id
+    waiters: Map<string, Map<number, IResponseWaiter>>;
+    lastCorrelationIds: Map<string, number>;
+}
+
+// Promises stay out of Redux. They are grouped per transport so two stores (e.g. in tests) never share them.
+const channels = new WeakMap<BleTransport, ICommandChannel>();
+
+const commandChannel = (transport: BleTransport) => {
+    let channel = channels.get(transport);
+    if (!channel) {
+        channel = { waiters: new Map(), lastCorrelationIds: new Map() };
+        channels.set(transport, channel);
+    }
+    return channel;
+};
+
+const deviceWaiters = (transport: BleTransport, deviceId: string) => {
+    const { waiters } = commandChannel(transport);
+    let device = waiters.get(deviceId);
+    if (!device) {
+        device = new Map();
+        waiters.set(deviceId, device);
+    }
+    return device;
+};
+
+// 1 to 255, skipping ids that are still waiting
+export const nextCorrelationId = (transport: BleTransport, deviceId: string) => {
+    const { lastCorrelationIds } = commandChannel(transport);
+    const pending = deviceWaiters(transport, deviceId);
+    let id = lastCorrelationIds.get(deviceId) ?? 0;
+    do {
+        id = id % 255 + 1;
+    } while (pending.has(id) && pending.size < 255);
+    lastCorrelationIds.set(deviceId, id);
+    return id;
+};
+
+export const awaitResponse = (transport: BleTransport, deviceId: string, correlationId: number, timeoutMs: number) =>
+    new Promise<ICommandFrame>((resolve, reject) => {
+        const pending = deviceWaiters(transport, deviceId);
+        const timer = setTimeout(() => {
+            pending.delete(correlationId);
+            reject(new CommandError('TIMEOUT', `No response after ${timeoutMs} ms`));
+        }, timeoutMs);
+        pending.set(correlationId, { resolve, reject, timer });
+    });
+
+// Stops waiting without settling, e.g. when the request could not be written
+export const cancelResponse = (transport: BleTransport, deviceId: string, correlationId: number) => {
+    const pending = commandChannel(transport).waiters.get(deviceId);
+    const waiter = pending?.get(correlationId);
+    if (!waiter) return;
+    clearTimeout(waiter.timer);
+    pending!.delete(correlationId);
+};
+
+// Returns false for responses nobody waits for, e.g. after a timeout
+export const resolveResponse = (transport: BleTransport, deviceId: string, frame: ICommandFrame) => {
+    const waiter = commandChannel(transport).waiters.get(deviceId)?.get(frame.correlationId);
+    if (!waiter) return false;
+    cancelResponse(transport, deviceId, frame.correlationId);
+    waiter.resolve(frame);
+    return true;
+};
+
+export const rejectPendingResponses = (transport: BleTransport, deviceId: string, error: Error) => {
+    const { waiters } = commandChannel(transport);
+    const pending = waiters.get(deviceId);
+    if (!pending) return;
+    waiters.delete(deviceId);
+    pending.forEach(waiter => {
+        clearTimeout(waiter.timer);
+        waiter.reject(error);
+    });
+};
+
+export const devicesAwaitingResponses = (transport: BleTransport) => Array.from(commandChannel(transport).waiters.keys());
@@ -0,0 +1,41 @@
+import bleServices from '../../constants/bleServices';
+import { CommandError } from '../../services/ble/commands';
+import { decodeBase64 } from '../../services/ble/codecs';
+import { isSameUUID } from '../../utils/uuid';
+import { characteristicValueReceived } from '../ble/bleSlice';
+import { NetworkState } from '../ble/bleSlice.contracts';
+import type { AppStartListening } from '../listenerMiddleware';
+import { devicesAwaitingResponses, rejectPendingResponses, resolveResponse } from './commandChannel';
+
+const { sample } = bleServices;
+
+// Hands command responses to the waiting `sendCommand` and fails every waiting command once its device's link drops
+export const startCommandListeners = (startListening: AppStartListening) => {
+    startListening({
+        actionCreator: characteristicValueReceived,
+        effect: (action, listenerApi) => {
+            const { deviceId, serviceUUID, characteristicUUID, value } = action.payload;
+            if (!value || !isSameUUID(serviceUUID, sample.uuid) || !isSameUUID(characteristicUUID, sample.characteristics.command.uuid)) return;
+            try {
+                const frame = decodeBase64(sample.characteristics.command.codec, value);
+                // The characteristic also holds our own request until the firmware answers
+                if (frame.isResponse && !resolveResponse(listenerApi.extra.bleTransport, deviceId, frame)) {
+                    listenerApi.extra.journal.record({ level: 'warn', category: 'gatt', deviceId, message: `Ignoring late command response ${frame.correlationId}` });
+                }
+            } catch (error: any) {
+                listenerApi.extra.journal.record({ level: 'warn', category: 'gatt', deviceId, message: `Dropping command response: ${error.message}` });
+            }
+        },
+    });
+
+    startListening({
+        predicate: (action, currentState, previousState) => currentState.ble.connections !== previousState.ble.connections,
+        effect: (action, listenerApi) => {
+            const { connections } = listenerApi.getState().ble;
+            const { bleTransport } = listenerApi.extra;
+            devicesAwaitingResponses(bleTransport)
+                .filter(deviceId => connections[deviceId]?.status !== NetworkState.SUCCESS)
+                .forEach(deviceId => rejectPendingResponses(bleTransport, deviceId, new CommandError('DISCONNECTED', 'The device disconnected before responding')));
+        },
+    });
+};
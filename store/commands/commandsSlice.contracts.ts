@@ -0,0 +1,30 @@
+import { CommandName } from '../../constants/deviceCommands';
+
+export interface IPendingCommand {
+    deviceId: string;
+    command: CommandName;
+    sentAt: number;
+}
+
+export interface ICommandResult {
+    command: CommandName;
+    isSuccess: boolean;
+    // `CommandErrorCode` from the firmware or the command layer, null on success
+    code: string | null;
+    error: string | null;
+    completedAt: number;
+}
+
+export interface commandsSliceInterface {
+    // Keyed by the thunk's request id
+    pending: { [requestId: string]: IPendingCommand };
+    // Outcome of the last command per device
+    lastResults: { [deviceId: string]: ICommandResult };
+}
+
+export interface sendCommandParams {
+    deviceId: string;
+    command: CommandName;
+    // Encoded with the command's argument codec, see `deviceCommands.ts`
+    argument?: unknown;
+}
@@ -0,0 +1,47 @@
+import bleServices from '../../constants/bleServices';
+import { createSimulatedTransport, SampleScale } from '../../services/ble/simulator';
+import { connectDeviceById, selectCharacteristicMonitor } from '../ble/bleSlice';
+import { AppStore, createAppStore, createAppTransport } from '../store';
+import { sendCommand } from './commandsSlice';
+
+const { sample } = bleServices;
+
+let connected: Array<{ store: AppStore, scale: SampleScale }> = [];
+
+// A store connected to a simulated scale whose radio calls take a while, so a write that skips ahead of the
+// monitor setup loses its response
+const setup = async () => {
+    const scale = new SampleScale();
+    const store = createAppStore(createAppTransport(createSimulatedTransport([scale], { latencyMs: 20 })));
+    await store.dispatch(connectDeviceById({ id: scale.id })).unwrap();
+    connected.push({ store, scale });
+    const responses = () => selectCharacteristicMonitor(scale.id, sample.uuid, sample.characteristics.command.uuid)(store.getState());
+    return { scale, store, responses };
+};
+
+// Disposing cancels the RSSI polls and the queue's timers, detaching stops the load cell notifications
+afterEach(() => {
+    connected.forEach(({ store, scale }) => {
+        store.dispose();
+        scale.detach();
+    });
+    connected = [];
+});
+
+it('receives the response to the first command of a connection', async () => {
+    const { store, scale } = await setup();
+
+    await expect(store.dispatch(sendCommand({ deviceId: scale.id, command: 'tare' })).unwrap()).resolves.toEqual([]);
+});
+
+it('keeps the responses on between commands', async () => {
+    const { store, scale, responses } = await setup();
+
+    await Promise.all([
+        store.dispatch(sendCommand({ deviceId: scale.id, command: 'tare' })).unwrap(),
+        store.dispatch(sendCommand({ deviceId: scale.id, command: 'tare' })).unwrap(),
+    ]);
+    await store.dispatch(sendCommand({ deviceId: scale.id, command: 'tare' })).unwrap();
+
+    expect(responses()?.subscriberCount).toBe(1);
+});
@@ -0,0 +1,131 @@
+import { createAsyncThunk, createSlice } from '@reduxjs/toolkit';
+import { AppDispatch, AppThunkConfig, RootState, ThunkExtra } from '../store';
+import deviceCommands, { CommandName } from '../../constants/deviceCommands';
+import { BleTransport } from '../../services/ble';
+import { COMMAND_STATUS_OK, CommandError, commandStatusCodes, ICommandFrame } from '../../services/ble/commands';
+import { removeConnection, selectCharacteristicMonitor, startCharacteristicMonitor } from '../ble/bleSlice';
+import { findProfileCharacteristic, toCharacteristicParams, writeCharacteristicWithResponse } from '../ble/characteristicProfiles';
+import { profileCharacteristicParams } from '../ble/bleSlice.contracts';
+import { awaitResponse, cancelResponse, nextCorrelationId } from './commandChannel';
+import { commandsSliceInterface, sendCommandParams } from './commandsSlice.contracts';
+import { errorMessage } from '../../utils/errors';
+
+const commandCharacteristic = (deviceId: string): profileCharacteristicParams => ({ deviceId, service: 'sample', characteristic: 'command' });
+
+// Response notifications `sendCommand` turned on, per transport and device. Each holds one subscriber on the shared
+// monitor until the connection closes, which removes the monitor from the store.
+const responseMonitors = new WeakMap<BleTransport, Map<string, Promise<void>>>();
+
+const transportResponseMonitors = (transport: BleTransport) => {
+    let monitors = responseMonitors.get(transport);
+    if (!monitors) {
+        monitors = new Map();
+        responseMonitors.set(transport, monitors);
+    }
+    return monitors;
+};
+
+// The first command of a connection turns the responses on, the ones after it only wait for that
+const enableResponses = (deviceId: string, thunkAPI: { dispatch: AppDispatch, getState: () => RootState, extra: ThunkExtra }) => {
+    const { serviceUUID, characteristicUUID } = toCharacteristicParams(commandCharacteristic(deviceId));
+    const monitors = transportResponseMonitors(thunkAPI.extra.bleTransport);
+    const enabling = monitors.get(deviceId);
+    if (enabling && selectCharacteristicMonitor(deviceId, serviceUUID, characteristicUUID)(thunkAPI.getState())) return enabling;
+    const started = thunkAPI.dispatch(startCharacteristicMonitor({ deviceId, serviceUUID, characteristicUUID })).unwrap();
+    monitors.set(deviceId, started);
+    started.catch(() => monitors.delete(deviceId));
+    return started;
+};
+
+export const supportsCommands = (state: RootState, deviceId: string) =>
+    !!findProfileCharacteristic(state.ble.connections[deviceId], 'sample', 'command');
+
+/**
+ * Writes the command with a fresh correlation id and resolves with the response payload. Rejects with
+ * `error.code` set to a `CommandErrorCode` when the firmware reports an error, no response arrives within the
+ * command's timeout or the device disconnects first.
+ */
+export const sendCommand = createAsyncThunk<Array<number>, sendCommandParams, AppThunkConfig>('commands/sendCommand', async (params, thunkAPI) => {
+    const { deviceId, command, argument } = params;
+    const definition = deviceCommands[command];
+    if (!supportsCommands(thunkAPI.getState(), deviceId)) {
+        throw new CommandError('UNSUPPORTED', 'The device does not accept commands');
+    }
+    const characteristic = commandCharacteristic(deviceId);
+    // Responses arrive as notifications on the same characteristic
+    try {
+        await enableResponses(deviceId, thunkAPI);
+    } catch (error: any) {
+        throw new Error(errorMessage(error));
+    }
+    const { bleTransport } = thunkAPI.extra;
+    const correlationId = nextCorrelationId(bleTransport, deviceId);
+    try {
+        const response = awaitResponse(bleTransport, deviceId, correlationId, definition.timeoutMs);
+        // Handled below, this only keeps a timeout during the write from being reported as unhandled
+        response.catch(() => undefined);
+        const request: ICommandFrame = {
+            opcode: definition.opcode,
+            correlationId,
+            isResponse: false,
+            status: COMMAND_STATUS_OK,
+            payload: definition.argument ? Array.from(definition.argument.encode(argument as never)) : [],
+        };
+        // Ahead of queued reads and firmware chunks, the response timeout is already running
+        await thunkAPI.dispatch(writeCharacteristicWithResponse({ ...characteristic, value: request, priority: 'high' })).unwrap();
+        const frame = await response;
+        if (frame.opcode !== definition.opcode) {
+            throw new CommandError('FAILED', `Response is for opcode ${frame.opcode}, expected ${definition.opcode}`);
+        }
+        if (frame.status !== COMMAND_STATUS_OK) {
+            throw new CommandError(commandStatusCodes[frame.status] ?? 'FAILED', `${definition.name} failed with status ${frame.status}`);
+        }
+        return frame.payload;
+    } catch (error: any) {
+        cancelResponse(bleTransport, deviceId, correlationId);
+        if (error instanceof CommandError) throw error;
+        throw new Error(errorMessage(error));
+    }
+});
+
+const initialState: commandsSliceInterface = {
+    pending: {},
+    lastResults: {},
+};
+
+const commandsSlice = createSlice({
+    name: 'commands',
+    initialState,
+    reducers: {},
+    extraReducers(builder) {
+        builder
+            .addCase(sendCommand.pending, (state, action) => {
+                const { deviceId, command } = action.meta.arg;
+                state.pending[action.meta.requestId] = { deviceId, command, sentAt: Date.now() };
+            })
+            .addCase(sendCommand.fulfilled, (state, action) => {
+                const { deviceId, command } = action.meta.arg;
+                delete state.pending[action.meta.requestId];
+                state.lastResults[deviceId] = { command, isSuccess: true, code: null, error: null, completedAt: Date.now() };
+            })
+            .addCase(sendCommand.rejected, (state, action) => {
+                const { deviceId, command } = action.meta.arg;
+                delete state.pending[action.meta.requestId];
+                state.lastResults[deviceId] = {
+                    command, isSuccess: false, code: action.error.code ?? null, error: action.error.message ?? null, completedAt: Date.now(),
+                };
+            })
+            .addCase(removeConnection, (state, action) => {
+                delete state.lastResults[action.payload.id];
+            });
+    },
+});
+
+export default commandsSlice.reducer;
+
+export const selectPendingCommands = (state: RootState) => state.commands.pending;
+export const selectIsCommandPending = (deviceId: string, command: CommandName) => (state: RootState) =>
+    Object.values(state.commands.pending).some(pending => pending.deviceId === deviceId && pending.command === command);
+export const selectLastCommandResult = (deviceId?: string) => (state: RootState) =>
+    deviceId ? state.commands.lastResults[deviceId] : undefined;
+export const selectSupportsCommands = (deviceId: string) => (state: RootState) => supportsCommands(state, deviceId);
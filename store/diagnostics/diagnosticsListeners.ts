@@ -0,0 +1,48 @@
+import { isAnyOf } from '@reduxjs/toolkit';
+import { connectDeviceById, readRssi, reconnectDevice } from '../ble/bleSlice';
+import { NetworkState } from '../ble/bleSlice.contracts';
+import type { AppStartListening } from '../listenerMiddleware';
+import { linkEstablished, rssiSampled } from './diagnosticsSlice';
+
+export const RSSI_POLL_INTERVAL_MS = 2000;
+
+// Devices with a running poll loop, so a quick reconnect does not start a second one
+const pollingDevices = new Set<string>();
+
+// Like `listenerApi.delay`, but a cancelled listener also clears the timer instead of leaving it to run out
+const delayUnlessCancelled = (ms: number, signal: AbortSignal) => new Promise<void>(resolve => {
+    const cancel = () => {
+        clearTimeout(timer);
+        resolve();
+    };
+    const timer = setTimeout(() => {
+        signal.removeEventListener('abort', cancel);
+        resolve();
+    }, ms);
+    signal.addEventListener('abort', cancel);
+});
+
+// Timestamps every link that comes up and polls its RSSI until it goes down
+export const startDiagnosticsListeners = (startListening: AppStartListening) => {
+    startListening({
+        matcher: isAnyOf(connectDeviceById.fulfilled, reconnectDevice.fulfilled),
+        effect: async (action, listenerApi) => {
+            const deviceId = action.payload.device.id;
+            listenerApi.dispatch(linkEstablished({ deviceId, at: Date.now(), isReconnect: reconnectDevice.fulfilled.match(action) }));
+            if (pollingDevices.has(deviceId)) return;
+            pollingDevices.add(deviceId);
+            try {
+                for (;;) {
+                    await delayUnlessCancelled(RSSI_POLL_INTERVAL_MS, listenerApi.signal);
+                    if (listenerApi.signal.aborted || listenerApi.getState().ble.connections[deviceId]?.status !== NetworkState.SUCCESS) break;
+                    const result = await listenerApi.dispatch(readRssi({ deviceId }));
+                    if (readRssi.fulfilled.match(result) && result.payload.rssi !== null) {
+                        listenerApi.dispatch(rssiSampled({ deviceId, rssi: result.payload.rssi, at: Date.now() }));
+                    }
+                }
+            } finally {
+                pollingDevices.delete(deviceId);
+            }
+        },
+    });
+};
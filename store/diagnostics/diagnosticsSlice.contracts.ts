@@ -0,0 +1,73 @@
+export interface IRssiReading {
+    t: number;
+    // dBm
+    rssi: number;
+}
+
+// Arrival statistics of one notifying characteristic
+export interface INotificationStats {
+    count: number;
+    firstAt: number;
+    lastAt: number;
+    // Usual time between notifications, gaps left out. Null until the second one arrived.
+    intervalMs: number | null;
+    // Longest time between two notifications
+    maxIntervalMs: number;
+    // Intervals far longer than `intervalMs`, see `linkStats.ts`
+    gapCount: number;
+    // Notifications the gaps should have held
+    droppedEstimate: number;
+    // Notifications per second over the last completed window
+    rate: number;
+    rateWindowStartedAt: number;
+    rateWindowCount: number;
+}
+
+// Running totals while the device records a session, turned into `ILinkStats` when it is saved
+export interface ILinkStatsAccumulator {
+    startedAt: number;
+    notificationCount: number;
+    gapCount: number;
+    maxIntervalMs: number;
+    droppedEstimate: number;
+    rssiSum: number;
+    rssiCount: number;
+    rssiMin: number | null;
+    rssiMax: number | null;
+}
+
+// Link quality over a recorded session, saved with it
+export interface ILinkStats {
+    notificationCount: number;
+    // Mean notifications per second over the session
+    notificationRate: number | null;
+    gapCount: number;
+    maxIntervalMs: number;
+    droppedEstimate: number;
+    rssiMin: number | null;
+    rssiMax: number | null;
+    rssiMean: number | null;
+    mtu: number | null;
+}
+
+export interface ILinkDiagnostics {
+    // Since the link last came up, kept while it is down
+    connectedAt: number | null;
+    // Times the link came back after dropping since the device was connected
+    reconnectCount: number;
+    // Oldest first, the last `RSSI_HISTORY_LENGTH` polls
+    rssi: Array<IRssiReading>;
+    rssiError: string;
+    notifications: { [characteristicUUID: string]: INotificationStats };
+    recording: ILinkStatsAccumulator | null;
+}
+
+export interface diagnosticsSliceInterface {
+    links: { [deviceId: string]: ILinkDiagnostics };
+}
+
+export interface rssiSampledParams {
+    deviceId: string;
+    rssi: number;
+    at: number;
+}
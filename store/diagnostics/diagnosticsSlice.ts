@@ -0,0 +1,121 @@
+import { createSelector, createSlice } from '@reduxjs/toolkit';
+import { RootState } from '../store';
+import { characteristicValueReceived, readRssi, removeConnection } from '../ble/bleSlice';
+import { recordingEnded, startRecording } from '../sessions/sessionsSlice';
+import { closeRateWindow, newLinkStatsAccumulator, newNotificationStats, recordNotification } from './linkStats';
+import { diagnosticsSliceInterface, ILinkDiagnostics, INotificationStats } from './diagnosticsSlice.contracts';
+
+// Three minutes at the default poll interval
+export const RSSI_HISTORY_LENGTH = 90;
+
+const newLink = (): ILinkDiagnostics => ({
+    connectedAt: null,
+    reconnectCount: 0,
+    rssi: [],
+    rssiError: '',
+    notifications: {},
+    recording: null,
+});
+
+const ensureLink = (state: diagnosticsSliceInterface, deviceId: string) => {
+    if (!state.links[deviceId]) state.links[deviceId] = newLink();
+    return state.links[deviceId];
+};
+
+const initialState: diagnosticsSliceInterface = {
+    links: {},
+};
+
+const diagnosticsSlice = createSlice({
+    name: 'diagnostics',
+    initialState,
+    reducers: {
+        // A reconnect keeps the statistics, so the notifications lost while the link was down count as dropped
+        linkEstablished(state, action) {
+            const { deviceId, at, isReconnect } = action.payload;
+            const link = ensureLink(state, deviceId);
+            if (isReconnect) {
+                link.reconnectCount += 1;
+            } else {
+                Object.assign(link, { ...newLink(), recording: link.recording });
+            }
+            link.connectedAt = at;
+        },
+        rssiSampled(state, action) {
+            const { deviceId, rssi, at } = action.payload;
+            const link = ensureLink(state, deviceId);
+            link.rssi.push({ t: at, rssi });
+            if (link.rssi.length > RSSI_HISTORY_LENGTH) link.rssi.splice(0, link.rssi.length - RSSI_HISTORY_LENGTH);
+            link.rssiError = '';
+            Object.values(link.notifications).forEach(stats => closeRateWindow(stats, at, false));
+            const { recording } = link;
+            if (!recording) return;
+            recording.rssiSum += rssi;
+            recording.rssiCount += 1;
+            recording.rssiMin = recording.rssiMin === null ? rssi : Math.min(recording.rssiMin, rssi);
+            recording.rssiMax = recording.rssiMax === null ? rssi : Math.max(recording.rssiMax, rssi);
+        },
+    },
+    extraReducers(builder) {
+        builder
+            .addCase(characteristicValueReceived, (state, action) => {
+                const { deviceId, characteristicUUID, receivedAt } = action.payload;
+                const link = ensureLink(state, deviceId);
+                const key = characteristicUUID.toLowerCase();
+                const stats = link.notifications[key];
+                if (!stats) {
+                    link.notifications[key] = newNotificationStats(receivedAt);
+                    if (link.recording) link.recording.notificationCount += 1;
+                    return;
+                }
+                const interval = receivedAt - stats.lastAt;
+                const dropped = recordNotification(stats, receivedAt);
+                const { recording } = link;
+                if (!recording) return;
+                recording.notificationCount += 1;
+                recording.maxIntervalMs = Math.max(recording.maxIntervalMs, interval);
+                if (dropped > 0) {
+                    recording.gapCount += 1;
+                    recording.droppedEstimate += dropped;
+                }
+            })
+            .addCase(readRssi.rejected, (state, action) => {
+                const link = state.links[action.meta.arg.deviceId];
+                if (link) link.rssiError = action.error.message ?? '';
+            })
+            .addCase(startRecording, (state, action) => {
+                const { deviceId, startedAt } = action.payload;
+                const link = ensureLink(state, deviceId);
+                if (!link.recording) link.recording = newLinkStatsAccumulator(startedAt);
+            })
+            .addCase(recordingEnded, (state, action) => {
+                const link = state.links[action.payload.deviceId];
+                if (link) link.recording = null;
+            })
+            .addCase(removeConnection, (state, action) => {
+                delete state.links[action.payload.id];
+            });
+    },
+});
+
+export default diagnosticsSlice.reducer;
+
+export const { linkEstablished, rssiSampled } = diagnosticsSlice.actions;
+
+export const selectLinkDiagnostics = (deviceId?: string | null) => (state: RootState) =>
+    deviceId ? state.diagnostics.links[deviceId] : undefined;
+
+// Totals over every notifying characteristic of the device
+export const makeSelectNotificationTotals = (deviceId?: string | null) => createSelector(
+    (state: RootState) => (deviceId ? state.diagnostics.links[deviceId]?.notifications : undefined),
+    (notifications) => {
+        const all: Array<INotificationStats> = Object.values(notifications ?? {});
+        return {
+            count: all.reduce((sum, stats) => sum + stats.count, 0),
+            rate: all.reduce((sum, stats) => sum + stats.rate, 0),
+            gapCount: all.reduce((sum, stats) => sum + stats.gapCount, 0),
+            droppedEstimate: all.reduce((sum, stats) => sum + stats.droppedEstimate, 0),
+            maxIntervalMs: all.reduce((max, stats) => Math.max(max, stats.maxIntervalMs), 0),
+        };
+    },
+);
@@ -0,0 +1,88 @@
+import { ILinkStats, ILinkStatsAccumulator, INotificationStats } from './diagnosticsSlice.contracts';
+
+// An interval this many times the usual one counts as a gap
+const GAP_FACTOR = 2.5;
+// Intervals averaged before gaps are looked for
+const WARMUP_INTERVALS = 5;
+// Weight of a new interval in the smoothed one, low so the jitter of the radio does not move it much
+const INTERVAL_SMOOTHING = 0.1;
+export const RATE_WINDOW_MS = 1000;
+
+export const newNotificationStats = (at: number): INotificationStats => ({
+    count: 1,
+    firstAt: at,
+    lastAt: at,
+    intervalMs: null,
+    maxIntervalMs: 0,
+    gapCount: 0,
+    droppedEstimate: 0,
+    rate: 0,
+    rateWindowStartedAt: at,
+    rateWindowCount: 1,
+});
+
+export const newLinkStatsAccumulator = (startedAt: number): ILinkStatsAccumulator => ({
+    startedAt,
+    notificationCount: 0,
+    gapCount: 0,
+    maxIntervalMs: 0,
+    droppedEstimate: 0,
+    rssiSum: 0,
+    rssiCount: 0,
+    rssiMin: null,
+    rssiMax: null,
+});
+
+// Ends the rate window once it is `RATE_WINDOW_MS` old. Also called without a notification, so the rate drops when they stop.
+export const closeRateWindow = (stats: INotificationStats, at: number, isNotification: boolean) => {
+    const elapsedMs = at - stats.rateWindowStartedAt;
+    if (elapsedMs >= RATE_WINDOW_MS) {
+        stats.rate = stats.rateWindowCount / elapsedMs * 1000;
+        stats.rateWindowStartedAt = at;
+        stats.rateWindowCount = 0;
+    }
+    if (isNotification) stats.rateWindowCount += 1;
+};
+
+/**
+ * Updates `stats` for a notification at `at`. Notifications missing from a gap are estimated from the
+ * usual interval, so a firmware sending every 100 ms that goes quiet for 500 ms has dropped about 4.
+ * Returns the gap's estimate, 0 when the interval was not a gap.
+ */
+export const recordNotification = (stats: INotificationStats, at: number) => {
+    const interval = at - stats.lastAt;
+    const intervals = stats.count - 1;
+    let dropped = 0;
+    stats.count += 1;
+    stats.lastAt = at;
+    stats.maxIntervalMs = Math.max(stats.maxIntervalMs, interval);
+    closeRateWindow(stats, at, true);
+    if (stats.intervalMs === null) {
+        stats.intervalMs = interval;
+    } else if (intervals >= WARMUP_INTERVALS && stats.intervalMs > 0 && interval > GAP_FACTOR * stats.intervalMs) {
+        dropped = Math.max(0, Math.round(interval / stats.intervalMs) - 1);
+        stats.gapCount += 1;
+        stats.droppedEstimate += dropped;
+    } else if (intervals < WARMUP_INTERVALS) {
+        // Plain mean until there are enough intervals to smooth
+        stats.intervalMs += (interval - stats.intervalMs) / (intervals + 1);
+    } else {
+        stats.intervalMs += (interval - stats.intervalMs) * INTERVAL_SMOOTHING;
+    }
+    return dropped;
+};
+
+export const toLinkStats = (accumulator: ILinkStatsAccumulator, endedAt: number, mtu: number | null): ILinkStats => {
+    const durationMs = endedAt - accumulator.startedAt;
+    return {
+        notificationCount: accumulator.notificationCount,
+        notificationRate: durationMs > 0 ? accumulator.notificationCount / durationMs * 1000 : null,
+        gapCount: accumulator.gapCount,
+        maxIntervalMs: accumulator.maxIntervalMs,
+        droppedEstimate: accumulator.droppedEstimate,
+        rssiMin: accumulator.rssiMin,
+        rssiMax: accumulator.rssiMax,
+        rssiMean: accumulator.rssiCount > 0 ? accumulator.rssiSum / accumulator.rssiCount : null,
+        mtu,
+    };
+};
@@ -0,0 +1,28 @@
+import { NetworkState } from '../ble/bleSlice.contracts';
+import type { AppStartListening } from '../listenerMiddleware';
+import { checkFirmwareVersion, startFirmwareUpdate } from './firmwareSlice';
+
+/**
+ * Picks an update back up when its device reconnects: an interrupted transfer resumes from what the device
+ * already holds, and a completed one reads the version again to confirm the new image booted.
+ */
+export const startFirmwareListeners = (startListening: AppStartListening) => {
+    startListening({
+        predicate: (action, currentState, previousState) => currentState.ble.connections !== previousState.ble.connections,
+        effect: (action, listenerApi) => {
+            const { ble, firmware } = listenerApi.getState();
+            const previous = listenerApi.getOriginalState().ble.connections;
+            Object.entries(firmware.updates)
+                .filter(([deviceId]) => ble.connections[deviceId]?.status === NetworkState.SUCCESS && previous[deviceId]?.status !== NetworkState.SUCCESS)
+                .forEach(([deviceId, update]) => {
+                    if (update.stage === 'interrupted') {
+                        listenerApi.extra.journal.record({ level: 'info', category: 'app', deviceId, message: `Resuming firmware update at ${update.bytesConfirmed} bytes` });
+                        listenerApi.dispatch(startFirmwareUpdate({ deviceId }));
+                    }
+                    else if (update.stage === 'completed') {
+                        listenerApi.dispatch(checkFirmwareVersion({ deviceId }));
+                    }
+                });
+        },
+    });
+};
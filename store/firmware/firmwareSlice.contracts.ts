@@ -0,0 +1,59 @@
+import type { DfuErrorCode } from '../../services/dfu/dfuProtocol';
+import type { IFirmwareImageDescription } from '../../services/dfu/firmwareImage';
+import { NetworkState } from '../ble/bleSlice.contracts';
+
+// The bytes stay outside the store, see `firmwareTransfers.ts`
+export interface IFirmwareImage extends IFirmwareImageDescription {
+    // File name as picked
+    name: string;
+    loadedAt: number;
+    // The bytes are dropped once an update with them completed or was aborted, flashing again needs the file again
+    isReleased: boolean;
+}
+
+/**
+ * - preparing to activating: a transfer is running
+ * - interrupted: the link dropped, the device keeps what it received and the update resumes after reconnecting
+ * - failed, aborted: the next run starts over unless the device still holds a matching partial image
+ */
+export type FirmwareUpdateStage = 'idle' | 'preparing' | 'transferring' | 'validating' | 'activating' | 'completed' | 'interrupted' | 'failed' | 'aborted';
+
+export interface IInstalledFirmware {
+    // Firmware revision from the Device Information service
+    version: string | null;
+    status: NetworkState;
+    error: string;
+}
+
+export interface IFirmwareUpdate {
+    image: IFirmwareImage | null;
+    installed: IInstalledFirmware;
+    stage: FirmwareUpdateStage;
+    // Bytes the device confirmed with a matching checksum
+    bytesConfirmed: number;
+    // Where and when the current run started, so a resumed run's throughput only counts its own bytes
+    runStartOffset: number;
+    runStartedAt: number | null;
+    bytesPerSecond: number | null;
+    etaMs: number | null;
+    // Runs that continued from a partial image
+    resumeCount: number;
+    error: string | null;
+    errorCode: DfuErrorCode | null;
+    completedAt: number | null;
+}
+
+export interface firmwareSliceInterface {
+    // Keyed by device id
+    updates: { [deviceId: string]: IFirmwareUpdate };
+}
+
+export interface firmwareDeviceParams {
+    deviceId: string;
+}
+
+export interface loadFirmwareImageParams {
+    deviceId: string;
+    uri: string;
+    name: string;
+}
@@ -0,0 +1,69 @@
+import { Buffer } from 'buffer';
+import bleServices from '../../constants/bleServices';
+import { MemoryBleTransport } from '../../services/ble';
+import { AppStore, createAppStore, createAppTransport } from '../store';
+import { connectDeviceById } from '../ble/bleSlice';
+import { IGattCharacteristic, IGattService, toBLEDeviceVM } from '../ble/bleSlice.contracts';
+import { abortFirmwareUpdate, loadFirmwareImage, startFirmwareUpdate } from './firmwareSlice';
+import { firmwareImageBytes, setFirmwareImage } from './firmwareTransfers';
+
+const DEVICE_ID = 'AA:BB:CC:DD:EE:01';
+const { dfu } = bleServices;
+
+const characteristic = (uuid: string, changes: Partial<IGattCharacteristic>): IGattCharacteristic => ({
+    uuid,
+    serviceUUID: dfu.uuid,
+    isReadable: false,
+    isWritableWithResponse: false,
+    isWritableWithoutResponse: false,
+    isNotifiable: false,
+    isIndicatable: false,
+    descriptors: [],
+    ...changes,
+});
+
+const dfuServices: Array<IGattService> = [{
+    uuid: dfu.uuid,
+    characteristics: [
+        characteristic(dfu.characteristics.control.uuid, { isWritableWithResponse: true, isNotifiable: true }),
+        characteristic(dfu.characteristics.data.uuid, { isWritableWithoutResponse: true }),
+    ],
+}];
+
+let stores: Array<AppStore> = [];
+
+// Cancels the RSSI polls and the queue's timers, so nothing runs after the test
+afterEach(() => {
+    stores.forEach(store => store.dispose());
+    stores = [];
+});
+
+const setup = async () => {
+    const radio = new MemoryBleTransport();
+    radio.addPeripheral(toBLEDeviceVM({ id: DEVICE_ID, name: 'BLE_SERVER', mtu: 23 }), dfuServices);
+    const store = createAppStore(createAppTransport(radio));
+    stores.push(store);
+    await store.dispatch(connectDeviceById({ id: DEVICE_ID })).unwrap();
+    const bytes = Buffer.alloc(64);
+    setFirmwareImage(DEVICE_ID, bytes);
+    store.dispatch(loadFirmwareImage.fulfilled({
+        size: bytes.length, crc32: 0, version: '1.0.0', projectName: null, buildDate: null, name: 'app.bin', loadedAt: 0, isReleased: false,
+    }, '', { deviceId: DEVICE_ID, uri: '', name: 'app.bin' }));
+    const writes: Array<string> = [];
+    radio.onWrite((deviceId, serviceUUID, characteristicUUID) => writes.push(characteristicUUID));
+    return { store, writes };
+};
+
+it('aborts an update that is still preparing before anything is sent', async () => {
+    const { store, writes } = await setup();
+
+    const update = store.dispatch(startFirmwareUpdate({ deviceId: DEVICE_ID }));
+    await store.dispatch(abortFirmwareUpdate({ deviceId: DEVICE_ID }));
+
+    await expect(update.unwrap()).rejects.toMatchObject({ code: 'ABORTED' });
+    expect(writes).toEqual([]);
+    expect(store.getState().firmware.updates[DEVICE_ID].stage).toBe('aborted');
+    // The image is let go of, flashing again needs the file again
+    expect(firmwareImageBytes(DEVICE_ID)).toBeNull();
+    expect(store.getState().firmware.updates[DEVICE_ID].image?.isReleased).toBe(true);
+});
@@ -0,0 +1,269 @@
+import { createAsyncThunk, createSelector, createSlice } from '@reduxjs/toolkit';
+import { AppThunkConfig, RootState } from '../store';
+import { DfuError, DfuErrorCode } from '../../services/dfu/dfuProtocol';
+import { DfuSession } from '../../services/dfu/DfuSession';
+import { describeFirmwareImage } from '../../services/dfu/firmwareImage';
+import { readFirmwareFile } from '../../services/dfu/firmwareFiles';
+import { requestMtu, selectConnections } from '../ble/bleSlice';
+import { IDeviceConnection, NetworkState } from '../ble/bleSlice.contracts';
+import { findProfileCharacteristic, hasServiceProfile, readCharacteristic } from '../ble/characteristicProfiles';
+import {
+    activeSession,
+    firmwareImageBytes,
+    isAbortPending,
+    releaseFirmwareImage,
+    setAbortPending,
+    setActiveSession,
+    setFirmwareImage,
+} from './firmwareTransfers';
+import {
+    firmwareDeviceParams,
+    firmwareSliceInterface,
+    FirmwareUpdateStage,
+    IFirmwareImage,
+    IFirmwareUpdate,
+    loadFirmwareImageParams,
+} from './firmwareSlice.contracts';
+import { errorMessage } from '../../utils/errors';
+
+// Largest MTU BLE allows, the ESP32 settles on what its stack supports
+const DFU_MTU = 517;
+const ATT_HEADER_SIZE = 3;
+
+const runningStages: Array<FirmwareUpdateStage> = ['preparing', 'transferring', 'validating', 'activating'];
+
+export const isUpdateRunning = (update: IFirmwareUpdate | undefined) => !!update && runningStages.includes(update.stage);
+
+const hasDfuService = (connection: IDeviceConnection | undefined) =>
+    !!findProfileCharacteristic(connection, 'dfu', 'control') && !!findProfileCharacteristic(connection, 'dfu', 'data');
+
+export const supportsDfu = (state: RootState, deviceId: string) => hasDfuService(state.ble.connections[deviceId]);
+
+// Reads the firmware file and keeps its bytes for `startFirmwareUpdate`. Rejects files that are not ESP32 application images.
+export const loadFirmwareImage = createAsyncThunk<IFirmwareImage, loadFirmwareImageParams, AppThunkConfig>('firmware/loadFirmwareImage', async (params) => {
+    const { deviceId, uri, name } = params;
+    try {
+        const bytes = await readFirmwareFile(uri);
+        const description = describeFirmwareImage(bytes);
+        setFirmwareImage(deviceId, bytes);
+        return { ...description, name, loadedAt: Date.now(), isReleased: false };
+    } catch (error: any) {
+        throw new Error(errorMessage(error));
+    }
+}, {
+    condition: ({ deviceId }, { getState }) => !isUpdateRunning(getState().firmware.updates[deviceId]),
+});
+
+// Resolves with the firmware revision the device reports
+export const checkFirmwareVersion = createAsyncThunk<string, firmwareDeviceParams, AppThunkConfig>('firmware/checkFirmwareVersion', async (params, thunkAPI) => {
+    const { deviceId } = params;
+    if (!hasServiceProfile(thunkAPI.getState().ble.connections[deviceId], 'deviceInformation')) {
+        throw new Error('The device does not report its firmware version');
+    }
+    try {
+        const version = await thunkAPI.dispatch(readCharacteristic({ deviceId, service: 'deviceInformation', characteristic: 'firmwareRevision' })).unwrap();
+        return String(version ?? '');
+    } catch (error: any) {
+        throw new Error(errorMessage(error));
+    }
+});
+
+/**
+ * Flashes the loaded image, continuing where the device left off when it still holds part of it. Rejects with
+ * `error.code` set to a `DfuErrorCode`; DISCONNECTED marks the update interrupted and it resumes once the
+ * device is connected again, see `firmwareListeners.ts`.
+ */
+export const startFirmwareUpdate = createAsyncThunk<void, firmwareDeviceParams, AppThunkConfig>('firmware/startFirmwareUpdate', async (params, thunkAPI) => {
+    const { deviceId } = params;
+    const state = thunkAPI.getState();
+    const image = firmwareImageBytes(deviceId);
+    const update = state.firmware.updates[deviceId];
+    if (!image || !update?.image) {
+        throw new DfuError('INVALID_IMAGE', 'Select a firmware image first');
+    }
+    if (state.ble.connections[deviceId]?.status !== NetworkState.SUCCESS) {
+        throw new DfuError('DISCONNECTED', 'The device is not connected');
+    }
+    if (!supportsDfu(state, deviceId)) {
+        throw new DfuError('UNSUPPORTED', 'The device does not support firmware updates');
+    }
+
+    // The update is 'preparing' from here on, an abort before the session exists is picked up below
+    setAbortPending(deviceId, false);
+    let mtu = state.ble.connections[deviceId].mtu || 23;
+    try {
+        mtu = await thunkAPI.dispatch(requestMtu({ deviceId, mtu: DFU_MTU })).unwrap();
+    } catch (error: any) {
+        thunkAPI.extra.journal.record({ level: 'warn', category: 'gatt', deviceId, message: `Keeping MTU ${mtu} for the firmware update: ${errorMessage(error)}` });
+    }
+    if (isAbortPending(deviceId)) {
+        setAbortPending(deviceId, false);
+        releaseFirmwareImage(deviceId);
+        throw new DfuError('ABORTED', 'Firmware update aborted');
+    }
+
+    const session = new DfuSession(thunkAPI.extra.bleTransport, deviceId, image, {
+        chunkSize: mtu - ATT_HEADER_SIZE,
+        version: update.image.version,
+        onStage: stage => thunkAPI.dispatch(firmwareStageChanged({ deviceId, stage })),
+        onProgress: offset => thunkAPI.dispatch(firmwareProgress({ deviceId, offset, at: Date.now() })),
+        journal: thunkAPI.extra.journal,
+    });
+    setActiveSession(deviceId, session);
+    try {
+        await session.run();
+        releaseFirmwareImage(deviceId);
+    } catch (error: any) {
+        if (error instanceof DfuError && error.code === 'ABORTED') releaseFirmwareImage(deviceId);
+        if (error instanceof DfuError) throw error;
+        throw new Error(errorMessage(error));
+    } finally {
+        setActiveSession(deviceId, null);
+    }
+}, {
+    condition: ({ deviceId }, { getState }) => !isUpdateRunning(getState().firmware.updates[deviceId]),
+});
+
+// Stops a running transfer, or gives up on resuming an interrupted one
+export const abortFirmwareUpdate = createAsyncThunk<void, firmwareDeviceParams, AppThunkConfig>('firmware/abortFirmwareUpdate', async (params, thunkAPI) => {
+    const { deviceId } = params;
+    const session = activeSession(deviceId);
+    const stage = thunkAPI.getState().firmware.updates[deviceId]?.stage;
+    if (session) session.abort();
+    else if (stage === 'preparing') setAbortPending(deviceId, true);
+    else if (stage === 'interrupted') releaseFirmwareImage(deviceId);
+});
+
+const newUpdate = (): IFirmwareUpdate => ({
+    image: null,
+    installed: { version: null, status: NetworkState.PENDING, error: '' },
+    stage: 'idle',
+    bytesConfirmed: 0,
+    runStartOffset: 0,
+    runStartedAt: null,
+    bytesPerSecond: null,
+    etaMs: null,
+    resumeCount: 0,
+    error: null,
+    errorCode: null,
+    completedAt: null,
+});
+
+const ensureUpdate = (state: firmwareSliceInterface, deviceId: string) => {
+    if (!state.updates[deviceId]) state.updates[deviceId] = newUpdate();
+    return state.updates[deviceId];
+};
+
+const stageAfterError = (code: DfuErrorCode | null): FirmwareUpdateStage => {
+    if (code === 'ABORTED') return 'aborted';
+    if (code === 'DISCONNECTED') return 'interrupted';
+    return 'failed';
+};
+
+const initialState: firmwareSliceInterface = {
+    updates: {},
+};
+
+const firmwareSlice = createSlice({
+    name: 'firmware',
+    initialState,
+    reducers: {
+        firmwareStageChanged(state, action) {
+            const { deviceId, stage } = action.payload;
+            const update = state.updates[deviceId];
+            if (!update) return;
+            update.stage = stage;
+            if (stage !== 'transferring') update.etaMs = null;
+        },
+        firmwareProgress(state, action) {
+            const { deviceId, offset, at } = action.payload;
+            const update = state.updates[deviceId];
+            if (!update?.image) return;
+            // First progress of a run is where the device resumed
+            if (update.stage === 'preparing') {
+                update.runStartOffset = offset;
+                update.runStartedAt = at;
+                if (offset > 0) update.resumeCount += 1;
+            }
+            update.bytesConfirmed = offset;
+            const elapsedMs = at - (update.runStartedAt ?? at);
+            const sent = offset - update.runStartOffset;
+            if (elapsedMs > 0 && sent > 0) {
+                update.bytesPerSecond = sent / elapsedMs * 1000;
+                update.etaMs = (update.image.size - offset) / update.bytesPerSecond * 1000;
+            }
+        },
+    },
+    extraReducers(builder) {
+        builder
+            .addCase(loadFirmwareImage.fulfilled, (state, action) => {
+                const update = ensureUpdate(state, action.meta.arg.deviceId);
+                Object.assign(update, { ...newUpdate(), installed: update.installed, image: action.payload });
+            })
+            .addCase(checkFirmwareVersion.pending, (state, action) => {
+                const { installed } = ensureUpdate(state, action.meta.arg.deviceId);
+                installed.status = NetworkState.LOADING;
+                installed.error = '';
+            })
+            .addCase(checkFirmwareVersion.fulfilled, (state, action) => {
+                const { installed } = ensureUpdate(state, action.meta.arg.deviceId);
+                installed.status = NetworkState.SUCCESS;
+                installed.version = action.payload || null;
+            })
+            .addCase(checkFirmwareVersion.rejected, (state, action) => {
+                const { installed } = ensureUpdate(state, action.meta.arg.deviceId);
+                installed.status = NetworkState.ERROR;
+                installed.error = action.error.message ?? '';
+            })
+            .addCase(startFirmwareUpdate.pending, (state, action) => {
+                const update = ensureUpdate(state, action.meta.arg.deviceId);
+                update.stage = 'preparing';
+                update.error = null;
+                update.errorCode = null;
+                update.bytesPerSecond = null;
+                update.etaMs = null;
+                update.completedAt = null;
+            })
+            .addCase(startFirmwareUpdate.fulfilled, (state, action) => {
+                const update = ensureUpdate(state, action.meta.arg.deviceId);
+                update.stage = 'completed';
+                if (update.image) update.image.isReleased = true;
+                update.etaMs = 0;
+                update.completedAt = Date.now();
+                // Whatever was installed before is gone, it is read again after the device rebooted
+                update.installed = { version: null, status: NetworkState.PENDING, error: '' };
+            })
+            .addCase(startFirmwareUpdate.rejected, (state, action) => {
+                const update = ensureUpdate(state, action.meta.arg.deviceId);
+                const code = (action.error.code as DfuErrorCode | undefined) ?? null;
+                update.stage = stageAfterError(code);
+                if (code === 'ABORTED' && update.image) update.image.isReleased = true;
+                update.error = action.error.message ?? null;
+                update.errorCode = code;
+                update.etaMs = null;
+            })
+            .addCase(abortFirmwareUpdate.fulfilled, (state, action) => {
+                const update = state.updates[action.meta.arg.deviceId];
+                // A running transfer is marked aborted when its thunk rejects
+                if (update?.stage === 'interrupted') {
+                    update.stage = 'aborted';
+                    if (update.image) update.image.isReleased = true;
+                }
+            });
+    },
+});
+
+export default firmwareSlice.reducer;
+
+export const { firmwareStageChanged, firmwareProgress } = firmwareSlice.actions;
+
+export const selectFirmwareUpdates = (state: RootState) => state.firmware.updates;
+export const selectFirmwareUpdate = (deviceId?: string | null) => (state: RootState) =>
+    deviceId ? state.firmware.updates[deviceId] : undefined;
+// Connected devices with the DFU service, plus ones whose interrupted update waits for them to come back
+export const selectFirmwareDeviceIds = createSelector(selectConnections, selectFirmwareUpdates, (connections, updates) => {
+    const connected = Object.keys(connections).filter(id => connections[id].status === NetworkState.SUCCESS && hasDfuService(connections[id]));
+    const interrupted = Object.keys(updates).filter(id => updates[id].stage === 'interrupted' && !connected.includes(id));
+    return [...connected, ...interrupted];
+});
+export const selectSupportsDfu = (deviceId?: string | null) => (state: RootState) => !!deviceId && supportsDfu(state, deviceId);
@@ -0,0 +1,24 @@
+import { Buffer } from 'buffer';
+import { DfuSession } from '../../services/dfu/DfuSession';
+
+// Image bytes and running sessions per device. Both are far too large or not serializable for Redux.
+const images = new Map<string, Buffer>();
+const sessions = new Map<string, DfuSession>();
+// Updates aborted while still preparing, before their session exists
+const pendingAborts = new Set<string>();
+
+export const setFirmwareImage = (deviceId: string, bytes: Buffer) => images.set(deviceId, bytes);
+export const firmwareImageBytes = (deviceId: string) => images.get(deviceId) ?? null;
+export const releaseFirmwareImage = (deviceId: string) => images.delete(deviceId);
+
+export const setActiveSession = (deviceId: string, session: DfuSession | null) => {
+    if (session) sessions.set(deviceId, session);
+    else sessions.delete(deviceId);
+};
+export const activeSession = (deviceId: string) => sessions.get(deviceId) ?? null;
+
+export const setAbortPending = (deviceId: string, isPending: boolean) => {
+    if (isPending) pendingAborts.add(deviceId);
+    else pendingAborts.delete(deviceId);
+};
+export const isAbortPending = (deviceId: string) => pendingAborts.has(deviceId);
@@ -0,0 +1,10 @@
+import type { IGattOperation } from '../../services/ble/gattQueue';
+
+export interface gattQueueSliceInterface {
+    // Running operation first, then the waiting ones in the order they will run
+    operations: { [deviceId: string]: Array<IGattOperation> };
+}
+
+export interface cancelGattOperationParams {
+    transactionId: string;
+}
@@ -0,0 +1,43 @@
+import { createAsyncThunk, createSelector, createSlice } from '@reduxjs/toolkit';
+import { AppThunkConfig, RootState } from '../store';
+import { IGattOperation } from '../../services/ble/gattQueue';
+import { cancelGattOperationParams, gattQueueSliceInterface } from './gattQueueSlice.contracts';
+
+const noOperations: Array<IGattOperation> = [];
+
+// Rejects the operation with `error.code` CANCELED, whether it is still waiting or already running
+export const cancelGattOperation = createAsyncThunk<void, cancelGattOperationParams, AppThunkConfig>('gattQueue/cancelGattOperation', async (params, thunkAPI) => {
+    thunkAPI.extra.bleTransport.cancelTransaction(params.transactionId);
+});
+
+const initialState: gattQueueSliceInterface = {
+    operations: {},
+};
+
+const gattQueueSlice = createSlice({
+    name: 'gattQueue',
+    initialState,
+    reducers: {
+        // Snapshot from `QueuedBleTransport.onOperationsChanged`, replaces the previous one
+        gattOperationsChanged(state, action) {
+            const { operations } = action.payload;
+            state.operations = {};
+            operations.forEach((operation: IGattOperation) => {
+                if (!state.operations[operation.deviceId]) state.operations[operation.deviceId] = [];
+                state.operations[operation.deviceId].push(operation);
+            });
+        },
+    },
+});
+
+export default gattQueueSlice.reducer;
+
+export const { gattOperationsChanged } = gattQueueSlice.actions;
+
+export const selectGattOperations = (state: RootState) => state.gattQueue.operations;
+export const selectDeviceGattOperations = (deviceId?: string | null) => (state: RootState) =>
+    (deviceId && state.gattQueue.operations[deviceId]) || noOperations;
+export const selectGattOperation = (transactionId: string) => (state: RootState) =>
+    Object.values(state.gattQueue.operations).flat().find(operation => operation.transactionId === transactionId);
+export const selectPendingGattOperationCount = createSelector(selectGattOperations, operations =>
+    Object.values(operations).reduce((count, deviceOperations) => count + deviceOperations.length, 0));
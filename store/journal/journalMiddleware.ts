@@ -0,0 +1,82 @@
+import { AnyAction, isRejected, Middleware } from '@reduxjs/toolkit';
+import type { bleSliceInterface } from '../ble/bleSlice.contracts';
+import { EventJournal, JournalCategory } from '../../services/journal/eventJournal';
+import {
+    cancelReconnect,
+    connectionLost,
+    deviceDisconnected,
+    reconnectAttemptScheduled,
+    reconnectDevice,
+    setAdapterState,
+} from '../ble/bleSlice';
+import { firmwareStageChanged } from '../firmware/firmwareSlice';
+import { appStateChanged, setBackgroundMonitoring } from '../background/backgroundSlice';
+
+// Thunk type prefixes by category, the first match wins
+const thunkCategories: Array<[RegExp, JournalCategory]> = [
+    [/^ble\/(scan|stopDeviceScan)/i, 'scan'],
+    [/^ble\/(connect|disconnect|reconnect|handleDeviceDisconnected)/i, 'connection'],
+    [/^ble\/(checkPermissions|requestPermissions)/i, 'adapter'],
+    [/^(ble|commands|gattQueue)\//, 'gatt'],
+];
+
+const thunkCategory = (type: string) => thunkCategories.find(([pattern]) => pattern.test(type))?.[1] ?? 'app';
+
+const argDeviceId = (action: AnyAction): string | null => action.meta?.arg?.deviceId ?? action.meta?.arg?.id ?? null;
+
+// Only the BLE state is read; typing it with `RootState` would make the store's type depend on itself
+type JournaledState = { ble: bleSliceInterface };
+
+/**
+ * Records what the store learns about the radio: adapter state, dropped links, reconnect attempts and every
+ * thunk that failed. The radio operations themselves come from `JournalingBleTransport`.
+ */
+export const createJournalMiddleware = (journal: EventJournal): Middleware<{}, JournaledState> => store => next => (action: AnyAction) => {
+    const previousReadiness = store.getState().ble.readiness;
+    const result = next(action);
+    const { readiness } = store.getState().ble;
+    if (readiness !== previousReadiness) {
+        journal.record({ level: readiness === 'ready' ? 'info' : 'warn', category: 'adapter', message: `Bluetooth ${readiness}` });
+    }
+
+    if (setAdapterState.match(action)) {
+        journal.record({ level: 'info', category: 'adapter', message: `Adapter ${action.payload.adapterState}` });
+    }
+    else if (connectionLost.match(action)) {
+        journal.record({ level: 'warn', category: 'connection', deviceId: action.payload.id, message: `Link lost: ${action.payload.error ?? 'no reason given'}` });
+    }
+    else if (deviceDisconnected.match(action)) {
+        const { id, error } = action.payload;
+        journal.record({ level: error ? 'warn' : 'info', category: 'connection', deviceId: id, message: error ? `Disconnected: ${error}` : 'Disconnected' });
+    }
+    else if (reconnectAttemptScheduled.match(action)) {
+        const { id, attempt, nextReconnectAt } = action.payload;
+        const maxAttempts = store.getState().ble.reconnectPolicy.maxAttempts;
+        journal.record({ level: 'info', category: 'connection', deviceId: id, message: `Reconnect attempt ${attempt}/${maxAttempts} in ${Math.max(0, nextReconnectAt - Date.now())} ms` });
+    }
+    else if (cancelReconnect.match(action)) {
+        journal.record({ level: 'info', category: 'connection', deviceId: action.payload.id, message: 'Reconnect canceled' });
+    }
+    else if (reconnectDevice.fulfilled.match(action)) {
+        journal.record({ level: 'info', category: 'connection', deviceId: action.meta.arg.id, message: 'Reconnected' });
+    }
+    else if (firmwareStageChanged.match(action)) {
+        journal.record({ level: 'info', category: 'app', deviceId: action.payload.deviceId, message: `Firmware update ${action.payload.stage}` });
+    }
+    else if (appStateChanged.match(action)) {
+        journal.record({ level: 'info', category: 'app', message: `App ${action.payload.appState}` });
+    }
+    else if (setBackgroundMonitoring.match(action)) {
+        journal.record({ level: 'info', category: 'app', message: `Background monitoring ${action.payload.enabled ? 'enabled' : 'disabled'}` });
+    }
+    // Skipped by their condition, nothing was attempted
+    else if (isRejected(action) && !action.meta.condition) {
+        journal.record({
+            level: 'error',
+            category: thunkCategory(action.type),
+            deviceId: argDeviceId(action),
+            message: `${action.type.replace(/\/rejected$/, '')} failed: ${action.error.message ?? 'Unknown error'}`,
+        });
+    }
+    return result;
+};
@@ -0,0 +1,27 @@
+import { writeJson } from '../../services/storage';
+import { NetworkState } from '../ble/bleSlice.contracts';
+import type { AppStartListening } from '../listenerMiddleware';
+import type { RootState } from '../store';
+import { KNOWN_DEVICES_STORAGE_KEY, StoredKnownDevices } from './knownDevicesSlice';
+
+const isLoaded = (state: RootState) =>
+    state.knownDevices.loadStatus === NetworkState.SUCCESS || state.knownDevices.loadStatus === NetworkState.ERROR;
+
+// Saves known devices and the preferred one whenever they change, once the stored ones have been loaded or could not be
+export const startKnownDevicesListeners = (startListening: AppStartListening) => {
+    startListening({
+        predicate: (action, currentState, previousState) =>
+            isLoaded(currentState) && isLoaded(previousState)
+            && (currentState.knownDevices.devices !== previousState.knownDevices.devices
+                || currentState.knownDevices.preferredId !== previousState.knownDevices.preferredId),
+        effect: async (action, listenerApi) => {
+            const { devices, preferredId } = listenerApi.getState().knownDevices;
+            const stored: StoredKnownDevices = { devices, preferredId };
+            try {
+                await writeJson(listenerApi.extra.storage, KNOWN_DEVICES_STORAGE_KEY, stored);
+            } catch (error: any) {
+                listenerApi.extra.journal.record({ level: 'error', category: 'app', message: `Known devices could not be saved: ${error.message}` });
+            }
+        },
+    });
+};
@@ -0,0 +1,30 @@
+import { NetworkState } from '../ble/bleSlice.contracts';
+
+export interface IKnownDevice {
+    id: string;
+    // Advertised name at the last connection
+    name: string | null;
+    // Set by the user, shown instead of the advertised name
+    nickname: string | null;
+    lastConnectedAt: number;
+}
+
+export type AutoConnectStage = 'idle' | 'connecting' | 'scanning' | 'connected' | 'failed';
+
+export interface knownDevicesSliceInterface {
+    // Every device the app has connected to, keyed by id
+    devices: { [deviceId: string]: IKnownDevice };
+    // Connected to on launch
+    preferredId: string | null;
+    loadStatus: NetworkState;
+    autoConnect: {
+        stage: AutoConnectStage;
+        error: string | null;
+    };
+}
+
+export interface renameKnownDeviceParams {
+    id: string;
+    // Empty or null restores the advertised name
+    nickname: string | null;
+}
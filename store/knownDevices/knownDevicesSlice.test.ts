@@ -0,0 +1,55 @@
+import bleServices from '../../constants/bleServices';
+import { MemoryBleTransport } from '../../services/ble';
+import { AppStore, createAppStore, createAppTransport } from '../store';
+import { scanBleDevices, setAdapterState } from '../ble/bleSlice';
+import { NetworkState, toBLEDeviceVM } from '../ble/bleSlice.contracts';
+import { autoConnectPreferredDevice, loadKnownDevices } from './knownDevicesSlice';
+
+const SCALE_ID = 'AA:BB:CC:DD:EE:01';
+const { sample } = bleServices;
+
+let stores: Array<AppStore> = [];
+
+// Cancels the RSSI polls and the queue's timers, so nothing runs after the test
+afterEach(() => {
+    stores.forEach(store => store.dispose());
+    stores = [];
+});
+
+// A renamed scale, which the default scan filter does not match
+const setup = async () => {
+    const radio = new MemoryBleTransport();
+    radio.addPeripheral(toBLEDeviceVM({ id: SCALE_ID, name: 'Kitchen scale', mtu: 23, rssi: -50, serviceUUIDs: [sample.uuid] }));
+    const store = createAppStore(createAppTransport(radio));
+    stores.push(store);
+    store.dispatch(setAdapterState({ adapterState: 'PoweredOn' }));
+    store.dispatch(loadKnownDevices.fulfilled({
+        devices: { [SCALE_ID]: { id: SCALE_ID, name: 'Kitchen scale', nickname: null, lastConnectedAt: 0 } },
+        preferredId: SCALE_ID,
+    }, ''));
+    return { radio, store };
+};
+
+it('finds the preferred device by scanning when connecting by id fails', async () => {
+    const { radio, store } = await setup();
+    radio.injectError(SCALE_ID, 'connect', new Error('Device not cached'));
+
+    await expect(store.dispatch(autoConnectPreferredDevice()).unwrap()).resolves.toBe(true);
+
+    expect(store.getState().knownDevices.autoConnect.stage).toBe('connected');
+    expect(store.getState().ble.connections[SCALE_ID].status).toBe(NetworkState.SUCCESS);
+    // The scan screen's list only ever shows what its own filter matched
+    expect(store.getState().ble.deviceScan.devices).toEqual([]);
+});
+
+it('stops a running scan before looking for the preferred device', async () => {
+    const { radio, store } = await setup();
+    radio.injectError(SCALE_ID, 'connect', new Error('Device not cached'));
+    const userScan = store.dispatch(scanBleDevices({ timeoutMs: 0 }));
+
+    await expect(store.dispatch(autoConnectPreferredDevice()).unwrap()).resolves.toBe(true);
+
+    await userScan;
+    expect(store.getState().ble.deviceScan.status).not.toBe(NetworkState.LOADING);
+    expect(store.getState().ble.deviceScan.devices).toEqual([]);
+});
@@ -0,0 +1,165 @@
+import { createAction, createAsyncThunk, createSlice } from '@reduxjs/toolkit';
+import { AppThunkConfig, RootState } from '../store';
+import { NetworkState } from '../ble/bleSlice.contracts';
+import { connectDeviceById, reconnectDevice, stopDeviceScan } from '../ble/bleSlice';
+import { BleTransport } from '../../services/ble';
+import { readJson } from '../../services/storage';
+import { IKnownDevice, knownDevicesSliceInterface } from './knownDevicesSlice.contracts';
+import { errorMessage } from '../../utils/errors';
+
+export const KNOWN_DEVICES_STORAGE_KEY = '@knownDevices';
+
+// A device that is in range answers well within this, otherwise the scan is quicker than waiting longer
+const DIRECT_CONNECT_TIMEOUT_MS = 8000;
+const FALLBACK_SCAN_TIMEOUT_MS = 20000;
+
+export type StoredKnownDevices = Pick<knownDevicesSliceInterface, 'devices' | 'preferredId'>;
+
+export const loadKnownDevices = createAsyncThunk<StoredKnownDevices | null, void, AppThunkConfig>('knownDevices/loadKnownDevices', async (_, thunkAPI) => {
+    return readJson<StoredKnownDevices | null>(thunkAPI.extra.storage, KNOWN_DEVICES_STORAGE_KEY, null, thunkAPI.extra.journal);
+});
+
+const autoConnectScanStarted = createAction('knownDevices/autoConnectScanStarted');
+
+export const knownDeviceName = (device: IKnownDevice) => device.nickname || device.name || device.id;
+
+// Resolves true once the device advertises, false when it did not within `timeoutMs`. Talks to the transport
+// directly, so the scan list and the user's filter stay as they are.
+const scanForDevice = (bleTransport: BleTransport, id: string, timeoutMs: number) => new Promise<boolean>((resolve, reject) => {
+    let isDone = false;
+    const finish = (isFound: boolean, error?: Error) => {
+        if (isDone) return;
+        isDone = true;
+        clearTimeout(timeout);
+        bleTransport.stopScan();
+        if (error) reject(error);
+        else resolve(isFound);
+    };
+    const timeout = setTimeout(() => finish(false), timeoutMs);
+    try {
+        bleTransport.startScan(null, null, (error, device) => {
+            if (error) finish(false, new Error(errorMessage(error)));
+            else if (device?.id === id) finish(true);
+        });
+    } catch (error: any) {
+        finish(false, new Error(errorMessage(error)));
+    }
+});
+
+/**
+ * Connects to the preferred device by id. When it cannot be reached that way, e.g. because the OS no longer
+ * caches it, scans for it and connects as soon as it advertises. A scan the user started is stopped first.
+ * Resolves false when there is no preferred device.
+ */
+export const autoConnectPreferredDevice = createAsyncThunk<boolean, void, AppThunkConfig>('knownDevices/autoConnectPreferredDevice', async (_, thunkAPI) => {
+    const { knownDevices } = thunkAPI.getState();
+    const id = knownDevices.preferredId;
+    if (!id) return false;
+    const status = thunkAPI.getState().ble.connections[id]?.status;
+    if (status === NetworkState.SUCCESS || status === NetworkState.RECONNECTING) return true;
+
+    try {
+        await thunkAPI.dispatch(connectDeviceById({ id, timeoutMs: DIRECT_CONNECT_TIMEOUT_MS })).unwrap();
+        return true;
+    } catch (error: any) {
+        thunkAPI.extra.journal.record({ level: 'info', category: 'connection', deviceId: id, message: `Preferred device not reachable directly: ${errorMessage(error)}` });
+    }
+
+    thunkAPI.dispatch(autoConnectScanStarted());
+    if (thunkAPI.getState().ble.deviceScan.status === NetworkState.LOADING) {
+        await thunkAPI.dispatch(stopDeviceScan());
+    }
+    const name = knownDeviceName(knownDevices.devices[id] ?? { id, name: null, nickname: null, lastConnectedAt: 0 });
+    if (!await scanForDevice(thunkAPI.extra.bleTransport, id, FALLBACK_SCAN_TIMEOUT_MS)) {
+        throw new Error(`${name} was not found nearby`);
+    }
+    try {
+        await thunkAPI.dispatch(connectDeviceById({ id })).unwrap();
+    } catch (error: any) {
+        throw new Error(`Could not connect to ${name}: ${errorMessage(error)}`);
+    }
+    return true;
+}, {
+    condition: (_, { getState }) => {
+        const { autoConnect } = getState().knownDevices;
+        return autoConnect.stage !== 'connecting' && autoConnect.stage !== 'scanning';
+    },
+});
+
+const initialState: knownDevicesSliceInterface = {
+    devices: {},
+    preferredId: null,
+    loadStatus: NetworkState.PENDING,
+    autoConnect: {
+        stage: 'idle',
+        error: null,
+    },
+};
+
+const knownDevicesSlice = createSlice({
+    name: 'knownDevices',
+    initialState,
+    reducers: {
+        renameKnownDevice(state, action) {
+            const { id, nickname } = action.payload;
+            const device = state.devices[id];
+            if (device) device.nickname = nickname?.trim() || null;
+        },
+        forgetKnownDevice(state, action) {
+            const { id } = action.payload;
+            delete state.devices[id];
+            if (state.preferredId === id) state.preferredId = null;
+        },
+        // Null stops connecting on launch
+        setPreferredDevice(state, action) {
+            const { id } = action.payload;
+            state.preferredId = id && state.devices[id] ? id : null;
+        },
+    },
+    extraReducers(builder) {
+        const remember = (state: knownDevicesSliceInterface, action: { payload: { device: { id: string, name: string | null } } }) => {
+            const { id, name } = action.payload.device;
+            const known = state.devices[id];
+            state.devices[id] = { id, name: name ?? known?.name ?? null, nickname: known?.nickname ?? null, lastConnectedAt: Date.now() };
+            // The first device connected to becomes the preferred one
+            if (!state.preferredId) state.preferredId = id;
+        };
+        builder
+            .addCase(loadKnownDevices.pending, (state) => {
+                state.loadStatus = NetworkState.LOADING;
+            })
+            .addCase(loadKnownDevices.fulfilled, (state, action) => {
+                state.loadStatus = NetworkState.SUCCESS;
+                if (!action.payload) return;
+                // Connections made before loading finished are kept
+                state.devices = { ...action.payload.devices, ...state.devices };
+                state.preferredId = action.payload.preferredId ?? state.preferredId;
+            })
+            .addCase(loadKnownDevices.rejected, (state) => {
+                state.loadStatus = NetworkState.ERROR;
+            })
+            .addCase(connectDeviceById.fulfilled, remember)
+            .addCase(reconnectDevice.fulfilled, remember)
+            .addCase(autoConnectPreferredDevice.pending, (state) => {
+                state.autoConnect = { stage: 'connecting', error: null };
+            })
+            .addCase(autoConnectScanStarted, (state) => {
+                state.autoConnect.stage = 'scanning';
+            })
+            .addCase(autoConnectPreferredDevice.fulfilled, (state, action) => {
+                state.autoConnect.stage = action.payload ? 'connected' : 'idle';
+            })
+            .addCase(autoConnectPreferredDevice.rejected, (state, action) => {
+                state.autoConnect = { stage: 'failed', error: action.error.message ?? null };
+            });
+    },
+});
+
+export default knownDevicesSlice.reducer;
+
+export const { renameKnownDevice, forgetKnownDevice, setPreferredDevice } = knownDevicesSlice.actions;
+
+export const selectKnownDevices = (state: RootState) => state.knownDevices.devices;
+export const selectPreferredDeviceId = (state: RootState) => state.knownDevices.preferredId;
+export const selectKnownDevicesLoadStatus = (state: RootState) => state.knownDevices.loadStatus;
+export const selectAutoConnect = (state: RootState) => state.knownDevices.autoConnect;
@@ -0,0 +1,29 @@
+import { createListenerMiddleware, TypedStartListening } from '@reduxjs/toolkit';
+import type { AppDispatch, RootState, ThunkExtra } from './store';
+import { startWeightListeners } from './weight/weightListeners';
+import { startSessionListeners } from './sessions/sessionListeners';
+import { startCalibrationListeners } from './calibration/calibrationListeners';
+import { startAlertListeners } from './alerts/alertListeners';
+import { startCommandListeners } from './commands/commandListeners';
+import { startKnownDevicesListeners } from './knownDevices/knownDevicesListeners';
+import { startFirmwareListeners } from './firmware/firmwareListeners';
+import { startDiagnosticsListeners } from './diagnostics/diagnosticsListeners';
+import { startBackgroundListeners } from './background/backgroundListeners';
+
+export type AppStartListening = TypedStartListening<RootState, AppDispatch, ThunkExtra>;
+
+// Side effects that follow actions, e.g. turning BLE notifications into weight samples. Listeners get the same `extra` as thunks.
+export const createAppListenerMiddleware = (extra: ThunkExtra) => {
+    const listenerMiddleware = createListenerMiddleware({ extra });
+    const startListening = listenerMiddleware.startListening as AppStartListening;
+    startWeightListeners(startListening);
+    startSessionListeners(startListening);
+    startCalibrationListeners(startListening);
+    startAlertListeners(startListening);
+    startCommandListeners(startListening);
+    startKnownDevicesListeners(startListening);
+    startFirmwareListeners(startListening);
+    startDiagnosticsListeners(startListening);
+    startBackgroundListeners(startListening);
+    return listenerMiddleware;
+};
@@ -0,0 +1,19 @@
+import { ISessionSample } from './sessionsSlice.contracts';
+
+// Samples of the running recordings, keyed by recording id. Kept out of Redux so a long recording does not
+// copy a growing array with every notification; the store only counts them.
+const buffers = new Map<string, Array<ISessionSample>>();
+
+export const recordingSamples = (recordingId: string) => {
+    let samples = buffers.get(recordingId);
+    if (!samples) {
+        samples = [];
+        buffers.set(recordingId, samples);
+    }
+    return samples;
+};
+
+// Once the recording is saved
+export const clearRecordingSamples = (recordingId: string) => {
+    buffers.delete(recordingId);
+};
@@ -0,0 +1,32 @@
+import { NetworkState } from '../ble/bleSlice.contracts';
+import type { AppStartListening } from '../listenerMiddleware';
+import { weightSampleReceived } from '../weight/weightSlice';
+import { stopRecording } from './sessionsSlice';
+import { recordingSamples } from './recordingSamples';
+
+export const startSessionListeners = (startListening: AppStartListening) => {
+    // Keeps the samples of the running recordings, the reducer has already counted this one
+    startListening({
+        actionCreator: weightSampleReceived,
+        effect: (action, listenerApi) => {
+            const { sample } = action.payload;
+            const recording = listenerApi.getState().sessions.recordings[sample.deviceId];
+            if (!recording || recording.isSaving) return;
+            recordingSamples(recording.id).push({ t: sample.receivedAt, weight: sample.weight, raw: sample.raw });
+        },
+    });
+
+    // A recording survives reconnects but is saved once its device is disconnected for good
+    startListening({
+        predicate: (action, currentState, previousState) => currentState.ble.connections !== previousState.ble.connections,
+        effect: (action, listenerApi) => {
+            const { ble, sessions } = listenerApi.getState();
+            Object.keys(sessions.recordings).forEach(deviceId => {
+                const status = ble.connections[deviceId]?.status;
+                if (status !== NetworkState.SUCCESS && status !== NetworkState.RECONNECTING) {
+                    listenerApi.dispatch(stopRecording({ deviceId }));
+                }
+            });
+        },
+    });
+};
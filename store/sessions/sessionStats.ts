@@ -0,0 +1,25 @@
+import { ISessionSample, ISessionStats } from './sessionsSlice.contracts';
+
+export const sessionStats = (samples: Array<ISessionSample>, startedAt: number, endedAt: number): ISessionStats => {
+    if (samples.length === 0) {
+        return { durationMs: endedAt - startedAt, count: 0, min: null, max: null, mean: null };
+    }
+    let min = Infinity;
+    let max = -Infinity;
+    let total = 0;
+    samples.forEach(({ weight }) => {
+        min = Math.min(min, weight);
+        max = Math.max(max, weight);
+        total += weight;
+    });
+    return { durationMs: endedAt - startedAt, count: samples.length, min, max, mean: total / samples.length };
+};
+
+// `1:05:09` or `5:09`
+export const formatDuration = (durationMs: number) => {
+    const totalSeconds = Math.round(durationMs / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor(totalSeconds / 60) % 60;
+    const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+    return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
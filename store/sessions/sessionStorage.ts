@@ -0,0 +1,27 @@
+import { KeyValueStorage, readJson, writeJson } from '../../services/storage';
+import { EventJournal } from '../../services/journal/eventJournal';
+import { IWeightSession, IWeightSessionSummary } from './sessionsSlice.contracts';
+
+// The index holds every summary, samples are stored per session so the history loads fast
+const SESSION_INDEX_KEY = '@weightSessions/index';
+const sessionKey = (id: string) => `@weightSessions/${id}`;
+
+export const readSessionIndex = (storage: KeyValueStorage, journal: EventJournal) =>
+    readJson<Array<IWeightSessionSummary>>(storage, SESSION_INDEX_KEY, [], journal);
+
+export const readStoredSession = (storage: KeyValueStorage, journal: EventJournal, id: string) =>
+    readJson<IWeightSession | null>(storage, sessionKey(id), null, journal);
+
+// Samples first, so the index never points at a session that was not written
+export const writeStoredSession = async (storage: KeyValueStorage, journal: EventJournal, session: IWeightSession) => {
+    const { samples, ...summary } = session;
+    await writeJson(storage, sessionKey(session.id), session);
+    const index = await readSessionIndex(storage, journal);
+    await writeJson(storage, SESSION_INDEX_KEY, [summary, ...index.filter(existing => existing.id !== session.id)]);
+};
+
+export const removeStoredSession = async (storage: KeyValueStorage, journal: EventJournal, id: string) => {
+    const index = await readSessionIndex(storage, journal);
+    await writeJson(storage, SESSION_INDEX_KEY, index.filter(existing => existing.id !== id));
+    await storage.removeItem(sessionKey(id));
+};
@@ -0,0 +1,66 @@
+import { NetworkState } from '../ble/bleSlice.contracts';
+import type { ILinkStats } from '../diagnostics/diagnosticsSlice.contracts';
+
+export interface ISessionSample {
+    // Epoch ms
+    t: number;
+    // Grams
+    weight: number;
+    // Device reading before conversion, missing for sessions recorded before it was kept
+    raw: number | null;
+}
+
+export interface ISessionStats {
+    durationMs: number;
+    count: number;
+    // Null for a session without samples
+    min: number | null;
+    max: number | null;
+    mean: number | null;
+}
+
+export interface IWeightSessionSummary {
+    id: string;
+    deviceId: string;
+    deviceName: string | null;
+    startedAt: number;
+    endedAt: number;
+    stats: ISessionStats;
+    // Missing for sessions recorded before it was kept and ones imported without it
+    link?: ILinkStats;
+}
+
+export interface IWeightSession extends IWeightSessionSummary {
+    samples: Array<ISessionSample>;
+}
+
+export interface IActiveRecording {
+    id: string;
+    deviceId: string;
+    deviceName: string | null;
+    startedAt: number;
+    // The samples themselves are in `recordingSamples.ts`
+    sampleCount: number;
+    lastSampleAt: number | null;
+    // While `stopRecording` saves it. A recording that could not be saved keeps running with its samples.
+    isSaving: boolean;
+}
+
+export interface startRecordingParams {
+    deviceId: string;
+    deviceName: string | null;
+    startedAt: number;
+}
+
+export interface sessionIdParams {
+    id: string;
+}
+
+export interface sessionsSliceInterface {
+    // At most one recording per device
+    recordings: { [deviceId: string]: IActiveRecording };
+    // Saved sessions, newest first. Samples stay in storage until needed.
+    sessions: Array<IWeightSessionSummary>;
+    loadStatus: NetworkState;
+    error: string;
+}
@@ -0,0 +1,73 @@
+import { MemoryBleTransport } from '../../services/ble';
+import { KeyValueStorage } from '../../services/storage';
+import { AppStore, createAppStore, createAppTransport } from '../store';
+import { weightSampleReceived } from '../weight/weightSlice';
+import { loadSession, startRecording, stopRecording } from './sessionsSlice';
+
+const SCALE_ID = 'AA:BB:CC:DD:EE:01';
+
+// Storage that fails writes while `isFull` is set
+const createStorage = () => {
+    const items = new Map<string, string>();
+    const storage = {
+        isFull: false,
+        getItem: async (key: string) => items.get(key) ?? null,
+        setItem: async (key: string, value: string) => {
+            if (storage.isFull) throw new Error('Disk full');
+            items.set(key, value);
+        },
+        removeItem: async (key: string) => {
+            items.delete(key);
+        },
+    };
+    return storage;
+};
+
+let stores: Array<AppStore> = [];
+
+// Stops the listeners and the queue's timers, so nothing runs after the test
+afterEach(() => {
+    stores.forEach(store => store.dispose());
+    stores = [];
+});
+
+const setup = () => {
+    const storage = createStorage();
+    const store = createAppStore(createAppTransport(new MemoryBleTransport()), storage as KeyValueStorage);
+    stores.push(store);
+    const recording = () => store.getState().sessions.recordings[SCALE_ID];
+    const receive = (weight: number) => store.dispatch(weightSampleReceived({
+        sample: { deviceId: SCALE_ID, weight, unfiltered: weight, uncalibrated: weight, isStable: true, raw: weight, receivedAt: Date.now() },
+    }));
+    store.dispatch(startRecording({ deviceId: SCALE_ID, deviceName: 'BLE_SERVER', startedAt: Date.now() }));
+    return { storage, store, recording, receive };
+};
+
+it('counts the samples in the store and saves them all', async () => {
+    const { store, recording, receive } = setup();
+    [10, 20, 30].forEach(receive);
+    expect(recording().sampleCount).toBe(3);
+
+    const summary = await store.dispatch(stopRecording({ deviceId: SCALE_ID })).unwrap();
+
+    expect(recording()).toBeUndefined();
+    const session = await store.dispatch(loadSession({ id: summary.id })).unwrap();
+    expect(session.samples.map(sample => sample.weight)).toEqual([10, 20, 30]);
+    expect(session.stats.mean).toBe(20);
+});
+
+it('keeps recording when the session cannot be saved', async () => {
+    const { storage, store, recording, receive } = setup();
+    [10, 20].forEach(receive);
+    storage.isFull = true;
+
+    await expect(store.dispatch(stopRecording({ deviceId: SCALE_ID })).unwrap()).rejects.toMatchObject({ message: 'Session could not be saved: Disk full' });
+    expect(recording()).toMatchObject({ sampleCount: 2, isSaving: false });
+
+    receive(30);
+    storage.isFull = false;
+    const summary = await store.dispatch(stopRecording({ deviceId: SCALE_ID })).unwrap();
+
+    const session = await store.dispatch(loadSession({ id: summary.id })).unwrap();
+    expect(session.samples.map(sample => sample.weight)).toEqual([10, 20, 30]);
+});
@@ -0,0 +1,155 @@
+import { createAsyncThunk, createSlice } from '@reduxjs/toolkit';
+import { AppThunkConfig, RootState } from '../store';
+import { NetworkState } from '../ble/bleSlice.contracts';
+import { weightSampleReceived } from '../weight/weightSlice';
+import { IWeightSession, IWeightSessionSummary, sessionIdParams, sessionsSliceInterface } from './sessionsSlice.contracts';
+import { sessionStats } from './sessionStats';
+import { toLinkStats } from '../diagnostics/linkStats';
+import { sessionFromJson } from '../../services/export/sessionExport';
+import { readSessionIndex, readStoredSession, removeStoredSession, writeStoredSession } from './sessionStorage';
+import { clearRecordingSamples, recordingSamples } from './recordingSamples';
+import { errorMessage } from '../../utils/errors';
+
+export const loadSessions = createAsyncThunk<Array<IWeightSessionSummary>, void, AppThunkConfig>('sessions/loadSessions', async (_, thunkAPI) => {
+    try {
+        return await readSessionIndex(thunkAPI.extra.storage, thunkAPI.extra.journal);
+    } catch (error: any) {
+        throw new Error(errorMessage(error));
+    }
+});
+
+// Saves the device's recording with its stats and the link quality while it ran, then ends it.
+// When saving fails the recording goes on with every sample, so stopping again can still save it.
+export const stopRecording = createAsyncThunk<IWeightSessionSummary, { deviceId: string }, AppThunkConfig>('sessions/stopRecording', async (params, thunkAPI) => {
+    const state = thunkAPI.getState();
+    const { id, deviceId, deviceName, startedAt } = state.sessions.recordings[params.deviceId];
+    const linkStats = state.diagnostics.links[params.deviceId]?.recording;
+    const endedAt = Date.now();
+    const samples = [...recordingSamples(id)];
+    const session: IWeightSession = { id, deviceId, deviceName, startedAt, endedAt, stats: sessionStats(samples, startedAt, endedAt), samples };
+    if (linkStats) {
+        session.link = toLinkStats(linkStats, endedAt, state.ble.connections[params.deviceId]?.mtu ?? null);
+    }
+    try {
+        await writeStoredSession(thunkAPI.extra.storage, thunkAPI.extra.journal, session);
+    } catch (error: any) {
+        throw new Error(`Session could not be saved: ${errorMessage(error)}`);
+    }
+    thunkAPI.dispatch(recordingEnded({ deviceId: params.deviceId }));
+    clearRecordingSamples(id);
+    const { samples: saved, ...summary } = session;
+    return summary;
+}, {
+    condition: ({ deviceId }, { getState }) => {
+        const recording = getState().sessions.recordings[deviceId];
+        return !!recording && !recording.isSaving;
+    },
+});
+
+// Loads a saved session with all of its samples
+export const loadSession = createAsyncThunk<IWeightSession, sessionIdParams, AppThunkConfig>('sessions/loadSession', async (params, thunkAPI) => {
+    const session = await readStoredSession(thunkAPI.extra.storage, thunkAPI.extra.journal, params.id);
+    if (!session) {
+        throw new Error('Session not found');
+    }
+    return session;
+});
+
+// Adds a session from a JSON export (see `sessionExport.ts`) to the history, replacing one with the same id
+export const importSession = createAsyncThunk<IWeightSessionSummary, { json: string }, AppThunkConfig>('sessions/importSession', async (params, thunkAPI) => {
+    const session = sessionFromJson(params.json);
+    try {
+        await writeStoredSession(thunkAPI.extra.storage, thunkAPI.extra.journal, session);
+    } catch (error: any) {
+        throw new Error(`Session could not be saved: ${errorMessage(error)}`);
+    }
+    const { samples, ...summary } = session;
+    return summary;
+});
+
+export const deleteSession = createAsyncThunk<void, sessionIdParams, AppThunkConfig>('sessions/deleteSession', async (params, thunkAPI) => {
+    try {
+        await removeStoredSession(thunkAPI.extra.storage, thunkAPI.extra.journal, params.id);
+    } catch (error: any) {
+        throw new Error(errorMessage(error));
+    }
+});
+
+const initialState: sessionsSliceInterface = {
+    recordings: {},
+    sessions: [],
+    loadStatus: NetworkState.PENDING,
+    error: '',
+};
+
+const sessionsSlice = createSlice({
+    name: 'sessions',
+    initialState,
+    reducers: {
+        startRecording(state, action) {
+            const { deviceId, deviceName, startedAt } = action.payload;
+            if (state.recordings[deviceId]) return;
+            state.recordings[deviceId] = { id: `${startedAt}-${deviceId}`, deviceId, deviceName, startedAt, sampleCount: 0, lastSampleAt: null, isSaving: false };
+        },
+        recordingEnded(state, action) {
+            delete state.recordings[action.payload.deviceId];
+        },
+    },
+    extraReducers(builder) {
+        builder
+            // The sample itself goes to `recordingSamples` in `sessionListeners.ts`
+            .addCase(weightSampleReceived, (state, action) => {
+                const { sample } = action.payload;
+                const recording = state.recordings[sample.deviceId];
+                if (!recording || recording.isSaving) return;
+                recording.sampleCount += 1;
+                recording.lastSampleAt = sample.receivedAt;
+            })
+            .addCase(loadSessions.pending, (state) => {
+                state.loadStatus = NetworkState.LOADING;
+            })
+            .addCase(loadSessions.fulfilled, (state, action) => {
+                state.loadStatus = NetworkState.SUCCESS;
+                state.sessions = [...action.payload].sort((a, b) => b.startedAt - a.startedAt);
+                state.error = '';
+            })
+            .addCase(loadSessions.rejected, (state, action) => {
+                state.loadStatus = NetworkState.ERROR;
+                state.error = action.error.message ?? '';
+            })
+            .addCase(stopRecording.pending, (state, action) => {
+                const recording = state.recordings[action.meta.arg.deviceId];
+                if (recording) recording.isSaving = true;
+            })
+            .addCase(stopRecording.fulfilled, (state, action) => {
+                state.sessions = [action.payload, ...state.sessions.filter(session => session.id !== action.payload.id)];
+                state.error = '';
+            })
+            .addCase(stopRecording.rejected, (state, action) => {
+                const recording = state.recordings[action.meta.arg.deviceId];
+                if (recording) recording.isSaving = false;
+                state.error = action.error.message ?? '';
+            })
+            .addCase(importSession.fulfilled, (state, action) => {
+                state.sessions = [action.payload, ...state.sessions.filter(session => session.id !== action.payload.id)]
+                    .sort((a, b) => b.startedAt - a.startedAt);
+                state.error = '';
+            })
+            .addCase(deleteSession.fulfilled, (state, action) => {
+                state.sessions = state.sessions.filter(session => session.id !== action.meta.arg.id);
+            })
+            .addCase(deleteSession.rejected, (state, action) => {
+                state.error = action.error.message ?? '';
+            });
+    },
+});
+
+export default sessionsSlice.reducer;
+
+export const { startRecording, recordingEnded } = sessionsSlice.actions;
+
+export const selectSessions = (state: RootState) => state.sessions.sessions;
+export const selectSessionsLoadStatus = (state: RootState) => state.sessions.loadStatus;
+export const selectSessionsError = (state: RootState) => state.sessions.error;
+export const selectRecording = (deviceId?: string) => (state: RootState) =>
+    deviceId ? state.sessions.recordings[deviceId] : undefined;
@@ -1,20 +1,81 @@
 import { configureStore, combineReducers, AnyAction } from '@reduxjs/toolkit';
 
 import bleSlice from './ble/bleSlice';
+import weightSlice from './weight/weightSlice';
+import sessionsSlice from './sessions/sessionsSlice';
+import calibrationSlice from './calibration/calibrationSlice';
+import alertsSlice from './alerts/alertsSlice';
+import commandsSlice from './commands/commandsSlice';
+import knownDevicesSlice from './knownDevices/knownDevicesSlice';
+import firmwareSlice from './firmware/firmwareSlice';
+import gattQueueSlice, { gattOperationsChanged } from './gattQueue/gattQueueSlice';
+import diagnosticsSlice from './diagnostics/diagnosticsSlice';
+import backgroundSlice from './background/backgroundSlice';
+import { createAppListenerMiddleware } from './listenerMiddleware';
+import { BleTransport } from '../services/ble';
+import { QueuedBleTransport } from '../services/ble/queuedBleTransport';
+import { JournalingBleTransport } from '../services/ble/journalingBleTransport';
+import { bleJournal, EventJournal } from '../services/journal/eventJournal';
+import { createJournalMiddleware } from './journal/journalMiddleware';
+import { deviceStorage, KeyValueStorage } from '../services/storage';
+import { AlertNotifier, deviceNotifier } from '../services/notifications';
 
 const combinedReducer = combineReducers({
     ble: bleSlice,
+    weight: weightSlice,
+    sessions: sessionsSlice,
+    calibration: calibrationSlice,
+    alerts: alertsSlice,
+    commands: commandsSlice,
+    knownDevices: knownDevicesSlice,
+    firmware: firmwareSlice,
+    gattQueue: gattQueueSlice,
+    diagnostics: diagnosticsSlice,
+    background: backgroundSlice,
 });
 
 const rootReducer = (state: any, action: AnyAction) => {
     return combinedReducer(state, action);
 };
 
-const store = configureStore({
-    reducer: rootReducer,
-});
+// Passed to every thunk as `thunkAPI.extra`
+export interface ThunkExtra {
+    bleTransport: BleTransport;
+    storage: KeyValueStorage;
+    notifier: AlertNotifier;
+    journal: EventJournal;
+}
+
+/**
+ * The transport the whole app shares: `transport` behind a GATT operation queue, so operations never overlap
+ * on a device, with every radio call below the queue recorded in `journal`. Create it once and give the same
+ * instance to `createAppStore` and to `BleTransportContext`.
+ */
+export const createAppTransport = (transport: BleTransport, journal: EventJournal = bleJournal) =>
+    new QueuedBleTransport(new JournalingBleTransport(transport, journal));
 
-export default store;
+// Thunks and listeners get `bleTransport`, `storage`, `notifier` and `journal` as their `extra`; the store's BLE actions are recorded in `journal` too
+export const createAppStore = (bleTransport: QueuedBleTransport, storage: KeyValueStorage = deviceStorage, notifier: AlertNotifier = deviceNotifier, journal: EventJournal = bleJournal) => {
+    const extra: ThunkExtra = { bleTransport, storage, notifier, journal };
+    const listenerMiddleware = createAppListenerMiddleware(extra);
+    const appStore = configureStore({
+        reducer: rootReducer,
+        middleware: (getDefaultMiddleware) => getDefaultMiddleware({
+            thunk: { extraArgument: extra },
+        }).prepend(listenerMiddleware.middleware).concat(createJournalMiddleware(journal)),
+    });
+    const operationsSubscription = bleTransport.onOperationsChanged(operations => appStore.dispatch(gattOperationsChanged({ operations })));
+    // Cancels the running listeners, e.g. the RSSI polls, and stops the transport's timers. The app's store lives as
+    // long as the app, tests dispose theirs so nothing keeps running after them.
+    const dispose = () => {
+        listenerMiddleware.clearListeners();
+        operationsSubscription.remove();
+        bleTransport.dispose();
+    };
+    return Object.assign(appStore, { dispose });
+};
 
-export type RootState = ReturnType<typeof store.getState>;
-export type AppDispatch = typeof store.dispatch;
+export type AppStore = ReturnType<typeof createAppStore>;
+export type RootState = ReturnType<typeof combinedReducer>;
+export type AppDispatch = AppStore['dispatch'];
+export type AppThunkConfig = { state: RootState; extra: ThunkExtra };
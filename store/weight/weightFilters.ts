@@ -0,0 +1,114 @@
+import { IStabilitySettings, IWeightFilterSettings, WeightFilterStage } from './weightSlice.contracts';
+
+// Returns the filtered value, or null when the sample is rejected
+type FilterFunction = (value: number) => number | null;
+
+const median = (values: Array<number>) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = sorted.length >> 1;
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Keeps the last `size` values
+const slidingWindow = (size: number) => {
+    const values: Array<number> = [];
+    return (value: number) => {
+        values.push(value);
+        if (values.length > Math.max(1, size)) values.shift();
+        return values;
+    };
+};
+
+const createStage = (stage: WeightFilterStage): FilterFunction => {
+    switch (stage.type) {
+        case 'movingAverage': {
+            const window = slidingWindow(stage.window);
+            return value => {
+                const values = window(value);
+                return values.reduce((total, item) => total + item, 0) / values.length;
+            };
+        }
+        case 'exponential': {
+            let smoothed: number | null = null;
+            return value => {
+                smoothed = smoothed === null ? value : stage.alpha * value + (1 - stage.alpha) * smoothed;
+                return smoothed;
+            };
+        }
+        case 'median': {
+            const window = slidingWindow(stage.window);
+            return value => median(window(value));
+        }
+        case 'outlierRejection': {
+            // Rejected values stay in the window, so a real step change is accepted once it fills half of it
+            const window = slidingWindow(stage.window);
+            return value => {
+                const values = window(value);
+                return Math.abs(value - median(values)) > stage.maxDeviation ? null : value;
+            };
+        }
+    }
+};
+
+// Set once the spread of the last `durationMs` of samples stays under the threshold
+class StabilityDetector {
+    private samples: Array<{ t: number, value: number }> = [];
+
+    constructor(private readonly settings: IStabilitySettings) {}
+
+    push(t: number, value: number) {
+        this.samples.push({ t, value });
+        while (this.samples.length > 1 && t - this.samples[1].t >= this.settings.durationMs) {
+            this.samples.shift();
+        }
+        if (this.samples.length < 2 || t - this.samples[0].t < this.settings.durationMs) return false;
+        const mean = this.samples.reduce((total, sample) => total + sample.value, 0) / this.samples.length;
+        const variance = this.samples.reduce((total, sample) => total + Math.pow(sample.value - mean, 2), 0) / this.samples.length;
+        return Math.sqrt(variance) <= this.settings.threshold;
+    }
+}
+
+export class WeightFilterPipeline {
+    readonly settings: IWeightFilterSettings;
+    private readonly stages: Array<FilterFunction>;
+    private readonly stability: StabilityDetector;
+
+    constructor(settings: IWeightFilterSettings) {
+        this.settings = settings;
+        this.stages = settings.stages.map(createStage);
+        this.stability = new StabilityDetector(settings.stability);
+    }
+
+    // Null when a stage rejected the sample
+    push(t: number, value: number): { weight: number, isStable: boolean } | null {
+        let weight: number | null = value;
+        for (const stage of this.stages) {
+            weight = stage(weight);
+            if (weight === null) return null;
+        }
+        return { weight, isStable: this.stability.push(t, weight) };
+    }
+}
+
+// Filter state per device, rebuilt whenever the settings change. Kept out of Redux like the chart history.
+const pipelines = new Map<string, WeightFilterPipeline>();
+
+export const weightFilterPipeline = (deviceId: string, settings: IWeightFilterSettings) => {
+    let pipeline = pipelines.get(deviceId);
+    if (!pipeline || pipeline.settings !== settings) {
+        pipeline = new WeightFilterPipeline(settings);
+        pipelines.set(deviceId, pipeline);
+    }
+    return pipeline;
+};
+
+export const resetWeightFilter = (deviceId: string) => {
+    pipelines.delete(deviceId);
+};
+
+export const defaultFilterStages: { [type in WeightFilterStage['type']]: WeightFilterStage } = {
+    movingAverage: { type: 'movingAverage', window: 5 },
+    exponential: { type: 'exponential', alpha: 0.3 },
+    median: { type: 'median', window: 5 },
+    outlierRejection: { type: 'outlierRejection', window: 9, maxDeviation: 50 },
+};
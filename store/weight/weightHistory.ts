@@ -0,0 +1,26 @@
+import { RingBuffer } from '../../utils/ringBuffer';
+
+export interface IWeightPoint {
+    t: number;
+    // Grams
+    weight: number;
+}
+
+// 10 minutes at 20 Hz, the longest chart window at the fastest rate we have seen from a scale
+export const WEIGHT_HISTORY_CAPACITY = 12000;
+
+// Recent samples per device. Kept out of Redux so charts can read them without a render per notification.
+const histories = new Map<string, RingBuffer<IWeightPoint>>();
+
+export const weightHistory = (deviceId: string) => {
+    let history = histories.get(deviceId);
+    if (!history) {
+        history = new RingBuffer<IWeightPoint>(WEIGHT_HISTORY_CAPACITY);
+        histories.set(deviceId, history);
+    }
+    return history;
+};
+
+export const clearWeightHistory = (deviceId: string) => {
+    histories.get(deviceId)?.clear();
+};
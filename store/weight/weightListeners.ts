@@ -0,0 +1,107 @@
+import bleServices, { ServiceName } from '../../constants/bleServices';
+import { decodeBase64, float32 } from '../../services/ble/codecs';
+import { weightMeasurementToGrams } from '../../services/ble/sigCodecs';
+import { isSameUUID } from '../../utils/uuid';
+import { writeJson } from '../../services/storage';
+import { characteristicValueReceived, removeConnection } from '../ble/bleSlice';
+import { IDeviceConnection, NetworkState } from '../ble/bleSlice.contracts';
+import { hasServiceProfile } from '../ble/characteristicProfiles';
+import type { AppStartListening } from '../listenerMiddleware';
+import type { RootState } from '../store';
+import { WEIGHT_FILTERS_STORAGE_KEY, weightSampleReceived } from './weightSlice';
+import { clearWeightHistory, weightHistory } from './weightHistory';
+import { resetWeightFilter, weightFilterPipeline } from './weightFilters';
+import { IWeightSample } from './weightSlice.contracts';
+import { applyCalibration } from '../calibration/calibration';
+
+const { sample, weightScale } = bleServices;
+const rawLoadCells = float32('le');
+
+// Characteristics that carry a weight: our boards notify the sample service, off-the-shelf scales indicate Weight Measurement
+export const weightCharacteristics: Array<{ service: ServiceName, characteristic: string }> = [
+    { service: 'sample', characteristic: 'loadCells' },
+    { service: 'weightScale', characteristic: 'measurement' },
+];
+
+export const isScale = (connection: IDeviceConnection) =>
+    weightCharacteristics.some(({ service }) => hasServiceProfile(connection, service));
+
+// Grams and the unconverted reading from any characteristic that carries a weight, null for everything else
+export const decodeWeight = (serviceUUID: string, characteristicUUID: string, value: string): { weight: number, raw: number } | null => {
+    if (isSameUUID(serviceUUID, sample.uuid) && isSameUUID(characteristicUUID, sample.characteristics.loadCells.uuid)) {
+        return { weight: decodeBase64(sample.characteristics.loadCells.codec, value), raw: decodeBase64(rawLoadCells, value) };
+    }
+    if (isSameUUID(serviceUUID, weightScale.uuid) && isSameUUID(characteristicUUID, weightScale.characteristics.measurement.uuid)) {
+        const measurement = decodeBase64(weightScale.characteristics.measurement.codec, value);
+        const weight = weightMeasurementToGrams(measurement);
+        return weight === null || measurement.weight === null ? null : { weight, raw: measurement.weight };
+    }
+    return null;
+};
+
+const isLoaded = (state: RootState) =>
+    state.weight.filterSettingsLoadStatus === NetworkState.SUCCESS || state.weight.filterSettingsLoadStatus === NetworkState.ERROR;
+
+// Turns load cell and Weight Measurement notifications into `weightSampleReceived`, so recording does not depend on a mounted
+// screen, keeps every sample in the device's chart history and saves the filter settings
+export const startWeightListeners = (startListening: AppStartListening) => {
+    startListening({
+        actionCreator: characteristicValueReceived,
+        effect: (action, listenerApi) => {
+            const { deviceId, serviceUUID, characteristicUUID, value, receivedAt } = action.payload;
+            if (!value) return;
+            let decoded: { weight: number, raw: number } | null;
+            try {
+                decoded = decodeWeight(serviceUUID, characteristicUUID, value);
+            } catch (error: any) {
+                listenerApi.extra.journal.record({ level: 'warn', category: 'notification', deviceId, message: `Dropping weight: ${error.message}` });
+                return;
+            }
+            if (decoded === null || !isFinite(decoded.weight)) return;
+            // Calibrated and filtered before anything displays or records the sample
+            const state = listenerApi.getState();
+            const calibrated = applyCalibration(state.calibration.profiles[deviceId], decoded.weight);
+            const filtered = weightFilterPipeline(deviceId, state.weight.filterSettings).push(receivedAt, calibrated);
+            if (filtered === null) return;
+            const sample: IWeightSample = {
+                deviceId,
+                weight: filtered.weight,
+                unfiltered: calibrated,
+                uncalibrated: decoded.weight,
+                isStable: filtered.isStable,
+                raw: decoded.raw,
+                receivedAt,
+            };
+            listenerApi.dispatch(weightSampleReceived({ sample }));
+        },
+    });
+
+    startListening({
+        actionCreator: weightSampleReceived,
+        effect: (action) => {
+            const { deviceId, weight, receivedAt } = action.payload.sample;
+            weightHistory(deviceId).push({ t: receivedAt, weight });
+        },
+    });
+    startListening({
+        actionCreator: removeConnection,
+        effect: (action) => {
+            resetWeightFilter(action.payload.id);
+            clearWeightHistory(action.payload.id);
+        },
+    });
+
+    // Also after the stored settings could not be read, the ones changed since are still worth keeping
+    startListening({
+        predicate: (action, currentState, previousState) =>
+            isLoaded(currentState) && isLoaded(previousState)
+            && currentState.weight.filterSettings !== previousState.weight.filterSettings,
+        effect: async (action, listenerApi) => {
+            try {
+                await writeJson(listenerApi.extra.storage, WEIGHT_FILTERS_STORAGE_KEY, listenerApi.getState().weight.filterSettings);
+            } catch (error: any) {
+                listenerApi.extra.journal.record({ level: 'error', category: 'app', message: `Filter settings could not be saved: ${error.message}` });
+            }
+        },
+    });
+};
@@ -0,0 +1,49 @@
+import { NetworkState } from '../ble/bleSlice.contracts';
+
+export interface IWeightSample {
+    deviceId: string;
+    // Grams, after calibration, tare and the filter pipeline
+    weight: number;
+    // Grams after calibration, before filtering
+    unfiltered: number;
+    // Grams as decoded, before calibration
+    uncalibrated: number;
+    isStable: boolean;
+    // The reading as the device sent it, before conversion to grams
+    raw: number;
+    receivedAt: number;
+}
+
+// Filter stages run in order. Windows are counted in samples, deviations in grams.
+export type WeightFilterStage =
+    | { type: 'movingAverage', window: number }
+    | { type: 'exponential', alpha: number }
+    | { type: 'median', window: number }
+    | { type: 'outlierRejection', window: number, maxDeviation: number };
+
+export type WeightFilterType = WeightFilterStage['type'];
+
+// The reading is stable once its standard deviation stays under `threshold` grams for `durationMs`
+export interface IStabilitySettings {
+    threshold: number;
+    durationMs: number;
+}
+
+export interface IWeightFilterSettings {
+    stages: Array<WeightFilterStage>;
+    stability: IStabilitySettings;
+}
+
+export interface IWeightLock {
+    weight: number;
+    lockedAt: number;
+}
+
+export interface weightSliceInterface {
+    // Latest sample per device, whichever profile it came from
+    latestSamples: { [deviceId: string]: IWeightSample };
+    filterSettings: IWeightFilterSettings;
+    filterSettingsLoadStatus: NetworkState;
+    // Stable readings the user held on to, per device
+    locks: { [deviceId: string]: IWeightLock };
+}
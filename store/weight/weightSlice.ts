@@ -0,0 +1,89 @@
+import { createAsyncThunk, createSlice } from '@reduxjs/toolkit';
+import { AppThunkConfig, RootState } from '../store';
+import { removeConnection } from '../ble/bleSlice';
+import { NetworkState } from '../ble/bleSlice.contracts';
+import { readJson } from '../../services/storage';
+import { IWeightFilterSettings, weightSliceInterface } from './weightSlice.contracts';
+
+export const WEIGHT_FILTERS_STORAGE_KEY = '@weightFilters';
+
+// No stages: readings pass through unchanged until filters are configured
+export const defaultFilterSettings: IWeightFilterSettings = {
+    stages: [],
+    stability: {
+        threshold: 2,
+        durationMs: 1000,
+    },
+};
+
+export const loadWeightFilterSettings = createAsyncThunk<IWeightFilterSettings | null, void, AppThunkConfig>('weight/loadWeightFilterSettings', async (_, thunkAPI) => {
+    return readJson<IWeightFilterSettings | null>(thunkAPI.extra.storage, WEIGHT_FILTERS_STORAGE_KEY, null, thunkAPI.extra.journal);
+});
+
+const initialState: weightSliceInterface = {
+    latestSamples: {},
+    filterSettings: defaultFilterSettings,
+    filterSettingsLoadStatus: NetworkState.PENDING,
+    locks: {},
+};
+
+const weightSlice = createSlice({
+    name: 'weight',
+    initialState,
+    reducers: {
+        // Dispatched by the weight listener for every decoded reading, see `weightListeners.ts`
+        weightSampleReceived(state, action) {
+            const { sample } = action.payload;
+            state.latestSamples[sample.deviceId] = sample;
+        },
+        setFilterSettings(state, action) {
+            const { settings } = action.payload;
+            state.filterSettings = {
+                stages: settings.stages ?? state.filterSettings.stages,
+                stability: { ...state.filterSettings.stability, ...settings.stability },
+            };
+        },
+        // Holds the current reading, only once it has settled
+        lockStableWeight(state, action) {
+            const { deviceId } = action.payload;
+            const sample = state.latestSamples[deviceId];
+            if (!sample?.isStable) return;
+            state.locks[deviceId] = { weight: sample.weight, lockedAt: sample.receivedAt };
+        },
+        unlockWeight(state, action) {
+            delete state.locks[action.payload.deviceId];
+        },
+    },
+    extraReducers(builder) {
+        builder
+            .addCase(removeConnection, (state, action) => {
+                delete state.latestSamples[action.payload.id];
+                delete state.locks[action.payload.id];
+            })
+            .addCase(loadWeightFilterSettings.pending, (state) => {
+                state.filterSettingsLoadStatus = NetworkState.LOADING;
+            })
+            .addCase(loadWeightFilterSettings.fulfilled, (state, action) => {
+                state.filterSettingsLoadStatus = NetworkState.SUCCESS;
+                if (!action.payload) return;
+                state.filterSettings = {
+                    stages: action.payload.stages ?? [],
+                    stability: { ...defaultFilterSettings.stability, ...action.payload.stability },
+                };
+            })
+            .addCase(loadWeightFilterSettings.rejected, (state) => {
+                // Unfiltered readings rather than none
+                state.filterSettingsLoadStatus = NetworkState.ERROR;
+            });
+    },
+});
+
+export default weightSlice.reducer;
+
+export const { weightSampleReceived, setFilterSettings, lockStableWeight, unlockWeight } = weightSlice.actions;
+
+export const selectLatestWeightSample = (deviceId?: string) => (state: RootState) =>
+    deviceId ? state.weight.latestSamples[deviceId] : undefined;
+export const selectWeightFilterSettings = (state: RootState) => state.weight.filterSettings;
+export const selectWeightLock = (deviceId?: string) => (state: RootState) =>
+    deviceId ? state.weight.locks[deviceId] : undefined;
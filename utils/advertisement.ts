@@ -0,0 +1,35 @@
+// Signal quality and distance from advertised RSSI and TX power
+
+// RSSI at 1 m when the device does not advertise its TX power, typical for phones and ESP32 boards at 0 dBm
+const DEFAULT_MEASURED_POWER = -59;
+// Path loss exponent: 2 in free space, higher indoors
+const PATH_LOSS_EXPONENT = 2.5;
+// Advertised TX power is at 0 m, the RSSI at 1 m is about 41 dB lower
+const ONE_METRE_LOSS = 41;
+
+export const MAX_SIGNAL_BARS = 4;
+
+// 0 to 4 bars, -55 dBm or better is full strength
+export const signalBars = (rssi: number | null) => {
+    if (rssi === null) return 0;
+    if (rssi >= -55) return 4;
+    if (rssi >= -67) return 3;
+    if (rssi >= -80) return 2;
+    if (rssi >= -90) return 1;
+    return 0;
+};
+
+/**
+ * Log-distance path loss estimate in metres. Only a rough guide: walls, bodies and antenna orientation
+ * easily change the RSSI by 10 dB, which is a factor of 2.5 in distance.
+ */
+export const estimateDistance = (rssi: number | null, txPowerLevel: number | null) => {
+    if (rssi === null || rssi === 0) return null;
+    const measuredPower = txPowerLevel !== null ? txPowerLevel - ONE_METRE_LOSS : DEFAULT_MEASURED_POWER;
+    return Math.pow(10, (measuredPower - rssi) / (10 * PATH_LOSS_EXPONENT));
+};
+
+export const formatDistance = (metres: number | null) => {
+    if (metres === null) return '? m';
+    return metres < 10 ? `~${metres.toFixed(1)} m` : `~${Math.round(metres)} m`;
+};
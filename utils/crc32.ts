@@ -0,0 +1,26 @@
+// CRC-32 (IEEE 802.3, the zlib / esp_rom_crc32_le polynomial), table driven
+const table = (() => {
+    const entries = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        }
+        entries[n] = c >>> 0;
+    }
+    return entries;
+})();
+
+/**
+ * CRC of `bytes[start, end)`. Pass the CRC of the preceding bytes as `previous` to continue a running
+ * checksum, so a long image can be verified piece by piece.
+ */
+export const crc32 = (bytes: Uint8Array, start = 0, end = bytes.length, previous = 0) => {
+    let crc = (previous ^ 0xFFFFFFFF) >>> 0;
+    for (let i = start; i < end; i++) {
+        crc = table[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+export const formatCrc32 = (crc: number) => `0x${crc.toString(16).toUpperCase().padStart(8, '0')}`;
@@ -0,0 +1,6 @@
+// The message of whatever a native module, a promise or a thunk threw
+export const errorMessage = (error: unknown) => {
+    const message = (error as { message?: unknown } | null | undefined)?.message;
+    if (typeof message === 'string' && message) return message;
+    return (error != null && String(error)) || 'Unknown error';
+};
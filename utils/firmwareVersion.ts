@@ -0,0 +1,20 @@
+// Numeric parts of a version like `v1.2.3-rc1` or `1.2 (build 7)`, null when there are none
+const versionParts = (version: string) => {
+    const match = version.trim().match(/\d+(\.\d+)*/);
+    return match ? match[0].split('.').map(part => parseInt(part, 10)) : null;
+};
+
+/**
+ * Negative when `a` is older than `b`, 0 when equal, positive when newer. Missing parts count as 0, so
+ * 1.2 equals 1.2.0. Null when either version has no number in it.
+ */
+export const compareVersions = (a: string, b: string) => {
+    const left = versionParts(a);
+    const right = versionParts(b);
+    if (!left || !right) return null;
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        const difference = (left[i] ?? 0) - (right[i] ?? 0);
+        if (difference !== 0) return difference;
+    }
+    return 0;
+};
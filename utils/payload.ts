@@ -0,0 +1,52 @@
+import { Buffer } from 'buffer';
+
+// Formats a payload can be typed in on the GATT explorer
+export type PayloadFormat = 'hex' | 'utf8' | 'number';
+export type PayloadNumberType = 'uint8' | 'int8' | 'uint16' | 'int16' | 'uint32' | 'int32' | 'float32';
+
+export const payloadNumberTypes: Array<PayloadNumberType> = ['uint8', 'int8', 'uint16', 'int16', 'uint32', 'int32', 'float32'];
+
+export const base64ToHex = (value: string | null) =>
+    value ? Buffer.from(value, 'base64').toString('hex').replace(/(..)(?!$)/g, '$1 ').toUpperCase() : '';
+
+export const base64ToUtf8 = (value: string | null) =>
+    value ? Buffer.from(value, 'base64').toString('utf8') : '';
+
+export const hexToBase64 = (hex: string) => {
+    const digits = hex.replace(/0x/gi, '').replace(/[\s:,-]/g, '');
+    if (digits.length % 2 !== 0 || /[^0-9a-f]/i.test(digits)) {
+        throw new Error('Hex payload must be whole bytes (0-9, A-F)');
+    }
+    return Buffer.from(digits, 'hex').toString('base64');
+};
+
+// Little endian, as the ESP32 firmware writes its values
+const encodeNumber = (text: string, type: PayloadNumberType) => {
+    const value = Number(text.trim());
+    if (text.trim() === '' || isNaN(value)) {
+        throw new Error(`"${text}" is not a number`);
+    }
+    const buffer = Buffer.alloc(type === 'uint8' || type === 'int8' ? 1 : type === 'uint16' || type === 'int16' ? 2 : 4);
+    switch (type) {
+        case 'uint8': buffer.writeUInt8(value); break;
+        case 'int8': buffer.writeInt8(value); break;
+        case 'uint16': buffer.writeUInt16LE(value); break;
+        case 'int16': buffer.writeInt16LE(value); break;
+        case 'uint32': buffer.writeUInt32LE(value); break;
+        case 'int32': buffer.writeInt32LE(value); break;
+        case 'float32': buffer.writeFloatLE(value); break;
+    }
+    return buffer.toString('base64');
+};
+
+// Converts user input to a base64 payload. Throws with a readable message when the input is invalid.
+export const encodePayload = (text: string, format: PayloadFormat, numberType: PayloadNumberType = 'uint8') => {
+    switch (format) {
+        case 'hex':
+            return hexToBase64(text);
+        case 'utf8':
+            return Buffer.from(text, 'utf8').toString('base64');
+        case 'number':
+            return encodeNumber(text, numberType);
+    }
+};
@@ -0,0 +1,77 @@
+// Fixed capacity FIFO that overwrites its oldest item, for high rate data kept outside of React and Redux
+export class RingBuffer<T> {
+    readonly capacity: number;
+    private items: Array<T | undefined>;
+    private start = 0;
+    private length = 0;
+    // Increases with every change, so readers can skip work when nothing was pushed
+    private revision = 0;
+
+    constructor(capacity: number) {
+        if (capacity < 1) {
+            throw new Error('RingBuffer capacity must be at least 1');
+        }
+        this.capacity = capacity;
+        this.items = new Array(capacity);
+    }
+
+    get size() {
+        return this.length;
+    }
+
+    get version() {
+        return this.revision;
+    }
+
+    push(item: T) {
+        const end = (this.start + this.length) % this.capacity;
+        this.items[end] = item;
+        if (this.length < this.capacity) {
+            this.length++;
+        } else {
+            this.start = (this.start + 1) % this.capacity;
+        }
+        this.revision++;
+    }
+
+    clear() {
+        this.items = new Array(this.capacity);
+        this.start = 0;
+        this.length = 0;
+        this.revision++;
+    }
+
+    // Oldest first
+    at(index: number): T | undefined {
+        if (index < 0 || index >= this.length) return undefined;
+        return this.items[(this.start + index) % this.capacity];
+    }
+
+    last(): T | undefined {
+        return this.at(this.length - 1);
+    }
+
+    toArray(): Array<T> {
+        const result: Array<T> = [];
+        for (let index = 0; index < this.length; index++) {
+            result.push(this.items[(this.start + index) % this.capacity] as T);
+        }
+        return result;
+    }
+
+    // Items from the first one `isInRange` accepts to the newest, assuming the buffer is ordered by that predicate
+    tailFrom(isInRange: (item: T) => boolean): Array<T> {
+        let low = 0;
+        let high = this.length;
+        while (low < high) {
+            const middle = (low + high) >> 1;
+            if (isInRange(this.at(middle) as T)) high = middle;
+            else low = middle + 1;
+        }
+        const result: Array<T> = [];
+        for (let index = low; index < this.length; index++) {
+            result.push(this.at(index) as T);
+        }
+        return result;
+    }
+}
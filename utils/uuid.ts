@@ -0,0 +1,21 @@
+// 16 and 32 bit Bluetooth SIG UUIDs are aliases of xxxxxxxx-0000-1000-8000-00805f9b34fb
+const BASE_UUID_SUFFIX = '-0000-1000-8000-00805f9b34fb';
+
+// Expands a 16 or 32 bit alias to the full 128 bit, lower case UUID
+export const fullUUID = (uuid: string) => {
+    const normalized = uuid.toLowerCase().replace(/^0x/, '');
+    if (normalized.length === 4) return `0000${normalized}${BASE_UUID_SUFFIX}`;
+    if (normalized.length === 8) return `${normalized}${BASE_UUID_SUFFIX}`;
+    return normalized;
+};
+
+export const isSameUUID = (a: string, b: string) => fullUUID(a) === fullUUID(b);
+
+// Shows SIG UUIDs as their 16 bit alias and leaves custom UUIDs alone
+export const shortUUID = (uuid: string) => {
+    const normalized = fullUUID(uuid);
+    if (normalized.endsWith(BASE_UUID_SUFFIX) && normalized.startsWith('0000')) {
+        return `0x${normalized.substring(4, 8).toUpperCase()}`;
+    }
+    return normalized;
+};
@@ -0,0 +1,17 @@
+export type WeightUnit = 'g' | 'kg' | 'lb' | 'oz';
+
+export const weightUnits: Array<WeightUnit> = ['g', 'kg', 'lb', 'oz'];
+
+const gramsPer: { [unit in WeightUnit]: number } = {
+    g: 1,
+    kg: 1000,
+    lb: 453.59237,
+    oz: 28.349523125,
+};
+
+export const convertWeight = (grams: number, unit: WeightUnit) => grams / gramsPer[unit];
+
+export const toGrams = (value: number, unit: WeightUnit) => value * gramsPer[unit];
+
+export const formatWeight = (grams: number | null, unit: WeightUnit, precision: number) =>
+    grams === null ? '-' : `${convertWeight(grams, unit).toFixed(precision)}${unit}`;